@@ -0,0 +1,253 @@
+// Load the curriculum catalogue in supabase/curriculum/*.json into the curriculum tables.
+//
+// Usage:
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run seed:curriculum
+//   npm run seed:curriculum -- --dry-run    (check the files without touching the database)
+//
+// Each file holds one grade. A subject, or the whole file, can be narrowed to a board and/or a
+// subject group. Reloading a file updates every subject it lists in place: chapters and topics are
+// matched by title, so renaming a topic starts its students' progress on it afresh.
+//
+// A topic is either its title or { "title", "lesson", "minutes" }, where "lesson" is a Markdown file
+// under supabase/curriculum/lessons/. Lessons can embed a video with a fenced ```video block holding
+// its URL, and a check question with a fenced ```check block holding
+// { "question", "options", "answer" (index of the right option), "explanation" }.
+
+import { readdir, readFile } from 'node:fs/promises'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { createClient } from '@supabase/supabase-js'
+
+const CURRICULUM_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../supabase/curriculum')
+
+const isNonEmptyString = (value) => typeof value === 'string' && value.trim().length > 0
+
+const checkBlockPattern = /```check\n([\s\S]*?)```/g
+
+// Make sure every check question in a lesson parses, so students never see a broken one
+const validateLesson = (where, content) => {
+  for (const [, source] of content.matchAll(checkBlockPattern)) {
+    let check
+    try {
+      check = JSON.parse(source)
+    } catch (error) {
+      throw new Error(`${where}: check question is not valid JSON (${error.message})`)
+    }
+    const validAnswer = Number.isInteger(check.answer) && check.answer >= 0 && check.answer < (check.options?.length || 0)
+    if (!isNonEmptyString(check.question) || !Array.isArray(check.options) || check.options.length < 2 || !validAnswer) {
+      throw new Error(`${where}: check questions need a question, at least two options and the index of the answer`)
+    }
+  }
+}
+
+// Topics are plain titles, or objects that also point at a lesson file
+const readTopic = async (fail, where, topic) => {
+  if (isNonEmptyString(topic)) return { title: topic.trim() }
+  if (!topic || !isNonEmptyString(topic.title)) fail(`${where} needs a title`)
+  if (topic.lesson === undefined) return { title: topic.title.trim() }
+
+  if (!isNonEmptyString(topic.lesson)) fail(`${where}.lesson must be a file name`)
+  if (topic.minutes !== undefined && !(Number.isInteger(topic.minutes) && topic.minutes > 0)) {
+    fail(`${where}.minutes must be a whole number of minutes`)
+  }
+
+  let content
+  try {
+    content = await readFile(path.join(CURRICULUM_DIR, topic.lesson), 'utf8')
+  } catch {
+    fail(`${where}.lesson: cannot read ${topic.lesson}`)
+  }
+  validateLesson(topic.lesson, content)
+
+  return {
+    title: topic.title.trim(),
+    lesson: { content: content.trim(), estimated_minutes: topic.minutes || 10 }
+  }
+}
+
+// Check a catalogue file and flatten it into one entry per subject
+const readCatalogue = async (fileName, catalogue) => {
+  const fail = (message) => {
+    throw new Error(`${fileName}: ${message}`)
+  }
+
+  if (!isNonEmptyString(catalogue.grade)) fail('"grade" is required')
+  if (!Array.isArray(catalogue.subjects) || catalogue.subjects.length === 0) fail('"subjects" must be a non-empty array')
+
+  return Promise.all(catalogue.subjects.map(async (entry, subjectIndex) => {
+    const where = `subjects[${subjectIndex}]`
+    if (!isNonEmptyString(entry.subject)) fail(`${where}.subject is required`)
+    if (!Array.isArray(entry.chapters) || entry.chapters.length === 0) fail(`${where}.chapters must be a non-empty array`)
+
+    const chapters = await Promise.all(entry.chapters.map(async (chapter, chapterIndex) => {
+      const chapterWhere = `${where}.chapters[${chapterIndex}]`
+      if (!isNonEmptyString(chapter.title)) fail(`${chapterWhere}.title is required`)
+      if (!Array.isArray(chapter.topics) || chapter.topics.length === 0) fail(`${chapterWhere}.topics must be a non-empty array`)
+      const topics = await Promise.all(
+        chapter.topics.map((topic, topicIndex) => readTopic(fail, `${chapterWhere}.topics[${topicIndex}]`, topic))
+      )
+      if (new Set(topics.map(topic => topic.title)).size < topics.length) fail(`${chapterWhere} lists a topic twice`)
+      return { title: chapter.title.trim(), topics }
+    }))
+    if (new Set(chapters.map(chapter => chapter.title)).size < chapters.length) fail(`${where} lists a chapter twice`)
+
+    return {
+      grade: catalogue.grade,
+      board: entry.board ?? catalogue.board ?? null,
+      subject_group: entry.subject_group ?? catalogue.subject_group ?? null,
+      subject: entry.subject.trim(),
+      chapters
+    }
+  }))
+}
+
+const loadFiles = async () => {
+  const fileNames = (await readdir(CURRICULUM_DIR)).filter(name => name.endsWith('.json')).sort()
+  const subjects = []
+
+  for (const fileName of fileNames) {
+    const raw = await readFile(path.join(CURRICULUM_DIR, fileName), 'utf8')
+    let catalogue
+    try {
+      catalogue = JSON.parse(raw)
+    } catch (error) {
+      throw new Error(`${fileName}: invalid JSON (${error.message})`)
+    }
+    subjects.push(...await readCatalogue(fileName, catalogue))
+  }
+
+  // The same syllabus key twice would silently overwrite itself
+  const seen = new Set()
+  subjects.forEach(({ grade, board, subject_group, subject }) => {
+    const key = [grade, board, subject_group, subject].join('|')
+    if (seen.has(key)) throw new Error(`Duplicate syllabus for ${subject} (${grade}, board: ${board || 'any'}, group: ${subject_group || 'any'})`)
+    seen.add(key)
+  })
+
+  return { fileNames, subjects }
+}
+
+// Bring a subject's chapters (or a chapter's topics) in line with the file, matching rows by title.
+// Matched rows keep their ids so students' topic progress survives a reload; rows no longer in the
+// file are deleted. Returns the id of every row, by title.
+const syncRows = async (supabase, table, parentColumn, parentId, titles) => {
+  const { data: existing, error } = await supabase.from(table).select('id, title').eq(parentColumn, parentId)
+  if (error) throw error
+
+  const unmatched = new Map(existing.map(row => [row.title, row.id]))
+  const kept = []
+  const added = []
+  titles.forEach((title, index) => {
+    const row = { [parentColumn]: parentId, position: index + 1, title }
+    if (unmatched.has(title)) {
+      kept.push({ id: unmatched.get(title), ...row })
+      unmatched.delete(title)
+    } else {
+      added.push(row)
+    }
+  })
+
+  if (unmatched.size > 0) {
+    const { error: deleteError } = await supabase.from(table).delete().in('id', Array.from(unmatched.values()))
+    if (deleteError) throw deleteError
+  }
+  if (kept.length > 0) {
+    const { error: updateError } = await supabase.from(table).upsert(kept)
+    if (updateError) throw updateError
+  }
+
+  const ids = new Map(kept.map(row => [row.title, row.id]))
+  if (added.length > 0) {
+    const { data, error: insertError } = await supabase.from(table).insert(added).select('id, title')
+    if (insertError) throw insertError
+    data.forEach(row => ids.set(row.title, row.id))
+  }
+  return ids
+}
+
+// Find or create the subject row, then sync its chapters, topics and lessons
+const seedSubject = async (supabase, entry) => {
+  let query = supabase
+    .from('curriculum_subjects')
+    .select('id')
+    .eq('grade', entry.grade)
+    .eq('subject', entry.subject)
+  query = entry.board ? query.eq('board', entry.board) : query.is('board', null)
+  query = entry.subject_group ? query.eq('subject_group', entry.subject_group) : query.is('subject_group', null)
+
+  const { data: existing, error: findError } = await query.maybeSingle()
+  if (findError) throw findError
+
+  let subjectId = existing?.id
+  if (!subjectId) {
+    const { data, error } = await supabase
+      .from('curriculum_subjects')
+      .insert({ grade: entry.grade, board: entry.board, subject_group: entry.subject_group, subject: entry.subject })
+      .select('id')
+      .single()
+    if (error) throw error
+    subjectId = data.id
+  }
+
+  const chapterIds = await syncRows(supabase, 'curriculum_chapters', 'subject_id', subjectId, entry.chapters.map(chapter => chapter.title))
+
+  let topicCount = 0
+  const lessons = []
+  const topicsWithoutLesson = []
+  for (const chapter of entry.chapters) {
+    const topicIds = await syncRows(supabase, 'curriculum_topics', 'chapter_id', chapterIds.get(chapter.title), chapter.topics.map(topic => topic.title))
+    topicCount += chapter.topics.length
+    chapter.topics.forEach(topic => {
+      const topicId = topicIds.get(topic.title)
+      if (topic.lesson) {
+        lessons.push({ topic_id: topicId, ...topic.lesson })
+      } else {
+        topicsWithoutLesson.push(topicId)
+      }
+    })
+  }
+
+  if (lessons.length > 0) {
+    const { error } = await supabase.from('curriculum_lessons').upsert(lessons, { onConflict: 'topic_id' })
+    if (error) throw error
+  }
+  if (topicsWithoutLesson.length > 0) {
+    const { error } = await supabase.from('curriculum_lessons').delete().in('topic_id', topicsWithoutLesson)
+    if (error) throw error
+  }
+
+  return { topics: topicCount, lessons: lessons.length }
+}
+
+const main = async () => {
+  const dryRun = process.argv.includes('--dry-run')
+  const { fileNames, subjects } = await loadFiles()
+  const topicList = subjects.flatMap(entry => entry.chapters.flatMap(chapter => chapter.topics))
+  const lessonCount = topicList.filter(topic => topic.lesson).length
+
+  console.log(`Read ${subjects.length} subjects, ${topicList.length} topics and ${lessonCount} lessons from ${fileNames.length} files`)
+  if (dryRun) return
+
+  const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!url || !serviceRoleKey) {
+    throw new Error('Set SUPABASE_URL (or VITE_SUPABASE_URL) and SUPABASE_SERVICE_ROLE_KEY to load the curriculum')
+  }
+
+  const supabase = createClient(url, serviceRoleKey, { auth: { persistSession: false } })
+
+  for (const entry of subjects) {
+    const loaded = await seedSubject(supabase, entry)
+    const lessons = loaded.lessons > 0 ? `, ${loaded.lessons} lessons` : ''
+    console.log(`  ${entry.grade} • ${entry.subject}${entry.board ? ` • ${entry.board}` : ''}${entry.subject_group ? ` • ${entry.subject_group}` : ''}: ${loaded.topics} topics${lessons}`)
+  }
+
+  const { data: updated, error } = await supabase.rpc('sync_subject_topic_totals')
+  if (error) throw error
+  console.log(`Updated topic totals for ${updated} subject progress rows`)
+}
+
+main().catch(error => {
+  console.error('Curriculum seed failed:', error.message || error)
+  process.exit(1)
+})
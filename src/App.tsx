@@ -2,8 +2,7 @@ import React from 'react'
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom'
 import { AuthProvider } from './contexts/AuthContext'
 import { SupabaseConnectionAlert } from './components/SupabaseConnectionAlert'
-import { AuthRedirect } from './components/AuthRedirect'
-import { ProtectedRoute } from './components/ProtectedRoute'
+import { OnboardingRoute } from './components/OnboardingRoute'
 
 // Import screens
 import { StitchDesign } from './screens/StitchDesign'
@@ -18,11 +17,29 @@ import { TermsOfServicePage } from './screens/TermsOfServicePage'
 // Import auth screens
 import { LoginPage } from './screens/AuthPage/LoginPage'
 import { SignUpPage } from './screens/AuthPage/SignUpPage'
+import { ForgotPasswordPage } from './screens/AuthPage/ForgotPasswordPage'
+import { ResetPasswordPage } from './screens/AuthPage/ResetPasswordPage'
+import { VerifyEmailPage } from './screens/AuthPage/VerifyEmailPage'
+import { AuthCallbackPage } from './screens/AuthPage/AuthCallbackPage'
 import { CompleteProfilePage } from './screens/AuthPage/CompleteProfilePage'
 import { SubjectGroupPage } from './screens/AuthPage/SubjectGroupPage'
 
 // Import dashboard
-import { Dashboard } from './screens/Dashboard'
+import {
+  Dashboard,
+  DashboardOverview,
+  DashboardNotFoundPage,
+  AITutorPage,
+  ProgressPage,
+  StudyMaterialsPage,
+  TestsPage,
+  LessonPage,
+  SettingsPage,
+  ProfileInformationPage,
+  PlanBillingPage,
+  NotificationsPage,
+  AccountActionsPage
+} from './screens/Dashboard'
 
 function App() {
   return (
@@ -42,27 +59,47 @@ function App() {
             <Route path="/terms" element={<TermsOfServicePage />} />
 
             {/* Auth routes */}
-            <Route path="/login" element={<AuthRedirect><LoginPage /></AuthRedirect>} />
-            <Route path="/signup" element={<AuthRedirect><SignUpPage /></AuthRedirect>} />
+            <Route path="/login" element={<OnboardingRoute allow={['signed_out']}><LoginPage /></OnboardingRoute>} />
+            <Route path="/signup" element={<OnboardingRoute allow={['signed_out']}><SignUpPage /></OnboardingRoute>} />
+            <Route path="/forgot-password" element={<OnboardingRoute allow={['signed_out']}><ForgotPasswordPage /></OnboardingRoute>} />
+            {/* The reset link signs the student in, so this page is open at every onboarding step */}
+            <Route path="/reset-password" element={<ResetPasswordPage />} />
+            {/* Confirming in another tab signs this one in too, and the guard moves the inbox screen on */}
+            <Route path="/verify-email" element={<OnboardingRoute allow={['signed_out']}><VerifyEmailPage /></OnboardingRoute>} />
+            {/* The confirmation link signs the student in, so this page sends them on to their onboarding step itself */}
+            <Route path="/auth/callback" element={<AuthCallbackPage />} />
             
-            {/* Protected auth completion routes */}
+            {/* Onboarding routes; students can go back to their profile while choosing a subject group */}
             <Route path="/complete-profile" element={
-              <ProtectedRoute requiresIncompleteProfile>
+              <OnboardingRoute allow={['profile_incomplete', 'subject_group_needed']}>
                 <CompleteProfilePage />
-              </ProtectedRoute>
+              </OnboardingRoute>
             } />
             <Route path="/subject-group" element={
-              <ProtectedRoute requiresProfile requiresNoSubjectGroup>
+              <OnboardingRoute allow={['subject_group_needed']}>
                 <SubjectGroupPage />
-              </ProtectedRoute>
+              </OnboardingRoute>
             } />
 
             {/* Protected dashboard routes */}
-            <Route path="/dashboard/*" element={
-              <ProtectedRoute requiresProfile requiresSubjectGroup>
+            <Route path="/dashboard" element={
+              <OnboardingRoute allow={['ready']}>
                 <Dashboard />
-              </ProtectedRoute>
-            } />
+              </OnboardingRoute>
+            }>
+              <Route index element={<DashboardOverview />} />
+              <Route path="ai-tutor" element={<AITutorPage />} />
+              <Route path="progress" element={<ProgressPage />} />
+              <Route path="materials" element={<StudyMaterialsPage />} />
+              <Route path="tests" element={<TestsPage />} />
+              <Route path="lessons/:subject/:topic" element={<LessonPage />} />
+              <Route path="settings" element={<SettingsPage />} />
+              <Route path="settings/profile" element={<ProfileInformationPage />} />
+              <Route path="settings/billing" element={<PlanBillingPage />} />
+              <Route path="settings/notifications" element={<NotificationsPage />} />
+              <Route path="settings/account" element={<AccountActionsPage />} />
+              <Route path="*" element={<DashboardNotFoundPage />} />
+            </Route>
 
             {/* Catch all route */}
             <Route path="*" element={<Navigate to="/" replace />} />
@@ -0,0 +1,138 @@
+import React, { useMemo, useState } from 'react'
+import ReactMarkdown from 'react-markdown'
+import type { Components } from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import remarkMath from 'remark-math'
+import rehypeKatex from 'rehype-katex'
+import 'katex/dist/katex.min.css'
+import 'katex/contrib/mhchem'
+
+// Renderers for fenced blocks by language, e.g. ```check questions in lessons
+export type FencedBlockRenderers = { [language: string]: (source: string) => React.ReactNode }
+
+interface MessageRendererProps {
+  content: string
+  className?: string
+  blocks?: FencedBlockRenderers
+}
+
+// Matches \ce{...} with up to one level of nested braces, e.g. \ce{H2SO4 ->[\Delta] SO3}
+const chemistryPattern = /\\ce\{(?:[^{}]|\{[^{}]*\})*\}/g
+
+// Fenced code, inline code and existing math spans must be left untouched
+const protectedPattern = /(```[\s\S]*?```|`[^`\n]*`|\$\$[\s\S]*?\$\$|\$[^$\n]+\$)/g
+
+// Convert \( \) and \[ \] delimiters to dollars and wrap bare \ce{} so remark-math picks them up
+const prepareMath = (source: string): string =>
+  source
+    .split(protectedPattern)
+    .map((segment, index) => {
+      // split() with a capture group puts protected segments at odd indexes
+      if (index % 2 === 1) return segment
+      return segment
+        .replace(/\\\[([\s\S]*?)\\\]/g, (_, math) => `\n$$\n${math.trim()}\n$$\n`)
+        .replace(/\\\(([\s\S]*?)\\\)/g, (_, math) => `$${math.trim()}$`)
+        .replace(chemistryPattern, (match) => `$${match}$`)
+    })
+    .join('')
+
+const CodeBlock: React.FC<{ code: string; language?: string }> = ({ code, language }) => {
+  const [copied, setCopied] = useState(false)
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      console.error('Copy to clipboard failed:', error)
+    }
+  }
+
+  return (
+    <div className="my-2 rounded-lg border border-[#3d4f5b] bg-[#0b1014] overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1 border-b border-[#3d4f5b] text-[#9eafbf] text-xs">
+        <span>{language || 'code'}</span>
+        <button onClick={handleCopy} className="hover:text-white transition-colors">
+          {copied ? '✓ Copied' : '📋 Copy'}
+        </button>
+      </div>
+      <pre className="p-3 overflow-x-auto text-xs leading-relaxed">
+        <code>{code}</code>
+      </pre>
+    </div>
+  )
+}
+
+const markdownComponents: Components = {
+  // Code blocks are rendered by the `code` handler below
+  pre: ({ children }) => <>{children}</>,
+  code: ({ className, children }) => {
+    const language = /language-(\w+)/.exec(className || '')?.[1]
+    const code = String(children).replace(/\n$/, '')
+    const isBlock = Boolean(language) || code.includes('\n')
+
+    if (isBlock) {
+      return <CodeBlock code={code} language={language} />
+    }
+    return (
+      <code className="px-1 py-0.5 rounded bg-black/30 text-[0.85em]">{children}</code>
+    )
+  },
+  img: ({ src, alt }) => (
+    <img src={src} alt={alt || ''} loading="lazy" className="my-2 max-w-full rounded-lg border border-[#3d4f5b]" />
+  ),
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-[#8cc4ea] underline">
+      {children}
+    </a>
+  ),
+  p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+  ul: ({ children }) => <ul className="list-disc pl-5 mb-2 space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-5 mb-2 space-y-1">{children}</ol>,
+  h1: ({ children }) => <h3 className="font-bold text-base mb-2">{children}</h3>,
+  h2: ({ children }) => <h4 className="font-bold text-base mb-2">{children}</h4>,
+  h3: ({ children }) => <h5 className="font-bold mb-1">{children}</h5>,
+  blockquote: ({ children }) => (
+    <blockquote className="border-l-2 border-[#3f8cbf] pl-3 my-2 opacity-90">{children}</blockquote>
+  ),
+  table: ({ children }) => (
+    <div className="my-2 overflow-x-auto">
+      <table className="min-w-full text-xs border border-[#3d4f5b]">{children}</table>
+    </div>
+  ),
+  th: ({ children }) => <th className="border border-[#3d4f5b] px-2 py-1 text-left font-bold">{children}</th>,
+  td: ({ children }) => <td className="border border-[#3d4f5b] px-2 py-1">{children}</td>
+}
+
+// Renders tutor output and lessons as Markdown with LaTeX and \ce{} chemistry. Raw HTML is never rendered.
+export const MessageRenderer: React.FC<MessageRendererProps> = ({ content, className, blocks }) => {
+  const components = useMemo<Components>(() => {
+    if (!blocks) return markdownComponents
+    const CodeHandler = markdownComponents.code as React.FC<{ className?: string; children?: React.ReactNode }>
+
+    return {
+      ...markdownComponents,
+      code: ({ className: codeClassName, children }) => {
+        const language = /language-(\w+)/.exec(codeClassName || '')?.[1]
+        const renderBlock = language ? blocks[language] : undefined
+        if (renderBlock) {
+          return <>{renderBlock(String(children).replace(/\n$/, ''))}</>
+        }
+        return <CodeHandler className={codeClassName}>{children}</CodeHandler>
+      }
+    }
+  }, [blocks])
+
+  return (
+    <div className={`[font-family:'Lexend',Helvetica] text-sm leading-relaxed break-words ${className || ''}`}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[[rehypeKatex, { throwOnError: false, strict: false }]]}
+        components={components}
+      >
+        {prepareMath(content)}
+      </ReactMarkdown>
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+import React from 'react'
+import { Navigate, useLocation } from 'react-router-dom'
+import { useAuth } from '../contexts/AuthContext'
+import { onboardingPaths } from '../lib/onboarding'
+import type { OnboardingStep } from '../lib/onboarding'
+
+interface OnboardingRouteProps {
+  children: React.ReactNode
+  // The onboarding steps this route is for; students at any other step are sent to the page for theirs
+  allow: Exclude<OnboardingStep, 'loading'>[]
+}
+
+interface RedirectState {
+  from?: string
+}
+
+export const OnboardingRoute: React.FC<OnboardingRouteProps> = ({ children, allow }) => {
+  const { onboardingStep } = useAuth()
+  const location = useLocation()
+
+  if (onboardingStep === 'loading') {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-[#0f1419]">
+        <div className="flex flex-col items-center gap-4">
+          <div className="w-8 h-8 border-4 border-[#3f8cbf] border-t-transparent rounded-full animate-spin"></div>
+          <p className="text-white [font-family:'Lexend',Helvetica]">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (allow.includes(onboardingStep)) {
+    return <>{children}</>
+  }
+
+  // Remember the dashboard page a signed-out student asked for, and take them back there once they are set up
+  if (onboardingStep === 'signed_out') {
+    return <Navigate to={onboardingPaths.signed_out} replace state={{ from: location.pathname + location.search }} />
+  }
+
+  const from = (location.state as RedirectState | null)?.from
+  if (onboardingStep === 'ready' && from?.startsWith(onboardingPaths.ready)) {
+    return <Navigate to={from} replace />
+  }
+
+  return <Navigate to={onboardingPaths[onboardingStep]} replace state={location.state} />
+}
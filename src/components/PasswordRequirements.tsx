@@ -0,0 +1,20 @@
+import React from 'react'
+import { PASSWORD_RULES } from '../lib/passwordPolicy'
+
+// A checklist that ticks off each password rule as the student types
+export const PasswordRequirements: React.FC<{ password: string }> = ({ password }) => (
+  <ul className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+    {PASSWORD_RULES.map((rule) => {
+      const passed = rule.test(password)
+      return (
+        <li
+          key={rule.label}
+          className={`[font-family:'Lexend',Helvetica] text-xs flex items-center gap-2 ${passed ? 'text-green-400' : 'theme-text-muted'}`}
+        >
+          <span aria-hidden="true">{passed ? '✓' : '○'}</span>
+          {rule.label}
+        </li>
+      )
+    })}
+  </ul>
+)
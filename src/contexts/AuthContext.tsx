@@ -3,27 +3,36 @@ import { User, Session } from '@supabase/supabase-js'
 import { AuthService } from '../services/authService'
 import { ProgressService } from '../services/progressService'
 import { SubjectGroupService } from '../services/subjectGroupService'
+import { UsageQuotaService } from '../services/usageQuotaService'
+import type { TutorQuota } from '../services/usageQuotaService'
 import type { UserProfile, UserProgressStats, SubjectProgress } from '../lib/supabase'
+import { getOnboardingStep } from '../lib/onboarding'
+import type { OnboardingStep } from '../lib/onboarding'
 
 interface AuthContextType {
   user: User | null
   profile: UserProfile | null
   progressStats: UserProgressStats | null
   subjectProgress: SubjectProgress[]
+  tutorQuota: TutorQuota | null
   session: Session | null
   loading: boolean
   error: string | null
   isNewUser: boolean
   hasSubjectGroup: boolean
+  onboardingStep: OnboardingStep
   connectionStatus: 'connected' | 'disconnected' | 'checking'
-  signUp: (data: any) => Promise<void>
+  // Resolves to true when the student has to confirm their email before they are signed in
+  signUp: (data: any) => Promise<boolean>
   signIn: (data: any) => Promise<void>
   signOut: () => Promise<void>
   updateProfile: (updates: Partial<UserProfile>, profilePicture?: File) => Promise<void>
   retryProfileLoad: () => Promise<void>
   markProfileCompleted: () => void
-  recordStudySession: (sessionType: 'lesson' | 'test' | 'ai_tutor' | 'materials', subject: string, durationMinutes: number, score?: number) => Promise<void>
+  saveSubjectGroup: (groupId: string) => Promise<void>
+  recordStudySession: (sessionType: 'lesson' | 'test' | 'ai_tutor' | 'materials' | 'flashcards', subject: string, durationMinutes: number, score?: number) => Promise<void>
   refreshProgress: () => Promise<void>
+  startTutorSession: (conversationId: string) => Promise<boolean>
   retryConnection: () => Promise<void>
   dismissError: () => void
 }
@@ -47,11 +56,14 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [profile, setProfile] = useState<UserProfile | null>(null)
   const [progressStats, setProgressStats] = useState<UserProgressStats | null>(null)
   const [subjectProgress, setSubjectProgress] = useState<SubjectProgress[]>([])
+  const [tutorQuota, setTutorQuota] = useState<TutorQuota | null>(null)
   const [session, setSession] = useState<Session | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [isNewUser, setIsNewUser] = useState(false)
   const [hasSubjectGroup, setHasSubjectGroup] = useState(false)
+  // The user whose profile and subject group have been looked up; until then their onboarding step is unknown
+  const [onboardingCheckedFor, setOnboardingCheckedFor] = useState<string | null>(null)
   const [connectionStatus, setConnectionStatus] = useState<'connected' | 'disconnected' | 'checking'>('checking')
 
   const dismissError = () => {
@@ -101,9 +113,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       
       if (currentUser) {
         // Reload profile and progress data
-        await loadUserProfile(currentUser.id)
+        await loadOnboardingState(currentUser.id)
         await loadUserProgress(currentUser.id)
-        await checkSubjectGroupSelection(currentUser.id)
       }
       
       console.log('✅ Connection restored successfully')
@@ -137,6 +148,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       // Load subject progress
       const subjects = await ProgressService.getSubjectProgress(userId)
       setSubjectProgress(subjects)
+
+      // Load tutor usage for the current billing period
+      const quota = await UsageQuotaService.getTutorQuota(userId)
+      setTutorQuota(quota)
       
       console.log('Progress loaded successfully')
     } catch (error) {
@@ -165,7 +180,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   }
 
   const recordStudySession = async (
-    sessionType: 'lesson' | 'test' | 'ai_tutor' | 'materials',
+    sessionType: 'lesson' | 'test' | 'ai_tutor' | 'materials' | 'flashcards',
     subject: string,
     durationMinutes: number,
     score?: number
@@ -182,14 +197,31 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   }
 
+  // Charge a tutor session for this conversation; returns false when the plan's quota is used up
+  const startTutorSession = async (conversationId: string): Promise<boolean> => {
+    if (!user) throw new Error('No user logged in')
+
+    const { allowed, quota } = await UsageQuotaService.startTutorSession(user.id, conversationId)
+    setTutorQuota(quota)
+    return allowed
+  }
+
   const retryProfileLoad = async () => {
     if (user) {
-      await loadUserProfile(user.id)
+      await loadOnboardingState(user.id)
       await loadUserProgress(user.id)
-      await checkSubjectGroupSelection(user.id)
     }
   }
 
+  // Look up what the onboarding step depends on, so guards never act on a half-loaded account
+  const loadOnboardingState = async (userId: string) => {
+    await Promise.all([
+      loadUserProfile(userId),
+      checkSubjectGroupSelection(userId)
+    ])
+    setOnboardingCheckedFor(userId)
+  }
+
   const markProfileCompleted = () => {
     setIsNewUser(false)
     // Clear the flag from localStorage
@@ -229,9 +261,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
             setIsNewUser(isNewUserFlag)
             
             // Load profile, progress, and subject group in background
-            loadUserProfile(currentUser.id).catch(console.error)
+            loadOnboardingState(currentUser.id).catch(console.error)
             loadUserProgress(currentUser.id).catch(console.error)
-            checkSubjectGroupSelection(currentUser.id).catch(console.error)
           }
         } catch (authError) {
           clearTimeout(timeoutId)
@@ -252,6 +283,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           setProfile(null)
           setProgressStats(null)
           setSubjectProgress([])
+          setTutorQuota(null)
           setHasSubjectGroup(false)
           
           handleSupabaseError(error, 'Initial session')
@@ -284,13 +316,13 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
             setIsNewUser(isNewUserFlag)
             
             // Load profile, progress, and subject group asynchronously
-            loadUserProfile(session.user.id).catch(console.error)
+            loadOnboardingState(session.user.id).catch(console.error)
             loadUserProgress(session.user.id).catch(console.error)
-            checkSubjectGroupSelection(session.user.id).catch(console.error)
           } else {
             setProfile(null)
             setProgressStats(null)
             setSubjectProgress([])
+            setTutorQuota(null)
             setIsNewUser(false)
             setHasSubjectGroup(false)
           }
@@ -328,9 +360,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   }, [])
 
+  // Sign up and sign in leave loading alone, so the auth pages stay mounted to show the inbox screen or an error;
+  // a new session comes through the auth state listener
   const signUp = async (data: any) => {
     try {
-      setLoading(true)
       setError(null)
       setConnectionStatus('checking')
       
@@ -338,11 +371,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       localStorage.setItem('isNewUser', 'true')
       setIsNewUser(true)
       
-      await AuthService.signUp(data)
+      const { needsEmailConfirmation } = await AuthService.signUp(data)
       setConnectionStatus('connected')
-      // Don't set loading to false here - let auth state change handle it
+      return needsEmailConfirmation
     } catch (error) {
-      setLoading(false)
       // Clear new user flag on error
       localStorage.removeItem('isNewUser')
       setIsNewUser(false)
@@ -353,7 +385,6 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const signIn = async (data: any) => {
     try {
-      setLoading(true)
       setError(null)
       setConnectionStatus('checking')
       
@@ -363,9 +394,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       
       await AuthService.signIn(data)
       setConnectionStatus('connected')
-      // Don't set loading to false here - let auth state change handle it
     } catch (error) {
-      setLoading(false)
       handleSupabaseError(error, 'Sign in')
       throw error
     }
@@ -385,6 +414,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       setProfile(null)
       setProgressStats(null)
       setSubjectProgress([])
+      setTutorQuota(null)
       setSession(null)
       setHasSubjectGroup(false)
       setConnectionStatus('connected')
@@ -416,8 +446,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       setProfile(updatedProfile)
       setConnectionStatus('connected')
       
-      // If this was a new user completing their profile, initialize progress
-      if (isNewUser) {
+      // If this was a new user completing their profile, initialize progress;
+      // Google and phone sign-ups never set the new user flag, but arrive without a grade
+      if (isNewUser || !profile?.grade) {
         // Initialize progress tracking for new user
         await ProgressService.initializeUserProgress(user.id)
         await ProgressService.initializeSubjects(user.id)
@@ -432,16 +463,35 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   }
 
+  // Save the student's subject group and start tracking progress for its subjects
+  const saveSubjectGroup = async (groupId: string) => {
+    if (!user || !profile) throw new Error('Profile information is missing')
+
+    await SubjectGroupService.saveSubjectGroupSelection(user.id, groupId, profile)
+    setHasSubjectGroup(true)
+    markProfileCompleted()
+    await loadUserProgress(user.id)
+  }
+
+  const onboardingStep = getOnboardingStep({
+    loading: loading || (!!user && onboardingCheckedFor !== user.id),
+    signedIn: !!user,
+    profile,
+    hasSubjectGroup
+  })
+
   const value: AuthContextType = {
     user,
     profile,
     progressStats,
     subjectProgress,
+    tutorQuota,
     session,
     loading,
     error,
     isNewUser,
     hasSubjectGroup,
+    onboardingStep,
     connectionStatus,
     signUp,
     signIn,
@@ -449,8 +499,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     updateProfile,
     retryProfileLoad,
     markProfileCompleted,
+    saveSubjectGroup,
     recordStudySession,
     refreshProgress,
+    startTutorSession,
     retryConnection,
     dismissError,
   }
@@ -0,0 +1,61 @@
+import type { TutorAttachment } from './supabase'
+
+export type ChatMessageStatus = 'streaming' | 'complete' | 'cancelled' | 'error'
+
+export interface ChatMessage {
+  id: string
+  type: 'user' | 'ai'
+  content: string
+  timestamp: Date
+  status: ChatMessageStatus
+  parentId: string | null
+  attachments?: TutorAttachment[]
+}
+
+// Key used for messages that start a conversation
+export const ROOT_KEY = 'root'
+
+const parentKey = (parentId: string | null) => parentId ?? ROOT_KEY
+
+// Messages sharing a parent are alternative branches of the same turn
+export const getSiblings = (messages: ChatMessage[], parentId: string | null): ChatMessage[] =>
+  messages.filter(message => parentKey(message.parentId) === parentKey(parentId))
+
+// Walk from the first message down the selected branch, defaulting to the newest reply
+export const getActiveThread = (
+  messages: ChatMessage[],
+  branchSelection: { [parentKey: string]: string }
+): ChatMessage[] => {
+  const thread: ChatMessage[] = []
+  let parentId: string | null = null
+
+  while (true) {
+    const children = getSiblings(messages, parentId)
+    if (children.length === 0) break
+
+    const selectedId: string | undefined = branchSelection[parentKey(parentId)]
+    const next: ChatMessage = children.find(child => child.id === selectedId) || children[children.length - 1]
+    thread.push(next)
+    parentId = next.id
+  }
+
+  return thread
+}
+
+// Point the branch selection at a message and every ancestor above it
+export const selectBranch = (
+  messages: ChatMessage[],
+  branchSelection: { [parentKey: string]: string },
+  messageId: string
+): { [parentKey: string]: string } => {
+  const selection = { ...branchSelection }
+  let current = messages.find(message => message.id === messageId)
+
+  while (current) {
+    selection[parentKey(current.parentId)] = current.id
+    const parentId: string | null = current.parentId
+    current = parentId ? messages.find(message => message.id === parentId) : undefined
+  }
+
+  return selection
+}
@@ -0,0 +1,320 @@
+import { describe, expect, it } from 'vitest'
+import {
+  gradeMcq,
+  gradeMultiSelect,
+  gradeNumeric,
+  gradeQuestion,
+  gradeShortAnswer,
+  isAnswered,
+  normalizeText,
+  normalizeUnit,
+  parseNumericValue
+} from './grading'
+import type { McqQuestion, MultiSelectQuestion, NumericQuestion, ShortAnswerQuestion } from './questions'
+
+const base = {
+  id: 'q1',
+  test_id: 't1',
+  position: 1,
+  prompt: 'Question',
+  marks: 1,
+  needs_unit: false,
+  created_at: '2025-01-01T00:00:00Z'
+}
+
+const mcq = (changes: Partial<McqQuestion> = {}): McqQuestion => ({
+  ...base,
+  question_type: 'mcq',
+  options: ['A', 'B', 'C', 'D'],
+  answer: { correctIndex: 2 },
+  ...changes
+})
+
+const multiSelect = (answer: MultiSelectQuestion['answer'], marks = 2): MultiSelectQuestion => ({
+  ...base,
+  question_type: 'multi_select',
+  options: ['A', 'B', 'C', 'D', 'E'],
+  answer,
+  marks
+})
+
+const numeric = (answer: NumericQuestion['answer']): NumericQuestion => ({
+  ...base,
+  question_type: 'numeric',
+  options: [],
+  answer,
+  needs_unit: !!answer.unit
+})
+
+const shortAnswer = (answer: ShortAnswerQuestion['answer'], marks = 1): ShortAnswerQuestion => ({
+  ...base,
+  question_type: 'short_answer',
+  options: [],
+  answer,
+  marks
+})
+
+describe('isAnswered', () => {
+  it('treats empty responses as skipped', () => {
+    expect(isAnswered(undefined)).toBe(false)
+    expect(isAnswered(null)).toBe(false)
+    expect(isAnswered([])).toBe(false)
+    expect(isAnswered('   ')).toBe(false)
+    expect(isAnswered({ value: ' ', unit: 'm' })).toBe(false)
+  })
+
+  it('counts any real answer, including option zero', () => {
+    expect(isAnswered(0)).toBe(true)
+    expect(isAnswered([1])).toBe(true)
+    expect(isAnswered('mitochondria')).toBe(true)
+    expect(isAnswered({ value: '9.8', unit: '' })).toBe(true)
+  })
+})
+
+describe('gradeMcq', () => {
+  it('awards full marks for the correct option', () => {
+    expect(gradeMcq(mcq({ marks: 4 }), 2)).toEqual({ questionId: 'q1', isCorrect: true, marksAwarded: 4 })
+  })
+
+  it('awards nothing for a wrong or missing option', () => {
+    expect(gradeMcq(mcq(), 1)).toMatchObject({ isCorrect: false, marksAwarded: 0 })
+    expect(gradeMcq(mcq(), null)).toMatchObject({ isCorrect: false, marksAwarded: 0 })
+    expect(gradeMcq(mcq(), [2])).toMatchObject({ isCorrect: false, marksAwarded: 0 })
+  })
+})
+
+describe('gradeMultiSelect', () => {
+  const partial = multiSelect({ correctIndexes: [0, 2, 3], partialCredit: true }, 3)
+
+  it('awards full marks for exactly the correct options in any order', () => {
+    expect(gradeMultiSelect(partial, [3, 0, 2])).toEqual({ questionId: 'q1', isCorrect: true, marksAwarded: 3 })
+  })
+
+  it('gives partial credit for missed options', () => {
+    expect(gradeMultiSelect(partial, [0, 2])).toEqual({
+      questionId: 'q1',
+      isCorrect: false,
+      marksAwarded: 2,
+      feedback: 'Some correct options were missed.'
+    })
+  })
+
+  it('lets wrong picks cancel right ones', () => {
+    expect(gradeMultiSelect(partial, [0, 2, 1])).toMatchObject({
+      isCorrect: false,
+      marksAwarded: 1,
+      feedback: 'Incorrect choices cancel out correct ones.'
+    })
+    expect(gradeMultiSelect(partial, [0, 1, 4])).toMatchObject({ marksAwarded: 0 })
+  })
+
+  it('never goes below zero', () => {
+    expect(gradeMultiSelect(partial, [1, 4])).toMatchObject({ isCorrect: false, marksAwarded: 0 })
+  })
+
+  it('ignores the same option picked twice', () => {
+    expect(gradeMultiSelect(partial, [0, 0, 2, 3])).toMatchObject({ isCorrect: true, marksAwarded: 3 })
+  })
+
+  it('rounds partial credit to two decimal places', () => {
+    expect(gradeMultiSelect(multiSelect({ correctIndexes: [0, 1, 2], partialCredit: true }, 1), [0])).toMatchObject({
+      marksAwarded: 0.33
+    })
+  })
+
+  it('is all or nothing without partial credit', () => {
+    const strict = multiSelect({ correctIndexes: [0, 2] })
+    expect(gradeMultiSelect(strict, [0, 2])).toMatchObject({ isCorrect: true, marksAwarded: 2 })
+    expect(gradeMultiSelect(strict, [0])).toEqual({ questionId: 'q1', isCorrect: false, marksAwarded: 0 })
+    expect(gradeMultiSelect(strict, [0, 1, 2])).toMatchObject({ marksAwarded: 0 })
+  })
+})
+
+describe('parseNumericValue', () => {
+  it('reads plain numbers, thousands separators and scientific notation', () => {
+    expect(parseNumericValue(' 9.81 ')).toBe(9.81)
+    expect(parseNumericValue('-.5')).toBe(-0.5)
+    expect(parseNumericValue('1,500')).toBe(1500)
+    expect(parseNumericValue('3e8')).toBe(3e8)
+    expect(parseNumericValue('3 × 10^8')).toBe(3e8)
+    expect(parseNumericValue('6.63x10^-34')).toBe(6.63e-34)
+  })
+
+  it('rejects anything that is not a number', () => {
+    expect(parseNumericValue('')).toBeNull()
+    expect(parseNumericValue('abc')).toBeNull()
+    expect(parseNumericValue('9.8 m/s')).toBeNull()
+    expect(parseNumericValue('1.2.3')).toBeNull()
+  })
+})
+
+describe('normalizeUnit', () => {
+  it('ignores spacing and how powers and products are written', () => {
+    expect(normalizeUnit('m / s²')).toBe(normalizeUnit('m/s^2'))
+    expect(normalizeUnit('m/s**2')).toBe('m/s^2')
+    expect(normalizeUnit('kg·m')).toBe('kg.m')
+    expect(normalizeUnit('kg*m')).toBe('kg.m')
+    expect(normalizeUnit('cm³')).toBe('cm^3')
+  })
+})
+
+describe('gradeNumeric', () => {
+  it('accepts answers within an absolute tolerance', () => {
+    const question = numeric({ value: 9.8, tolerance: 0.1 })
+    expect(gradeNumeric(question, { value: '9.9', unit: '' })).toMatchObject({ isCorrect: true, marksAwarded: 1 })
+    expect(gradeNumeric(question, { value: '9.7', unit: '' })).toMatchObject({ isCorrect: true })
+    expect(gradeNumeric(question, { value: '9.95', unit: '' })).toMatchObject({ isCorrect: false, marksAwarded: 0 })
+  })
+
+  it('allows for floating point error at the edge of the tolerance', () => {
+    expect(gradeNumeric(numeric({ value: 0.3, tolerance: 0 }), { value: String(0.1 + 0.2), unit: '' })).toMatchObject({
+      isCorrect: true
+    })
+  })
+
+  it('accepts answers within a percentage tolerance', () => {
+    const question = numeric({ value: 3000, tolerance: 2, toleranceType: 'percent' })
+    expect(gradeNumeric(question, { value: '3,050', unit: '' })).toMatchObject({ isCorrect: true })
+    expect(gradeNumeric(question, { value: '2.94e3', unit: '' })).toMatchObject({ isCorrect: true })
+    expect(gradeNumeric(question, { value: '3100', unit: '' })).toMatchObject({ isCorrect: false })
+  })
+
+  it('accepts the unit and its other spellings', () => {
+    const question = numeric({ value: 3000, tolerance: 0, unit: 'N', acceptedUnits: ['kg m/s^2', 'newtons'] })
+    expect(gradeNumeric(question, { value: '3000', unit: 'N' })).toMatchObject({ isCorrect: true })
+    expect(gradeNumeric(question, { value: '3 × 10^3', unit: 'kg m/s²' })).toMatchObject({ isCorrect: true })
+    expect(gradeNumeric(question, { value: '3000', unit: ' newtons ' })).toMatchObject({ isCorrect: true })
+  })
+
+  it('explains a right value with the wrong unit', () => {
+    const question = numeric({ value: 3000, tolerance: 0, unit: 'N' })
+    expect(gradeNumeric(question, { value: '3000', unit: 'J' })).toEqual({
+      questionId: 'q1',
+      isCorrect: false,
+      marksAwarded: 0,
+      feedback: 'Right value, but the unit should be N.'
+    })
+    expect(gradeNumeric(question, { value: '3000', unit: '' })).toMatchObject({ isCorrect: false })
+    expect(gradeNumeric(question, { value: '10', unit: 'J' })).toEqual({ questionId: 'q1', isCorrect: false, marksAwarded: 0 })
+  })
+
+  it('ignores the unit when the answer has none', () => {
+    expect(gradeNumeric(numeric({ value: 2, tolerance: 0 }), { value: '2', unit: 'whatever' })).toMatchObject({
+      isCorrect: true
+    })
+  })
+
+  it('rejects values that are not numbers', () => {
+    const question = numeric({ value: 2, tolerance: 0 })
+    expect(gradeNumeric(question, { value: 'two', unit: '' })).toMatchObject({
+      isCorrect: false,
+      feedback: 'The answer must be a number.'
+    })
+    expect(gradeNumeric(question, null)).toEqual({ questionId: 'q1', isCorrect: false, marksAwarded: 0 })
+  })
+})
+
+describe('normalizeText', () => {
+  it('lowercases, strips punctuation and collapses whitespace', () => {
+    expect(normalizeText('  The Mitochondria,   is the POWERHOUSE! ')).toBe('the mitochondria is the powerhouse')
+  })
+
+  it('keeps letters from other scripts', () => {
+    expect(normalizeText('پاکستان۔')).toBe('پاکستان')
+  })
+
+  it('keeps combining marks and strips Urdu punctuation', () => {
+    expect(normalizeText('کِتاب، قلم؟')).toBe('کِتاب قلم')
+    expect(normalizeText('café')).toBe('café')
+  })
+})
+
+describe('gradeShortAnswer', () => {
+  it('accepts an accepted answer regardless of case and punctuation', () => {
+    const question = shortAnswer({ acceptedAnswers: ['Photosynthesis'] })
+    expect(gradeShortAnswer(question, 'photosynthesis.')).toMatchObject({ isCorrect: true, marksAwarded: 1 })
+    expect(gradeShortAnswer(question, 'respiration')).toMatchObject({ isCorrect: false, marksAwarded: 0 })
+  })
+
+  it('awards nothing for a blank answer', () => {
+    expect(gradeShortAnswer(shortAnswer({ acceptedAnswers: ['x'] }), '   ')).toEqual({
+      questionId: 'q1',
+      isCorrect: false,
+      marksAwarded: 0
+    })
+  })
+
+  it('needs every keyword by default', () => {
+    const question = shortAnswer({ keywords: ['chlorophyll', 'sunlight'] })
+    expect(gradeShortAnswer(question, 'Chlorophyll absorbs sunlight')).toMatchObject({ isCorrect: true })
+    expect(gradeShortAnswer(question, 'Chlorophyll is green')).toEqual({
+      questionId: 'q1',
+      isCorrect: false,
+      marksAwarded: 0,
+      feedback: 'Mention at least 2 of the key points.'
+    })
+  })
+
+  it('needs only the minimum number of keywords when one is set', () => {
+    const question = shortAnswer({ keywords: ['osmosis', 'water', 'membrane'], minKeywords: 2 })
+    expect(gradeShortAnswer(question, 'Water crosses the membrane')).toMatchObject({ isCorrect: true })
+    expect(gradeShortAnswer(question, 'Water moves')).toMatchObject({ isCorrect: false })
+  })
+
+  it('matches keywords as whole words only', () => {
+    const question = shortAnswer({ keywords: ['ion'] })
+    expect(gradeShortAnswer(question, 'a solution of ions')).toMatchObject({ isCorrect: false })
+    expect(gradeShortAnswer(question, 'a charged ion')).toMatchObject({ isCorrect: true })
+  })
+
+  it('awards each rubric criterion the answer mentions', () => {
+    const question = shortAnswer({
+      rubric: [
+        { criterion: 'Names the organelle', keywords: ['mitochondria', 'mitochondrion'], marks: 1 },
+        { criterion: 'Mentions ATP', keywords: ['atp', 'adenosine triphosphate'], marks: 2 }
+      ]
+    }, 3)
+
+    expect(gradeShortAnswer(question, 'The mitochondrion makes ATP')).toEqual({
+      questionId: 'q1',
+      isCorrect: true,
+      marksAwarded: 3
+    })
+    expect(gradeShortAnswer(question, 'It makes adenosine triphosphate')).toEqual({
+      questionId: 'q1',
+      isCorrect: false,
+      marksAwarded: 2,
+      feedback: 'Missing: Names the organelle'
+    })
+    expect(gradeShortAnswer(question, 'No idea')).toMatchObject({
+      marksAwarded: 0,
+      feedback: 'Missing: Names the organelle; Mentions ATP'
+    })
+  })
+
+  it('never awards more than the question is worth', () => {
+    const question = shortAnswer({
+      rubric: [
+        { criterion: 'One', keywords: ['one'], marks: 2 },
+        { criterion: 'Two', keywords: ['two'], marks: 2 }
+      ]
+    }, 3)
+    expect(gradeShortAnswer(question, 'one two')).toMatchObject({ isCorrect: true, marksAwarded: 3 })
+  })
+
+  it('awards nothing when the question has no way to grade it', () => {
+    expect(gradeShortAnswer(shortAnswer({ sampleAnswer: 'Anything' }), 'Anything')).toMatchObject({
+      isCorrect: false,
+      marksAwarded: 0
+    })
+  })
+})
+
+describe('gradeQuestion', () => {
+  it('picks the grader for the question type', () => {
+    expect(gradeQuestion(mcq(), 2)).toMatchObject({ isCorrect: true })
+    expect(gradeQuestion(multiSelect({ correctIndexes: [1] }), [1])).toMatchObject({ isCorrect: true })
+    expect(gradeQuestion(numeric({ value: 1, tolerance: 0 }), { value: '1', unit: '' })).toMatchObject({ isCorrect: true })
+    expect(gradeQuestion(shortAnswer({ acceptedAnswers: ['yes'] }), 'Yes')).toMatchObject({ isCorrect: true })
+  })
+})
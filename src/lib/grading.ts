@@ -0,0 +1,184 @@
+import type {
+  Question,
+  QuestionResponse,
+  McqQuestion,
+  MultiSelectQuestion,
+  NumericQuestion,
+  NumericResponse,
+  ShortAnswerQuestion
+} from './questions'
+
+export interface QuestionGrade {
+  questionId: string
+  isCorrect: boolean
+  marksAwarded: number
+  // Why marks were lost, when that isn't obvious from the answer key
+  feedback?: string
+}
+
+export interface AttemptGrade {
+  grades: QuestionGrade[]
+  correctAnswers: number
+  marksObtained: number
+  totalMarks: number
+  // Percentage of total marks, rounded to a whole number
+  score: number
+}
+
+export const isAnswered = (response: QuestionResponse | undefined): boolean => {
+  if (response === null || response === undefined) return false
+  if (Array.isArray(response)) return response.length > 0
+  if (typeof response === 'string') return response.trim().length > 0
+  if (typeof response === 'object') return response.value.trim().length > 0
+  return true
+}
+
+const result = (question: Question, marksAwarded: number, feedback?: string): QuestionGrade => {
+  const marks = Math.max(0, Math.min(question.marks, marksAwarded))
+  return {
+    questionId: question.id,
+    isCorrect: marks >= question.marks,
+    marksAwarded: Math.round(marks * 100) / 100,
+    ...(feedback && { feedback })
+  }
+}
+
+export const gradeMcq = (question: McqQuestion, response: QuestionResponse | undefined): QuestionGrade =>
+  result(question, typeof response === 'number' && response === question.answer.correctIndex ? question.marks : 0)
+
+export const gradeMultiSelect = (question: MultiSelectQuestion, response: QuestionResponse | undefined): QuestionGrade => {
+  const selected = Array.isArray(response) ? Array.from(new Set(response)) : []
+  const correct = question.answer.correctIndexes
+  const right = selected.filter(index => correct.includes(index)).length
+  const wrong = selected.length - right
+
+  if (right === correct.length && wrong === 0) {
+    return result(question, question.marks)
+  }
+  if (!question.answer.partialCredit || correct.length === 0) {
+    return result(question, 0)
+  }
+  return result(
+    question,
+    question.marks * Math.max(0, right - wrong) / correct.length,
+    wrong > 0 ? 'Incorrect choices cancel out correct ones.' : 'Some correct options were missed.'
+  )
+}
+
+// Compare units regardless of spacing and how powers are written, e.g. "m/s²" and "m / s^2"
+export const normalizeUnit = (unit: string): string =>
+  unit
+    .trim()
+    .replace(/\s+/g, '')
+    .replace(/\*\*/g, '^')
+    .replace(/²/g, '^2')
+    .replace(/³/g, '^3')
+    .replace(/[·×*]/g, '.')
+
+// Accept plain numbers, thousands separators and scientific notation like 3e8 or 3×10^8
+export const parseNumericValue = (value: string): number | null => {
+  const cleaned = value
+    .trim()
+    .replace(/,/g, '')
+    .replace(/\s*[x×]\s*10\s*\^\s*(-?\d+)/i, 'e$1')
+
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(cleaned)) return null
+  return Number(cleaned)
+}
+
+export const gradeNumeric = (question: NumericQuestion, response: QuestionResponse | undefined): QuestionGrade => {
+  const { value, tolerance, toleranceType = 'absolute', unit, acceptedUnits = [] } = question.answer
+  const given = response && typeof response === 'object' && !Array.isArray(response)
+    ? response as NumericResponse
+    : null
+  const number = given ? parseNumericValue(given.value) : null
+
+  if (number === null) {
+    return result(question, 0, given ? 'The answer must be a number.' : undefined)
+  }
+
+  const allowedError = toleranceType === 'percent' ? Math.abs(value) * tolerance / 100 : tolerance
+  // A tiny margin so answers like 0.1 + 0.2 aren't rejected by floating point error
+  const withinTolerance = Math.abs(number - value) <= allowedError + 1e-9
+
+  if (unit) {
+    const allowedUnits = [unit, ...acceptedUnits].map(normalizeUnit)
+    if (!allowedUnits.includes(normalizeUnit(given!.unit))) {
+      return result(question, 0, withinTolerance ? `Right value, but the unit should be ${unit}.` : undefined)
+    }
+  }
+
+  return result(question, withinTolerance ? question.marks : 0)
+}
+
+// Punctuation and symbols, including Urdu's ، ؛ ؟ and ۔ and typographic quotes and dashes.
+// normalize_answer_text() in the database strips exactly this set, so both sides agree.
+const PUNCTUATION = /[\u0021-\u002f\u003a-\u0040\u005b-\u0060\u007b-\u007e\u00a1-\u00bf\u00d7\u00f7\u060c\u061b\u061f\u066a-\u066d\u06d4\u2010-\u2027\u2030-\u205e]/g
+
+// Lowercase and strip punctuation, keeping letters, digits and combining marks from any script,
+// so Urdu answers written with zer, zabar or pesh work too
+export const normalizeText = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(PUNCTUATION, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+const mentions = (answer: string, keyword: string): boolean => {
+  const normalizedKeyword = normalizeText(keyword)
+  return normalizedKeyword.length > 0 && ` ${answer} `.includes(` ${normalizedKeyword} `)
+}
+
+export const gradeShortAnswer = (question: ShortAnswerQuestion, response: QuestionResponse | undefined): QuestionGrade => {
+  const answer = typeof response === 'string' ? normalizeText(response) : ''
+  const { acceptedAnswers = [], keywords = [], minKeywords, rubric = [] } = question.answer
+
+  if (!answer) return result(question, 0)
+
+  if (acceptedAnswers.some(accepted => normalizeText(accepted) === answer)) {
+    return result(question, question.marks)
+  }
+
+  if (rubric.length > 0) {
+    const missed = rubric.filter(criterion => !criterion.keywords.some(keyword => mentions(answer, keyword)))
+    const marks = rubric
+      .filter(criterion => !missed.includes(criterion))
+      .reduce((sum, criterion) => sum + criterion.marks, 0)
+    return result(
+      question,
+      marks,
+      missed.length > 0 ? `Missing: ${missed.map(criterion => criterion.criterion).join('; ')}` : undefined
+    )
+  }
+
+  if (keywords.length > 0) {
+    const required = Math.min(minKeywords ?? keywords.length, keywords.length)
+    const found = keywords.filter(keyword => mentions(answer, keyword)).length
+    return result(
+      question,
+      found >= required ? question.marks : 0,
+      found < required ? `Mention at least ${required} of the key points.` : undefined
+    )
+  }
+
+  return result(question, 0)
+}
+
+// Grade one question against its answer key. Submissions are graded by grade_question in the database,
+// which follows the same rules, so change both together
+export const gradeQuestion = (question: Question, response: QuestionResponse | undefined): QuestionGrade => {
+  switch (question.question_type) {
+    case 'mcq':
+      return gradeMcq(question, response)
+    case 'multi_select':
+      return gradeMultiSelect(question, response)
+    case 'numeric':
+      return gradeNumeric(question, response)
+    case 'short_answer':
+      return gradeShortAnswer(question, response)
+    default: {
+      const unknown: never = question
+      throw new Error(`Unsupported question type: ${(unknown as Question).question_type}`)
+    }
+  }
+}
@@ -0,0 +1,51 @@
+// An inline question in a lesson, written as a fenced ```check block of JSON
+export interface LessonCheck {
+  question: string
+  options: string[]
+  // Index of the right option
+  answer: number
+  explanation?: string
+}
+
+const checkBlockPattern = /```check\n([\s\S]*?)```/g
+
+export const lessonPath = (subject: string, topic: string): string =>
+  `/dashboard/lessons/${encodeURIComponent(subject)}/${encodeURIComponent(topic)}`
+
+// Read a check block; anything malformed is shown as plain code instead of a broken question
+export const parseCheck = (source: string): LessonCheck | null => {
+  try {
+    const check = JSON.parse(source)
+    const valid = typeof check.question === 'string' &&
+      Array.isArray(check.options) &&
+      check.options.length >= 2 &&
+      Number.isInteger(check.answer) &&
+      check.answer >= 0 &&
+      check.answer < check.options.length
+    return valid ? check : null
+  } catch {
+    return null
+  }
+}
+
+// The check questions in a lesson, in order, so completion can wait until they are all answered
+export const getLessonChecks = (content: string): string[] =>
+  Array.from(content.matchAll(checkBlockPattern), match => match[1].replace(/\n$/, ''))
+    .filter(source => parseCheck(source) !== null)
+
+// Turn a YouTube or Vimeo link into its embeddable player; other links are played as video files
+export const toVideoEmbed = (url: string): { type: 'iframe' | 'video'; src: string } => {
+  const youtube = /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([\w-]{11})/.exec(url)
+  if (youtube) return { type: 'iframe', src: `https://www.youtube-nocookie.com/embed/${youtube[1]}` }
+
+  const vimeo = /vimeo\.com\/(?:video\/)?(\d+)/.exec(url)
+  if (vimeo) return { type: 'iframe', src: `https://player.vimeo.com/video/${vimeo[1]}` }
+
+  return { type: 'video', src: url }
+}
+
+export const formatDuration = (totalSeconds: number): string => {
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`
+}
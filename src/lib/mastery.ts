@@ -0,0 +1,170 @@
+import type { Test } from './supabase'
+import type { QuestionPrompt } from './questions'
+
+export type Difficulty = Test['difficulty']
+
+export const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard']
+
+// How much each older answer counts compared with the one after it
+const RECENCY_DECAY = 0.8
+// Mastery starts at 50% and needs a few answers before it moves far either way
+const PRIOR_WEIGHT = 2
+const PRIOR_MASTERY = 0.5
+// Answers used to judge recent accuracy when adjusting difficulty
+export const RECENT_WINDOW = 5
+
+export interface AnswerRecord {
+  questionId: string
+  subject: string
+  topic: string
+  difficulty: Difficulty
+  isCorrect: boolean
+  answeredAt: string
+}
+
+export interface TopicMastery {
+  subject: string
+  topic: string
+  attempts: number
+  correct: number
+  // 0-100, weighted towards recent answers
+  mastery: number
+  // Accuracy over the last few answers, as a percentage
+  recentAccuracy: number
+  level: 'weak' | 'developing' | 'strong'
+  targetDifficulty: Difficulty
+}
+
+const topicKey = (subject: string, topic: string) => `${subject}::${topic}`
+
+const masteryLevel = (mastery: number): TopicMastery['level'] =>
+  mastery >= 80 ? 'strong' : mastery >= 50 ? 'developing' : 'weak'
+
+// Step up a difficulty after a run of right answers, down after a run of wrong ones
+export const adjustDifficulty = (current: Difficulty, recentAccuracy: number, recentAnswers: number): Difficulty => {
+  const index = DIFFICULTIES.indexOf(current)
+  if (recentAnswers < 3) return current
+  if (recentAccuracy >= 80) return DIFFICULTIES[Math.min(DIFFICULTIES.length - 1, index + 1)]
+  if (recentAccuracy < 50) return DIFFICULTIES[Math.max(0, index - 1)]
+  return current
+}
+
+// Work out mastery for every topic the student has answered questions on
+export const computeTopicMastery = (history: AnswerRecord[]): TopicMastery[] => {
+  const byTopic = new Map<string, AnswerRecord[]>()
+  history
+    .filter(record => record.topic)
+    .forEach(record => {
+      const key = topicKey(record.subject, record.topic)
+      byTopic.set(key, [...(byTopic.get(key) || []), record])
+    })
+
+  return Array.from(byTopic.values()).map(records => {
+    const newestFirst = [...records].sort((a, b) => b.answeredAt.localeCompare(a.answeredAt))
+
+    let weightedCorrect = PRIOR_MASTERY * PRIOR_WEIGHT
+    let totalWeight = PRIOR_WEIGHT
+    newestFirst.forEach((record, index) => {
+      const weight = Math.pow(RECENCY_DECAY, index)
+      weightedCorrect += record.isCorrect ? weight : 0
+      totalWeight += weight
+    })
+
+    const recent = newestFirst.slice(0, RECENT_WINDOW)
+    const recentAccuracy = Math.round(recent.filter(record => record.isCorrect).length / recent.length * 100)
+    const mastery = Math.round(weightedCorrect / totalWeight * 100)
+
+    return {
+      subject: records[0].subject,
+      topic: records[0].topic,
+      attempts: records.length,
+      correct: records.filter(record => record.isCorrect).length,
+      mastery,
+      recentAccuracy,
+      level: masteryLevel(mastery),
+      // Start from the difficulty the student has been answering lately
+      targetDifficulty: adjustDifficulty(recent[0].difficulty, recentAccuracy, recent.length)
+    }
+  }).sort((a, b) => a.mastery - b.mastery)
+}
+
+export interface PracticeCandidate {
+  question: QuestionPrompt
+  subject: string
+  difficulty: Difficulty
+}
+
+export interface PracticePlan {
+  questions: PracticeCandidate[]
+  focusTopics: TopicMastery[]
+}
+
+// Topics the student hasn't tried yet are treated as developing, so they come after weak ones
+const unseenTopic = (subject: string, topic: string): TopicMastery => ({
+  subject,
+  topic,
+  attempts: 0,
+  correct: 0,
+  mastery: Math.round(PRIOR_MASTERY * 100),
+  recentAccuracy: 0,
+  level: 'developing',
+  targetDifficulty: 'Medium'
+})
+
+// Choose the next practice questions: weakest topics first, weaker topics get more questions,
+// and within a topic questions closest to the target difficulty that the student hasn't
+// recently got right
+export const pickPracticeQuestions = (
+  candidates: PracticeCandidate[],
+  mastery: TopicMastery[],
+  options: { count: number; maxTopics?: number; recentlyCorrect?: Set<string> }
+): PracticePlan => {
+  const { count, maxTopics = 3, recentlyCorrect = new Set<string>() } = options
+  const masteryByKey = new Map(mastery.map(entry => [topicKey(entry.subject, entry.topic), entry]))
+
+  const byTopic = new Map<string, PracticeCandidate[]>()
+  candidates
+    .filter(candidate => candidate.question.topic)
+    .forEach(candidate => {
+      const key = topicKey(candidate.subject, candidate.question.topic!)
+      byTopic.set(key, [...(byTopic.get(key) || []), candidate])
+    })
+
+  const focusTopics = Array.from(byTopic.entries())
+    .map(([key, topicCandidates]) =>
+      masteryByKey.get(key) || unseenTopic(topicCandidates[0].subject, topicCandidates[0].question.topic!)
+    )
+    .sort((a, b) => a.mastery - b.mastery || b.attempts - a.attempts)
+    .slice(0, maxTopics)
+
+  if (focusTopics.length === 0) return { questions: [], focusTopics }
+
+  // Share the questions out by how far each topic is from full mastery
+  const gaps = focusTopics.map(topic => Math.max(10, 100 - topic.mastery))
+  const totalGap = gaps.reduce((sum, gap) => sum + gap, 0)
+  const quotas = gaps.map(gap => Math.max(1, Math.round(count * gap / totalGap)))
+
+  const picked: PracticeCandidate[] = []
+  const leftovers: PracticeCandidate[] = []
+
+  focusTopics.forEach((topic, index) => {
+    const target = DIFFICULTIES.indexOf(topic.targetDifficulty)
+    const ranked = [...(byTopic.get(topicKey(topic.subject, topic.topic)) || [])]
+      .map(candidate => ({ candidate, tieBreak: Math.random() }))
+      .sort((a, b) =>
+        Math.abs(DIFFICULTIES.indexOf(a.candidate.difficulty) - target) -
+          Math.abs(DIFFICULTIES.indexOf(b.candidate.difficulty) - target) ||
+        Number(recentlyCorrect.has(a.candidate.question.id)) - Number(recentlyCorrect.has(b.candidate.question.id)) ||
+        a.tieBreak - b.tieBreak
+      )
+      .map(({ candidate }) => candidate)
+
+    picked.push(...ranked.slice(0, quotas[index]))
+    leftovers.push(...ranked.slice(quotas[index]))
+  })
+
+  // Top up from the same topics if a topic ran out of questions
+  const questions = [...picked, ...leftovers].slice(0, count)
+
+  return { questions, focusTopics }
+}
@@ -0,0 +1,120 @@
+import type { QuestionPrompt } from './questions'
+
+export type MockExamId = 'MDCAT' | 'ECAT'
+
+export interface MockExamSection {
+  subject: string
+  // Number of MCQs this subject has in the official paper
+  questions: number
+}
+
+export interface MockExamBlueprint {
+  id: MockExamId
+  name: string
+  description: string
+  durationMinutes: number
+  marksPerQuestion: number
+  // Marks deducted for each wrong answer; skipped questions are never penalised
+  negativeMarks: number
+  sections: MockExamSection[]
+}
+
+export const MOCK_EXAMS: { [id in MockExamId]: MockExamBlueprint } = {
+  MDCAT: {
+    id: 'MDCAT',
+    name: 'MDCAT Full Mock',
+    description: 'Medical and Dental College Admission Test paper pattern',
+    durationMinutes: 210,
+    marksPerQuestion: 1,
+    negativeMarks: 0,
+    sections: [
+      { subject: 'Biology', questions: 68 },
+      { subject: 'Chemistry', questions: 54 },
+      { subject: 'Physics', questions: 54 },
+      { subject: 'English', questions: 18 },
+      { subject: 'Logical Reasoning', questions: 6 }
+    ]
+  },
+  ECAT: {
+    id: 'ECAT',
+    name: 'ECAT Full Mock',
+    description: 'Engineering College Admission Test paper pattern',
+    durationMinutes: 100,
+    marksPerQuestion: 4,
+    negativeMarks: 1,
+    sections: [
+      { subject: 'Mathematics', questions: 30 },
+      { subject: 'Physics', questions: 30 },
+      { subject: 'Chemistry', questions: 30 },
+      { subject: 'English', questions: 10 }
+    ]
+  }
+}
+
+export const isMockExamId = (value: string | undefined): value is MockExamId =>
+  value === 'MDCAT' || value === 'ECAT'
+
+export interface PaperPlan {
+  sections: MockExamSection[]
+  // Sections left out because the question bank has nothing for them yet
+  missingSubjects: string[]
+  durationMinutes: number
+}
+
+// Shrink the official paper to what the question bank can supply while keeping
+// each section's share of questions and the time allowed per question
+export const planPaper = (
+  blueprint: MockExamBlueprint,
+  available: { [subject: string]: number }
+): PaperPlan => {
+  const stocked = blueprint.sections.filter(section => (available[section.subject] || 0) > 0)
+  const missingSubjects = blueprint.sections
+    .filter(section => !stocked.includes(section))
+    .map(section => section.subject)
+
+  if (stocked.length === 0) {
+    return { sections: [], missingSubjects, durationMinutes: 0 }
+  }
+
+  const scale = Math.min(1, ...stocked.map(section => available[section.subject] / section.questions))
+  const sections = stocked.map(section => ({
+    subject: section.subject,
+    questions: Math.min(available[section.subject], Math.max(1, Math.round(section.questions * scale)))
+  }))
+
+  const officialTotal = blueprint.sections.reduce((sum, section) => sum + section.questions, 0)
+  const paperTotal = sections.reduce((sum, section) => sum + section.questions, 0)
+
+  return {
+    sections,
+    missingSubjects,
+    durationMinutes: Math.max(5, Math.round(blueprint.durationMinutes * paperTotal / officialTotal))
+  }
+}
+
+export interface MockPaperSection {
+  subject: string
+  questions: QuestionPrompt[]
+}
+
+export interface SectionScore {
+  subject: string
+  totalQuestions: number
+  attempted: number
+  correct: number
+  wrong: number
+  marksObtained: number
+  totalMarks: number
+  // Percentage of the section's marks, never below zero
+  score: number
+}
+
+export interface MockExamGrade {
+  sections: SectionScore[]
+  correctAnswers: number
+  totalQuestions: number
+  // Can be negative when negative marking outweighs correct answers
+  marksObtained: number
+  totalMarks: number
+  score: number
+}
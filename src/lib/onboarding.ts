@@ -0,0 +1,35 @@
+import type { UserProfile } from './supabase'
+import { SubjectGroupService } from '../services/subjectGroupService'
+
+// Where a student is in setting up their account. Every route belongs to one or more steps,
+// and a student on a route that isn't for their step is sent to the page for the step they are on
+export type OnboardingStep = 'loading' | 'signed_out' | 'profile_incomplete' | 'subject_group_needed' | 'ready'
+
+export interface OnboardingState {
+  // The session, or the profile and subject group lookups that follow it, are still in flight
+  loading: boolean
+  signedIn: boolean
+  profile: UserProfile | null
+  hasSubjectGroup: boolean
+}
+
+// Grades with subject groups to choose from; the others go straight to the dashboard
+export const needsSubjectGroup = (grade: string): boolean =>
+  SubjectGroupService.requiresSubjectGroupSelection(grade) && SubjectGroupService.getSubjectGroups(grade).length > 0
+
+export const getOnboardingStep = ({ loading, signedIn, profile, hasSubjectGroup }: OnboardingState): OnboardingStep => {
+  if (loading) return 'loading'
+  if (!signedIn) return 'signed_out'
+  // Phone sign-ups arrive without a name, and every new account without a grade
+  if (!profile?.grade || !profile.first_name) return 'profile_incomplete'
+  if (needsSubjectGroup(profile.grade) && !hasSubjectGroup) return 'subject_group_needed'
+  return 'ready'
+}
+
+// The page a student at each step is sent to
+export const onboardingPaths: { [step in Exclude<OnboardingStep, 'loading'>]: string } = {
+  signed_out: '/login',
+  profile_incomplete: '/complete-profile',
+  subject_group_needed: '/subject-group',
+  ready: '/dashboard'
+}
@@ -0,0 +1,28 @@
+export interface PasswordRule {
+  label: string
+  test: (password: string) => boolean
+}
+
+// Every new password has to pass all of these, at signup, on reset and when changing it
+export const PASSWORD_RULES: PasswordRule[] = [
+  { label: 'At least 8 characters', test: password => password.length >= 8 },
+  { label: 'Upper and lowercase letters', test: password => /[a-z]/.test(password) && /[A-Z]/.test(password) },
+  { label: 'At least one number', test: password => /\d/.test(password) },
+  { label: 'At least one symbol', test: password => /[^A-Za-z0-9]/.test(password) }
+]
+
+// Check a new password against the policy; returns an error message or null
+export const getPasswordError = (password: string, email?: string): string | null => {
+  const failed = PASSWORD_RULES.find(rule => !rule.test(password))
+  if (failed) {
+    return `Password needs: ${failed.label.charAt(0).toLowerCase()}${failed.label.slice(1)}`
+  }
+
+  // The part of the email before the @ is the first thing anyone guessing would try
+  const emailName = email?.split('@')[0].toLowerCase()
+  if (emailName && emailName.length >= 3 && password.toLowerCase().includes(emailName)) {
+    return 'Password must not contain your email address'
+  }
+
+  return null
+}
@@ -0,0 +1,148 @@
+// Fields every question row shares, whatever its type
+interface BaseQuestion {
+  id: string
+  test_id: string
+  position: number
+  prompt: string
+  explanation?: string
+  topic?: string
+  marks: number
+  // Whether a numeric answer needs a unit, so the unit box can show without the answer key
+  needs_unit: boolean
+  created_at: string
+}
+
+// One correct option
+export interface McqQuestion extends BaseQuestion {
+  question_type: 'mcq'
+  options: string[]
+  answer: { correctIndex: number }
+}
+
+// Any number of correct options; with partial credit, wrong picks cancel right ones
+export interface MultiSelectQuestion extends BaseQuestion {
+  question_type: 'multi_select'
+  options: string[]
+  answer: { correctIndexes: number[]; partialCredit?: boolean }
+}
+
+// A number with an optional unit, accepted within a tolerance of the key
+export interface NumericQuestion extends BaseQuestion {
+  question_type: 'numeric'
+  options: []
+  answer: {
+    value: number
+    tolerance: number
+    toleranceType?: 'absolute' | 'percent'
+    unit?: string
+    // Other spellings of the same unit, e.g. ["m s^-1"] for "m/s"
+    acceptedUnits?: string[]
+  }
+}
+
+export interface RubricCriterion {
+  criterion: string
+  // The criterion is met if the answer mentions any of these
+  keywords: string[]
+  marks: number
+}
+
+// Free text graded by exact accepted answers, a keyword list, or a rubric
+export interface ShortAnswerQuestion extends BaseQuestion {
+  question_type: 'short_answer'
+  options: []
+  answer: {
+    acceptedAnswers?: string[]
+    keywords?: string[]
+    // How many keywords must appear for full marks; defaults to all of them
+    minKeywords?: number
+    rubric?: RubricCriterion[]
+    sampleAnswer?: string
+  }
+}
+
+export type Question = McqQuestion | MultiSelectQuestion | NumericQuestion | ShortAnswerQuestion
+
+export type QuestionType = Question['question_type']
+
+type WithoutAnswerKey<Q> = Q extends Question ? Omit<Q, 'answer' | 'explanation'> : never
+
+// A question as students can read it; the answer key and explanation are only sent once they've answered
+export type QuestionPrompt = WithoutAnswerKey<Question>
+
+export interface AnswerKey {
+  answer: Question['answer']
+  explanation?: string
+}
+
+// The question columns students are allowed to select
+export const QUESTION_PROMPT_COLUMNS = 'id, test_id, position, question_type, prompt, options, topic, marks, needs_unit, created_at'
+
+// Put a revealed answer key back on its question
+export const withAnswerKey = (question: QuestionPrompt, key: AnswerKey): Question =>
+  ({ ...question, answer: key.answer, explanation: key.explanation ?? undefined }) as Question
+
+export interface NumericResponse {
+  value: string
+  unit: string
+}
+
+// What a student can submit for each question type; null means skipped
+export type QuestionResponse =
+  | number // mcq: chosen option index
+  | number[] // multi_select: chosen option indexes
+  | NumericResponse
+  | string // short_answer
+  | null
+
+export const questionTypeLabels: { [type in QuestionType]: string } = {
+  mcq: 'Single choice',
+  multi_select: 'Select all that apply',
+  numeric: 'Numeric answer',
+  short_answer: 'Short answer'
+}
+
+const optionLabel = (options: string[], index: number) =>
+  options[index] !== undefined ? `${String.fromCharCode(65 + index)}. ${options[index]}` : `Option ${index + 1}`
+
+// Describe a student's response in words, for review screens and tutor prompts
+export const formatResponse = (question: QuestionPrompt, response: QuestionResponse | undefined): string => {
+  if (response === null || response === undefined) return 'Not answered'
+
+  switch (question.question_type) {
+    case 'mcq':
+      return typeof response === 'number' ? optionLabel(question.options, response) : 'Not answered'
+    case 'multi_select':
+      return Array.isArray(response) && response.length > 0
+        ? response.map(index => optionLabel(question.options, index)).join('; ')
+        : 'Not answered'
+    case 'numeric':
+      return typeof response === 'object' && !Array.isArray(response) && response.value.trim()
+        ? `${response.value.trim()} ${response.unit.trim()}`.trim()
+        : 'Not answered'
+    case 'short_answer':
+      return typeof response === 'string' && response.trim() ? response.trim() : 'Not answered'
+  }
+}
+
+// Describe the answer key in words
+export const formatCorrectAnswer = (question: Question): string => {
+  switch (question.question_type) {
+    case 'mcq':
+      return optionLabel(question.options, question.answer.correctIndex)
+    case 'multi_select':
+      return question.answer.correctIndexes.map(index => optionLabel(question.options, index)).join('; ')
+    case 'numeric': {
+      const { value, tolerance, toleranceType, unit } = question.answer
+      const margin = tolerance > 0 ? ` (±${tolerance}${toleranceType === 'percent' ? '%' : ''})` : ''
+      return `${value}${unit ? ` ${unit}` : ''}${margin}`
+    }
+    case 'short_answer': {
+      const { sampleAnswer, acceptedAnswers = [], keywords = [], rubric = [] } = question.answer
+      if (sampleAnswer) return sampleAnswer
+      if (acceptedAnswers.length > 0) return acceptedAnswers[0]
+      if (rubric.length > 0) return rubric.map(criterion => criterion.criterion).join('; ')
+      return keywords.length > 0 ? `Key points: ${keywords.join(', ')}` : 'See the explanation'
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import type { FlashcardProgress } from './supabase'
+
+export type ReviewRating = 'again' | 'hard' | 'good' | 'easy'
+
+export const REVIEW_RATINGS: ReviewRating[] = ['again', 'hard', 'good', 'easy']
+
+// SM-2 response quality (0-5) for each button; anything below 3 counts as forgotten
+const RATING_QUALITY: { [rating in ReviewRating]: number } = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5
+}
+
+const MIN_EASE_FACTOR = 1.3
+
+export type CardSchedule = Pick<FlashcardProgress, 'ease_factor' | 'interval_days' | 'repetitions' | 'lapses' | 'due_date'>
+
+export const toDateString = (date: Date): string => date.toISOString().split('T')[0]
+
+export const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date)
+  result.setDate(result.getDate() + days)
+  return result
+}
+
+// Schedule for a card the student has never reviewed
+export const newCardSchedule = (today: Date = new Date()): CardSchedule => ({
+  ease_factor: 2.5,
+  interval_days: 0,
+  repetitions: 0,
+  lapses: 0,
+  due_date: toDateString(today)
+})
+
+// Work out when a card is next due after the student rates how well they recalled it
+export const scheduleReview = (schedule: CardSchedule, rating: ReviewRating, today: Date = new Date()): CardSchedule => {
+  const quality = RATING_QUALITY[rating]
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    schedule.ease_factor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  )
+
+  // A forgotten card starts again from a one-day interval
+  if (quality < 3) {
+    return {
+      ease_factor: Math.round(easeFactor * 100) / 100,
+      interval_days: 1,
+      repetitions: 0,
+      lapses: schedule.repetitions > 0 ? schedule.lapses + 1 : schedule.lapses,
+      due_date: toDateString(addDays(today, 1))
+    }
+  }
+
+  const repetitions = schedule.repetitions + 1
+  const interval = repetitions === 1
+    ? 1
+    : repetitions === 2
+      ? 6
+      : Math.round(schedule.interval_days * easeFactor)
+
+  return {
+    ease_factor: Math.round(easeFactor * 100) / 100,
+    interval_days: interval,
+    repetitions,
+    lapses: schedule.lapses,
+    due_date: toDateString(addDays(today, interval))
+  }
+}
+
+// Short label for when a card would come back, shown on the rating buttons
+export const formatInterval = (days: number): string => {
+  if (days <= 1) return '1 day'
+  if (days < 30) return `${days} days`
+  const months = Math.round(days / 30)
+  return months === 1 ? '1 month' : `${months} months`
+}
@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js'
+import type { Question, QuestionPrompt, QuestionResponse } from './questions'
+import type { MockExamId, SectionScore } from './mockExams'
 
 // Get environment variables
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || ''
@@ -35,6 +37,18 @@ const createMockClient = () => {
         error: mockError
       }),
       signOut: () => Promise.resolve({ error: null }),
+      signInWithOAuth: () => Promise.resolve({ data: { provider: null, url: null }, error: mockError }),
+      signInWithOtp: () => Promise.resolve({
+        data: { user: null, session: null },
+        error: mockError
+      }),
+      resetPasswordForEmail: () => Promise.resolve({ data: null, error: mockError }),
+      verifyOtp: () => Promise.resolve({
+        data: { user: null, session: null },
+        error: mockError
+      }),
+      updateUser: () => Promise.resolve({ data: { user: null }, error: mockError }),
+      resend: () => Promise.resolve({ data: { user: null, session: null }, error: mockError }),
       onAuthStateChange: (callback: any) => {
         setTimeout(() => callback('SIGNED_OUT', null), 100)
         return { data: { subscription: { unsubscribe: () => {} } } }
@@ -73,7 +87,8 @@ const createMockClient = () => {
       from: () => ({
         upload: () => Promise.resolve({ data: null, error: mockError }),
         remove: () => Promise.resolve({ error: null }),
-        getPublicUrl: () => ({ data: { publicUrl: '' } })
+        getPublicUrl: () => ({ data: { publicUrl: '' } }),
+        createSignedUrl: () => Promise.resolve({ data: null, error: mockError })
       })
     }
   }
@@ -276,7 +291,7 @@ export interface SubjectProgress {
 export interface StudySession {
   id: string
   user_id: string
-  session_type: 'lesson' | 'test' | 'ai_tutor' | 'materials'
+  session_type: 'lesson' | 'test' | 'ai_tutor' | 'materials' | 'flashcards'
   subject: string
   duration_minutes: number
   score?: number
@@ -296,6 +311,305 @@ export interface UserDatabase {
   updated_at: string
 }
 
+export interface TutorConversation {
+  id: string
+  user_id: string
+  title: string
+  subject?: string
+  created_at: string
+  updated_at: string
+}
+
+export interface TutorAttachment {
+  name: string
+  path: string
+  mime_type: string
+  size: number
+  // Short-lived link resolved when the message is loaded; never stored
+  url?: string
+}
+
+export interface TutorMessageRecord {
+  id: string
+  conversation_id: string
+  user_id: string
+  role: 'user' | 'assistant'
+  content: string
+  parent_id: string | null
+  status: 'streaming' | 'complete' | 'cancelled' | 'error'
+  attachments: TutorAttachment[]
+  created_at: string
+}
+
+export type SubscriptionPlan = 'basic' | 'pro' | 'custom'
+
+export interface UserSubscription {
+  user_id: string
+  plan: SubscriptionPlan
+  status: 'active' | 'past_due' | 'cancelled'
+  current_period_end?: string
+  created_at: string
+  updated_at: string
+}
+
+export interface TutorUsageEntry {
+  id: string
+  user_id: string
+  period_start: string
+  conversation_id: string
+  created_at: string
+}
+
+export interface Test {
+  id: string
+  title: string
+  description?: string
+  subject: string
+  grade?: string
+  board?: string
+  difficulty: 'Easy' | 'Medium' | 'Hard'
+  duration_minutes: number
+  is_published: boolean
+  kind: 'practice' | 'past_paper'
+  // Past papers only
+  year?: number
+  session?: string
+  paper_number?: string
+  created_at: string
+  updated_at: string
+}
+
+export interface TestAttempt {
+  id: string
+  user_id: string
+  test_id: string
+  status: 'in_progress' | 'submitted'
+  started_at: string
+  submitted_at?: string
+  duration_seconds?: number
+  total_questions: number
+  correct_answers: number
+  marks_obtained: number
+  total_marks: number
+  score?: number
+  created_at: string
+}
+
+export interface AttemptAnswer {
+  id: string
+  attempt_id: string
+  user_id: string
+  question_id: string
+  response: QuestionResponse
+  is_correct: boolean
+  marks_awarded: number
+  flagged: boolean
+  created_at: string
+}
+
+export interface MistakeEntry {
+  id: string
+  user_id: string
+  question_id: string
+  test_id: string
+  attempt_id?: string | null
+  last_response: QuestionResponse
+  times_wrong: number
+  drill_streak: number
+  status: 'active' | 'mastered'
+  last_wrong_at: string
+  last_drilled_at?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface PracticeAnswer {
+  id: string
+  user_id: string
+  question_id: string
+  response: QuestionResponse
+  is_correct: boolean
+  marks_awarded: number
+  created_at: string
+}
+
+export interface FlashcardDeck {
+  id: string
+  title: string
+  description?: string
+  subject: string
+  topic: string
+  grade?: string
+  is_published: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface Flashcard {
+  id: string
+  deck_id: string
+  position: number
+  front: string
+  back: string
+  created_at: string
+}
+
+export interface FlashcardProgress {
+  id: string
+  user_id: string
+  card_id: string
+  deck_id: string
+  ease_factor: number
+  interval_days: number
+  repetitions: number
+  lapses: number
+  due_date: string
+  last_reviewed_at?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface CurriculumSubject {
+  id: string
+  grade: string
+  board?: string | null
+  subject_group?: string | null
+  subject: string
+  created_at: string
+  updated_at: string
+}
+
+export interface CurriculumChapter {
+  id: string
+  subject_id: string
+  position: number
+  title: string
+  created_at: string
+}
+
+export interface CurriculumTopic {
+  id: string
+  chapter_id: string
+  position: number
+  title: string
+  created_at: string
+}
+
+export interface CurriculumLesson {
+  id: string
+  topic_id: string
+  content: string
+  estimated_minutes: number
+  created_at: string
+  updated_at: string
+}
+
+export type TopicStatus = 'not_started' | 'in_progress' | 'completed' | 'mastered'
+
+export interface TopicProgress {
+  id: string
+  user_id: string
+  topic_id: string
+  subject_id: string
+  status: TopicStatus
+  source: 'lesson' | 'test' | 'flashcards' | 'manual'
+  completed_at?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type MaterialType = 'pdf' | 'video' | 'link'
+
+export interface StudyMaterial {
+  id: string
+  title: string
+  description?: string | null
+  subject: string
+  topic?: string | null
+  grade?: string | null
+  material_type: MaterialType
+  storage_path?: string | null
+  external_url?: string | null
+  file_size?: number | null
+  duration_minutes?: number | null
+  download_count: number
+  rating_average: number
+  rating_count: number
+  uploaded_by?: string | null
+  is_published: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface MaterialReview {
+  id: string
+  material_id: string
+  user_id: string
+  rating: number
+  review?: string | null
+  is_hidden: boolean
+  flag_count: number
+  created_at: string
+  updated_at: string
+}
+
+export type ReviewFlagReason = 'abusive' | 'spam' | 'off_topic'
+
+export interface MaterialReviewFlag {
+  id: string
+  review_id: string
+  user_id: string
+  reason: ReviewFlagReason
+  created_at: string
+}
+
+export interface MaterialBookmark {
+  id: string
+  user_id: string
+  material_id: string
+  created_at: string
+}
+
+export interface MaterialDownload {
+  user_id: string
+  material_id: string
+  created_at: string
+}
+
+export interface HelpArticle {
+  id: string
+  kind: 'article' | 'faq'
+  slug: string
+  category: string
+  title: string
+  body: string
+  read_minutes?: number | null
+  popular: boolean
+  position: number
+  created_at: string
+  updated_at: string
+}
+
+export interface MockExamAttempt {
+  id: string
+  user_id: string
+  exam: MockExamId
+  status: 'in_progress' | 'submitted'
+  paper: { subject: string; question_ids: string[] }[]
+  responses: { [questionId: string]: QuestionResponse }
+  section_scores: SectionScore[]
+  started_at: string
+  submitted_at?: string
+  duration_seconds?: number
+  total_questions: number
+  correct_answers: number
+  marks_obtained: number
+  total_marks: number
+  score?: number
+  percentile?: number | null
+  created_at: string
+}
+
 export interface Database {
   public: {
     Tables: {
@@ -324,6 +638,136 @@ export interface Database {
         Insert: Omit<UserDatabase, 'id' | 'created_at' | 'updated_at'>
         Update: Partial<Omit<UserDatabase, 'id' | 'user_id' | 'created_at' | 'updated_at'>>
       }
+      tutor_conversations: {
+        Row: TutorConversation
+        Insert: Omit<TutorConversation, 'created_at' | 'updated_at'>
+        Update: Partial<Omit<TutorConversation, 'id' | 'user_id' | 'created_at' | 'updated_at'>>
+      }
+      tutor_messages: {
+        Row: TutorMessageRecord
+        Insert: Omit<TutorMessageRecord, 'created_at'>
+        Update: Partial<Omit<TutorMessageRecord, 'id' | 'user_id' | 'conversation_id' | 'created_at'>>
+      }
+      user_subscriptions: {
+        Row: UserSubscription
+        Insert: Omit<UserSubscription, 'created_at' | 'updated_at'>
+        Update: Partial<Omit<UserSubscription, 'user_id' | 'created_at' | 'updated_at'>>
+      }
+      tutor_usage_ledger: {
+        Row: TutorUsageEntry
+        Insert: Omit<TutorUsageEntry, 'id' | 'created_at'>
+        Update: never
+      }
+      tests: {
+        Row: Test
+        Insert: Omit<Test, 'id' | 'created_at' | 'updated_at'>
+        Update: Partial<Omit<Test, 'id' | 'created_at' | 'updated_at'>>
+      }
+      questions: {
+        // Answer keys come from get_question_answers once the student has answered
+        Row: QuestionPrompt
+        Insert: Omit<Question, 'id' | 'created_at' | 'needs_unit'>
+        Update: Partial<Omit<Question, 'id' | 'created_at' | 'needs_unit'>>
+      }
+      test_attempts: {
+        Row: TestAttempt
+        // Everything else is filled in by submit_test_attempt
+        Insert: Pick<TestAttempt, 'user_id' | 'test_id' | 'total_questions'>
+        Update: never
+      }
+      attempt_answers: {
+        Row: AttemptAnswer
+        Insert: never
+        Update: never
+      }
+      mistake_notebook: {
+        Row: MistakeEntry
+        Insert: Omit<MistakeEntry, 'id' | 'created_at' | 'updated_at'>
+        Update: Partial<Omit<MistakeEntry, 'id' | 'user_id' | 'question_id' | 'created_at' | 'updated_at'>>
+      }
+      practice_answers: {
+        Row: PracticeAnswer
+        // Saved by submit_practice_answer
+        Insert: never
+        Update: never
+      }
+      flashcard_decks: {
+        Row: FlashcardDeck
+        Insert: Omit<FlashcardDeck, 'id' | 'created_at' | 'updated_at'>
+        Update: Partial<Omit<FlashcardDeck, 'id' | 'created_at' | 'updated_at'>>
+      }
+      flashcards: {
+        Row: Flashcard
+        Insert: Omit<Flashcard, 'id' | 'created_at'>
+        Update: Partial<Omit<Flashcard, 'id' | 'created_at'>>
+      }
+      flashcard_progress: {
+        Row: FlashcardProgress
+        Insert: Omit<FlashcardProgress, 'id' | 'created_at' | 'updated_at'>
+        Update: Partial<Omit<FlashcardProgress, 'id' | 'user_id' | 'card_id' | 'deck_id' | 'created_at' | 'updated_at'>>
+      }
+      curriculum_subjects: {
+        Row: CurriculumSubject
+        Insert: Omit<CurriculumSubject, 'id' | 'created_at' | 'updated_at'>
+        Update: Partial<Omit<CurriculumSubject, 'id' | 'created_at' | 'updated_at'>>
+      }
+      curriculum_chapters: {
+        Row: CurriculumChapter
+        Insert: Omit<CurriculumChapter, 'id' | 'created_at'>
+        Update: Partial<Omit<CurriculumChapter, 'id' | 'created_at'>>
+      }
+      curriculum_topics: {
+        Row: CurriculumTopic
+        Insert: Omit<CurriculumTopic, 'id' | 'created_at'>
+        Update: Partial<Omit<CurriculumTopic, 'id' | 'created_at'>>
+      }
+      curriculum_lessons: {
+        Row: CurriculumLesson
+        Insert: Omit<CurriculumLesson, 'id' | 'created_at' | 'updated_at'>
+        Update: Partial<Omit<CurriculumLesson, 'id' | 'topic_id' | 'created_at' | 'updated_at'>>
+      }
+      topic_progress: {
+        Row: TopicProgress
+        Insert: Omit<TopicProgress, 'id' | 'created_at' | 'updated_at'>
+        Update: Partial<Omit<TopicProgress, 'id' | 'user_id' | 'topic_id' | 'subject_id' | 'created_at' | 'updated_at'>>
+      }
+      study_materials: {
+        Row: StudyMaterial
+        Insert: Omit<StudyMaterial, 'id' | 'download_count' | 'rating_average' | 'rating_count' | 'is_published' | 'created_at' | 'updated_at'>
+        Update: Partial<Omit<StudyMaterial, 'id' | 'download_count' | 'rating_average' | 'rating_count' | 'uploaded_by' | 'created_at' | 'updated_at'>>
+      }
+      material_reviews: {
+        Row: MaterialReview
+        Insert: Omit<MaterialReview, 'id' | 'is_hidden' | 'flag_count' | 'created_at' | 'updated_at'>
+        Update: Partial<Pick<MaterialReview, 'rating' | 'review'>>
+      }
+      material_review_flags: {
+        Row: MaterialReviewFlag
+        Insert: Omit<MaterialReviewFlag, 'id' | 'created_at'>
+        Update: never
+      }
+      material_bookmarks: {
+        Row: MaterialBookmark
+        Insert: Omit<MaterialBookmark, 'id' | 'created_at'>
+        Update: never
+      }
+      material_downloads: {
+        Row: MaterialDownload
+        // Written by record_material_download
+        Insert: never
+        Update: never
+      }
+      help_articles: {
+        Row: HelpArticle
+        Insert: Omit<HelpArticle, 'id' | 'created_at' | 'updated_at'>
+        Update: Partial<Omit<HelpArticle, 'id' | 'created_at' | 'updated_at'>>
+      }
+      mock_exam_attempts: {
+        Row: MockExamAttempt
+        // Everything else is filled in by the paper check and submit_mock_exam_attempt
+        Insert: Pick<MockExamAttempt, 'user_id' | 'exam' | 'paper'>
+        Update: never
+      }
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,109 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { HeroSection } from "../StitchDesign/sections/HeroSection/index.ts";
+import { Button } from "../../components/ui/button";
+import { Card, CardContent } from "../../components/ui/card";
+import { useAuth } from "../../contexts/AuthContext";
+import { AuthService } from "../../services/authService";
+import { onboardingPaths } from "../../lib/onboarding";
+
+type CallbackStatus = 'checking' | 'confirmed' | 'invalid';
+
+export const AuthCallbackPage = (): JSX.Element => {
+  const { onboardingStep } = useAuth();
+  const navigate = useNavigate();
+  // Read the link before Supabase tidies the address bar
+  const [link] = useState(() => AuthService.readAuthLink(window.location));
+  const [status, setStatus] = useState<CallbackStatus>('checking');
+  const [error, setError] = useState<string | null>(null);
+  // Confirmation tokens work once, so don't verify again when the effect re-runs in development
+  const verifiedRef = useRef(false);
+
+  // Sign in with the link from the confirmation email
+  useEffect(() => {
+    if (verifiedRef.current) return;
+    verifiedRef.current = true;
+
+    const verifyLink = async () => {
+      try {
+        if (link.error) {
+          throw new Error(link.error.includes('expired')
+            ? 'This confirmation link has expired or was already used.'
+            : link.error);
+        }
+
+        if (link.tokenHash) {
+          await AuthService.verifyEmailToken(link.tokenHash);
+        } else {
+          // detectSessionInUrl exchanges ?code= for a session; getSession waits for it
+          const session = await AuthService.getSession();
+          if (!session) {
+            throw new Error(link.hasSession
+              ? 'Your email may already be confirmed, but this link was opened in a different browser from the one you signed up in.'
+              : 'Open the link from your confirmation email to finish creating your account.');
+          }
+        }
+
+        setStatus('confirmed');
+      } catch (error: any) {
+        setError(error.message || 'This confirmation link is not valid');
+        setStatus('invalid');
+      }
+    };
+
+    verifyLink();
+  }, [link]);
+
+  // Once the profile has loaded, carry on to the next onboarding step, usually completing the profile
+  useEffect(() => {
+    if (status !== 'confirmed' || onboardingStep === 'loading' || onboardingStep === 'signed_out') return;
+    navigate(onboardingPaths[onboardingStep], { replace: true });
+  }, [status, onboardingStep, navigate]);
+
+  return (
+    <main className="flex flex-col w-full theme-bg-primary min-h-screen">
+      <HeroSection />
+
+      <section className="flex items-center justify-center px-4 md:px-6 lg:px-10 py-8 md:py-20 w-full theme-bg-primary min-h-[calc(100vh-80px)]">
+        <div className="flex flex-col max-w-[420px] w-full">
+          {/* Header */}
+          <div className="text-center mb-6 md:mb-8">
+            <h1 className="[font-family:'Lexend',Helvetica] font-black theme-text-primary text-2xl sm:text-3xl md:text-4xl tracking-[-1.00px] leading-[1.1] mb-3 md:mb-4">
+              Confirm Your Email
+            </h1>
+          </div>
+
+          <Card className="theme-bg-secondary theme-border">
+            <CardContent className="p-4 md:p-8">
+              {status === 'invalid' ? (
+                <div className="flex flex-col gap-4 text-center">
+                  <div className="text-4xl">⚠️</div>
+                  <p className="[font-family:'Lexend',Helvetica] theme-text-primary text-sm md:text-base">
+                    {error}
+                  </p>
+                  <p className="[font-family:'Lexend',Helvetica] theme-text-muted text-xs md:text-sm">
+                    Sign in with your email and password to continue, or to get a new confirmation link.
+                  </p>
+                  <Button
+                    type="button"
+                    onClick={() => navigate('/login', { replace: true })}
+                    className="w-full h-10 md:h-12 bg-[#3f8cbf] hover:bg-[#2d6a94] rounded-lg [font-family:'Lexend',Helvetica] font-bold text-white transition-colors text-sm md:text-base"
+                  >
+                    Go to Sign In
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex flex-col items-center gap-4 py-4">
+                  <div className="w-8 h-8 border-4 border-[#3f8cbf] border-t-transparent rounded-full animate-spin"></div>
+                  <p className="theme-text-primary [font-family:'Lexend',Helvetica] text-sm">
+                    {status === 'confirmed' ? 'Email confirmed! Setting up your account...' : 'Checking your confirmation link...'}
+                  </p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </section>
+    </main>
+  );
+};
@@ -1,36 +1,29 @@
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useRef } from "react";
+import { useNavigate } from "react-router-dom";
 import { HeroSection } from "../StitchDesign/sections/HeroSection/index.ts";
 import { Button } from "../../components/ui/button";
 import { Card, CardContent } from "../../components/ui/card";
 import { useAuth } from "../../contexts/AuthContext";
-import { SubjectGroupService } from "../../services/subjectGroupService";
+import { needsSubjectGroup, onboardingPaths } from "../../lib/onboarding";
 
 export const CompleteProfilePage = (): JSX.Element => {
-  const { user, updateProfile, isNewUser, markProfileCompleted } = useAuth();
+  const { profile, updateProfile, markProfileCompleted } = useAuth();
+  const navigate = useNavigate();
+  // Students coming back from the subject group step see what they picked before
   const [formData, setFormData] = useState({
-    grade: '',
-    board: '',
+    firstName: profile?.first_name || '',
+    lastName: profile?.last_name || '',
+    grade: profile?.grade || '',
+    board: profile?.board || '',
     profilePicture: null as File | null
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [profilePicturePreview, setProfilePicturePreview] = useState<string | null>(null);
+  const [profilePicturePreview, setProfilePicturePreview] = useState<string | null>(profile?.profile_picture_url || null);
+  // Phone sign-ups have no name yet; Google and email sign-ups already do
+  const [askForName] = useState(() => !profile?.first_name);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Redirect if not a new user or no user
-  useEffect(() => {
-    if (!user) {
-      window.location.href = '/login';
-      return;
-    }
-    
-    // If not a new user, redirect to dashboard
-    if (!isNewUser) {
-      window.location.href = '/dashboard';
-      return;
-    }
-  }, [user, isNewUser]);
-
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData(prev => {
@@ -87,6 +80,12 @@ export const CompleteProfilePage = (): JSX.Element => {
     setLoading(true);
 
     // Validation
+    if (askForName && !formData.firstName.trim()) {
+      setError("Please enter your first name");
+      setLoading(false);
+      return;
+    }
+
     if (!formData.grade) {
       setError("Please select your grade/level");
       setLoading(false);
@@ -103,18 +102,21 @@ export const CompleteProfilePage = (): JSX.Element => {
     try {
       // Update profile with all data including profile picture
       await updateProfile({
+        ...(askForName && {
+          first_name: formData.firstName.trim(),
+          last_name: formData.lastName.trim(),
+        }),
         grade: formData.grade,
         board: formData.board,
       }, formData.profilePicture || undefined);
       
       // Check if this grade requires subject group selection
-      if (SubjectGroupService.requiresSubjectGroupSelection(formData.grade)) {
-        // Redirect to subject group selection
-        window.location.href = '/subject-group';
+      if (needsSubjectGroup(formData.grade)) {
+        navigate(onboardingPaths.subject_group_needed, { replace: true });
       } else {
-        // Mark profile as completed and redirect to dashboard
+        // Mark profile as completed and go to the dashboard
         markProfileCompleted();
-        window.location.href = '/dashboard';
+        navigate(onboardingPaths.ready, { replace: true });
       }
     } catch (error: any) {
       setError(error.message || 'An error occurred while updating your profile');
@@ -123,13 +125,6 @@ export const CompleteProfilePage = (): JSX.Element => {
     }
   };
 
-  const handleSkip = () => {
-    // Mark profile as completed even if skipped
-    markProfileCompleted();
-    // Allow users to skip profile completion and go to dashboard
-    window.location.href = '/dashboard';
-  };
-
   const grades = [
     "Class 9 (Metric)",
     "Class 10 (Metric)",
@@ -161,18 +156,6 @@ export const CompleteProfilePage = (): JSX.Element => {
     ].includes(grade);
   };
 
-  // Show loading if checking user state
-  if (!user || !isNewUser) {
-    return (
-      <div className="flex items-center justify-center min-h-screen theme-bg-primary">
-        <div className="flex flex-col items-center gap-4">
-          <div className="w-8 h-8 border-4 border-[#3f8cbf] border-t-transparent rounded-full animate-spin"></div>
-          <p className="theme-text-primary [font-family:'Lexend',Helvetica]">Loading...</p>
-        </div>
-      </div>
-    );
-  }
-
   return (
     <main className="flex flex-col w-full theme-bg-primary min-h-screen">
       <HeroSection />
@@ -243,6 +226,41 @@ export const CompleteProfilePage = (): JSX.Element => {
                   />
                 </div>
 
+                {/* Name - Only asked for when signing up didn't provide one */}
+                {askForName && (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div className="flex flex-col gap-2">
+                      <label className="[font-family:'Lexend',Helvetica] font-medium theme-text-primary text-xs md:text-sm">
+                        First Name *
+                      </label>
+                      <input
+                        type="text"
+                        name="firstName"
+                        value={formData.firstName}
+                        onChange={handleInputChange}
+                        required
+                        autoComplete="given-name"
+                        className="w-full px-3 md:px-4 py-2 md:py-3 theme-bg-primary theme-border border rounded-lg theme-text-primary placeholder-theme-text-muted focus:border-[#3f8cbf] focus:outline-none transition-colors [font-family:'Lexend',Helvetica] text-sm md:text-base"
+                        placeholder="First name"
+                      />
+                    </div>
+                    <div className="flex flex-col gap-2">
+                      <label className="[font-family:'Lexend',Helvetica] font-medium theme-text-primary text-xs md:text-sm">
+                        Last Name
+                      </label>
+                      <input
+                        type="text"
+                        name="lastName"
+                        value={formData.lastName}
+                        onChange={handleInputChange}
+                        autoComplete="family-name"
+                        className="w-full px-3 md:px-4 py-2 md:py-3 theme-bg-primary theme-border border rounded-lg theme-text-primary placeholder-theme-text-muted focus:border-[#3f8cbf] focus:outline-none transition-colors [font-family:'Lexend',Helvetica] text-sm md:text-base"
+                        placeholder="Last name"
+                      />
+                    </div>
+                  </div>
+                )}
+
                 {/* Grade Selection */}
                 <div className="flex flex-col gap-2">
                   <label className="[font-family:'Lexend',Helvetica] font-medium theme-text-primary text-xs md:text-sm">
@@ -303,17 +321,9 @@ export const CompleteProfilePage = (): JSX.Element => {
                         {formData.profilePicture ? 'Uploading...' : 'Saving Profile...'}
                       </div>
                     ) : (
-                      SubjectGroupService.requiresSubjectGroupSelection(formData.grade) ? 'Continue to Subject Selection' : 'Complete Profile'
+                      needsSubjectGroup(formData.grade) ? 'Continue to Subject Selection' : 'Complete Profile'
                     )}
                   </Button>
-
-                  <Button 
-                    type="button"
-                    onClick={handleSkip}
-                    className="w-full h-10 md:h-12 bg-transparent theme-border border theme-text-muted hover:theme-bg-tertiary hover:theme-text-primary rounded-lg [font-family:'Lexend',Helvetica] font-medium transition-colors text-sm md:text-base"
-                  >
-                    Skip for Now
-                  </Button>
                 </div>
               </form>
             </CardContent>
@@ -0,0 +1,133 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { HeroSection } from "../StitchDesign/sections/HeroSection/index.ts";
+import { Button } from "../../components/ui/button";
+import { Card, CardContent } from "../../components/ui/card";
+import { AuthService } from "../../services/authService";
+
+export const ForgotPasswordPage = (): JSX.Element => {
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    // Email format validation
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!emailRegex.test(email.trim())) {
+      setError('Please enter a valid email address');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await AuthService.resetPassword(email.trim());
+      setSentTo(email.trim());
+    } catch (error: any) {
+      setError(error.message || 'Failed to send the reset link');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <main className="flex flex-col w-full theme-bg-primary min-h-screen">
+      <HeroSection />
+      
+      <section className="flex items-center justify-center px-4 md:px-6 lg:px-10 py-8 md:py-20 w-full theme-bg-primary min-h-[calc(100vh-80px)]">
+        <div className="flex flex-col max-w-[420px] w-full">
+          {/* Header */}
+          <div className="text-center mb-6 md:mb-8">
+            <h1 className="[font-family:'Lexend',Helvetica] font-black theme-text-primary text-2xl sm:text-3xl md:text-4xl tracking-[-1.00px] leading-[1.1] mb-3 md:mb-4">
+              Forgot Password
+            </h1>
+            <p className="[font-family:'Lexend',Helvetica] font-normal theme-text-secondary text-sm md:text-base tracking-[0] leading-6">
+              Enter your email and we'll send you a link to choose a new password
+            </p>
+          </div>
+
+          <Card className="theme-bg-secondary theme-border">
+            <CardContent className="p-4 md:p-8">
+              {sentTo ? (
+                <div className="flex flex-col gap-4 text-center">
+                  <div className="text-4xl">📬</div>
+                  <p className="[font-family:'Lexend',Helvetica] theme-text-primary text-sm md:text-base">
+                    If there's an account for <span className="font-bold">{sentTo}</span>, a reset link is on its way.
+                  </p>
+                  <p className="[font-family:'Lexend',Helvetica] theme-text-muted text-xs md:text-sm">
+                    The link works for an hour. Check your spam folder if it doesn't arrive in a few minutes.
+                  </p>
+                  <Button
+                    type="button"
+                    onClick={() => setSentTo(null)}
+                    className="w-full h-10 md:h-12 bg-transparent theme-border border theme-text-muted hover:theme-bg-tertiary hover:theme-text-primary rounded-lg [font-family:'Lexend',Helvetica] font-medium transition-colors text-sm md:text-base"
+                  >
+                    Use a different email
+                  </Button>
+                </div>
+              ) : (
+                <form onSubmit={handleSubmit} className="flex flex-col gap-4 md:gap-6">
+                  {/* Error Message */}
+                  {error && (
+                    <div className="p-3 md:p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+                      <p className="text-red-400 text-xs md:text-sm [font-family:'Lexend',Helvetica]">
+                        {error}
+                      </p>
+                    </div>
+                  )}
+
+                  {/* Email */}
+                  <div className="flex flex-col gap-2">
+                    <label className="[font-family:'Lexend',Helvetica] font-medium theme-text-primary text-xs md:text-sm">
+                      Email Address
+                    </label>
+                    <input
+                      type="email"
+                      name="email"
+                      value={email}
+                      onChange={(e) => {
+                        setEmail(e.target.value);
+                        if (error) setError(null);
+                      }}
+                      required
+                      autoComplete="email"
+                      className="w-full px-3 md:px-4 py-2 md:py-3 theme-bg-primary theme-border border rounded-lg theme-text-primary placeholder-theme-text-muted focus:border-[#3f8cbf] focus:outline-none transition-colors [font-family:'Lexend',Helvetica] text-sm md:text-base"
+                      placeholder="Enter your email address"
+                    />
+                  </div>
+
+                  <Button 
+                    type="submit"
+                    disabled={loading}
+                    className="w-full h-10 md:h-12 bg-[#3f8cbf] hover:bg-[#2d6a94] rounded-lg [font-family:'Lexend',Helvetica] font-bold text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm md:text-base"
+                  >
+                    {loading ? (
+                      <div className="flex items-center justify-center gap-2">
+                        <div className="w-3 h-3 md:w-4 md:h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                        Sending...
+                      </div>
+                    ) : (
+                      'Send Reset Link'
+                    )}
+                  </Button>
+                </form>
+              )}
+
+              <div className="text-center mt-4 md:mt-6">
+                <p className="[font-family:'Lexend',Helvetica] font-normal theme-text-muted text-xs md:text-sm">
+                  Remembered it?{" "}
+                  <Link to="/login" className="text-[#3f8cbf] hover:underline font-medium">
+                    Back to Sign In
+                  </Link>
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </section>
+    </main>
+  );
+};
@@ -1,18 +1,33 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { HeroSection } from "../StitchDesign/sections/HeroSection/index.ts";
 import { Button } from "../../components/ui/button";
 import { Card, CardContent } from "../../components/ui/card";
 import { useAuth } from "../../contexts/AuthContext";
+import { AuthService } from "../../services/authService";
+import { PhoneSignInForm } from "./components/PhoneSignInForm";
+import { SignInOptions } from "./components/SignInOptions";
 
 export const LoginPage = (): JSX.Element => {
   const { signIn } = useAuth();
+  const navigate = useNavigate();
   const [formData, setFormData] = useState({
     email: '',
     password: '',
     rememberMe: false
   });
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  // Google sends the student back here with an error if sign-in was cancelled or failed
+  const [linkError] = useState(() => AuthService.readAuthLink(window.location).error);
+  const [error, setError] = useState<string | null>(linkError);
+  const [usePhone, setUsePhone] = useState(false);
+
+  // Drop the error from the address bar once it's on screen
+  useEffect(() => {
+    if (linkError) {
+      navigate('/login', { replace: true });
+    }
+  }, [linkError, navigate]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value, type, checked } = e.target;
@@ -61,6 +76,11 @@ export const LoginPage = (): JSX.Element => {
       // Don't redirect immediately - let the AuthContext handle the redirect
       // based on user profile completion status
     } catch (error: any) {
+      // The password was right, so show the inbox screen where they can get a new confirmation link
+      if (error.name === 'EmailNotConfirmedError') {
+        navigate(`/verify-email?email=${encodeURIComponent(formData.email.trim())}`);
+        return;
+      }
       setError(error.message || 'An error occurred during sign in');
       setLoading(false);
     }
@@ -85,98 +105,114 @@ export const LoginPage = (): JSX.Element => {
           {/* Login Form */}
           <Card className="theme-bg-secondary theme-border">
             <CardContent className="p-4 md:p-8">
-              <form onSubmit={handleSubmit} className="flex flex-col gap-4 md:gap-6">
-                {/* Error Message */}
-                {error && (
-                  <div className="p-3 md:p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
-                    <p className="text-red-400 text-xs md:text-sm [font-family:'Lexend',Helvetica]">
-                      {error}
-                    </p>
-                  </div>
-                )}
-
-                {/* Email */}
-                <div className="flex flex-col gap-2">
-                  <label className="[font-family:'Lexend',Helvetica] font-medium theme-text-primary text-xs md:text-sm">
-                    Email Address
-                  </label>
-                  <input
-                    type="email"
-                    name="email"
-                    value={formData.email}
-                    onChange={handleInputChange}
-                    required
-                    autoComplete="email"
-                    className="w-full px-3 md:px-4 py-2 md:py-3 theme-bg-primary theme-border border rounded-lg theme-text-primary placeholder-theme-text-muted focus:border-[#3f8cbf] focus:outline-none transition-colors [font-family:'Lexend',Helvetica] text-sm md:text-base"
-                    placeholder="Enter your email address"
-                  />
-                </div>
-
-                {/* Password */}
-                <div className="flex flex-col gap-2">
-                  <label className="[font-family:'Lexend',Helvetica] font-medium theme-text-primary text-xs md:text-sm">
-                    Password
-                  </label>
-                  <input
-                    type="password"
-                    name="password"
-                    value={formData.password}
-                    onChange={handleInputChange}
-                    required
-                    autoComplete="current-password"
-                    className="w-full px-3 md:px-4 py-2 md:py-3 theme-bg-primary theme-border border rounded-lg theme-text-primary placeholder-theme-text-muted focus:border-[#3f8cbf] focus:outline-none transition-colors [font-family:'Lexend',Helvetica] text-sm md:text-base"
-                    placeholder="Enter your password"
-                  />
-                </div>
+              {usePhone ? (
+                <PhoneSignInForm onCancel={() => setUsePhone(false)} />
+              ) : (
+                <form onSubmit={handleSubmit} className="flex flex-col gap-4 md:gap-6">
+                  {/* Error Message */}
+                  {error && (
+                    <div className="p-3 md:p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+                      <p className="text-red-400 text-xs md:text-sm [font-family:'Lexend',Helvetica]">
+                        {error}
+                      </p>
+                    </div>
+                  )}
 
-                {/* Remember Me & Forgot Password */}
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-2">
+                  {/* Email */}
+                  <div className="flex flex-col gap-2">
+                    <label className="[font-family:'Lexend',Helvetica] font-medium theme-text-primary text-xs md:text-sm">
+                      Email Address
+                    </label>
                     <input
-                      type="checkbox"
-                      name="rememberMe"
-                      checked={formData.rememberMe}
+                      type="email"
+                      name="email"
+                      value={formData.email}
                       onChange={handleInputChange}
-                      className="w-3 h-3 md:w-4 md:h-4 theme-bg-primary theme-border border rounded focus:border-[#3f8cbf] focus:outline-none"
+                      required
+                      autoComplete="email"
+                      className="w-full px-3 md:px-4 py-2 md:py-3 theme-bg-primary theme-border border rounded-lg theme-text-primary placeholder-theme-text-muted focus:border-[#3f8cbf] focus:outline-none transition-colors [font-family:'Lexend',Helvetica] text-sm md:text-base"
+                      placeholder="Enter your email address"
                     />
-                    <label className="[font-family:'Lexend',Helvetica] font-normal theme-text-muted text-xs md:text-sm">
-                      Remember me
+                  </div>
+
+                  {/* Password */}
+                  <div className="flex flex-col gap-2">
+                    <label className="[font-family:'Lexend',Helvetica] font-medium theme-text-primary text-xs md:text-sm">
+                      Password
                     </label>
+                    <input
+                      type="password"
+                      name="password"
+                      value={formData.password}
+                      onChange={handleInputChange}
+                      required
+                      autoComplete="current-password"
+                      className="w-full px-3 md:px-4 py-2 md:py-3 theme-bg-primary theme-border border rounded-lg theme-text-primary placeholder-theme-text-muted focus:border-[#3f8cbf] focus:outline-none transition-colors [font-family:'Lexend',Helvetica] text-sm md:text-base"
+                      placeholder="Enter your password"
+                    />
                   </div>
-                  <a 
-                    href="/forgot-password" 
-                    className="[font-family:'Lexend',Helvetica] font-medium text-[#3f8cbf] text-xs md:text-sm hover:underline"
-                  >
-                    Forgot password?
-                  </a>
-                </div>
 
-                {/* Submit Button */}
-                <Button 
-                  type="submit"
-                  disabled={loading}
-                  className="w-full h-10 md:h-12 bg-[#3f8cbf] hover:bg-[#2d6a94] rounded-lg [font-family:'Lexend',Helvetica] font-bold text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm md:text-base"
-                >
-                  {loading ? (
-                    <div className="flex items-center justify-center gap-2">
-                      <div className="w-3 h-3 md:w-4 md:h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                      Signing In...
+                  {/* Remember Me & Forgot Password */}
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        name="rememberMe"
+                        checked={formData.rememberMe}
+                        onChange={handleInputChange}
+                        className="w-3 h-3 md:w-4 md:h-4 theme-bg-primary theme-border border rounded focus:border-[#3f8cbf] focus:outline-none"
+                      />
+                      <label className="[font-family:'Lexend',Helvetica] font-normal theme-text-muted text-xs md:text-sm">
+                        Remember me
+                      </label>
                     </div>
-                  ) : (
-                    'Sign In'
-                  )}
-                </Button>
-
-                {/* Sign Up Link */}
-                <div className="text-center">
-                  <p className="[font-family:'Lexend',Helvetica] font-normal theme-text-muted text-xs md:text-sm">
-                    Don't have an account?{" "}
-                    <a href="/signup" className="text-[#3f8cbf] hover:underline font-medium">
-                      Create Account
+                    <a 
+                      href="/forgot-password" 
+                      className="[font-family:'Lexend',Helvetica] font-medium text-[#3f8cbf] text-xs md:text-sm hover:underline"
+                    >
+                      Forgot password?
                     </a>
-                  </p>
-                </div>
-              </form>
+                  </div>
+
+                  {/* Submit Button */}
+                  <Button 
+                    type="submit"
+                    disabled={loading}
+                    className="w-full h-10 md:h-12 bg-[#3f8cbf] hover:bg-[#2d6a94] rounded-lg [font-family:'Lexend',Helvetica] font-bold text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm md:text-base"
+                  >
+                    {loading ? (
+                      <div className="flex items-center justify-center gap-2">
+                        <div className="w-3 h-3 md:w-4 md:h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                        Signing In...
+                      </div>
+                    ) : (
+                      'Sign In'
+                    )}
+                  </Button>
+
+                  {/* Sign Up Link */}
+                  <div className="text-center">
+                    <p className="[font-family:'Lexend',Helvetica] font-normal theme-text-muted text-xs md:text-sm">
+                      Don't have an account?{" "}
+                      <a href="/signup" className="text-[#3f8cbf] hover:underline font-medium">
+                        Create Account
+                      </a>
+                    </p>
+                  </div>
+                </form>
+              )}
+
+              <SignInOptions
+                showPhoneOption={!usePhone}
+                onUsePhone={() => {
+                  setUsePhone(true);
+                  setError(null);
+                }}
+                onError={(message) => {
+                  setUsePhone(false);
+                  setError(message);
+                }}
+              />
             </CardContent>
           </Card>
 
@@ -0,0 +1,224 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { HeroSection } from "../StitchDesign/sections/HeroSection/index.ts";
+import { Button } from "../../components/ui/button";
+import { Card, CardContent } from "../../components/ui/card";
+import { PasswordRequirements } from "../../components/PasswordRequirements";
+import { AuthService } from "../../services/authService";
+import { getPasswordError } from "../../lib/passwordPolicy";
+
+type ResetStatus = 'checking' | 'ready' | 'invalid' | 'done';
+
+export const ResetPasswordPage = (): JSX.Element => {
+  const navigate = useNavigate();
+  // Read the link before Supabase tidies the address bar
+  const [link] = useState(() => AuthService.readAuthLink(window.location));
+  const [status, setStatus] = useState<ResetStatus>('checking');
+  const [email, setEmail] = useState<string | undefined>();
+  const [formData, setFormData] = useState({ password: '', confirmPassword: '' });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Reset tokens work once, so don't verify again when the effect re-runs in development
+  const verifiedRef = useRef(false);
+
+  // Sign in with the link from the email, which is what allows setting a new password
+  useEffect(() => {
+    if (verifiedRef.current) return;
+    verifiedRef.current = true;
+
+    const verifyLink = async () => {
+      try {
+        if (link.error) {
+          throw new Error(link.error.includes('expired')
+            ? 'This reset link has expired or was already used. Please request a new one.'
+            : link.error);
+        }
+
+        if (link.tokenHash) {
+          const session = await AuthService.verifyRecoveryToken(link.tokenHash);
+          setEmail(session?.user.email);
+        } else if (link.hasSession) {
+          const session = await AuthService.getSession();
+          if (!session) {
+            throw new Error('This reset link has expired, or was opened in a different browser from the one you requested it in. Please request a new one.');
+          }
+          setEmail(session.user.email);
+        } else {
+          throw new Error('Open the link from your password reset email to choose a new password.');
+        }
+
+        setStatus('ready');
+      } catch (error: any) {
+        setError(error.message || 'This reset link is not valid');
+        setStatus('invalid');
+      }
+    };
+
+    verifyLink();
+  }, [link]);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+    if (error) {
+      setError(null);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const passwordError = getPasswordError(formData.password, email);
+    if (passwordError) {
+      setError(passwordError);
+      return;
+    }
+    if (formData.password !== formData.confirmPassword) {
+      setError("Passwords don't match");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      await AuthService.updatePassword(formData.password);
+      // Whoever may have known the old password shouldn't stay signed in elsewhere
+      await AuthService.signOutOtherSessions();
+      setStatus('done');
+    } catch (error: any) {
+      setError(error.message || 'Failed to update your password');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <main className="flex flex-col w-full theme-bg-primary min-h-screen">
+      <HeroSection />
+      
+      <section className="flex items-center justify-center px-4 md:px-6 lg:px-10 py-8 md:py-20 w-full theme-bg-primary min-h-[calc(100vh-80px)]">
+        <div className="flex flex-col max-w-[420px] w-full">
+          {/* Header */}
+          <div className="text-center mb-6 md:mb-8">
+            <h1 className="[font-family:'Lexend',Helvetica] font-black theme-text-primary text-2xl sm:text-3xl md:text-4xl tracking-[-1.00px] leading-[1.1] mb-3 md:mb-4">
+              Choose a New Password
+            </h1>
+            {email && status === 'ready' && (
+              <p className="[font-family:'Lexend',Helvetica] font-normal theme-text-secondary text-sm md:text-base tracking-[0] leading-6">
+                For {email}
+              </p>
+            )}
+          </div>
+
+          <Card className="theme-bg-secondary theme-border">
+            <CardContent className="p-4 md:p-8">
+              {status === 'checking' ? (
+                <div className="flex flex-col items-center gap-4 py-4">
+                  <div className="w-8 h-8 border-4 border-[#3f8cbf] border-t-transparent rounded-full animate-spin"></div>
+                  <p className="theme-text-primary [font-family:'Lexend',Helvetica] text-sm">Checking your reset link...</p>
+                </div>
+              ) : status === 'invalid' ? (
+                <div className="flex flex-col gap-4 text-center">
+                  <div className="text-4xl">⚠️</div>
+                  <p className="[font-family:'Lexend',Helvetica] theme-text-primary text-sm md:text-base">
+                    {error}
+                  </p>
+                  <Button
+                    type="button"
+                    onClick={() => navigate('/forgot-password')}
+                    className="w-full h-10 md:h-12 bg-[#3f8cbf] hover:bg-[#2d6a94] rounded-lg [font-family:'Lexend',Helvetica] font-bold text-white transition-colors text-sm md:text-base"
+                  >
+                    Request a New Link
+                  </Button>
+                </div>
+              ) : status === 'done' ? (
+                <div className="flex flex-col gap-4 text-center">
+                  <div className="text-4xl">✅</div>
+                  <p className="[font-family:'Lexend',Helvetica] theme-text-primary text-sm md:text-base">
+                    Your password has been updated and you've been signed out on your other devices.
+                  </p>
+                  <Button
+                    type="button"
+                    onClick={() => navigate('/dashboard', { replace: true })}
+                    className="w-full h-10 md:h-12 bg-[#3f8cbf] hover:bg-[#2d6a94] rounded-lg [font-family:'Lexend',Helvetica] font-bold text-white transition-colors text-sm md:text-base"
+                  >
+                    Continue to Dashboard
+                  </Button>
+                </div>
+              ) : (
+                <form onSubmit={handleSubmit} className="flex flex-col gap-4 md:gap-6">
+                  {/* Error Message */}
+                  {error && (
+                    <div className="p-3 md:p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+                      <p className="text-red-400 text-xs md:text-sm [font-family:'Lexend',Helvetica]">
+                        {error}
+                      </p>
+                    </div>
+                  )}
+
+                  {/* New Password */}
+                  <div className="flex flex-col gap-2">
+                    <label className="[font-family:'Lexend',Helvetica] font-medium theme-text-primary text-xs md:text-sm">
+                      New Password
+                    </label>
+                    <input
+                      type="password"
+                      name="password"
+                      value={formData.password}
+                      onChange={handleInputChange}
+                      required
+                      autoComplete="new-password"
+                      className="w-full px-3 md:px-4 py-2 md:py-3 theme-bg-primary theme-border border rounded-lg theme-text-primary placeholder-theme-text-muted focus:border-[#3f8cbf] focus:outline-none transition-colors [font-family:'Lexend',Helvetica] text-sm md:text-base"
+                      placeholder="Create a strong password"
+                    />
+                    <PasswordRequirements password={formData.password} />
+                  </div>
+
+                  {/* Confirm Password */}
+                  <div className="flex flex-col gap-2">
+                    <label className="[font-family:'Lexend',Helvetica] font-medium theme-text-primary text-xs md:text-sm">
+                      Confirm New Password
+                    </label>
+                    <input
+                      type="password"
+                      name="confirmPassword"
+                      value={formData.confirmPassword}
+                      onChange={handleInputChange}
+                      required
+                      autoComplete="new-password"
+                      className="w-full px-3 md:px-4 py-2 md:py-3 theme-bg-primary theme-border border rounded-lg theme-text-primary placeholder-theme-text-muted focus:border-[#3f8cbf] focus:outline-none transition-colors [font-family:'Lexend',Helvetica] text-sm md:text-base"
+                      placeholder="Type it again"
+                    />
+                  </div>
+
+                  <Button 
+                    type="submit"
+                    disabled={loading}
+                    className="w-full h-10 md:h-12 bg-[#3f8cbf] hover:bg-[#2d6a94] rounded-lg [font-family:'Lexend',Helvetica] font-bold text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm md:text-base"
+                  >
+                    {loading ? (
+                      <div className="flex items-center justify-center gap-2">
+                        <div className="w-3 h-3 md:w-4 md:h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                        Saving...
+                      </div>
+                    ) : (
+                      'Set New Password'
+                    )}
+                  </Button>
+                </form>
+              )}
+
+              {status !== 'done' && (
+                <div className="text-center mt-4 md:mt-6">
+                  <Link to="/login" className="[font-family:'Lexend',Helvetica] text-[#3f8cbf] hover:underline font-medium text-xs md:text-sm">
+                    Back to Sign In
+                  </Link>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </section>
+    </main>
+  );
+};
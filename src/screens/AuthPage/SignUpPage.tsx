@@ -1,11 +1,17 @@
 import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { HeroSection } from "../StitchDesign/sections/HeroSection/index.ts";
 import { Button } from "../../components/ui/button";
 import { Card, CardContent } from "../../components/ui/card";
+import { PasswordRequirements } from "../../components/PasswordRequirements";
 import { useAuth } from "../../contexts/AuthContext";
+import { getPasswordError } from "../../lib/passwordPolicy";
+import { PhoneSignInForm } from "./components/PhoneSignInForm";
+import { SignInOptions } from "./components/SignInOptions";
 
 export const SignUpPage = (): JSX.Element => {
   const { signUp } = useAuth();
+  const navigate = useNavigate();
   const [formData, setFormData] = useState({
     firstName: '',
     lastName: '',
@@ -17,6 +23,8 @@ export const SignUpPage = (): JSX.Element => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showExistingUserAction, setShowExistingUserAction] = useState(false);
+  // Phone sign-up asks for the name during profile completion instead
+  const [usePhone, setUsePhone] = useState(false);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target;
@@ -65,8 +73,9 @@ export const SignUpPage = (): JSX.Element => {
       return;
     }
 
-    if (formData.password.length < 6) {
-      setError("Password must be at least 6 characters long");
+    const passwordError = getPasswordError(formData.password, formData.email);
+    if (passwordError) {
+      setError(passwordError);
       return;
     }
 
@@ -83,7 +92,7 @@ export const SignUpPage = (): JSX.Element => {
     setLoading(true);
 
     try {
-      await signUp({
+      const needsEmailConfirmation = await signUp({
         email: formData.email.trim(),
         password: formData.password,
         firstName: formData.firstName.trim(),
@@ -92,9 +101,10 @@ export const SignUpPage = (): JSX.Element => {
         board: '',
         area: '',
       });
-      
-      // Redirect to profile completion page
-      window.location.href = '/complete-profile';
+      if (needsEmailConfirmation) {
+        navigate(`/verify-email?email=${encodeURIComponent(formData.email.trim())}`, { state: { sent: true } });
+      }
+      // Otherwise the route guard moves the student on to profile completion once the new session arrives
     } catch (error: any) {
       const errorMessage = error.message || 'An error occurred during sign up';
       setError(errorMessage);
@@ -109,7 +119,7 @@ export const SignUpPage = (): JSX.Element => {
   };
 
   const handleGoToLogin = () => {
-    window.location.href = '/login';
+    navigate('/login');
   };
 
   return (
@@ -131,153 +141,170 @@ export const SignUpPage = (): JSX.Element => {
           {/* Sign Up Form */}
           <Card className="theme-bg-secondary theme-border">
             <CardContent className="p-4 md:p-8">
-              <form onSubmit={handleSubmit} className="flex flex-col gap-4 md:gap-6">
-                {/* Error Message */}
-                {error && (
-                  <div className="p-3 md:p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
-                    <p className="text-red-400 text-xs md:text-sm [font-family:'Lexend',Helvetica] mb-3">
-                      {error}
-                    </p>
-                    {showExistingUserAction && (
-                      <Button
-                        type="button"
-                        onClick={handleGoToLogin}
-                        className="w-full h-8 md:h-10 bg-red-500 hover:bg-red-600 rounded-lg [font-family:'Lexend',Helvetica] font-medium text-white transition-colors text-xs md:text-sm"
-                      >
-                        Go to Sign In Page
-                      </Button>
-                    )}
+              {usePhone ? (
+                <PhoneSignInForm onCancel={() => setUsePhone(false)} />
+              ) : (
+                <form onSubmit={handleSubmit} className="flex flex-col gap-4 md:gap-6">
+                  {/* Error Message */}
+                  {error && (
+                    <div className="p-3 md:p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+                      <p className="text-red-400 text-xs md:text-sm [font-family:'Lexend',Helvetica] mb-3">
+                        {error}
+                      </p>
+                      {showExistingUserAction && (
+                        <Button
+                          type="button"
+                          onClick={handleGoToLogin}
+                          className="w-full h-8 md:h-10 bg-red-500 hover:bg-red-600 rounded-lg [font-family:'Lexend',Helvetica] font-medium text-white transition-colors text-xs md:text-sm"
+                        >
+                          Go to Sign In Page
+                        </Button>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Name Fields */}
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 md:gap-4">
+                    <div className="flex flex-col gap-2">
+                      <label className="[font-family:'Lexend',Helvetica] font-medium theme-text-primary text-xs md:text-sm">
+                        First Name *
+                      </label>
+                      <input
+                        type="text"
+                        name="firstName"
+                        value={formData.firstName}
+                        onChange={handleInputChange}
+                        required
+                        className="w-full px-3 md:px-4 py-2 md:py-3 theme-bg-primary theme-border border rounded-lg theme-text-primary placeholder-theme-text-muted focus:border-[#3f8cbf] focus:outline-none transition-colors [font-family:'Lexend',Helvetica] text-sm md:text-base"
+                        placeholder="Enter first name"
+                      />
+                    </div>
+                    <div className="flex flex-col gap-2">
+                      <label className="[font-family:'Lexend',Helvetica] font-medium theme-text-primary text-xs md:text-sm">
+                        Last Name *
+                      </label>
+                      <input
+                        type="text"
+                        name="lastName"
+                        value={formData.lastName}
+                        onChange={handleInputChange}
+                        required
+                        className="w-full px-3 md:px-4 py-2 md:py-3 theme-bg-primary theme-border border rounded-lg theme-text-primary placeholder-theme-text-muted focus:border-[#3f8cbf] focus:outline-none transition-colors [font-family:'Lexend',Helvetica] text-sm md:text-base"
+                        placeholder="Enter last name"
+                      />
+                    </div>
                   </div>
-                )}
 
-                {/* Name Fields */}
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 md:gap-4">
+                  {/* Email */}
                   <div className="flex flex-col gap-2">
                     <label className="[font-family:'Lexend',Helvetica] font-medium theme-text-primary text-xs md:text-sm">
-                      First Name *
+                      Email Address *
                     </label>
                     <input
-                      type="text"
-                      name="firstName"
-                      value={formData.firstName}
+                      type="email"
+                      name="email"
+                      value={formData.email}
                       onChange={handleInputChange}
                       required
                       className="w-full px-3 md:px-4 py-2 md:py-3 theme-bg-primary theme-border border rounded-lg theme-text-primary placeholder-theme-text-muted focus:border-[#3f8cbf] focus:outline-none transition-colors [font-family:'Lexend',Helvetica] text-sm md:text-base"
-                      placeholder="Enter first name"
+                      placeholder="Enter your email address"
                     />
                   </div>
+
+                  {/* Password */}
                   <div className="flex flex-col gap-2">
                     <label className="[font-family:'Lexend',Helvetica] font-medium theme-text-primary text-xs md:text-sm">
-                      Last Name *
+                      Password *
                     </label>
                     <input
-                      type="text"
-                      name="lastName"
-                      value={formData.lastName}
+                      type="password"
+                      name="password"
+                      value={formData.password}
                       onChange={handleInputChange}
                       required
                       className="w-full px-3 md:px-4 py-2 md:py-3 theme-bg-primary theme-border border rounded-lg theme-text-primary placeholder-theme-text-muted focus:border-[#3f8cbf] focus:outline-none transition-colors [font-family:'Lexend',Helvetica] text-sm md:text-base"
-                      placeholder="Enter last name"
+                      placeholder="Create a strong password"
                     />
+                    <PasswordRequirements password={formData.password} />
                   </div>
-                </div>
-
-                {/* Email */}
-                <div className="flex flex-col gap-2">
-                  <label className="[font-family:'Lexend',Helvetica] font-medium theme-text-primary text-xs md:text-sm">
-                    Email Address *
-                  </label>
-                  <input
-                    type="email"
-                    name="email"
-                    value={formData.email}
-                    onChange={handleInputChange}
-                    required
-                    className="w-full px-3 md:px-4 py-2 md:py-3 theme-bg-primary theme-border border rounded-lg theme-text-primary placeholder-theme-text-muted focus:border-[#3f8cbf] focus:outline-none transition-colors [font-family:'Lexend',Helvetica] text-sm md:text-base"
-                    placeholder="Enter your email address"
-                  />
-                </div>
 
-                {/* Password */}
-                <div className="flex flex-col gap-2">
-                  <label className="[font-family:'Lexend',Helvetica] font-medium theme-text-primary text-xs md:text-sm">
-                    Password *
-                  </label>
-                  <input
-                    type="password"
-                    name="password"
-                    value={formData.password}
-                    onChange={handleInputChange}
-                    required
-                    className="w-full px-3 md:px-4 py-2 md:py-3 theme-bg-primary theme-border border rounded-lg theme-text-primary placeholder-theme-text-muted focus:border-[#3f8cbf] focus:outline-none transition-colors [font-family:'Lexend',Helvetica] text-sm md:text-base"
-                    placeholder="Create a strong password"
-                  />
-                </div>
+                  {/* Confirm Password */}
+                  <div className="flex flex-col gap-2">
+                    <label className="[font-family:'Lexend',Helvetica] font-medium theme-text-primary text-xs md:text-sm">
+                      Confirm Password *
+                    </label>
+                    <input
+                      type="password"
+                      name="confirmPassword"
+                      value={formData.confirmPassword}
+                      onChange={handleInputChange}
+                      required
+                      className="w-full px-3 md:px-4 py-2 md:py-3 theme-bg-primary theme-border border rounded-lg theme-text-primary placeholder-theme-text-muted focus:border-[#3f8cbf] focus:outline-none transition-colors [font-family:'Lexend',Helvetica] text-sm md:text-base"
+                      placeholder="Confirm your password"
+                    />
+                  </div>
 
-                {/* Confirm Password */}
-                <div className="flex flex-col gap-2">
-                  <label className="[font-family:'Lexend',Helvetica] font-medium theme-text-primary text-xs md:text-sm">
-                    Confirm Password *
-                  </label>
-                  <input
-                    type="password"
-                    name="confirmPassword"
-                    value={formData.confirmPassword}
-                    onChange={handleInputChange}
-                    required
-                    className="w-full px-3 md:px-4 py-2 md:py-3 theme-bg-primary theme-border border rounded-lg theme-text-primary placeholder-theme-text-muted focus:border-[#3f8cbf] focus:outline-none transition-colors [font-family:'Lexend',Helvetica] text-sm md:text-base"
-                    placeholder="Confirm your password"
-                  />
-                </div>
+                  {/* Terms Agreement */}
+                  <div className="flex items-start gap-3">
+                    <input
+                      type="checkbox"
+                      name="agreeToTerms"
+                      checked={formData.agreeToTerms}
+                      onChange={handleInputChange}
+                      required
+                      className="w-4 h-4 md:w-5 md:h-5 mt-0.5 theme-bg-primary theme-border border rounded focus:border-[#3f8cbf] focus:outline-none"
+                    />
+                    <p className="[font-family:'Lexend',Helvetica] font-normal theme-text-muted text-xs md:text-sm leading-5 md:leading-6">
+                      I agree to the{" "}
+                      <a href="/terms" className="text-[#3f8cbf] hover:underline">
+                        Terms of Service
+                      </a>{" "}
+                      and{" "}
+                      <a href="/privacy" className="text-[#3f8cbf] hover:underline">
+                        Privacy Policy
+                      </a>
+                    </p>
+                  </div>
 
-                {/* Terms Agreement */}
-                <div className="flex items-start gap-3">
-                  <input
-                    type="checkbox"
-                    name="agreeToTerms"
-                    checked={formData.agreeToTerms}
-                    onChange={handleInputChange}
-                    required
-                    className="w-4 h-4 md:w-5 md:h-5 mt-0.5 theme-bg-primary theme-border border rounded focus:border-[#3f8cbf] focus:outline-none"
-                  />
-                  <p className="[font-family:'Lexend',Helvetica] font-normal theme-text-muted text-xs md:text-sm leading-5 md:leading-6">
-                    I agree to the{" "}
-                    <a href="/terms" className="text-[#3f8cbf] hover:underline">
-                      Terms of Service
-                    </a>{" "}
-                    and{" "}
-                    <a href="/privacy" className="text-[#3f8cbf] hover:underline">
-                      Privacy Policy
-                    </a>
-                  </p>
-                </div>
+                  {/* Submit Button */}
+                  <Button 
+                    type="submit"
+                    disabled={loading}
+                    className="w-full h-10 md:h-12 bg-[#3f8cbf] hover:bg-[#2d6a94] rounded-lg [font-family:'Lexend',Helvetica] font-bold text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm md:text-base"
+                  >
+                    {loading ? (
+                      <div className="flex items-center justify-center gap-2">
+                        <div className="w-3 h-3 md:w-4 md:h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                        Creating Account...
+                      </div>
+                    ) : (
+                      'Create Account'
+                    )}
+                  </Button>
 
-                {/* Submit Button */}
-                <Button 
-                  type="submit"
-                  disabled={loading}
-                  className="w-full h-10 md:h-12 bg-[#3f8cbf] hover:bg-[#2d6a94] rounded-lg [font-family:'Lexend',Helvetica] font-bold text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm md:text-base"
-                >
-                  {loading ? (
-                    <div className="flex items-center justify-center gap-2">
-                      <div className="w-3 h-3 md:w-4 md:h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                      Creating Account...
-                    </div>
-                  ) : (
-                    'Create Account'
-                  )}
-                </Button>
+                  {/* Login Link */}
+                  <div className="text-center">
+                    <p className="[font-family:'Lexend',Helvetica] font-normal theme-text-muted text-xs md:text-sm">
+                      Already have an account?{" "}
+                      <a href="/login" className="text-[#3f8cbf] hover:underline font-medium">
+                        Sign In
+                      </a>
+                    </p>
+                  </div>
+                </form>
+              )}
 
-                {/* Login Link */}
-                <div className="text-center">
-                  <p className="[font-family:'Lexend',Helvetica] font-normal theme-text-muted text-xs md:text-sm">
-                    Already have an account?{" "}
-                    <a href="/login" className="text-[#3f8cbf] hover:underline font-medium">
-                      Sign In
-                    </a>
-                  </p>
-                </div>
-              </form>
+              <SignInOptions
+                showPhoneOption={!usePhone}
+                onUsePhone={() => {
+                  setUsePhone(true);
+                  setError(null);
+                }}
+                onError={(message) => {
+                  setUsePhone(false);
+                  setError(message);
+                }}
+              />
             </CardContent>
           </Card>
 
@@ -1,45 +1,28 @@
 import React, { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
 import { HeroSection } from "../StitchDesign/sections/HeroSection/index.ts";
 import { Button } from "../../components/ui/button";
 import { Card, CardContent } from "../../components/ui/card";
 import { useAuth } from "../../contexts/AuthContext";
 import { SubjectGroupService, type SubjectGroup } from "../../services/subjectGroupService";
+import { onboardingPaths } from "../../lib/onboarding";
 
 export const SubjectGroupPage = (): JSX.Element => {
-  const { user, profile, markProfileCompleted } = useAuth();
+  const { profile, saveSubjectGroup } = useAuth();
+  const navigate = useNavigate();
   const [selectedGroup, setSelectedGroup] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [subjectGroups, setSubjectGroups] = useState<SubjectGroup[]>([]);
 
-  // Redirect if not authenticated or profile not complete
-  useEffect(() => {
-    if (!user) {
-      window.location.href = '/login';
-      return;
-    }
-    
-    if (!profile || !profile.grade) {
-      window.location.href = '/complete-profile';
-      return;
-    }
-
-    // Load subject groups for the user's grade
-    const groups = SubjectGroupService.getSubjectGroups(profile.grade);
-    setSubjectGroups(groups);
+  // The route guard only lets students with a grade that has subject groups in here
+  const subjectGroups: SubjectGroup[] = profile?.grade ? SubjectGroupService.getSubjectGroups(profile.grade) : [];
 
-    // If there's only one group, auto-select it
-    if (groups.length === 1) {
-      setSelectedGroup(groups[0].id);
-    }
-
-    // If this grade doesn't require subject group selection, redirect to dashboard
-    if (!SubjectGroupService.requiresSubjectGroupSelection(profile.grade)) {
-      markProfileCompleted();
-      window.location.href = '/dashboard';
-      return;
+  // If there's only one group, auto-select it
+  useEffect(() => {
+    if (subjectGroups.length === 1) {
+      setSelectedGroup(subjectGroups[0].id);
     }
-  }, [user, profile, markProfileCompleted]);
+  }, [profile?.grade]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -49,49 +32,18 @@ export const SubjectGroupPage = (): JSX.Element => {
       return;
     }
 
-    if (!profile) {
-      setError("Profile information is missing");
-      return;
-    }
-
     setLoading(true);
     setError(null);
 
     try {
-      // Save the subject group selection
-      await SubjectGroupService.saveSubjectGroupSelection(user!.id, selectedGroup, profile);
-      
-      // Mark profile as completed
-      markProfileCompleted();
-      
-      // Redirect to dashboard
-      window.location.href = '/dashboard';
+      // Save the subject group selection; the route guard then moves on to the dashboard
+      await saveSubjectGroup(selectedGroup);
     } catch (error: any) {
       setError(error.message || 'An error occurred while saving your selection');
-    } finally {
       setLoading(false);
     }
   };
 
-  // Show loading if checking user state
-  if (!user || !profile) {
-    return (
-      <div className="flex items-center justify-center min-h-screen theme-bg-primary">
-        <div className="flex flex-col items-center gap-4">
-          <div className="w-8 h-8 border-4 border-[#3f8cbf] border-t-transparent rounded-full animate-spin"></div>
-          <p className="theme-text-primary [font-family:'Lexend',Helvetica]">Loading...</p>
-        </div>
-      </div>
-    );
-  }
-
-  // If no subject groups available, redirect to dashboard
-  if (subjectGroups.length === 0) {
-    markProfileCompleted();
-    window.location.href = '/dashboard';
-    return null;
-  }
-
   return (
     <main className="flex flex-col w-full theme-bg-primary min-h-screen">
       <HeroSection />
@@ -108,9 +60,9 @@ export const SubjectGroupPage = (): JSX.Element => {
             </p>
             <div className="inline-flex items-center gap-2 px-3 py-1 theme-bg-secondary rounded-full theme-border border">
               <span className="[font-family:'Lexend',Helvetica] font-medium theme-text-primary text-xs">
-                {profile.grade}
+                {profile?.grade}
               </span>
-              {profile.board && (
+              {profile?.board && (
                 <>
                   <span className="theme-text-muted">•</span>
                   <span className="[font-family:'Lexend',Helvetica] font-medium theme-text-primary text-xs">
@@ -223,7 +175,7 @@ export const SubjectGroupPage = (): JSX.Element => {
 
                   <Button 
                     type="button"
-                    onClick={() => window.location.href = '/complete-profile'}
+                    onClick={() => navigate(onboardingPaths.profile_incomplete)}
                     className="sm:w-auto h-10 md:h-12 bg-transparent theme-border border theme-text-muted hover:theme-bg-tertiary hover:theme-text-primary rounded-lg [font-family:'Lexend',Helvetica] font-medium transition-colors text-sm md:text-base"
                   >
                     Back to Profile
@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from "react";
+import { Link, useLocation, useNavigate } from "react-router-dom";
+import { HeroSection } from "../StitchDesign/sections/HeroSection/index.ts";
+import { Button } from "../../components/ui/button";
+import { Card, CardContent } from "../../components/ui/card";
+import { AuthService } from "../../services/authService";
+
+// Supabase only sends another confirmation email to the same address once a minute
+const RESEND_DELAY_SECONDS = 60;
+
+interface VerifyEmailState {
+  // Set when an email was sent on the way here, so the first resend waits out the limit
+  sent?: boolean;
+}
+
+export const VerifyEmailPage = (): JSX.Element => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  // The address is in the URL so the screen survives a refresh
+  const email = new URLSearchParams(location.search).get('email') || '';
+  const [resendIn, setResendIn] = useState(() =>
+    (location.state as VerifyEmailState | null)?.sent ? RESEND_DELAY_SECONDS : 0
+  );
+  const [loading, setLoading] = useState(false);
+  const [resent, setResent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timer = setTimeout(() => setResendIn(resendIn - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
+  const handleResend = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      await AuthService.resendConfirmationEmail(email);
+      setResent(true);
+      setResendIn(RESEND_DELAY_SECONDS);
+    } catch (error: any) {
+      setError(error.message || 'Failed to send the email');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <main className="flex flex-col w-full theme-bg-primary min-h-screen">
+      <HeroSection />
+
+      <section className="flex items-center justify-center px-4 md:px-6 lg:px-10 py-8 md:py-20 w-full theme-bg-primary min-h-[calc(100vh-80px)]">
+        <div className="flex flex-col max-w-[420px] w-full">
+          {/* Header */}
+          <div className="text-center mb-6 md:mb-8">
+            <h1 className="[font-family:'Lexend',Helvetica] font-black theme-text-primary text-2xl sm:text-3xl md:text-4xl tracking-[-1.00px] leading-[1.1] mb-3 md:mb-4">
+              Check Your Inbox
+            </h1>
+            <p className="[font-family:'Lexend',Helvetica] font-normal theme-text-secondary text-sm md:text-base tracking-[0] leading-6">
+              Confirm your email address to finish creating your account
+            </p>
+          </div>
+
+          <Card className="theme-bg-secondary theme-border">
+            <CardContent className="p-4 md:p-8">
+              <div className="flex flex-col gap-4 text-center">
+                <div className="text-4xl">📬</div>
+                <p className="[font-family:'Lexend',Helvetica] theme-text-primary text-sm md:text-base">
+                  {email ? (
+                    <>We sent a confirmation link to <span className="font-bold">{email}</span>.</>
+                  ) : (
+                    'We sent a confirmation link to your email address.'
+                  )}
+                </p>
+                <p className="[font-family:'Lexend',Helvetica] theme-text-muted text-xs md:text-sm">
+                  Open it to carry on setting up your profile. Check your spam folder if it doesn't arrive in a few minutes.
+                </p>
+
+                {error && (
+                  <div className="p-3 md:p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+                    <p className="text-red-400 text-xs md:text-sm [font-family:'Lexend',Helvetica]">
+                      {error}
+                    </p>
+                  </div>
+                )}
+                {resent && !error && (
+                  <p className="[font-family:'Lexend',Helvetica] text-green-400 text-xs md:text-sm">
+                    A new link is on its way.
+                  </p>
+                )}
+
+                {email && (
+                  <Button
+                    type="button"
+                    onClick={handleResend}
+                    disabled={loading || resendIn > 0}
+                    className="w-full h-10 md:h-12 bg-[#3f8cbf] hover:bg-[#2d6a94] rounded-lg [font-family:'Lexend',Helvetica] font-bold text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm md:text-base"
+                  >
+                    {loading ? 'Sending...' : resendIn > 0 ? `Resend email in ${resendIn}s` : 'Resend Email'}
+                  </Button>
+                )}
+                <Button
+                  type="button"
+                  onClick={() => navigate('/signup')}
+                  className="w-full h-10 md:h-12 bg-transparent theme-border border theme-text-muted hover:theme-bg-tertiary hover:theme-text-primary rounded-lg [font-family:'Lexend',Helvetica] font-medium transition-colors text-sm md:text-base"
+                >
+                  Use a different email
+                </Button>
+              </div>
+
+              <div className="text-center mt-4 md:mt-6">
+                <p className="[font-family:'Lexend',Helvetica] font-normal theme-text-muted text-xs md:text-sm">
+                  Already confirmed?{" "}
+                  <Link to="/login" className="text-[#3f8cbf] hover:underline font-medium">
+                    Sign In
+                  </Link>
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </section>
+    </main>
+  );
+};
@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "../../../components/ui/button";
+import { AuthService } from "../../../services/authService";
+
+// How long before another code can be requested, matching Supabase's default SMS rate limit
+const RESEND_DELAY_SECONDS = 60;
+
+const inputClassName = "w-full px-3 md:px-4 py-2 md:py-3 theme-bg-primary theme-border border rounded-lg theme-text-primary placeholder-theme-text-muted focus:border-[#3f8cbf] focus:outline-none transition-colors [font-family:'Lexend',Helvetica] text-sm md:text-base";
+
+interface PhoneSignInFormProps {
+  onCancel: () => void;
+}
+
+export const PhoneSignInForm: React.FC<PhoneSignInFormProps> = ({ onCancel }) => {
+  const [phoneInput, setPhoneInput] = useState('');
+  // Set once a code has been sent to this number
+  const [phone, setPhone] = useState<string | null>(null);
+  const [devCode, setDevCode] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [resendIn, setResendIn] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timer = setTimeout(() => setResendIn(resendIn - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
+  const sendCode = async (number: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const delivery = await AuthService.sendPhoneCode(number);
+      setPhone(delivery.phone);
+      setDevCode(delivery.devCode || null);
+      setCode('');
+      setResendIn(RESEND_DELAY_SECONDS);
+    } catch (error: any) {
+      setError(error.message || 'Failed to send the code');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSendCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    const normalized = AuthService.normalizePhone(phoneInput);
+    if (!normalized) {
+      setError('Please enter a mobile number like 0300 1234567');
+      return;
+    }
+    sendCode(normalized);
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!phone) return;
+    if (!/^\d{6}$/.test(code)) {
+      setError('Please enter the 6-digit code');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      // Once signed in, the route guard takes the student on to profile completion or the dashboard
+      await AuthService.verifyPhoneCode(phone, code);
+    } catch (error: any) {
+      setError(error.message || 'Failed to verify the code');
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={phone ? handleVerify : handleSendCode} className="flex flex-col gap-4 md:gap-6">
+      {/* Error Message */}
+      {error && (
+        <div className="p-3 md:p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <p className="text-red-400 text-xs md:text-sm [font-family:'Lexend',Helvetica]">
+            {error}
+          </p>
+        </div>
+      )}
+
+      {phone ? (
+        <div className="flex flex-col gap-2">
+          <label className="[font-family:'Lexend',Helvetica] font-medium theme-text-primary text-xs md:text-sm">
+            Code sent to {phone}
+          </label>
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={6}
+            value={code}
+            onChange={(e) => {
+              setCode(e.target.value.replace(/\D/g, ''));
+              if (error) setError(null);
+            }}
+            className={`${inputClassName} tracking-[0.5em] text-center`}
+            placeholder="••••••"
+            autoFocus
+          />
+          {devCode && (
+            <p className="[font-family:'Lexend',Helvetica] text-yellow-400 text-xs">
+              Development mode: your code is {devCode}
+            </p>
+          )}
+          <div className="flex items-center justify-between">
+            <button
+              type="button"
+              onClick={() => {
+                setPhone(null);
+                setError(null);
+              }}
+              className="[font-family:'Lexend',Helvetica] text-[#3f8cbf] text-xs md:text-sm hover:underline"
+            >
+              Change number
+            </button>
+            <button
+              type="button"
+              onClick={() => sendCode(phone)}
+              disabled={loading || resendIn > 0}
+              className="[font-family:'Lexend',Helvetica] text-[#3f8cbf] text-xs md:text-sm hover:underline disabled:theme-text-muted disabled:no-underline"
+            >
+              {resendIn > 0 ? `Resend code in ${resendIn}s` : 'Resend code'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-col gap-2">
+          <label className="[font-family:'Lexend',Helvetica] font-medium theme-text-primary text-xs md:text-sm">
+            Mobile Number
+          </label>
+          <input
+            type="tel"
+            autoComplete="tel"
+            value={phoneInput}
+            onChange={(e) => {
+              setPhoneInput(e.target.value);
+              if (error) setError(null);
+            }}
+            className={inputClassName}
+            placeholder="0300 1234567"
+            autoFocus
+          />
+          <p className="[font-family:'Lexend',Helvetica] theme-text-muted text-xs">
+            We'll text you a 6-digit code. Numbers outside Pakistan need their country code, e.g. +44.
+          </p>
+        </div>
+      )}
+
+      <Button 
+        type="submit"
+        disabled={loading}
+        className="w-full h-10 md:h-12 bg-[#3f8cbf] hover:bg-[#2d6a94] rounded-lg [font-family:'Lexend',Helvetica] font-bold text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm md:text-base"
+      >
+        {loading ? (
+          <div className="flex items-center justify-center gap-2">
+            <div className="w-3 h-3 md:w-4 md:h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+            {phone ? 'Verifying...' : 'Sending Code...'}
+          </div>
+        ) : (
+          phone ? 'Verify Code' : 'Send Code'
+        )}
+      </Button>
+
+      <button
+        type="button"
+        onClick={onCancel}
+        className="[font-family:'Lexend',Helvetica] theme-text-muted text-xs md:text-sm hover:underline"
+      >
+        Use email instead
+      </button>
+    </form>
+  );
+};
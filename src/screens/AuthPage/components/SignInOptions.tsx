@@ -0,0 +1,53 @@
+import React, { useState } from "react";
+import { Button } from "../../../components/ui/button";
+import { AuthService } from "../../../services/authService";
+
+interface SignInOptionsProps {
+  showPhoneOption: boolean;
+  onUsePhone: () => void;
+  onError: (message: string) => void;
+}
+
+// Google and phone alternatives to the email form, shown on both the login and signup pages
+export const SignInOptions: React.FC<SignInOptionsProps> = ({ showPhoneOption, onUsePhone, onError }) => {
+  const [redirecting, setRedirecting] = useState(false);
+
+  const handleGoogle = async () => {
+    setRedirecting(true);
+    try {
+      await AuthService.signInWithGoogle();
+    } catch (error: any) {
+      onError(error.message || 'Google sign-in failed');
+      setRedirecting(false);
+    }
+  };
+
+  const optionClassName = "w-full h-10 md:h-12 bg-transparent theme-border border theme-text-primary hover:theme-bg-tertiary rounded-lg [font-family:'Lexend',Helvetica] font-medium transition-colors text-sm md:text-base disabled:opacity-50";
+
+  return (
+    <div className="flex flex-col gap-3 mt-4 md:mt-6">
+      <div className="flex items-center gap-3">
+        <div className="flex-1 h-px theme-bg-tertiary" />
+        <span className="[font-family:'Lexend',Helvetica] theme-text-muted text-xs">or</span>
+        <div className="flex-1 h-px theme-bg-tertiary" />
+      </div>
+
+      <Button type="button" onClick={handleGoogle} disabled={redirecting} className={optionClassName}>
+        {redirecting ? 'Opening Google...' : (
+          <span className="flex items-center justify-center gap-2">
+            <span className="font-bold text-[#4285f4]">G</span>
+            Continue with Google
+          </span>
+        )}
+      </Button>
+
+      {showPhoneOption && (
+        <Button type="button" onClick={onUsePhone} className={optionClassName}>
+          <span className="flex items-center justify-center gap-2">
+            📱 Continue with Phone Number
+          </span>
+        </Button>
+      )}
+    </div>
+  );
+};
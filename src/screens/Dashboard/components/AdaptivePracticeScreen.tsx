@@ -0,0 +1,293 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Card, CardContent } from "../../../components/ui/card";
+import { Button } from "../../../components/ui/button";
+import { MessageRenderer } from "../../../components/MessageRenderer";
+import { useAuth } from "../../../contexts/AuthContext";
+import { AdaptivePracticeService } from "../../../services/adaptivePracticeService";
+import type { PracticeResult } from "../../../services/adaptivePracticeService";
+import { QuestionInput } from "./QuestionRenderers";
+import { isAnswered } from "../../../lib/grading";
+import { formatCorrectAnswer } from "../../../lib/questions";
+import type { QuestionResponse } from "../../../lib/questions";
+import type { PracticePlan, TopicMastery } from "../../../lib/mastery";
+
+interface AdaptivePracticeScreenProps {
+  subject?: string;
+  onExit: () => void;
+}
+
+const levelColors: { [level in TopicMastery['level']]: string } = {
+  weak: 'bg-red-500',
+  developing: 'bg-yellow-500',
+  strong: 'bg-green-500'
+};
+
+const MasteryBar: React.FC<{ topic: TopicMastery }> = ({ topic }) => (
+  <div>
+    <div className="flex justify-between mb-1 [font-family:'Lexend',Helvetica] text-sm">
+      <span className="text-white">{topic.topic} <span className="text-[#9eafbf]">• {topic.subject}</span></span>
+      <span className="text-[#9eafbf]">{topic.attempts > 0 ? `${topic.mastery}%` : 'New'}</span>
+    </div>
+    <div className="w-full bg-[#0f1419] rounded-full h-2">
+      <div className={`${levelColors[topic.level]} h-2 rounded-full`} style={{ width: `${topic.mastery}%` }}></div>
+    </div>
+  </div>
+);
+
+export const AdaptivePracticeScreen: React.FC<AdaptivePracticeScreenProps> = ({ subject, onExit }) => {
+  const { user, profile, recordStudySession } = useAuth();
+  const [plan, setPlan] = useState<PracticePlan | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [started, setStarted] = useState(false);
+  const [index, setIndex] = useState(0);
+  const [response, setResponse] = useState<QuestionResponse>(null);
+  const [checked, setChecked] = useState<PracticeResult | null>(null);
+  const [results, setResults] = useState<{ topic: string; isCorrect: boolean }[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [updatedMastery, setUpdatedMastery] = useState<TopicMastery[] | null>(null);
+  const startedAtRef = useRef(Date.now());
+  const recordedRef = useRef(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const buildSession = async () => {
+      try {
+        setPlan(await AdaptivePracticeService.buildSession(user.id, { grade: profile?.grade, subject }));
+      } catch (error) {
+        setError(error instanceof Error ? error.message : 'Failed to build your practice session');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    buildSession();
+  }, [user, profile?.grade, subject]);
+
+  const finished = !!plan && started && index >= plan.questions.length;
+
+  // Record the session and show how mastery moved once the last question is done
+  useEffect(() => {
+    if (!user || !finished || results.length === 0 || recordedRef.current) return;
+    recordedRef.current = true;
+
+    const durationMinutes = Math.max(1, Math.round((Date.now() - startedAtRef.current) / 60000));
+    const score = Math.round(results.filter(result => result.isCorrect).length / results.length * 100);
+    recordStudySession('test', subject || 'Mixed Practice', durationMinutes, score).catch(error => {
+      console.error('Error recording practice session:', error);
+    });
+
+    AdaptivePracticeService.getTopicMastery(user.id)
+      .then(setUpdatedMastery)
+      .catch(error => console.error('Error refreshing topic mastery:', error));
+  }, [user, finished, results, subject, recordStudySession]);
+
+  const handleCheck = async () => {
+    if (!user || !plan) return;
+    const { question } = plan.questions[index];
+
+    setSaving(true);
+    try {
+      const result = await AdaptivePracticeService.submitAnswer(question, response);
+      setChecked(result);
+      setResults(prev => [...prev, { topic: question.topic || '', isCorrect: result.grade.isCorrect }]);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save your answer');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleNext = () => {
+    setIndex(current => current + 1);
+    setResponse(null);
+    setChecked(null);
+    setError(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#3f8cbf]"></div>
+      </div>
+    );
+  }
+
+  if (!plan || plan.questions.length === 0) {
+    return (
+      <Card className="bg-[#1e282d] border-[#3d4f5b] max-w-2xl mx-auto">
+        <CardContent className="p-8 text-center">
+          <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] mb-4">
+            {error || 'There are no practice questions for your topics yet. Take a test first so we can find your weak spots.'}
+          </p>
+          <Button
+            onClick={onExit}
+            className="bg-[#0f1419] border border-[#3d4f5b] text-white hover:bg-[#2a3540] [font-family:'Lexend',Helvetica] font-medium"
+          >
+            Back
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // Session summary
+  if (finished) {
+    const correct = results.filter(result => result.isCorrect).length;
+    const focusMastery = plan.focusTopics.map(topic =>
+      updatedMastery?.find(entry => entry.subject === topic.subject && entry.topic === topic.topic) || topic
+    );
+
+    return (
+      <Card className="bg-[#1e282d] border-[#3d4f5b] max-w-2xl mx-auto">
+        <CardContent className="p-8">
+          <div className="text-center mb-6">
+            <div className="text-5xl mb-4">🎯</div>
+            <h2 className="[font-family:'Lexend',Helvetica] font-bold text-white text-2xl mb-1">
+              Practice complete
+            </h2>
+            <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf]">
+              {correct}/{results.length} correct
+            </p>
+          </div>
+          <h3 className="[font-family:'Lexend',Helvetica] font-bold text-white text-sm mb-3">
+            Topic mastery now
+          </h3>
+          <div className="space-y-3 mb-6">
+            {focusMastery.map(topic => (
+              <MasteryBar key={`${topic.subject}-${topic.topic}`} topic={topic} />
+            ))}
+          </div>
+          <div className="text-center">
+            <Button
+              onClick={onExit}
+              className="bg-[#3f8cbf] hover:bg-[#2d6a94] text-white [font-family:'Lexend',Helvetica] font-medium"
+            >
+              Done
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // Focus topics before starting
+  if (!started) {
+    return (
+      <Card className="bg-[#1e282d] border-[#3d4f5b] max-w-2xl mx-auto">
+        <CardContent className="p-8">
+          <h2 className="[font-family:'Lexend',Helvetica] font-bold text-white text-2xl mb-1">
+            Practice weak topics
+          </h2>
+          <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm mb-6">
+            {plan.questions.length} questions picked from the topics you find hardest, at a difficulty matched to your recent answers.
+          </p>
+          <div className="space-y-4 mb-6">
+            {plan.focusTopics.map(topic => (
+              <div key={`${topic.subject}-${topic.topic}`}>
+                <MasteryBar topic={topic} />
+                <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs mt-1">
+                  {topic.attempts > 0
+                    ? `${topic.correct}/${topic.attempts} correct so far • ${topic.recentAccuracy}% recently • ${topic.targetDifficulty} questions next`
+                    : `Not practised yet • ${topic.targetDifficulty} questions next`}
+                </p>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end gap-3">
+            <Button
+              onClick={onExit}
+              className="bg-[#0f1419] border border-[#3d4f5b] text-white hover:bg-[#2a3540] [font-family:'Lexend',Helvetica] font-medium"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={() => {
+                startedAtRef.current = Date.now();
+                setStarted(true);
+              }}
+              className="bg-[#3f8cbf] hover:bg-[#2d6a94] text-white [font-family:'Lexend',Helvetica] font-medium"
+            >
+              Start Practice
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { question, subject: questionSubject, difficulty } = plan.questions[index];
+
+  return (
+    <Card className="bg-[#1e282d] border-[#3d4f5b] max-w-3xl mx-auto">
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
+            Question {index + 1} of {plan.questions.length} • {questionSubject} • {question.topic} • {difficulty}
+          </p>
+          <Button
+            onClick={onExit}
+            className="bg-transparent text-[#9eafbf] hover:text-white hover:bg-[#2a3540] [font-family:'Lexend',Helvetica] font-medium"
+          >
+            End practice
+          </Button>
+        </div>
+
+        <div className="text-white text-base">
+          <MessageRenderer content={question.prompt} className="text-base" />
+        </div>
+
+        <div className={checked ? 'pointer-events-none opacity-80' : ''}>
+          <QuestionInput question={question} response={response} onChange={setResponse} />
+        </div>
+
+        {checked && (
+          <div className={`rounded-lg border p-4 ${
+            checked.grade.isCorrect ? 'border-green-500/40 bg-green-500/10' : 'border-red-500/40 bg-red-500/10'
+          }`}>
+            <p className={`[font-family:'Lexend',Helvetica] font-bold mb-2 ${checked.grade.isCorrect ? 'text-green-400' : 'text-red-400'}`}>
+              {checked.grade.isCorrect ? '✅ Correct' : '❌ Not quite'}
+            </p>
+            {!checked.grade.isCorrect && (
+              <div className="text-white text-sm mb-2">
+                <MessageRenderer content={`**Correct answer:** ${formatCorrectAnswer(checked.question)}`} />
+              </div>
+            )}
+            {checked.grade.feedback && (
+              <p className="[font-family:'Lexend',Helvetica] text-yellow-400 text-sm mb-2">{checked.grade.feedback}</p>
+            )}
+            {checked.question.explanation && (
+              <div className="text-[#9eafbf] text-sm">
+                <MessageRenderer content={checked.question.explanation} />
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <p className="[font-family:'Lexend',Helvetica] text-red-400 text-sm">{error}</p>
+        )}
+
+        <div className="flex justify-end">
+          {checked ? (
+            <Button
+              onClick={handleNext}
+              className="bg-[#3f8cbf] hover:bg-[#2d6a94] text-white [font-family:'Lexend',Helvetica] font-medium"
+            >
+              {index < plan.questions.length - 1 ? 'Next →' : 'Finish'}
+            </Button>
+          ) : (
+            <Button
+              onClick={handleCheck}
+              disabled={!isAnswered(response) || saving}
+              className="bg-[#10b981] hover:bg-[#059669] text-white [font-family:'Lexend',Helvetica] font-medium"
+            >
+              {saving ? 'Checking...' : 'Check Answer'}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,47 @@
+import React from "react";
+import type { TutorAttachment } from "../../../lib/supabase";
+
+interface AttachmentThumbnailProps {
+  attachment: TutorAttachment;
+  onRemove?: () => void;
+}
+
+export const AttachmentThumbnail: React.FC<AttachmentThumbnailProps> = ({ attachment, onRemove }) => {
+  const isImage = attachment.mime_type.startsWith('image/');
+
+  const preview = isImage && attachment.url ? (
+    <img
+      src={attachment.url}
+      alt={attachment.name}
+      className="w-20 h-20 object-cover rounded-lg border border-[#3d4f5b]"
+    />
+  ) : (
+    <div className="w-20 h-20 flex flex-col items-center justify-center gap-1 px-1 rounded-lg border border-[#3d4f5b] bg-[#0f1419]">
+      <span className="text-2xl">{isImage ? '🖼️' : '📄'}</span>
+      <span className="[font-family:'Lexend',Helvetica] text-[10px] text-[#9eafbf] w-full truncate text-center">
+        {attachment.name}
+      </span>
+    </div>
+  );
+
+  return (
+    <div className="relative" title={attachment.name}>
+      {attachment.url ? (
+        <a href={attachment.url} target="_blank" rel="noopener noreferrer">
+          {preview}
+        </a>
+      ) : (
+        preview
+      )}
+      {onRemove && (
+        <button
+          onClick={onRemove}
+          className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-red-500 hover:bg-red-600 text-white text-xs leading-none"
+          title="Remove attachment"
+        >
+          ×
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useState } from "react";
+import { Button } from "../../../components/ui/button";
+import { PasswordRequirements } from "../../../components/PasswordRequirements";
+import { useAuth } from "../../../contexts/AuthContext";
+import { AuthService } from "../../../services/authService";
+import { getPasswordError } from "../../../lib/passwordPolicy";
+
+interface ChangePasswordFormProps {
+  onChanged: () => void;
+  onCancel: () => void;
+}
+
+export const ChangePasswordForm: React.FC<ChangePasswordFormProps> = ({ onChanged, onCancel }) => {
+  const { user } = useAuth();
+  const [formData, setFormData] = useState({ currentPassword: '', newPassword: '', confirmPassword: '' });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+    if (error) {
+      setError(null);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user?.email || !AuthService.hasPassword(user)) {
+      setError("Your account signs in without a password, so there isn't one to change.");
+      return;
+    }
+
+    const passwordError = getPasswordError(formData.newPassword, user.email);
+    if (passwordError) {
+      setError(passwordError);
+      return;
+    }
+    if (formData.newPassword !== formData.confirmPassword) {
+      setError("New passwords don't match");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await AuthService.changePassword(user.email, formData.currentPassword, formData.newPassword);
+      onChanged();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to change your password');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClassName = "w-full px-4 py-3 bg-[#1e282d] border border-[#3d4f5b] rounded-lg text-white text-sm placeholder-[#9eafbf] focus:border-[#3f8cbf] focus:outline-none [font-family:'Lexend',Helvetica]";
+
+  return (
+    <form onSubmit={handleSubmit} className="p-4 bg-[#0f1419] rounded-lg space-y-4">
+      <div className="space-y-2">
+        <label className="[font-family:'Lexend',Helvetica] font-medium text-white text-sm">
+          Current Password
+        </label>
+        <input
+          type="password"
+          name="currentPassword"
+          value={formData.currentPassword}
+          onChange={handleInputChange}
+          required
+          autoComplete="current-password"
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="[font-family:'Lexend',Helvetica] font-medium text-white text-sm">
+          New Password
+        </label>
+        <input
+          type="password"
+          name="newPassword"
+          value={formData.newPassword}
+          onChange={handleInputChange}
+          required
+          autoComplete="new-password"
+          className={inputClassName}
+        />
+        <PasswordRequirements password={formData.newPassword} />
+      </div>
+
+      <div className="space-y-2">
+        <label className="[font-family:'Lexend',Helvetica] font-medium text-white text-sm">
+          Confirm New Password
+        </label>
+        <input
+          type="password"
+          name="confirmPassword"
+          value={formData.confirmPassword}
+          onChange={handleInputChange}
+          required
+          autoComplete="new-password"
+          className={inputClassName}
+        />
+      </div>
+
+      {error && (
+        <p className="[font-family:'Lexend',Helvetica] text-red-400 text-sm">{error}</p>
+      )}
+
+      <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs">
+        You'll stay signed in here, but every other device will be signed out.
+      </p>
+
+      <div className="flex gap-3 justify-end">
+        <Button
+          type="button"
+          onClick={onCancel}
+          disabled={saving}
+          className="bg-transparent border border-[#3d4f5b] text-white hover:bg-[#2a3540] [font-family:'Lexend',Helvetica] font-medium"
+        >
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          disabled={saving || !formData.currentPassword}
+          className="bg-[#3f8cbf] hover:bg-[#2d6a94] text-white [font-family:'Lexend',Helvetica] font-medium"
+        >
+          {saving ? 'Updating...' : 'Update Password'}
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,152 @@
+import React, { useState } from "react";
+import { Card, CardContent } from "../../../components/ui/card";
+import { Button } from "../../../components/ui/button";
+import type { TutorConversation } from "../../../lib/supabase";
+
+interface ConversationSidebarProps {
+  conversations: TutorConversation[];
+  activeConversationId: string | null;
+  loading: boolean;
+  onSelect: (conversationId: string) => void;
+  onNewConversation: () => void;
+  onRename: (conversationId: string, title: string) => Promise<void>;
+  onDelete: (conversationId: string) => Promise<void>;
+}
+
+export const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+  conversations,
+  activeConversationId,
+  loading,
+  onSelect,
+  onNewConversation,
+  onRename,
+  onDelete
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  const startRename = (conversation: TutorConversation) => {
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.title);
+  };
+
+  const submitRename = async () => {
+    if (!editingId) return;
+    try {
+      await onRename(editingId, editingTitle);
+      setEditingId(null);
+    } catch (error) {
+      console.error('Error renaming conversation:', error);
+    }
+  };
+
+  const handleDelete = async (conversation: TutorConversation) => {
+    if (!confirm(`Delete "${conversation.title}"? This cannot be undone.`)) return;
+    try {
+      await onDelete(conversation.id);
+    } catch (error) {
+      console.error('Error deleting conversation:', error);
+    }
+  };
+
+  const formatDate = (date: string) => {
+    const value = new Date(date);
+    return value.toDateString() === new Date().toDateString()
+      ? value.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+      : value.toLocaleDateString();
+  };
+
+  return (
+    <Card className="bg-[#1e282d] border-[#3d4f5b]">
+      <CardContent className="p-4">
+        <Button
+          onClick={onNewConversation}
+          className="w-full bg-[#3f8cbf] hover:bg-[#2d6a94] text-white [font-family:'Lexend',Helvetica] font-medium text-sm mb-4"
+        >
+          + New Conversation
+        </Button>
+
+        <h3 className="[font-family:'Lexend',Helvetica] font-bold text-white text-sm mb-2">
+          Past Conversations
+        </h3>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-16">
+            <div className="w-4 h-4 border-2 border-[#3f8cbf] border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : conversations.length === 0 ? (
+          <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs">
+            Your conversations will appear here so you can review them before exams.
+          </p>
+        ) : (
+          <ul className="space-y-1 max-h-96 overflow-y-auto">
+            {conversations.map((conversation) => (
+              <li key={conversation.id}>
+                {editingId === conversation.id ? (
+                  <div className="flex gap-1">
+                    <input
+                      type="text"
+                      value={editingTitle}
+                      autoFocus
+                      onChange={(e) => setEditingTitle(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') submitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="flex-1 min-w-0 px-2 py-1 bg-[#0f1419] border border-[#3f8cbf] rounded text-white text-xs focus:outline-none [font-family:'Lexend',Helvetica]"
+                    />
+                    <button
+                      onClick={submitRename}
+                      className="text-[#3f8cbf] text-xs px-1"
+                      title="Save title"
+                    >
+                      ✓
+                    </button>
+                  </div>
+                ) : (
+                  <div
+                    className={`group flex items-center gap-2 px-2 py-2 rounded-lg cursor-pointer transition-colors ${
+                      conversation.id === activeConversationId
+                        ? 'bg-[#3f8cbf] text-white'
+                        : 'text-[#9eafbf] hover:bg-[#2a3540] hover:text-white'
+                    }`}
+                    onClick={() => onSelect(conversation.id)}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="[font-family:'Lexend',Helvetica] text-xs font-medium truncate">
+                        {conversation.title}
+                      </p>
+                      <p className="[font-family:'Lexend',Helvetica] text-[10px] opacity-70">
+                        {conversation.subject ? `${conversation.subject} • ` : ''}{formatDate(conversation.updated_at)}
+                      </p>
+                    </div>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        startRename(conversation);
+                      }}
+                      className="opacity-0 group-hover:opacity-100 text-xs"
+                      title="Rename"
+                    >
+                      ✏️
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(conversation);
+                      }}
+                      className="opacity-0 group-hover:opacity-100 text-xs"
+                      title="Delete"
+                    >
+                      🗑️
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
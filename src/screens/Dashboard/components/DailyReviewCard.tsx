@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from "react";
+import { Card, CardContent } from "../../../components/ui/card";
+import { Button } from "../../../components/ui/button";
+import { useAuth } from "../../../contexts/AuthContext";
+import { FlashcardService } from "../../../services/flashcardService";
+import type { DeckSummary } from "../../../services/flashcardService";
+
+interface DailyReviewCardProps {
+  // Called with a deck to study just that deck, or without one for the daily queue
+  onStart: (deckId?: string) => void;
+}
+
+export const DailyReviewCard: React.FC<DailyReviewCardProps> = ({ onStart }) => {
+  const { user, profile } = useAuth();
+  const [decks, setDecks] = useState<DeckSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showDecks, setShowDecks] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    FlashcardService.getDecks(user.id, profile?.grade)
+      .then(setDecks)
+      .catch(error => console.error('Error loading flashcard decks:', error))
+      .finally(() => setLoading(false));
+  }, [user, profile?.grade]);
+
+  const startedDecks = decks.filter(deck => deck.started);
+  const dueCount = startedDecks.reduce((sum, deck) => sum + deck.due_count, 0);
+  const newCount = startedDecks.reduce((sum, deck) => sum + deck.new_count, 0);
+
+  return (
+    <Card className="bg-[#1e282d] border-[#3d4f5b]">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="[font-family:'Lexend',Helvetica] font-bold text-white text-lg">
+            Daily Review
+          </h3>
+          <span className="text-2xl">🃏</span>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#3f8cbf]"></div>
+          </div>
+        ) : (
+          <>
+            {startedDecks.length > 0 ? (
+              <div className="flex items-center justify-between gap-4 mb-4">
+                <div>
+                  <p className="[font-family:'Lexend',Helvetica] text-white text-2xl font-bold">
+                    {dueCount} due
+                  </p>
+                  <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs">
+                    {newCount} new card{newCount === 1 ? '' : 's'} ready from {startedDecks.length} deck{startedDecks.length === 1 ? '' : 's'}
+                  </p>
+                </div>
+                <Button
+                  onClick={() => onStart()}
+                  disabled={dueCount + newCount === 0}
+                  className="bg-[#3f8cbf] hover:bg-[#2d6a94] text-white [font-family:'Lexend',Helvetica] font-medium"
+                >
+                  {dueCount + newCount === 0 ? 'All done today' : 'Start Review'}
+                </Button>
+              </div>
+            ) : decks.length > 0 && (
+              <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm mb-4">
+                Pick a deck to start memorising. Cards come back just before you're likely to forget them.
+              </p>
+            )}
+
+            {startedDecks.length > 0 && (
+              <button
+                onClick={() => setShowDecks(!showDecks)}
+                className="[font-family:'Lexend',Helvetica] text-[#3f8cbf] hover:text-white text-sm"
+              >
+                {showDecks ? 'Hide decks' : `Browse all decks (${decks.length})`}
+              </button>
+            )}
+
+            {(showDecks || startedDecks.length === 0) && (
+              <div className="space-y-2 mt-3">
+                {decks.map(deck => (
+                  <div key={deck.id} className="flex items-center justify-between gap-3 p-3 bg-[#0f1419] rounded-lg">
+                    <div>
+                      <p className="[font-family:'Lexend',Helvetica] text-white text-sm font-medium">
+                        {deck.title}
+                      </p>
+                      <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs">
+                        {deck.subject} • {deck.card_count} cards
+                        {deck.started && ` • ${deck.due_count} due`}
+                      </p>
+                    </div>
+                    <Button
+                      onClick={() => onStart(deck.id)}
+                      className="bg-transparent border border-[#3d4f5b] text-white hover:bg-[#2a3540] text-xs px-3 py-1 h-7 [font-family:'Lexend',Helvetica]"
+                    >
+                      {deck.started ? 'Study' : 'Start'}
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {decks.length === 0 && (
+              <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
+                No flashcard decks are available for your grade yet.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,21 +1,22 @@
-import React, { useState, useEffect } from "react";
+import React, { Suspense, useState, useEffect } from "react";
+import { Outlet, useLocation, useNavigate } from "react-router-dom";
 import { useAuth } from "../../../contexts/AuthContext";
 import { Button } from "../../../components/ui/button";
+import { GlobalSearch } from "./GlobalSearch";
 
-interface DashboardLayoutProps {
-  children: React.ReactNode;
-}
-
-export const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
-  const { user, profile, signOut } = useAuth();
+// Every dashboard page renders into this layout's outlet, so the sidebar and header stay mounted between pages
+export const DashboardLayout = (): JSX.Element => {
+  const { user, profile, tutorQuota, signOut } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [profileDropdownOpen, setProfileDropdownOpen] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
   const [isDarkMode, setIsDarkMode] = useState(true);
 
-  // Get current page from URL
-  const currentPath = window.location.pathname;
+  // Get current page from the router
+  const currentPath = location.pathname.replace(/\/$/, '') || '/';
 
   // Check if screen is mobile size
   useEffect(() => {
@@ -140,6 +141,7 @@ export const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) =>
       if (currentPath === "/dashboard/settings/account") return "Account Actions";
       return "Settings";
     }
+    if (currentPath.startsWith("/dashboard/lessons")) return "Lesson";
     return item ? item.name : "Dashboard";
   };
 
@@ -150,8 +152,8 @@ export const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) =>
 
   // Handle navigation click - don't expand sidebar
   const handleNavigationClick = (href: string) => {
-    // Navigate to the page without changing sidebar state
-    window.location.href = href;
+    // Navigate to the page without changing sidebar state or reloading the app
+    navigate(href);
   };
 
   // Handle sidebar collapse toggle
@@ -222,7 +224,7 @@ export const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) =>
             className={`flex items-center gap-3 cursor-pointer transition-all duration-300 ${
               !isMobile && sidebarCollapsed ? 'opacity-0 pointer-events-none w-0 overflow-hidden' : 'opacity-100 w-auto'
             }`}
-            onClick={() => window.location.href = '/'}
+            onClick={() => navigate('/')}
           >
             <div className="w-6 h-6 bg-[#3f8cbf] rounded-lg flex items-center justify-center flex-shrink-0">
               <div className="w-3 h-3 bg-white rounded-full" />
@@ -282,6 +284,34 @@ export const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) =>
           </ul>
         </nav>
 
+        {/* AI Tutor Usage - Only shown for plans with a monthly limit */}
+        {tutorQuota && tutorQuota.limit !== null && !(!isMobile && sidebarCollapsed) && (
+          <div className="mx-4 mb-4 p-3 rounded-lg theme-bg-primary theme-border border">
+            <div className="flex items-center justify-between mb-2">
+              <span className="[font-family:'Lexend',Helvetica] theme-text-secondary text-xs font-medium">
+                AI Tutor sessions
+              </span>
+              <span className="[font-family:'Lexend',Helvetica] theme-text-primary text-xs font-bold">
+                {tutorQuota.remaining}/{tutorQuota.limit} left
+              </span>
+            </div>
+            <div className="w-full h-1.5 rounded-full bg-[#3d4f5b] overflow-hidden">
+              <div
+                className={`h-full rounded-full ${tutorQuota.remaining === 0 ? 'bg-red-500' : 'bg-[#3f8cbf]'}`}
+                style={{ width: `${Math.min(100, (tutorQuota.used / tutorQuota.limit) * 100)}%` }}
+              />
+            </div>
+            {tutorQuota.remaining === 0 && (
+              <button
+                onClick={() => handleNavigationClick('/dashboard/settings/billing')}
+                className="mt-2 [font-family:'Lexend',Helvetica] text-xs text-[#3f8cbf] hover:underline"
+              >
+                Upgrade to Pro for unlimited sessions →
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Bottom Section: Settings, User Profile, and Sign Out */}
         <div className="theme-border border-t">
           {/* Settings */}
@@ -373,12 +403,17 @@ export const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) =>
             </button>
 
             {/* Page Title */}
-            <div className="flex items-center gap-4">
+            <div className="flex items-center gap-4 min-w-0">
               <h1 className="[font-family:'Lexend',Helvetica] font-bold theme-text-primary text-xl lg:text-2xl truncate">
                 {getPageTitle()}
               </h1>
             </div>
 
+            {/* Search */}
+            <div className="hidden sm:block flex-1 max-w-md mx-4">
+              <GlobalSearch />
+            </div>
+
             {/* Quick Actions */}
             <div className="flex items-center gap-2">
               {/* Theme Toggle Button */}
@@ -394,7 +429,7 @@ export const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) =>
 
               <Button 
                 className="hidden sm:flex bg-[#3f8cbf] hover:bg-[#2d6a94] text-white rounded-lg px-4 py-2 [font-family:'Lexend',Helvetica] font-medium text-sm whitespace-nowrap"
-                onClick={() => window.location.href = '/dashboard/ai-tutor'}
+                onClick={() => navigate('/dashboard/ai-tutor')}
               >
                 Ask AI Tutor
               </Button>
@@ -463,6 +498,11 @@ export const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) =>
             </div>
           </div>
 
+          {/* Search - Gets its own row on small screens */}
+          <div className="sm:hidden mt-3">
+            <GlobalSearch />
+          </div>
+
           {/* Settings Menu - Only show on settings pages */}
           {isSettingsPage && (
             <div className="mt-4 theme-border border-t pt-4">
@@ -490,7 +530,14 @@ export const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) =>
 
         {/* Page Content */}
         <main className="flex-1 p-4 lg:p-6 overflow-auto">
-          {children}
+          {/* Pages are loaded on first visit */}
+          <Suspense fallback={
+            <div className="flex items-center justify-center min-h-[400px]">
+              <div className="w-8 h-8 border-4 border-[#3f8cbf] border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          }>
+            <Outlet />
+          </Suspense>
         </main>
       </div>
     </div>
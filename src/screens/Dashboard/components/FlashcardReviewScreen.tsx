@@ -0,0 +1,248 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Card, CardContent } from "../../../components/ui/card";
+import { Button } from "../../../components/ui/button";
+import { MessageRenderer } from "../../../components/MessageRenderer";
+import { useAuth } from "../../../contexts/AuthContext";
+import { FlashcardService } from "../../../services/flashcardService";
+import type { ReviewCard } from "../../../services/flashcardService";
+import { TopicProgressService } from "../../../services/topicProgressService";
+import { formatInterval, newCardSchedule, REVIEW_RATINGS, scheduleReview } from "../../../lib/spacedRepetition";
+import type { ReviewRating } from "../../../lib/spacedRepetition";
+
+interface FlashcardReviewScreenProps {
+  deckId?: string;
+  onExit: () => void;
+}
+
+const ratingStyles: { [rating in ReviewRating]: { label: string; className: string } } = {
+  again: { label: 'Again', className: 'bg-red-500 hover:bg-red-600' },
+  hard: { label: 'Hard', className: 'bg-yellow-600 hover:bg-yellow-700' },
+  good: { label: 'Good', className: 'bg-[#3f8cbf] hover:bg-[#2d6a94]' },
+  easy: { label: 'Easy', className: 'bg-[#10b981] hover:bg-[#059669]' }
+};
+
+export const FlashcardReviewScreen: React.FC<FlashcardReviewScreenProps> = ({ deckId, onExit }) => {
+  const { user, profile, recordStudySession, refreshProgress } = useAuth();
+  const [queue, setQueue] = useState<ReviewCard[]>([]);
+  const [index, setIndex] = useState(0);
+  const [revealed, setRevealed] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // First rating given to each card this session, for the summary
+  const [firstRatings, setFirstRatings] = useState<{ [cardId: string]: ReviewRating }>({});
+  const startedAtRef = useRef(Date.now());
+  const recordedRef = useRef(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadQueue = async () => {
+      try {
+        setQueue(await FlashcardService.getReviewQueue(user.id, { grade: profile?.grade, deckId }));
+      } catch (error) {
+        setError(error instanceof Error ? error.message : 'Failed to load your flashcard reviews');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadQueue();
+  }, [user, profile?.grade, deckId]);
+
+  const reviewedCount = Object.keys(firstRatings).length;
+  const finished = queue.length > 0 && index >= queue.length;
+
+  // Log the review as a study session once, whether the student finishes or stops early
+  const recordSession = (ratings: { [cardId: string]: ReviewRating }) => {
+    const ratingList = Object.values(ratings);
+    if (recordedRef.current || ratingList.length === 0) return;
+    recordedRef.current = true;
+
+    const subjects = Array.from(new Set(queue.map(item => item.deck.subject)));
+    const recalled = ratingList.filter(rating => rating !== 'again').length;
+    const durationMinutes = Math.max(1, Math.round((Date.now() - startedAtRef.current) / 60000));
+
+    recordStudySession(
+      'flashcards',
+      subjects.length === 1 ? subjects[0] : 'Mixed Review',
+      durationMinutes,
+      Math.round(recalled / ratingList.length * 100)
+    ).catch(error => {
+      console.error('Error recording flashcard session:', error);
+    });
+
+    // Each deck covers one topic, judged by the cards recalled first time
+    if (!user) return;
+    const decks = new Map(queue.map(item => [item.deck.id, item.deck]));
+    const updates = Array.from(decks.values()).map(deck => {
+      // Forgotten cards appear twice in the queue but only their first rating counts
+      const cardIds = new Set(queue.filter(item => item.deck.id === deck.id).map(item => item.card.id));
+      const deckRatings = Array.from(cardIds)
+        .map(cardId => ratings[cardId])
+        .filter((rating): rating is ReviewRating => !!rating);
+      if (deckRatings.length === 0) return Promise.resolve();
+
+      const recall = deckRatings.filter(rating => rating !== 'again').length / deckRatings.length * 100;
+      return TopicProgressService.recordFlashcardTopic(user.id, profile, deck.subject, deck.topic, recall);
+    });
+    Promise.all(updates).then(refreshProgress).catch(error => {
+      console.error('Error recording flashcard topics:', error);
+    });
+  };
+
+  const handleExit = () => {
+    recordSession(firstRatings);
+    onExit();
+  };
+
+  const handleRate = async (rating: ReviewRating) => {
+    if (!user) return;
+    const item = queue[index];
+
+    setSaving(true);
+    try {
+      const progress = await FlashcardService.recordReview(user.id, item, rating);
+      const ratings = firstRatings[item.card.id] ? firstRatings : { ...firstRatings, [item.card.id]: rating };
+      const updated = queue.map((entry, position) => position === index ? { ...entry, progress } : entry);
+      // Forgotten cards come back at the end of today's session
+      const nextQueue = rating === 'again' ? [...updated, { ...item, progress }] : updated;
+
+      setFirstRatings(ratings);
+      setQueue(nextQueue);
+      setIndex(index + 1);
+      if (index + 1 >= nextQueue.length) recordSession(ratings);
+      setRevealed(false);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save your review');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#3f8cbf]"></div>
+      </div>
+    );
+  }
+
+  if (queue.length === 0) {
+    return (
+      <Card className="bg-[#1e282d] border-[#3d4f5b] max-w-2xl mx-auto">
+        <CardContent className="p-8 text-center">
+          <div className="text-5xl mb-4">🎉</div>
+          <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] mb-4">
+            {error || 'No cards are due right now. Come back tomorrow for your next review.'}
+          </p>
+          <Button
+            onClick={onExit}
+            className="bg-[#0f1419] border border-[#3d4f5b] text-white hover:bg-[#2a3540] [font-family:'Lexend',Helvetica] font-medium"
+          >
+            Back
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // Session summary
+  if (finished) {
+    const counts = REVIEW_RATINGS.map(rating => ({
+      rating,
+      count: Object.values(firstRatings).filter(first => first === rating).length
+    }));
+
+    return (
+      <Card className="bg-[#1e282d] border-[#3d4f5b] max-w-2xl mx-auto">
+        <CardContent className="p-8 text-center">
+          <div className="text-5xl mb-4">🃏</div>
+          <h2 className="[font-family:'Lexend',Helvetica] font-bold text-white text-2xl mb-1">
+            Review complete
+          </h2>
+          <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] mb-6">
+            {reviewedCount} card{reviewedCount === 1 ? '' : 's'} reviewed
+          </p>
+          <div className="grid grid-cols-4 gap-3 mb-6">
+            {counts.map(({ rating, count }) => (
+              <div key={rating} className="bg-[#0f1419] rounded-lg p-3">
+                <div className="text-xl font-bold text-white [font-family:'Lexend',Helvetica]">{count}</div>
+                <div className="text-[#9eafbf] text-xs [font-family:'Lexend',Helvetica]">{ratingStyles[rating].label}</div>
+              </div>
+            ))}
+          </div>
+          <Button
+            onClick={onExit}
+            className="bg-[#3f8cbf] hover:bg-[#2d6a94] text-white [font-family:'Lexend',Helvetica] font-medium"
+          >
+            Done
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const item = queue[index];
+  const schedule = item.progress || newCardSchedule();
+
+  return (
+    <Card className="bg-[#1e282d] border-[#3d4f5b] max-w-2xl mx-auto">
+      <CardContent className="p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
+            Card {index + 1} of {queue.length} • {item.deck.subject} • {item.deck.topic}
+            {!item.progress && ' • New'}
+          </p>
+          <Button
+            onClick={handleExit}
+            className="bg-transparent text-[#9eafbf] hover:text-white hover:bg-[#2a3540] [font-family:'Lexend',Helvetica] font-medium"
+          >
+            End review
+          </Button>
+        </div>
+
+        <div className="bg-[#0f1419] border border-[#3d4f5b] rounded-lg p-6 min-h-[10rem] flex flex-col justify-center text-center">
+          <div className="text-white text-lg">
+            <MessageRenderer content={item.card.front} className="text-lg" />
+          </div>
+          {revealed && (
+            <div className="mt-6 pt-6 border-t border-[#3d4f5b] text-[#9eafbf]">
+              <MessageRenderer content={item.card.back} />
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <p className="[font-family:'Lexend',Helvetica] text-red-400 text-sm">{error}</p>
+        )}
+
+        {revealed ? (
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {REVIEW_RATINGS.map(rating => (
+              <Button
+                key={rating}
+                onClick={() => handleRate(rating)}
+                disabled={saving}
+                className={`${ratingStyles[rating].className} text-white h-auto py-2 flex flex-col [font-family:'Lexend',Helvetica] font-medium`}
+              >
+                <span>{ratingStyles[rating].label}</span>
+                <span className="text-xs opacity-80">{formatInterval(scheduleReview(schedule, rating).interval_days)}</span>
+              </Button>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center">
+            <Button
+              onClick={() => setRevealed(true)}
+              className="bg-[#3f8cbf] hover:bg-[#2d6a94] text-white [font-family:'Lexend',Helvetica] font-medium"
+            >
+              Show Answer
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
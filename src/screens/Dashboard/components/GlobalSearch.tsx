@@ -0,0 +1,223 @@
+import React, { useEffect, useId, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "../../../contexts/AuthContext";
+import { MIN_SEARCH_LENGTH, SearchService } from "../../../services/searchService";
+import type { SearchGroup, SearchResult } from "../../../services/searchService";
+
+const SEARCH_DELAY_MS = 250;
+
+// Show the matched words from a snippet's << >> markers in bold
+const HighlightedSnippet: React.FC<{ snippet: string }> = ({ snippet }) => (
+  <>
+    {snippet.split(/(<<.*?>>)/g).map((part, index) =>
+      part.startsWith('<<') && part.endsWith('>>')
+        ? <mark key={index} className="bg-transparent theme-text-primary font-semibold">{part.slice(2, -2)}</mark>
+        : <React.Fragment key={index}>{part}</React.Fragment>
+    )}
+  </>
+);
+
+export const GlobalSearch = (): JSX.Element => {
+  const { profile, subjectProgress } = useAuth();
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const [groups, setGroups] = useState<SearchGroup[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [open, setOpen] = useState(false);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  // The header renders a search box for small and large screens, so ids must not clash
+  const listboxId = useId();
+
+  const results = groups.flatMap(group => group.results);
+  const trimmed = query.trim();
+
+  // Search once the student pauses typing, ignoring answers to queries they have since changed
+  useEffect(() => {
+    if (trimmed.length < MIN_SEARCH_LENGTH) {
+      setGroups([]);
+      setSearching(false);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const found = await SearchService.search(trimmed, profile);
+        if (cancelled) return;
+        setGroups(found);
+        setActiveIndex(0);
+        setError(null);
+      } catch (error) {
+        if (!cancelled) setError(error instanceof Error ? error.message : 'Search failed');
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [trimmed, profile]);
+
+  // "/" jumps to the search box from anywhere on the page that isn't a text field
+  useEffect(() => {
+    const handleShortcut = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      const typing = target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable;
+      if (event.key === '/' && !typing && inputRef.current?.offsetParent) {
+        event.preventDefault();
+        inputRef.current.focus();
+      }
+    };
+
+    document.addEventListener('keydown', handleShortcut);
+    return () => document.removeEventListener('keydown', handleShortcut);
+  }, []);
+
+  // Close the results when clicking elsewhere
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  // Keep the highlighted result visible while moving through a long list with the keyboard
+  useEffect(() => {
+    containerRef.current
+      ?.querySelector(`[data-result-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const openResult = (result: SearchResult) => {
+    setOpen(false);
+    navigate(SearchService.resultPath(result, subjectProgress.map(progress => progress.subject_name)));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setOpen(true);
+        setActiveIndex(index => results.length === 0 ? 0 : (index + 1) % results.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex(index => results.length === 0 ? 0 : (index - 1 + results.length) % results.length);
+        break;
+      case 'Enter':
+        if (open && results[activeIndex]) {
+          e.preventDefault();
+          openResult(results[activeIndex]);
+        }
+        break;
+      case 'Escape':
+        if (open) {
+          setOpen(false);
+        } else {
+          setQuery('');
+          inputRef.current?.blur();
+        }
+        break;
+    }
+  };
+
+  const showPanel = open && trimmed.length >= MIN_SEARCH_LENGTH;
+  let resultIndex = -1;
+
+  return (
+    <div ref={containerRef} className="relative w-full">
+      <div className="relative">
+        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm theme-text-muted pointer-events-none">🔍</span>
+        <input
+          ref={inputRef}
+          type="search"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search lessons, materials, chats..."
+          className="w-full pl-9 pr-10 py-2 theme-bg-primary theme-border border rounded-lg theme-text-primary text-sm placeholder-[#9eafbf] focus:border-[#3f8cbf] focus:outline-none [font-family:'Lexend',Helvetica]"
+          role="combobox"
+          aria-expanded={showPanel}
+          aria-controls={listboxId}
+          aria-activedescendant={showPanel && results[activeIndex] ? `${listboxId}-${activeIndex}` : undefined}
+        />
+        <kbd className="hidden md:block absolute right-3 top-1/2 -translate-y-1/2 px-1.5 rounded border theme-border theme-text-muted text-xs">/</kbd>
+      </div>
+
+      {showPanel && (
+        <div
+          id={listboxId}
+          role="listbox"
+          className="absolute left-0 right-0 top-full mt-2 max-h-[70vh] overflow-y-auto theme-bg-secondary theme-border border rounded-lg shadow-lg z-50"
+        >
+          {error ? (
+            <p className="px-4 py-3 [font-family:'Lexend',Helvetica] text-red-400 text-sm">{error}</p>
+          ) : searching && results.length === 0 ? (
+            <p className="px-4 py-3 [font-family:'Lexend',Helvetica] theme-text-muted text-sm">Searching...</p>
+          ) : results.length === 0 ? (
+            <p className="px-4 py-3 [font-family:'Lexend',Helvetica] theme-text-muted text-sm">
+              No matches for "{trimmed}".
+            </p>
+          ) : groups.map((group) => (
+            <div key={group.kind} className="py-2 theme-border border-b last:border-b-0">
+              <p className="px-4 py-1 [font-family:'Lexend',Helvetica] theme-text-muted text-xs font-medium uppercase tracking-wide">
+                {group.icon} {group.label}
+              </p>
+              {group.results.map((result) => {
+                resultIndex += 1;
+                const index = resultIndex;
+                return (
+                  <button
+                    key={`${result.kind}-${result.id}`}
+                    id={`${listboxId}-${index}`}
+                    data-result-index={index}
+                    role="option"
+                    aria-selected={index === activeIndex}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    onClick={() => openResult(result)}
+                    className={`w-full text-left px-4 py-2 transition-colors ${
+                      index === activeIndex ? 'theme-bg-tertiary' : ''
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-3">
+                      <span className="[font-family:'Lexend',Helvetica] theme-text-primary text-sm font-medium truncate">
+                        {result.title}
+                      </span>
+                      {result.subject && (
+                        <span className="[font-family:'Lexend',Helvetica] text-[#3f8cbf] text-xs shrink-0">
+                          {result.subject}
+                        </span>
+                      )}
+                    </div>
+                    {result.snippet && (
+                      <p className="[font-family:'Lexend',Helvetica] theme-text-secondary text-xs line-clamp-2">
+                        <HighlightedSnippet snippet={result.snippet} />
+                      </p>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
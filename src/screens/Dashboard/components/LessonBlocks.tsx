@@ -0,0 +1,78 @@
+import React from "react";
+import { MessageRenderer } from "../../../components/MessageRenderer";
+import { toVideoEmbed } from "../../../lib/lessons";
+import type { LessonCheck } from "../../../lib/lessons";
+
+interface LessonCheckCardProps {
+  check: LessonCheck;
+  // The option the student picked; the question locks once answered
+  selected?: number;
+  onSelect: (index: number) => void;
+}
+
+export const LessonCheckCard: React.FC<LessonCheckCardProps> = ({ check, selected, onSelect }) => {
+  const answered = selected !== undefined;
+  const correct = selected === check.answer;
+
+  return (
+    <div className="my-4 p-4 rounded-lg border border-[#3f8cbf]/50 bg-[#3f8cbf]/10">
+      <p className="text-[#3f8cbf] text-xs font-medium mb-2">✏️ Quick check</p>
+      <MessageRenderer content={check.question} className="text-white font-medium mb-3" />
+
+      <div className="space-y-2">
+        {check.options.map((option, index) => {
+          const isAnswer = index === check.answer;
+          const isSelected = index === selected;
+          const stateClass = !answered
+            ? 'border-[#3d4f5b] hover:border-[#3f8cbf] hover:bg-[#2a3540]'
+            : isAnswer
+              ? 'border-green-500 bg-green-500/10'
+              : isSelected
+                ? 'border-red-500 bg-red-500/10'
+                : 'border-[#3d4f5b] opacity-60';
+
+          return (
+            <button
+              key={index}
+              onClick={() => !answered && onSelect(index)}
+              disabled={answered}
+              className={`w-full flex items-center gap-3 p-3 rounded-lg border bg-[#0f1419] text-left text-white transition-colors ${stateClass}`}
+            >
+              <span className="text-[#9eafbf] text-xs font-medium">{String.fromCharCode(65 + index)}</span>
+              <MessageRenderer content={option} />
+            </button>
+          );
+        })}
+      </div>
+
+      {answered && (
+        <div className={`mt-3 text-sm ${correct ? 'text-green-400' : 'text-red-400'}`}>
+          <p className="font-medium">{correct ? '✓ Correct!' : '✗ Not quite.'}</p>
+          {check.explanation && (
+            <MessageRenderer content={check.explanation} className="text-[#9eafbf] mt-1" />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const LessonVideo: React.FC<{ url: string }> = ({ url }) => {
+  const embed = toVideoEmbed(url.trim());
+
+  return (
+    <div className="my-4 rounded-lg overflow-hidden border border-[#3d4f5b] bg-black aspect-video">
+      {embed.type === 'iframe' ? (
+        <iframe
+          src={embed.src}
+          title="Lesson video"
+          className="w-full h-full"
+          allow="accelerometer; encrypted-media; gyroscope; picture-in-picture; fullscreen"
+          allowFullScreen
+        />
+      ) : (
+        <video src={embed.src} controls className="w-full h-full" />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "../../../components/ui/button";
+import { useAuth } from "../../../contexts/AuthContext";
+import { MAX_REVIEW_LENGTH, MaterialReviewService, reviewFlagLabels } from "../../../services/materialReviewService";
+import type { MaterialReviews as ReviewList, RatingSummary } from "../../../services/materialReviewService";
+import type { ReviewFlagReason, StudyMaterial } from "../../../lib/supabase";
+
+export const StarRating: React.FC<{ rating: number; className?: string }> = ({ rating, className = '' }) => (
+  <span className={`text-yellow-400 tracking-tight ${className}`} aria-label={`${rating} out of 5 stars`}>
+    {[1, 2, 3, 4, 5].map((star) => (
+      <span key={star} className={star <= Math.round(rating) ? '' : 'opacity-25'}>★</span>
+    ))}
+  </span>
+);
+
+interface MaterialReviewsProps {
+  material: StudyMaterial;
+  onRatingChange: (summary: RatingSummary) => void;
+  onClose: () => void;
+}
+
+export const MaterialReviews: React.FC<MaterialReviewsProps> = ({ material, onRatingChange, onClose }) => {
+  const { user } = useAuth();
+  const [list, setList] = useState<ReviewList | null>(null);
+  const [rating, setRating] = useState(0);
+  const [text, setText] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [reportingId, setReportingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    MaterialReviewService.getReviews(user.id, material.id)
+      .then(result => {
+        setList(result);
+        setRating(result.ownReview?.rating || 0);
+        setText(result.ownReview?.review || '');
+      })
+      .catch(error => setError(error instanceof Error ? error.message : 'Failed to load reviews'));
+  }, [user, material.id]);
+
+  const refreshSummary = async () => {
+    const summary = await MaterialReviewService.getRatingSummary(material.id);
+    if (summary) onRatingChange(summary);
+  };
+
+  const handleSave = async () => {
+    if (!user || !list) return;
+
+    setSaving(true);
+    try {
+      const ownReview = await MaterialReviewService.saveReview(user.id, material.id, rating, text, list.ownReview);
+      setList({ ...list, ownReview });
+      setError(null);
+      await refreshSummary();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save your review');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!list?.ownReview) return;
+
+    setSaving(true);
+    try {
+      await MaterialReviewService.deleteReview(list.ownReview.id);
+      setList({ ...list, ownReview: null });
+      setRating(0);
+      setText('');
+      setError(null);
+      await refreshSummary();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to delete your review');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReport = async (reviewId: string, reason: ReviewFlagReason) => {
+    if (!user || !list) return;
+
+    try {
+      await MaterialReviewService.flagReview(user.id, reviewId, reason);
+      setList({ ...list, flaggedIds: new Set(list.flaggedIds).add(reviewId) });
+      setReportingId(null);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to report the review');
+    }
+  };
+
+  const ownReview = list?.ownReview;
+  const unchanged = ownReview && ownReview.rating === rating && (ownReview.review || '') === text;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-2 sm:p-6">
+      <div className="w-full max-w-2xl max-h-[90vh] flex flex-col bg-[#1e282d] border border-[#3d4f5b] rounded-xl overflow-hidden">
+        <div className="flex items-center justify-between gap-3 p-4 border-b border-[#3d4f5b]">
+          <div className="min-w-0">
+            <h3 className="[font-family:'Lexend',Helvetica] font-bold text-white truncate">
+              {material.title}
+            </h3>
+            <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm flex items-center gap-2">
+              {material.rating_count > 0 ? (
+                <>
+                  <StarRating rating={material.rating_average} />
+                  {Number(material.rating_average).toFixed(1)} from {material.rating_count} {material.rating_count === 1 ? 'rating' : 'ratings'}
+                </>
+              ) : 'No ratings yet'}
+            </p>
+          </div>
+          <Button
+            onClick={onClose}
+            className="bg-transparent border border-[#3d4f5b] text-white hover:bg-[#2a3540] px-3 py-2 [font-family:'Lexend',Helvetica] text-sm shrink-0"
+          >
+            ✕ Close
+          </Button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {/* Your review; uploaders can't rate what they shared */}
+          {material.uploaded_by === user?.id ? (
+            <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm p-4 bg-[#0f1419] rounded-lg">
+              You shared this material, so you can't rate it. Here's what other students think of it.
+            </p>
+          ) : (
+            <div className="p-4 bg-[#0f1419] rounded-lg">
+              <p className="[font-family:'Lexend',Helvetica] text-white text-sm font-medium mb-2">
+                {ownReview ? 'Your review' : 'Rate this material'}
+              </p>
+              {ownReview?.is_hidden && (
+                <p className="[font-family:'Lexend',Helvetica] text-yellow-400 text-xs mb-2">
+                  Other students reported your review, so it's hidden and doesn't count towards the rating.
+                </p>
+              )}
+              <div className="flex gap-1 mb-3">
+                {[1, 2, 3, 4, 5].map((star) => (
+                  <button
+                    key={star}
+                    onClick={() => setRating(star)}
+                    className={`text-2xl transition-colors ${star <= rating ? 'text-yellow-400' : 'text-[#3d4f5b] hover:text-yellow-400/60'}`}
+                    aria-label={`${star} star${star === 1 ? '' : 's'}`}
+                  >
+                    ★
+                  </button>
+                ))}
+              </div>
+              <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                maxLength={MAX_REVIEW_LENGTH}
+                rows={3}
+                placeholder="What was helpful? (optional)"
+                className="w-full px-4 py-3 bg-[#1e282d] border border-[#3d4f5b] rounded-lg text-white text-sm placeholder-[#9eafbf] focus:border-[#3f8cbf] focus:outline-none [font-family:'Lexend',Helvetica] resize-none"
+              />
+              <div className="flex items-center justify-between gap-3 mt-2">
+                <span className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs">
+                  {text.length}/{MAX_REVIEW_LENGTH}
+                </span>
+                <div className="flex gap-2">
+                  {ownReview && (
+                    <Button
+                      onClick={handleDelete}
+                      disabled={saving}
+                      className="bg-transparent border border-[#3d4f5b] text-[#9eafbf] hover:text-red-400 hover:bg-[#2a3540] px-3 py-2 [font-family:'Lexend',Helvetica] text-sm"
+                    >
+                      Delete
+                    </Button>
+                  )}
+                  <Button
+                    onClick={handleSave}
+                    disabled={saving || !list || rating === 0 || !!unchanged}
+                    className="bg-[#3f8cbf] hover:bg-[#2d6a94] text-white px-4 py-2 [font-family:'Lexend',Helvetica] font-medium text-sm"
+                  >
+                    {saving ? 'Saving...' : ownReview ? 'Update' : 'Post Review'}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <p className="[font-family:'Lexend',Helvetica] text-red-400 text-sm">{error}</p>
+          )}
+
+          {/* Other reviews */}
+          {!list && !error ? (
+            <div className="flex items-center justify-center py-6">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#3f8cbf]"></div>
+            </div>
+          ) : list && list.reviews.length === 0 ? (
+            <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm text-center py-4">
+              No reviews from other students yet.
+            </p>
+          ) : list?.reviews.map((review) => (
+            <div key={review.id} className="p-4 bg-[#0f1419] rounded-lg">
+              <div className="flex items-center justify-between gap-3 mb-1">
+                <StarRating rating={review.rating} />
+                <span className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs">
+                  {new Date(review.created_at).toLocaleDateString()}
+                </span>
+              </div>
+              {review.review && (
+                <p className="[font-family:'Lexend',Helvetica] text-white text-sm whitespace-pre-wrap break-words">
+                  {review.review}
+                </p>
+              )}
+              <div className="mt-2 text-right">
+                {list.flaggedIds.has(review.id) ? (
+                  <span className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs">Reported</span>
+                ) : reportingId === review.id ? (
+                  <div className="flex flex-wrap justify-end gap-2">
+                    {(Object.keys(reviewFlagLabels) as ReviewFlagReason[]).map((reason) => (
+                      <button
+                        key={reason}
+                        onClick={() => handleReport(review.id, reason)}
+                        className="[font-family:'Lexend',Helvetica] text-xs px-2 py-1 rounded-full border border-[#3d4f5b] text-[#9eafbf] hover:text-white hover:border-red-400"
+                      >
+                        {reviewFlagLabels[reason]}
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => setReportingId(null)}
+                      className="[font-family:'Lexend',Helvetica] text-xs text-[#9eafbf] hover:text-white"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => setReportingId(review.id)}
+                    className="[font-family:'Lexend',Helvetica] text-xs text-[#9eafbf] hover:text-red-400"
+                  >
+                    ⚑ Report
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
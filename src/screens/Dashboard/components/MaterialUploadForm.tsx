@@ -0,0 +1,130 @@
+import React, { useState } from "react";
+import { Card, CardContent } from "../../../components/ui/card";
+import { Button } from "../../../components/ui/button";
+import { useAuth } from "../../../contexts/AuthContext";
+import { StudyMaterialService } from "../../../services/studyMaterialService";
+import type { StudyMaterial } from "../../../lib/supabase";
+
+interface MaterialUploadFormProps {
+  subjects: string[];
+  onUploaded: (material: StudyMaterial) => void;
+  onCancel: () => void;
+}
+
+const inputClassName = "w-full px-4 py-3 bg-[#0f1419] border border-[#3d4f5b] rounded-lg text-white placeholder-[#9eafbf] hover:border-[#3f8cbf] focus:border-[#3f8cbf] focus:outline-none [font-family:'Lexend',Helvetica] transition-colors";
+
+export const MaterialUploadForm: React.FC<MaterialUploadFormProps> = ({ subjects, onUploaded, onCancel }) => {
+  const { user, profile } = useAuth();
+  const [title, setTitle] = useState('');
+  const [subject, setSubject] = useState(subjects[0] || '');
+  const [topic, setTopic] = useState('');
+  const [description, setDescription] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] || null;
+    setError(selected ? StudyMaterialService.validateFile(selected) : null);
+    setFile(selected);
+    if (selected && !title) {
+      setTitle(selected.name.replace(/\.[^.]+$/, ''));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !file || !title.trim() || !subject) return;
+
+    setUploading(true);
+    try {
+      const material = await StudyMaterialService.uploadMaterial(user.id, profile, file, { title, description, subject, topic });
+      onUploaded(material);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to share the material');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <Card className="bg-[#1e282d] border-[#3d4f5b]">
+      <CardContent className="p-6">
+        <h3 className="[font-family:'Lexend',Helvetica] font-bold text-white text-lg mb-1">
+          Share a Material 📤
+        </h3>
+        <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm mb-4">
+          Upload notes as a PDF or a short MP4/WebM video, up to 50 MB. Students in your grade taking the subject will see it once it has been reviewed.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className={inputClassName}
+              placeholder="Title"
+              maxLength={120}
+              required
+            />
+            <select
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              className={inputClassName}
+              required
+            >
+              {subjects.map((name) => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={topic}
+              onChange={(e) => setTopic(e.target.value)}
+              className={inputClassName}
+              placeholder="Topic (optional)"
+              maxLength={120}
+            />
+            <input
+              type="file"
+              accept="application/pdf,video/mp4,video/webm"
+              onChange={handleFileChange}
+              className={`${inputClassName} file:mr-3 file:px-3 file:py-1 file:rounded-md file:border-0 file:bg-[#3f8cbf] file:text-white`}
+              required
+            />
+          </div>
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            className={`${inputClassName} resize-none`}
+            placeholder="What does it cover? (optional)"
+            rows={3}
+            maxLength={500}
+          />
+
+          {error && (
+            <p className="[font-family:'Lexend',Helvetica] text-red-400 text-sm">{error}</p>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <Button
+              type="button"
+              onClick={onCancel}
+              className="bg-transparent border border-[#3d4f5b] text-white hover:bg-[#2a3540] [font-family:'Lexend',Helvetica]"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={uploading || !file || !!StudyMaterialService.validateFile(file) || !title.trim() || !subject}
+              className="bg-[#3f8cbf] hover:bg-[#2d6a94] text-white [font-family:'Lexend',Helvetica] font-medium"
+            >
+              {uploading ? 'Uploading...' : 'Share Material'}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "../../../components/ui/button";
+import { StudyMaterialService } from "../../../services/studyMaterialService";
+import type { StudyMaterial } from "../../../lib/supabase";
+import { formatDuration, toVideoEmbed } from "../../../lib/lessons";
+
+interface MaterialViewerProps {
+  material: StudyMaterial;
+  downloading: boolean;
+  onDownload: () => void;
+  // Called with the seconds the material was on screen, so the page can log the session
+  onClose: (activeSeconds: number) => void;
+}
+
+export const MaterialViewer: React.FC<MaterialViewerProps> = ({ material, downloading, onDownload, onClose }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [activeSeconds, setActiveSeconds] = useState(0);
+
+  useEffect(() => {
+    StudyMaterialService.getViewUrl(material)
+      .then(viewUrl => {
+        if (!StudyMaterialService.isSafeUrl(viewUrl, ['https:', 'http:'])) {
+          throw new Error('This material\'s link can\'t be opened');
+        }
+        setUrl(viewUrl);
+      })
+      .catch(error => setError(error instanceof Error ? error.message : 'Failed to open the material'));
+  }, [material]);
+
+  // Count time only while the material is on screen, like lessons do
+  useEffect(() => {
+    if (!url) return;
+
+    const timer = setInterval(() => {
+      if (document.visibilityState === 'visible') {
+        setActiveSeconds(seconds => seconds + 1);
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [url]);
+
+  const renderContent = () => {
+    if (error) {
+      return <p className="[font-family:'Lexend',Helvetica] text-red-400 text-sm">{error}</p>;
+    }
+
+    if (!url) {
+      return <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-[#3f8cbf]"></div>;
+    }
+
+    if (material.material_type === 'video') {
+      const embed = toVideoEmbed(url);
+      return embed.type === 'iframe' ? (
+        <iframe
+          src={embed.src}
+          title={material.title}
+          className="w-full aspect-video rounded-lg bg-black"
+          allow="accelerometer; encrypted-media; gyroscope; picture-in-picture; fullscreen"
+          allowFullScreen
+        />
+      ) : (
+        <video src={embed.src} controls autoPlay className="w-full max-h-full rounded-lg bg-black" />
+      );
+    }
+
+    return <iframe src={url} title={material.title} className="w-full h-full rounded-lg bg-white" />;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-2 sm:p-6">
+      <div className="w-full max-w-5xl h-full max-h-[90vh] flex flex-col bg-[#1e282d] border border-[#3d4f5b] rounded-xl overflow-hidden">
+        <div className="flex items-center justify-between gap-3 p-4 border-b border-[#3d4f5b]">
+          <div className="min-w-0">
+            <h3 className="[font-family:'Lexend',Helvetica] font-bold text-white truncate">
+              {material.title}
+            </h3>
+            <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs">
+              {material.subject}{material.topic && ` • ${material.topic}`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <span className="px-3 py-1 rounded-full bg-[#0f1419] border border-[#3d4f5b] text-white text-sm font-mono">
+              ⏱ {formatDuration(activeSeconds)}
+            </span>
+            {material.storage_path && (
+              <Button
+                onClick={onDownload}
+                disabled={downloading}
+                className="bg-[#3f8cbf] hover:bg-[#2d6a94] text-white px-3 py-2 [font-family:'Lexend',Helvetica] font-medium text-sm"
+              >
+                {downloading ? 'Preparing...' : '⬇ Download'}
+              </Button>
+            )}
+            <Button
+              onClick={() => onClose(activeSeconds)}
+              className="bg-transparent border border-[#3d4f5b] text-white hover:bg-[#2a3540] px-3 py-2 [font-family:'Lexend',Helvetica] text-sm"
+            >
+              ✕ Close
+            </Button>
+          </div>
+        </div>
+        <div className="flex-1 min-h-0 flex items-center justify-center p-4 bg-[#0f1419]">
+          {renderContent()}
+        </div>
+      </div>
+    </div>
+  );
+};
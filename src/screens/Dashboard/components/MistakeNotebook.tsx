@@ -0,0 +1,286 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Card, CardContent } from "../../../components/ui/card";
+import { Button } from "../../../components/ui/button";
+import { MessageRenderer } from "../../../components/MessageRenderer";
+import { useAuth } from "../../../contexts/AuthContext";
+import { MASTERY_STREAK, MistakeNotebookService } from "../../../services/mistakeNotebookService";
+import type { NotebookEntry } from "../../../services/mistakeNotebookService";
+import { QuestionInput } from "./QuestionRenderers";
+import { gradeQuestion, isAnswered } from "../../../lib/grading";
+import type { QuestionGrade } from "../../../lib/grading";
+import { formatCorrectAnswer, formatResponse } from "../../../lib/questions";
+import type { QuestionResponse } from "../../../lib/questions";
+
+interface DrillState {
+  entries: NotebookEntry[];
+  index: number;
+  response: QuestionResponse;
+  grade: QuestionGrade | null;
+  correct: number;
+  mastered: number;
+}
+
+export const MistakeNotebook: React.FC = () => {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<NotebookEntry[]>([]);
+  const [masteredCount, setMasteredCount] = useState(0);
+  const [subjectFilter, setSubjectFilter] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [drill, setDrill] = useState<DrillState | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadNotebook = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setError(null);
+      const [active, mastered] = await Promise.all([
+        MistakeNotebookService.getEntries(user.id),
+        MistakeNotebookService.getMasteredCount(user.id)
+      ]);
+      setEntries(active);
+      setMasteredCount(mastered);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load your mistake notebook');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadNotebook();
+  }, [loadNotebook]);
+
+  const subjects = Array.from(new Set(entries.map(entry => entry.test.subject))).sort();
+  const visibleEntries = entries.filter(entry => !subjectFilter || entry.test.subject === subjectFilter);
+
+  const startDrill = () => {
+    if (visibleEntries.length === 0) return;
+    setDrill({ entries: visibleEntries, index: 0, response: null, grade: null, correct: 0, mastered: 0 });
+  };
+
+  const handleRemove = async (entry: NotebookEntry) => {
+    if (!user) return;
+    try {
+      await MistakeNotebookService.removeEntry(user.id, entry.id);
+      setEntries(prev => prev.filter(item => item.id !== entry.id));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to remove the question');
+    }
+  };
+
+  const handleCheck = async () => {
+    if (!user || !drill) return;
+    const entry = drill.entries[drill.index];
+    const grade = gradeQuestion(entry.question, drill.response);
+
+    setSaving(true);
+    try {
+      const updated = await MistakeNotebookService.recordDrillResult(user.id, entry, grade.isCorrect);
+      setDrill({
+        ...drill,
+        grade,
+        correct: drill.correct + (grade.isCorrect ? 1 : 0),
+        mastered: drill.mastered + (updated.status === 'mastered' ? 1 : 0)
+      });
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save your drill answer');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleNext = () => {
+    if (!drill) return;
+    setDrill({ ...drill, index: drill.index + 1, response: null, grade: null });
+  };
+
+  const finishDrill = () => {
+    setDrill(null);
+    setLoading(true);
+    loadNotebook();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-[#3f8cbf]"></div>
+      </div>
+    );
+  }
+
+  // Drill summary
+  if (drill && drill.index >= drill.entries.length) {
+    return (
+      <div className="text-center py-8">
+        <div className="text-5xl mb-4">🧠</div>
+        <h3 className="[font-family:'Lexend',Helvetica] font-bold text-white text-xl mb-2">
+          Drill complete
+        </h3>
+        <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] mb-6">
+          {drill.correct}/{drill.entries.length} correct • {drill.mastered} mastered and moved out of your notebook
+        </p>
+        <Button
+          onClick={finishDrill}
+          className="bg-[#3f8cbf] hover:bg-[#2d6a94] text-white [font-family:'Lexend',Helvetica] font-medium"
+        >
+          Back to Notebook
+        </Button>
+      </div>
+    );
+  }
+
+  // Drill question
+  if (drill) {
+    const entry = drill.entries[drill.index];
+    const { question } = entry;
+
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
+            Question {drill.index + 1} of {drill.entries.length} • {entry.test.subject}
+            {question.topic && ` • ${question.topic}`}
+          </p>
+          <Button
+            onClick={finishDrill}
+            className="bg-transparent text-[#9eafbf] hover:text-white hover:bg-[#2a3540] [font-family:'Lexend',Helvetica] font-medium"
+          >
+            End drill
+          </Button>
+        </div>
+
+        <div className="text-white text-base">
+          <MessageRenderer content={question.prompt} className="text-base" />
+        </div>
+
+        <div className={drill.grade ? 'pointer-events-none opacity-80' : ''}>
+          <QuestionInput
+            question={question}
+            response={drill.response}
+            onChange={(response) => setDrill({ ...drill, response })}
+          />
+        </div>
+
+        {drill.grade && (
+          <div className={`rounded-lg border p-4 ${
+            drill.grade.isCorrect ? 'border-green-500/40 bg-green-500/10' : 'border-red-500/40 bg-red-500/10'
+          }`}>
+            <p className={`[font-family:'Lexend',Helvetica] font-bold mb-2 ${drill.grade.isCorrect ? 'text-green-400' : 'text-red-400'}`}>
+              {drill.grade.isCorrect
+                ? entry.drill_streak + 1 >= MASTERY_STREAK ? '✅ Correct — mastered!' : '✅ Correct — get it right once more to master it'
+                : '❌ Not quite'}
+            </p>
+            {!drill.grade.isCorrect && (
+              <div className="text-white text-sm mb-2">
+                <MessageRenderer content={`**Correct answer:** ${formatCorrectAnswer(question)}`} />
+              </div>
+            )}
+            {drill.grade.feedback && (
+              <p className="[font-family:'Lexend',Helvetica] text-yellow-400 text-sm mb-2">{drill.grade.feedback}</p>
+            )}
+            {question.explanation && (
+              <div className="text-[#9eafbf] text-sm">
+                <MessageRenderer content={question.explanation} />
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <p className="[font-family:'Lexend',Helvetica] text-red-400 text-sm">{error}</p>
+        )}
+
+        <div className="flex justify-end">
+          {drill.grade ? (
+            <Button
+              onClick={handleNext}
+              className="bg-[#3f8cbf] hover:bg-[#2d6a94] text-white [font-family:'Lexend',Helvetica] font-medium"
+            >
+              {drill.index < drill.entries.length - 1 ? 'Next →' : 'Finish'}
+            </Button>
+          ) : (
+            <Button
+              onClick={handleCheck}
+              disabled={!isAnswered(drill.response) || saving}
+              className="bg-[#10b981] hover:bg-[#059669] text-white [font-family:'Lexend',Helvetica] font-medium"
+            >
+              {saving ? 'Checking...' : 'Check Answer'}
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
+          {entries.length} question{entries.length === 1 ? '' : 's'} to practise • {masteredCount} mastered.
+          Answer a question correctly {MASTERY_STREAK} times in a row to master it.
+        </p>
+        <div className="flex gap-3">
+          {subjects.length > 1 && (
+            <select
+              value={subjectFilter}
+              onChange={(e) => setSubjectFilter(e.target.value)}
+              className="px-3 py-2 bg-[#0f1419] border border-[#3d4f5b] rounded-lg text-white text-sm focus:border-[#3f8cbf] focus:outline-none [font-family:'Lexend',Helvetica]"
+            >
+              <option value="">All subjects</option>
+              {subjects.map((subject) => (
+                <option key={subject} value={subject}>{subject}</option>
+              ))}
+            </select>
+          )}
+          <Button
+            onClick={startDrill}
+            disabled={visibleEntries.length === 0}
+            className="bg-[#3f8cbf] hover:bg-[#2d6a94] text-white [font-family:'Lexend',Helvetica] font-medium"
+          >
+            Drill {visibleEntries.length > 0 ? visibleEntries.length : ''} Mistake{visibleEntries.length === 1 ? '' : 's'}
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="[font-family:'Lexend',Helvetica] text-red-400 text-sm">{error}</p>
+      )}
+
+      {!error && entries.length === 0 && (
+        <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-center py-8">
+          Your mistake notebook is empty. Questions you get wrong in tests will appear here.
+        </p>
+      )}
+
+      {visibleEntries.map((entry) => (
+        <Card key={entry.id} className="bg-[#0f1419] border-[#3d4f5b]">
+          <CardContent className="p-5">
+            <div className="flex items-start justify-between gap-4 mb-2">
+              <p className="[font-family:'Lexend',Helvetica] text-[#3f8cbf] text-xs font-medium">
+                {entry.test.subject}{entry.question.topic && ` • ${entry.question.topic}`} • {entry.test.title}
+              </p>
+              <button
+                onClick={() => handleRemove(entry)}
+                className="[font-family:'Lexend',Helvetica] text-xs text-[#9eafbf] hover:text-red-400 whitespace-nowrap"
+              >
+                Remove
+              </button>
+            </div>
+            <div className="text-white text-sm mb-2">
+              <MessageRenderer content={entry.question.prompt} />
+            </div>
+            <div className="text-[#9eafbf] text-xs mb-1">
+              <MessageRenderer content={`Last answer: ${formatResponse(entry.question, entry.last_response)}`} />
+            </div>
+            <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs">
+              Missed {entry.times_wrong} time{entry.times_wrong === 1 ? '' : 's'}
+              {entry.drill_streak > 0 && ` • ${entry.drill_streak}/${MASTERY_STREAK} towards mastery`}
+            </p>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,505 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Card, CardContent } from "../../../components/ui/card";
+import { Button } from "../../../components/ui/button";
+import { MessageRenderer } from "../../../components/MessageRenderer";
+import { useAuth } from "../../../contexts/AuthContext";
+import { MockExamService } from "../../../services/mockExamService";
+import type { MockExamResult, MockPaper } from "../../../services/mockExamService";
+import { QuestionInput } from "./QuestionRenderers";
+import { isAnswered } from "../../../lib/grading";
+import { MOCK_EXAMS } from "../../../lib/mockExams";
+import type { MockExamId } from "../../../lib/mockExams";
+import type { QuestionResponse } from "../../../lib/questions";
+import type { MockExamAttempt } from "../../../lib/supabase";
+
+interface MockExamScreenProps {
+  exam: MockExamId;
+  onExit: () => void;
+  onSubmitted: () => void;
+}
+
+const formatTime = (totalSeconds: number) => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${minutes.toString().padStart(hours > 0 ? 2 : 1, '0')}:${seconds.toString().padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+const formatMarks = (marks: number) => Number.isInteger(marks) ? marks.toString() : marks.toFixed(2);
+
+export const MockExamScreen: React.FC<MockExamScreenProps> = ({ exam, onExit, onSubmitted }) => {
+  const { user, recordStudySession } = useAuth();
+  const blueprint = MOCK_EXAMS[exam];
+  const [paper, setPaper] = useState<MockPaper | null>(null);
+  const [attempt, setAttempt] = useState<MockExamAttempt | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [starting, setStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [responses, setResponses] = useState<{ [questionId: string]: QuestionResponse }>({});
+  const [remainingSeconds, setRemainingSeconds] = useState(0);
+  const [confirmingSubmit, setConfirmingSubmit] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<MockExamResult | null>(null);
+  const startedAtRef = useRef(Date.now());
+  const submittedRef = useRef(false);
+
+  // Draw the paper so the student can see its layout before starting
+  useEffect(() => {
+    const prepare = async () => {
+      try {
+        setPaper(await MockExamService.buildPaper(exam));
+      } catch (error) {
+        setError(error instanceof Error ? error.message : 'Failed to prepare the mock exam');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    prepare();
+  }, [exam]);
+
+  // Questions from every section in paper order, tagged with their section
+  const questions = useMemo(() => (paper?.sections || []).flatMap((section, sectionIndex) =>
+    section.questions.map(question => ({ question, sectionIndex }))
+  ), [paper]);
+
+  const sectionStarts = useMemo(() => {
+    let offset = 0;
+    return (paper?.sections || []).map(section => {
+      const start = offset;
+      offset += section.questions.length;
+      return start;
+    });
+  }, [paper]);
+
+  const handleStart = async () => {
+    if (!user || !paper) return;
+    setStarting(true);
+    setError(null);
+
+    try {
+      const newAttempt = await MockExamService.startAttempt(user.id, paper);
+      startedAtRef.current = Date.now();
+      setRemainingSeconds(paper.durationMinutes * 60);
+      setAttempt(newAttempt);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to start the mock exam');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleSubmit = useCallback(async () => {
+    if (!user || !attempt || !paper || submittedRef.current) return;
+    submittedRef.current = true;
+    setSubmitting(true);
+    setConfirmingSubmit(false);
+
+    const durationSeconds = Math.round((Date.now() - startedAtRef.current) / 1000);
+
+    try {
+      const examResult = await MockExamService.submitAttempt(attempt.id, responses);
+      setResult(examResult);
+
+      // One session per section under its real subject, with the time split by question count.
+      // They are saved one after another because each one updates the same progress stats.
+      const { sections, totalQuestions } = examResult.grade;
+      const recordSections = async () => {
+        for (const section of sections) {
+          const share = totalQuestions > 0 ? section.totalQuestions / totalQuestions : 0;
+          await recordStudySession('test', section.subject, Math.max(1, Math.round(durationSeconds * share / 60)), section.score);
+        }
+      };
+      recordSections().catch(error => {
+        console.error('Error recording mock exam session:', error);
+      });
+      onSubmitted();
+    } catch (error) {
+      submittedRef.current = false;
+      setError(error instanceof Error ? error.message : 'Failed to submit the mock exam');
+    } finally {
+      setSubmitting(false);
+    }
+  }, [user, attempt, paper, responses, recordStudySession, onSubmitted]);
+
+  // One timer runs across all sections and submits the whole paper when it reaches zero
+  useEffect(() => {
+    if (!attempt || !paper || result) return;
+
+    const timer = setInterval(() => {
+      const elapsed = Math.floor((Date.now() - startedAtRef.current) / 1000);
+      const remaining = Math.max(0, paper.durationMinutes * 60 - elapsed);
+      setRemainingSeconds(remaining);
+      if (remaining === 0) {
+        clearInterval(timer);
+        handleSubmit();
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [attempt, paper, result, handleSubmit]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#3f8cbf]"></div>
+      </div>
+    );
+  }
+
+  if (!paper || questions.length === 0) {
+    return (
+      <Card className="bg-[#1e282d] border-[#3d4f5b] max-w-2xl mx-auto">
+        <CardContent className="p-8 text-center">
+          <p className="[font-family:'Lexend',Helvetica] text-red-400 mb-4">
+            {error || `There aren't enough questions in the bank to build a ${exam} mock yet.`}
+          </p>
+          <Button
+            onClick={onExit}
+            className="bg-[#0f1419] border border-[#3d4f5b] text-white hover:bg-[#2a3540] [font-family:'Lexend',Helvetica] font-medium"
+          >
+            Back to Tests
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (result) {
+    const { grade, percentile, comparedWith } = result;
+
+    return (
+      <div className="space-y-6 max-w-3xl mx-auto">
+        <Card className="bg-[#1e282d] border-[#3d4f5b]">
+          <CardContent className="p-8 text-center">
+            <div className="text-5xl mb-4">{grade.score >= 75 ? '🎉' : grade.score >= 50 ? '👍' : '📚'}</div>
+            <h2 className="[font-family:'Lexend',Helvetica] font-bold text-white text-2xl mb-6">
+              {blueprint.name}
+            </h2>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <div className="text-3xl font-bold text-white [font-family:'Lexend',Helvetica]">
+                  {formatMarks(grade.marksObtained)}/{grade.totalMarks}
+                </div>
+                <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">Marks</p>
+              </div>
+              <div>
+                <div className="text-3xl font-bold text-[#3f8cbf] [font-family:'Lexend',Helvetica]">
+                  {grade.score}%
+                </div>
+                <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">Score</p>
+              </div>
+              <div>
+                <div className="text-3xl font-bold text-[#10b981] [font-family:'Lexend',Helvetica]">
+                  {percentile !== null ? `${Math.round(percentile)}th` : '—'}
+                </div>
+                <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">Percentile</p>
+              </div>
+            </div>
+            <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs mt-4">
+              {percentile !== null
+                ? `Estimated against ${comparedWith} past ${exam} mock attempt${comparedWith === 1 ? '' : 's'}.`
+                : `You're among the first to sit this mock, so there's nothing to compare against yet.`}
+            </p>
+          </CardContent>
+        </Card>
+
+        {/* Section Report */}
+        <Card className="bg-[#1e282d] border-[#3d4f5b]">
+          <CardContent className="p-6">
+            <h3 className="[font-family:'Lexend',Helvetica] font-bold text-white text-lg mb-4">
+              Section Report
+            </h3>
+            <div className="overflow-x-auto">
+              <table className="w-full [font-family:'Lexend',Helvetica] text-sm">
+                <thead>
+                  <tr className="text-[#9eafbf] text-left border-b border-[#3d4f5b]">
+                    <th className="py-2 pr-4 font-medium">Section</th>
+                    <th className="py-2 px-2 font-medium text-center">Correct</th>
+                    <th className="py-2 px-2 font-medium text-center">Wrong</th>
+                    <th className="py-2 px-2 font-medium text-center">Skipped</th>
+                    <th className="py-2 px-2 font-medium text-right">Marks</th>
+                    <th className="py-2 pl-2 font-medium text-right">Score</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {grade.sections.map(section => (
+                    <tr key={section.subject} className="border-b border-[#3d4f5b]/50 text-white">
+                      <td className="py-2 pr-4">{section.subject}</td>
+                      <td className="py-2 px-2 text-center text-green-400">{section.correct}</td>
+                      <td className="py-2 px-2 text-center text-red-400">{section.wrong}</td>
+                      <td className="py-2 px-2 text-center text-[#9eafbf]">{section.totalQuestions - section.attempted}</td>
+                      <td className="py-2 px-2 text-right">{formatMarks(section.marksObtained)}/{section.totalMarks}</td>
+                      <td className="py-2 pl-2 text-right font-bold">{section.score}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {blueprint.negativeMarks > 0 && (
+              <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs mt-4">
+                Each wrong answer cost {blueprint.negativeMarks} mark{blueprint.negativeMarks === 1 ? '' : 's'}; skipped questions weren't penalised.
+              </p>
+            )}
+            <div className="text-center mt-6">
+              <Button
+                onClick={onExit}
+                className="bg-[#3f8cbf] hover:bg-[#2d6a94] text-white [font-family:'Lexend',Helvetica] font-medium"
+              >
+                Back to Tests
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!attempt) {
+    return (
+      <Card className="bg-[#1e282d] border-[#3d4f5b] max-w-2xl mx-auto">
+        <CardContent className="p-8">
+          <h2 className="[font-family:'Lexend',Helvetica] font-bold text-white text-2xl mb-1">
+            {blueprint.name}
+          </h2>
+          <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm mb-6">
+            {blueprint.description}
+          </p>
+
+          <div className="space-y-2 mb-6">
+            {paper.sections.map(section => (
+              <div key={section.subject} className="flex justify-between [font-family:'Lexend',Helvetica] text-sm">
+                <span className="text-white">{section.subject}</span>
+                <span className="text-[#9eafbf]">{section.questions.length} questions</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-[#0f1419] border border-[#3d4f5b] rounded-lg p-4 mb-6 space-y-1 [font-family:'Lexend',Helvetica] text-sm text-[#9eafbf]">
+            <p>⏱️ {paper.durationMinutes} minutes for the whole paper — you can move between sections freely.</p>
+            <p>✅ {blueprint.marksPerQuestion} mark{blueprint.marksPerQuestion === 1 ? '' : 's'} per correct answer.</p>
+            <p>
+              {blueprint.negativeMarks > 0
+                ? `❌ ${blueprint.negativeMarks} mark${blueprint.negativeMarks === 1 ? '' : 's'} deducted per wrong answer. Skipping is free.`
+                : '❌ No negative marking.'}
+            </p>
+            {questions.length < blueprint.sections.reduce((sum, section) => sum + section.questions, 0) && (
+              <p>📏 Scaled down from the official paper to fit the current question bank, keeping each section's share.</p>
+            )}
+            {paper.missingSubjects.length > 0 && (
+              <p className="text-yellow-400">
+                ⚠️ No questions yet for: {paper.missingSubjects.join(', ')}.
+              </p>
+            )}
+          </div>
+
+          {error && (
+            <p className="[font-family:'Lexend',Helvetica] text-red-400 text-sm mb-4">
+              {error}
+            </p>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <Button
+              onClick={onExit}
+              className="bg-[#0f1419] border border-[#3d4f5b] text-white hover:bg-[#2a3540] [font-family:'Lexend',Helvetica] font-medium"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleStart}
+              disabled={starting}
+              className="bg-[#3f8cbf] hover:bg-[#2d6a94] text-white [font-family:'Lexend',Helvetica] font-medium"
+            >
+              {starting ? 'Starting...' : 'Start Exam'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { question: currentQuestion, sectionIndex: currentSection } = questions[currentIndex];
+  const sectionQuestions = paper.sections[currentSection].questions;
+  const answeredCount = questions.filter(({ question }) => isAnswered(responses[question.id])).length;
+  const unansweredCount = questions.length - answeredCount;
+
+  const setResponse = (questionId: string, response: QuestionResponse) => {
+    setResponses(prev => ({ ...prev, [questionId]: response }));
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Exam Header */}
+      <Card className="bg-[#1e282d] border-[#3d4f5b]">
+        <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h2 className="[font-family:'Lexend',Helvetica] font-bold text-white text-lg">
+              {blueprint.name}
+            </h2>
+            <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
+              Question {currentIndex + 1} of {questions.length} • {answeredCount} answered
+            </p>
+          </div>
+          <div className={`[font-family:'Lexend',Helvetica] font-bold text-2xl tabular-nums ${
+            remainingSeconds <= 300 ? 'text-red-400' : 'text-white'
+          }`}>
+            ⏱️ {formatTime(remainingSeconds)}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Section Tabs */}
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {paper.sections.map((section, sectionIndex) => {
+          const answered = section.questions.filter(question => isAnswered(responses[question.id])).length;
+          return (
+            <Button
+              key={section.subject}
+              onClick={() => setCurrentIndex(sectionStarts[sectionIndex])}
+              className={`${
+                sectionIndex === currentSection
+                  ? 'bg-[#3f8cbf] text-white'
+                  : 'bg-[#0f1419] border border-[#3d4f5b] text-[#9eafbf] hover:bg-[#2a3540] hover:text-white'
+              } [font-family:'Lexend',Helvetica] font-medium whitespace-nowrap`}
+            >
+              {section.subject} ({answered}/{section.questions.length})
+            </Button>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Question */}
+        <Card className="bg-[#1e282d] border-[#3d4f5b] lg:col-span-3">
+          <CardContent className="p-6">
+            <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs mb-2">
+              {paper.sections[currentSection].subject} • Question {currentIndex - sectionStarts[currentSection] + 1} of {sectionQuestions.length}
+            </p>
+            <div className="text-white text-base mb-4">
+              <MessageRenderer content={currentQuestion.prompt} className="text-base" />
+            </div>
+
+            <QuestionInput
+              question={currentQuestion}
+              response={responses[currentQuestion.id]}
+              onChange={(response) => setResponse(currentQuestion.id, response)}
+            />
+
+            <div className="flex justify-between mt-6">
+              <Button
+                onClick={() => setCurrentIndex(index => index - 1)}
+                disabled={currentIndex === 0}
+                className="bg-[#0f1419] border border-[#3d4f5b] text-white hover:bg-[#2a3540] [font-family:'Lexend',Helvetica] font-medium"
+              >
+                ← Previous
+              </Button>
+              {isAnswered(responses[currentQuestion.id]) && (
+                <Button
+                  onClick={() => setResponse(currentQuestion.id, null)}
+                  className="bg-transparent text-[#9eafbf] hover:text-white hover:bg-[#2a3540] [font-family:'Lexend',Helvetica] font-medium"
+                >
+                  Clear answer
+                </Button>
+              )}
+              {currentIndex < questions.length - 1 ? (
+                <Button
+                  onClick={() => setCurrentIndex(index => index + 1)}
+                  className="bg-[#3f8cbf] hover:bg-[#2d6a94] text-white [font-family:'Lexend',Helvetica] font-medium"
+                >
+                  Next →
+                </Button>
+              ) : (
+                <Button
+                  onClick={() => setConfirmingSubmit(true)}
+                  disabled={submitting}
+                  className="bg-[#10b981] hover:bg-[#059669] text-white [font-family:'Lexend',Helvetica] font-medium"
+                >
+                  Submit Exam
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Section Navigator */}
+        <Card className="bg-[#1e282d] border-[#3d4f5b]">
+          <CardContent className="p-4">
+            <h3 className="[font-family:'Lexend',Helvetica] font-bold text-white text-sm mb-3">
+              {paper.sections[currentSection].subject}
+            </h3>
+            <div className="grid grid-cols-5 gap-2 mb-4">
+              {sectionQuestions.map((question, index) => {
+                const globalIndex = sectionStarts[currentSection] + index;
+                return (
+                  <button
+                    key={question.id}
+                    onClick={() => setCurrentIndex(globalIndex)}
+                    className={`h-9 rounded-lg text-sm font-medium [font-family:'Lexend',Helvetica] border ${
+                      globalIndex === currentIndex
+                        ? 'border-white'
+                        : 'border-transparent'
+                    } ${
+                      isAnswered(responses[question.id])
+                        ? 'bg-[#3f8cbf] text-white'
+                        : 'bg-[#0f1419] text-[#9eafbf]'
+                    }`}
+                  >
+                    {index + 1}
+                  </button>
+                );
+              })}
+            </div>
+            <Button
+              onClick={() => setConfirmingSubmit(true)}
+              disabled={submitting}
+              className="w-full bg-[#10b981] hover:bg-[#059669] text-white [font-family:'Lexend',Helvetica] font-medium"
+            >
+              {submitting ? 'Submitting...' : 'Submit Exam'}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+
+      {error && (
+        <p className="[font-family:'Lexend',Helvetica] text-red-400 text-sm text-center">
+          {error}
+        </p>
+      )}
+
+      {/* Submit Confirmation */}
+      {confirmingSubmit && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <Card className="bg-[#1e282d] border-[#3d4f5b] w-full max-w-md">
+            <CardContent className="p-6">
+              <h3 className="[font-family:'Lexend',Helvetica] font-bold text-white text-lg mb-2">
+                Submit the whole paper?
+              </h3>
+              <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm mb-6">
+                {unansweredCount > 0
+                  ? `You have ${unansweredCount} unanswered question${unansweredCount === 1 ? '' : 's'} across all sections.`
+                  : 'You have answered every question.'} You can't change your answers after submitting.
+              </p>
+              <div className="flex justify-end gap-3">
+                <Button
+                  onClick={() => setConfirmingSubmit(false)}
+                  className="bg-[#0f1419] border border-[#3d4f5b] text-white hover:bg-[#2a3540] [font-family:'Lexend',Helvetica] font-medium"
+                >
+                  Keep Working
+                </Button>
+                <Button
+                  onClick={handleSubmit}
+                  className="bg-[#10b981] hover:bg-[#059669] text-white [font-family:'Lexend',Helvetica] font-medium"
+                >
+                  Submit
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,185 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Card, CardContent } from "../../../components/ui/card";
+import { Button } from "../../../components/ui/button";
+import { useAuth } from "../../../contexts/AuthContext";
+import { PAST_PAPER_BOARDS, TestService } from "../../../services/testService";
+import type { PastPaperSummary } from "../../../services/testService";
+
+interface PastPaperBrowserProps {
+  onStart: (paper: PastPaperSummary) => void;
+}
+
+const selectClassName = "px-3 py-2 bg-[#0f1419] border border-[#3d4f5b] rounded-lg text-white text-sm focus:border-[#3f8cbf] focus:outline-none disabled:opacity-50 [font-family:'Lexend',Helvetica]";
+
+const unique = <T,>(values: T[]): T[] => Array.from(new Set(values));
+
+export const PastPaperBrowser: React.FC<PastPaperBrowserProps> = ({ onStart }) => {
+  const { user, profile } = useAuth();
+  const ownBoard = TestService.getPastPaperBoard(profile?.grade, profile?.board);
+  const [board, setBoard] = useState(ownBoard || '');
+  const [grade, setGrade] = useState(profile?.grade || '');
+  const [subject, setSubject] = useState('');
+  const [year, setYear] = useState('');
+  const [topic, setTopic] = useState('');
+  const [papers, setPapers] = useState<PastPaperSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Papers are fetched per board; the remaining filters narrow the list in place
+  useEffect(() => {
+    if (!user) return;
+
+    const loadPapers = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        setPapers(await TestService.getPastPapers(user.id, { board: board || undefined }));
+      } catch (error) {
+        setError(error instanceof Error ? error.message : 'Failed to load past papers');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPapers();
+  }, [user, board]);
+
+  const grades = useMemo(() => unique(papers.map(paper => paper.grade).filter((value): value is string => !!value)), [papers]);
+  const byGrade = papers.filter(paper => !grade || paper.grade === grade);
+  const subjects = unique(byGrade.map(paper => paper.subject)).sort();
+  const bySubject = byGrade.filter(paper => !subject || paper.subject === subject);
+  const years = unique(bySubject.map(paper => paper.year).filter((value): value is number => !!value)).sort((a, b) => b - a);
+  const byYear = bySubject.filter(paper => !year || paper.year === Number(year));
+  const topics = unique(byYear.flatMap(paper => paper.topics)).sort();
+  const filteredPapers = byYear.filter(paper => !topic || paper.topics.includes(topic));
+
+  // Reset the narrower filters whenever a broader one changes
+  const changeBoard = (value: string) => {
+    setBoard(value);
+    setGrade('');
+    setSubject('');
+    setYear('');
+    setTopic('');
+  };
+
+  const changeGrade = (value: string) => {
+    setGrade(value);
+    setSubject('');
+    setYear('');
+    setTopic('');
+  };
+
+  const changeSubject = (value: string) => {
+    setSubject(value);
+    setYear('');
+    setTopic('');
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="flex flex-wrap gap-3">
+        <select value={board} onChange={(e) => changeBoard(e.target.value)} className={selectClassName}>
+          <option value="">All boards</option>
+          {PAST_PAPER_BOARDS.map((value) => (
+            <option key={value} value={value}>{value}{value === ownBoard ? ' (yours)' : ''}</option>
+          ))}
+        </select>
+        <select value={grade} onChange={(e) => changeGrade(e.target.value)} className={selectClassName}>
+          <option value="">All grades</option>
+          {unique([...grades, ...(grade ? [grade] : [])]).map((value) => (
+            <option key={value} value={value}>{value}</option>
+          ))}
+        </select>
+        <select value={subject} onChange={(e) => changeSubject(e.target.value)} className={selectClassName}>
+          <option value="">All subjects</option>
+          {subjects.map((value) => (
+            <option key={value} value={value}>{value}</option>
+          ))}
+        </select>
+        <select value={year} onChange={(e) => { setYear(e.target.value); setTopic(''); }} className={selectClassName}>
+          <option value="">All years</option>
+          {years.map((value) => (
+            <option key={value} value={value}>{value}</option>
+          ))}
+        </select>
+        <select value={topic} onChange={(e) => setTopic(e.target.value)} disabled={topics.length === 0} className={selectClassName}>
+          <option value="">All topics</option>
+          {topics.map((value) => (
+            <option key={value} value={value}>{value}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <p className="[font-family:'Lexend',Helvetica] text-red-400 text-sm">
+          {error}
+        </p>
+      )}
+
+      {loading && (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-[#3f8cbf]"></div>
+        </div>
+      )}
+
+      {!loading && !error && filteredPapers.length === 0 && (
+        <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-center py-8">
+          {papers.length === 0
+            ? `No past papers have been added${board ? ` for ${board}` : ''} yet.`
+            : 'No past papers match these filters. Try widening your search.'}
+        </p>
+      )}
+
+      {!loading && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {filteredPapers.map((paper) => (
+            <Card key={paper.id} className="bg-[#0f1419] border-[#3d4f5b]">
+              <CardContent className="p-6">
+                <div className="flex items-start justify-between gap-3 mb-1">
+                  <h4 className="[font-family:'Lexend',Helvetica] font-bold text-white text-lg">
+                    {paper.subject} {paper.year}
+                  </h4>
+                  <span className="text-xs px-2 py-1 rounded-full bg-[#3f8cbf]/20 text-[#3f8cbf] whitespace-nowrap [font-family:'Lexend',Helvetica]">
+                    {paper.board}
+                  </span>
+                </div>
+                <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm mb-3">
+                  {[paper.grade, paper.session, paper.paper_number].filter(Boolean).join(' • ')}
+                </p>
+
+                {paper.topics.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mb-4">
+                    {paper.topics.map((paperTopic) => (
+                      <span
+                        key={paperTopic}
+                        className={`text-xs px-2 py-0.5 rounded-full [font-family:'Lexend',Helvetica] ${
+                          paperTopic === topic ? 'bg-[#3f8cbf] text-white' : 'bg-[#2a3540] text-[#9eafbf]'
+                        }`}
+                      >
+                        {paperTopic}
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm mb-4">
+                  {paper.question_count} questions • {paper.duration_minutes} min
+                  {paper.best_score !== null && ` • Best ${paper.best_score}%`}
+                </p>
+
+                <Button
+                  onClick={() => onStart(paper)}
+                  disabled={paper.question_count === 0}
+                  className="w-full bg-[#3f8cbf] hover:bg-[#2d6a94] text-white [font-family:'Lexend',Helvetica] font-medium"
+                >
+                  {paper.attempts > 0 ? 'Attempt Again' : 'Start Timed Paper'}
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+import React from "react";
+import { MessageRenderer } from "../../../components/MessageRenderer";
+import type {
+  QuestionPrompt,
+  QuestionResponse,
+  QuestionType,
+  NumericResponse
+} from "../../../lib/questions";
+
+type PromptOf<T extends QuestionType> = Extract<QuestionPrompt, { question_type: T }>;
+
+interface RendererProps<T extends QuestionPrompt> {
+  question: T;
+  response: QuestionResponse | undefined;
+  onChange: (response: QuestionResponse) => void;
+}
+
+const inputClassName = "px-4 py-2 bg-[#0f1419] border border-[#3d4f5b] rounded-lg text-white placeholder-[#9eafbf] focus:border-[#3f8cbf] focus:outline-none [font-family:'Lexend',Helvetica]";
+
+const OptionButton: React.FC<{
+  label: string;
+  content: string;
+  selected: boolean;
+  square?: boolean;
+  onClick: () => void;
+}> = ({ label, content, selected, square, onClick }) => (
+  <button
+    onClick={onClick}
+    className={`w-full flex items-center gap-3 p-3 rounded-lg border text-left text-white transition-colors ${
+      selected
+        ? 'bg-[#3f8cbf]/20 border-[#3f8cbf]'
+        : 'bg-[#0f1419] border-[#3d4f5b] hover:bg-[#2a3540]'
+    }`}
+  >
+    <span className={`w-7 h-7 flex-shrink-0 ${square ? 'rounded-md' : 'rounded-full'} flex items-center justify-center text-sm font-bold [font-family:'Lexend',Helvetica] ${
+      selected ? 'bg-[#3f8cbf] text-white' : 'bg-[#2a3540] text-[#9eafbf]'
+    }`}>
+      {square && selected ? '✓' : label}
+    </span>
+    <MessageRenderer content={content} />
+  </button>
+);
+
+const McqRenderer: React.FC<RendererProps<PromptOf<'mcq'>>> = ({ question, response, onChange }) => (
+  <div className="space-y-3">
+    {question.options.map((option, optionIndex) => (
+      <OptionButton
+        key={optionIndex}
+        label={String.fromCharCode(65 + optionIndex)}
+        content={option}
+        selected={response === optionIndex}
+        onClick={() => onChange(optionIndex)}
+      />
+    ))}
+  </div>
+);
+
+const MultiSelectRenderer: React.FC<RendererProps<PromptOf<'multi_select'>>> = ({ question, response, onChange }) => {
+  const selected = Array.isArray(response) ? response : [];
+
+  const toggle = (optionIndex: number) => {
+    const next = selected.includes(optionIndex)
+      ? selected.filter(index => index !== optionIndex)
+      : [...selected, optionIndex].sort((a, b) => a - b);
+    onChange(next.length > 0 ? next : null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs">
+        Select all options that apply.
+      </p>
+      {question.options.map((option, optionIndex) => (
+        <OptionButton
+          key={optionIndex}
+          label={String.fromCharCode(65 + optionIndex)}
+          content={option}
+          selected={selected.includes(optionIndex)}
+          square
+          onClick={() => toggle(optionIndex)}
+        />
+      ))}
+    </div>
+  );
+};
+
+const NumericRenderer: React.FC<RendererProps<PromptOf<'numeric'>>> = ({ question, response, onChange }) => {
+  const current: NumericResponse = response && typeof response === 'object' && !Array.isArray(response)
+    ? response
+    : { value: '', unit: '' };
+
+  const update = (changes: Partial<NumericResponse>) => {
+    const next = { ...current, ...changes };
+    onChange(next.value.trim() || next.unit.trim() ? next : null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <input
+          type="text"
+          inputMode="decimal"
+          value={current.value}
+          onChange={(e) => update({ value: e.target.value })}
+          placeholder="Your answer, e.g. 9.8 or 3×10^8"
+          className={`flex-1 ${inputClassName}`}
+        />
+        {question.needs_unit && (
+          <input
+            type="text"
+            value={current.unit}
+            onChange={(e) => update({ unit: e.target.value })}
+            placeholder="Unit, e.g. m/s^2"
+            className={`sm:w-40 ${inputClassName}`}
+          />
+        )}
+      </div>
+      <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs">
+        {question.needs_unit
+          ? 'Enter the number and its SI unit separately.'
+          : 'Enter a number only.'}
+      </p>
+    </div>
+  );
+};
+
+const ShortAnswerRenderer: React.FC<RendererProps<PromptOf<'short_answer'>>> = ({ response, onChange }) => {
+  const text = typeof response === 'string' ? response : '';
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        value={text}
+        onChange={(e) => onChange(e.target.value.trim() ? e.target.value : null)}
+        rows={5}
+        dir="auto"
+        placeholder="Write your answer here..."
+        className={`w-full ${inputClassName}`}
+      />
+      <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs">
+        Keep it short and cover the key points.
+      </p>
+    </div>
+  );
+};
+
+// Pick the input that matches the question's type
+export const QuestionInput: React.FC<RendererProps<QuestionPrompt>> = ({ question, response, onChange }) => {
+  switch (question.question_type) {
+    case 'mcq':
+      return <McqRenderer question={question} response={response} onChange={onChange} />;
+    case 'multi_select':
+      return <MultiSelectRenderer question={question} response={response} onChange={onChange} />;
+    case 'numeric':
+      return <NumericRenderer question={question} response={response} onChange={onChange} />;
+    case 'short_answer':
+      return <ShortAnswerRenderer question={question} response={response} onChange={onChange} />;
+    default:
+      return null;
+  }
+};
@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
 import { Card, CardContent } from "../../../components/ui/card";
 import { Button } from "../../../components/ui/button";
 import { AnalyticsService } from "../../../services/analyticsService";
+import { LessonService } from "../../../services/lessonService";
+import { lessonPath } from "../../../lib/lessons";
 import { useAuth } from "../../../contexts/AuthContext";
 
 interface StreakInfo {
@@ -12,7 +15,8 @@ interface StreakInfo {
 }
 
 export const StudyStreakCard: React.FC = () => {
-  const { user, recordStudySession } = useAuth();
+  const { user, profile, subjectProgress } = useAuth();
+  const navigate = useNavigate();
   const [streakInfo, setStreakInfo] = useState<StreakInfo | null>(null);
   const [loading, setLoading] = useState(true);
 
@@ -33,17 +37,13 @@ export const StudyStreakCard: React.FC = () => {
     loadStreakInfo();
   }, [user]);
 
+  // Keep the streak going with the next unfinished lesson; the lesson records the real time spent
   const handleQuickStudy = async () => {
     if (!user) return;
-    
-    try {
-      await recordStudySession('lesson', 'Quick Review', 10);
-      // Reload streak info
-      const info = await AnalyticsService.getStudyStreakInfo(user.id);
-      setStreakInfo(info);
-    } catch (error) {
-      console.error('Error recording quick study:', error);
-    }
+
+    const subjects = subjectProgress.map(progress => progress.subject_name);
+    const next = await LessonService.getNextLesson(user.id, subjects, profile);
+    navigate(next ? lessonPath(next.subject, next.topic) : '/dashboard/tests');
   };
 
   if (loading) {
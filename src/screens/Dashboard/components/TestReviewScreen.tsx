@@ -0,0 +1,233 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent } from "../../../components/ui/card";
+import { Button } from "../../../components/ui/button";
+import { MessageRenderer } from "../../../components/MessageRenderer";
+import { useAuth } from "../../../contexts/AuthContext";
+import { TestService } from "../../../services/testService";
+import type { AttemptReview, ReviewItem } from "../../../services/testService";
+import { TutorContextService } from "../../../services/tutorContextService";
+import { formatCorrectAnswer, formatResponse, questionTypeLabels } from "../../../lib/questions";
+import { isAnswered } from "../../../lib/grading";
+
+interface TestReviewScreenProps {
+  attemptId: string;
+  onExit: () => void;
+}
+
+type ReviewFilter = 'all' | 'wrong' | 'flagged';
+
+// Collapse the question into one line for the tutor's single-line message box
+const buildTutorQuestion = (item: ReviewItem, subject: string): string => {
+  const { question, answer } = item;
+  const parts = [
+    `I need help with this ${subject} question from a test: ${question.prompt}`,
+    question.options.length > 0 ? `Options: ${question.options.map((option, index) => `${String.fromCharCode(65 + index)}. ${option}`).join('; ')}.` : '',
+    `My answer: ${formatResponse(question, answer?.response)}.`,
+    `Correct answer: ${formatCorrectAnswer(question)}.`,
+    'Can you explain how to solve it step by step?'
+  ];
+  return parts.filter(Boolean).join(' ').replace(/\s+/g, ' ');
+};
+
+export const TestReviewScreen: React.FC<TestReviewScreenProps> = ({ attemptId, onExit }) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [review, setReview] = useState<AttemptReview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<ReviewFilter>('all');
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadReview = async () => {
+      try {
+        setReview(await TestService.getAttemptReview(user.id, attemptId));
+      } catch (error) {
+        setError(error instanceof Error ? error.message : 'Failed to load the test review');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadReview();
+  }, [user, attemptId]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#3f8cbf]"></div>
+      </div>
+    );
+  }
+
+  if (!review) {
+    return (
+      <Card className="bg-[#1e282d] border-[#3d4f5b] max-w-2xl mx-auto">
+        <CardContent className="p-8 text-center">
+          <p className="[font-family:'Lexend',Helvetica] text-red-400 mb-4">
+            {error || 'This review could not be loaded.'}
+          </p>
+          <Button
+            onClick={onExit}
+            className="bg-[#0f1419] border border-[#3d4f5b] text-white hover:bg-[#2a3540] [font-family:'Lexend',Helvetica] font-medium"
+          >
+            Back to Tests
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { attempt, items } = review;
+  const wrongCount = items.filter(item => !item.grade.isCorrect).length;
+  const flaggedCount = items.filter(item => item.answer?.flagged).length;
+  const visibleItems = items.filter(item =>
+    filter === 'all' ||
+    (filter === 'wrong' && !item.grade.isCorrect) ||
+    (filter === 'flagged' && item.answer?.flagged)
+  );
+
+  const filters: { id: ReviewFilter; label: string }[] = [
+    { id: 'all', label: `All (${items.length})` },
+    { id: 'wrong', label: `Incorrect (${wrongCount})` },
+    { id: 'flagged', label: `Flagged (${flaggedCount})` }
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Review Header */}
+      <Card className="bg-[#1e282d] border-[#3d4f5b]">
+        <CardContent className="p-6 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h2 className="[font-family:'Lexend',Helvetica] font-bold text-white text-xl">
+              {attempt.test.title}
+            </h2>
+            <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
+              {attempt.test.subject} • {attempt.submitted_at ? new Date(attempt.submitted_at).toLocaleDateString() : '—'} • {attempt.correct_answers}/{attempt.total_questions} correct • {attempt.marks_obtained}/{attempt.total_marks} marks
+            </p>
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="text-3xl font-bold text-white [font-family:'Lexend',Helvetica]">
+              {attempt.score ?? 0}%
+            </div>
+            <Button
+              onClick={onExit}
+              className="bg-[#0f1419] border border-[#3d4f5b] text-white hover:bg-[#2a3540] [font-family:'Lexend',Helvetica] font-medium"
+            >
+              Back to Tests
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {wrongCount > 0 && (
+        <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm text-center">
+          📓 Questions you answered incorrectly have been added to your mistake notebook for later practice.
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {filters.map(({ id, label }) => (
+          <Button
+            key={id}
+            onClick={() => setFilter(id)}
+            className={`${
+              filter === id
+                ? 'bg-[#3f8cbf] text-white'
+                : 'bg-[#0f1419] border border-[#3d4f5b] text-[#9eafbf] hover:bg-[#2a3540] hover:text-white'
+            } [font-family:'Lexend',Helvetica] font-medium`}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+
+      {visibleItems.length === 0 && (
+        <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-center py-8">
+          No questions to show here.
+        </p>
+      )}
+
+      {/* Questions */}
+      <div className="space-y-4">
+        {visibleItems.map((item) => {
+          const { question, answer, grade } = item;
+          const answered = isAnswered(answer?.response);
+          const status = grade.isCorrect
+            ? { label: 'Correct', className: 'bg-green-500/20 text-green-400' }
+            : !answered
+              ? { label: 'Skipped', className: 'bg-gray-500/20 text-gray-400' }
+              : grade.marksAwarded > 0
+                ? { label: 'Partly correct', className: 'bg-yellow-500/20 text-yellow-400' }
+                : { label: 'Incorrect', className: 'bg-red-500/20 text-red-400' };
+
+          return (
+            <Card key={question.id} className="bg-[#1e282d] border-[#3d4f5b]">
+              <CardContent className="p-6">
+                <div className="flex items-start justify-between gap-4 mb-3">
+                  <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs">
+                    Question {items.indexOf(item) + 1} • {questionTypeLabels[question.question_type]}
+                    {question.topic && ` • ${question.topic}`}
+                    {answer?.flagged && ' • 🚩 Flagged'}
+                  </p>
+                  <span className={`text-xs px-2 py-1 rounded-full whitespace-nowrap ${status.className} [font-family:'Lexend',Helvetica]`}>
+                    {status.label} • {answer?.marks_awarded ?? grade.marksAwarded}/{question.marks}
+                  </span>
+                </div>
+
+                <div className="text-white text-base mb-4">
+                  <MessageRenderer content={question.prompt} className="text-base" />
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+                  <div className={`rounded-lg border p-3 ${
+                    grade.isCorrect ? 'border-green-500/40 bg-green-500/10' : 'border-red-500/40 bg-red-500/10'
+                  }`}>
+                    <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs mb-1">Your answer</p>
+                    <div className="text-white text-sm">
+                      <MessageRenderer content={formatResponse(question, answer?.response)} />
+                    </div>
+                  </div>
+                  <div className="rounded-lg border border-green-500/40 bg-green-500/10 p-3">
+                    <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs mb-1">Correct answer</p>
+                    <div className="text-white text-sm">
+                      <MessageRenderer content={formatCorrectAnswer(question)} />
+                    </div>
+                  </div>
+                </div>
+
+                {grade.feedback && answered && (
+                  <p className="[font-family:'Lexend',Helvetica] text-yellow-400 text-sm mb-3">
+                    {grade.feedback}
+                  </p>
+                )}
+
+                {question.explanation && (
+                  <div className="bg-[#0f1419] border border-[#3d4f5b] rounded-lg p-3 mb-4">
+                    <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs mb-1">💡 Explanation</p>
+                    <div className="text-white text-sm">
+                      <MessageRenderer content={question.explanation} />
+                    </div>
+                  </div>
+                )}
+
+                <Button
+                  onClick={() => navigate(TutorContextService.buildPrefillUrl({
+                    question: buildTutorQuestion(item, attempt.test.subject),
+                    subject: attempt.test.subject,
+                    topic: question.topic
+                  }))}
+                  className="bg-[#0f1419] border border-[#3d4f5b] text-white hover:bg-[#2a3540] [font-family:'Lexend',Helvetica] font-medium"
+                >
+                  🤖 Ask the AI tutor about this question
+                </Button>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,363 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Card, CardContent } from "../../../components/ui/card";
+import { Button } from "../../../components/ui/button";
+import { MessageRenderer } from "../../../components/MessageRenderer";
+import { useAuth } from "../../../contexts/AuthContext";
+import { TestService } from "../../../services/testService";
+import { TopicProgressService } from "../../../services/topicProgressService";
+import type { TestSummary } from "../../../services/testService";
+import { QuestionInput } from "./QuestionRenderers";
+import { isAnswered } from "../../../lib/grading";
+import type { AttemptGrade } from "../../../lib/grading";
+import { questionTypeLabels } from "../../../lib/questions";
+import type { QuestionPrompt, QuestionResponse } from "../../../lib/questions";
+import type { TestAttempt } from "../../../lib/supabase";
+
+interface TestTakingScreenProps {
+  test: TestSummary;
+  onExit: () => void;
+  onSubmitted: () => void;
+  onReview?: (attemptId: string) => void;
+}
+
+const formatTime = (totalSeconds: number) => {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export const TestTakingScreen: React.FC<TestTakingScreenProps> = ({ test, onExit, onSubmitted, onReview }) => {
+  const { user, profile, recordStudySession, refreshProgress } = useAuth();
+  const [questions, setQuestions] = useState<QuestionPrompt[]>([]);
+  const [attempt, setAttempt] = useState<TestAttempt | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [responses, setResponses] = useState<{ [questionId: string]: QuestionResponse }>({});
+  const [flagged, setFlagged] = useState<string[]>([]);
+  const [remainingSeconds, setRemainingSeconds] = useState(test.duration_minutes * 60);
+  const [confirmingSubmit, setConfirmingSubmit] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<AttemptGrade | null>(null);
+  const startedAtRef = useRef(Date.now());
+  const submittedRef = useRef(false);
+
+  // Load the questions and open an attempt
+  useEffect(() => {
+    if (!user) return;
+
+    const start = async () => {
+      try {
+        const testQuestions = await TestService.getQuestions(test.id);
+        if (testQuestions.length === 0) {
+          setError('This test has no questions yet.');
+          return;
+        }
+        const newAttempt = await TestService.startAttempt(user.id, test.id, testQuestions.length);
+        setQuestions(testQuestions);
+        setAttempt(newAttempt);
+        startedAtRef.current = Date.now();
+      } catch (error) {
+        setError(error instanceof Error ? error.message : 'Failed to start the test');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    start();
+  }, [user, test.id]);
+
+  const handleSubmit = useCallback(async () => {
+    if (!user || !attempt || submittedRef.current) return;
+    submittedRef.current = true;
+    setSubmitting(true);
+    setConfirmingSubmit(false);
+
+    const durationSeconds = Math.round((Date.now() - startedAtRef.current) / 1000);
+
+    try {
+      const { grade } = await TestService.submitAttempt(attempt.id, responses, flagged);
+      setResult(grade);
+
+      const durationMinutes = Math.max(1, Math.round(durationSeconds / 60));
+      recordStudySession('test', test.subject, durationMinutes, grade.score).catch(error => {
+        console.error('Error recording test session:', error);
+      });
+      TopicProgressService.recordTestTopics(
+        user.id,
+        profile,
+        test.subject,
+        TopicProgressService.summarizeTestTopics(questions, grade.grades)
+      ).then(refreshProgress).catch(error => {
+        console.error('Error recording test topics:', error);
+      });
+      onSubmitted();
+    } catch (error) {
+      submittedRef.current = false;
+      setError(error instanceof Error ? error.message : 'Failed to submit the test');
+    } finally {
+      setSubmitting(false);
+    }
+  }, [user, profile, attempt, questions, responses, flagged, test.subject, recordStudySession, refreshProgress, onSubmitted]);
+
+  // Count down from the test's duration and submit automatically when time runs out
+  useEffect(() => {
+    if (!attempt || result) return;
+
+    const timer = setInterval(() => {
+      const elapsed = Math.floor((Date.now() - startedAtRef.current) / 1000);
+      const remaining = Math.max(0, test.duration_minutes * 60 - elapsed);
+      setRemainingSeconds(remaining);
+      if (remaining === 0) {
+        clearInterval(timer);
+        handleSubmit();
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [attempt, result, test.duration_minutes, handleSubmit]);
+
+  const currentQuestion = questions[currentIndex];
+  const answeredCount = questions.filter(question => isAnswered(responses[question.id])).length;
+  const unansweredCount = questions.length - answeredCount;
+
+  const setResponse = (questionId: string, response: QuestionResponse) => {
+    setResponses(prev => ({ ...prev, [questionId]: response }));
+  };
+
+  const toggleFlag = (questionId: string) => {
+    setFlagged(prev => prev.includes(questionId)
+      ? prev.filter(id => id !== questionId)
+      : [...prev, questionId]
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#3f8cbf]"></div>
+      </div>
+    );
+  }
+
+  if (result) {
+    return (
+      <Card className="bg-[#1e282d] border-[#3d4f5b] max-w-2xl mx-auto">
+        <CardContent className="p-8 text-center">
+          <div className="text-5xl mb-4">{result.score >= 75 ? '🎉' : result.score >= 50 ? '👍' : '📚'}</div>
+          <h2 className="[font-family:'Lexend',Helvetica] font-bold text-white text-2xl mb-1">
+            {test.title}
+          </h2>
+          <p className="[font-family:'Lexend',Helvetica] text-[#3f8cbf] font-medium text-sm mb-6">
+            {test.subject}
+          </p>
+          <div className="text-5xl font-bold text-white mb-2 [font-family:'Lexend',Helvetica]">
+            {result.score}%
+          </div>
+          <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] mb-6">
+            {result.correctAnswers}/{questions.length} correct • {result.marksObtained}/{result.totalMarks} marks
+          </p>
+          <div className="flex justify-center gap-3">
+            {onReview && attempt && (
+              <Button
+                onClick={() => onReview(attempt.id)}
+                className="bg-[#0f1419] border border-[#3d4f5b] text-white hover:bg-[#2a3540] [font-family:'Lexend',Helvetica] font-medium"
+              >
+                Review Answers
+              </Button>
+            )}
+            <Button
+              onClick={onExit}
+              className="bg-[#3f8cbf] hover:bg-[#2d6a94] text-white [font-family:'Lexend',Helvetica] font-medium"
+            >
+              Back to Tests
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!currentQuestion) {
+    return (
+      <Card className="bg-[#1e282d] border-[#3d4f5b] max-w-2xl mx-auto">
+        <CardContent className="p-8 text-center">
+          <p className="[font-family:'Lexend',Helvetica] text-red-400 mb-4">
+            {error || 'This test could not be loaded.'}
+          </p>
+          <Button
+            onClick={onExit}
+            className="bg-[#0f1419] border border-[#3d4f5b] text-white hover:bg-[#2a3540] [font-family:'Lexend',Helvetica] font-medium"
+          >
+            Back to Tests
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const isFlagged = flagged.includes(currentQuestion.id);
+
+  return (
+    <div className="space-y-6">
+      {/* Test Header */}
+      <Card className="bg-[#1e282d] border-[#3d4f5b]">
+        <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h2 className="[font-family:'Lexend',Helvetica] font-bold text-white text-lg">
+              {test.title}
+            </h2>
+            <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
+              Question {currentIndex + 1} of {questions.length} • {answeredCount} answered
+            </p>
+          </div>
+          <div className={`[font-family:'Lexend',Helvetica] font-bold text-2xl tabular-nums ${
+            remainingSeconds <= 60 ? 'text-red-400' : 'text-white'
+          }`}>
+            ⏱️ {formatTime(remainingSeconds)}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Question */}
+        <Card className="bg-[#1e282d] border-[#3d4f5b] lg:col-span-3">
+          <CardContent className="p-6">
+            <div className="flex items-start justify-between gap-4 mb-4">
+              <div className="text-white text-base">
+                <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs mb-2">
+                  {questionTypeLabels[currentQuestion.question_type]} • {currentQuestion.marks} mark{currentQuestion.marks === 1 ? '' : 's'}
+                </p>
+                <MessageRenderer content={currentQuestion.prompt} className="text-base" />
+              </div>
+              <button
+                onClick={() => toggleFlag(currentQuestion.id)}
+                className={`[font-family:'Lexend',Helvetica] text-xs px-3 py-1 rounded-full whitespace-nowrap border ${
+                  isFlagged
+                    ? 'bg-yellow-500/20 text-yellow-400 border-yellow-500/40'
+                    : 'text-[#9eafbf] border-[#3d4f5b] hover:text-white'
+                }`}
+              >
+                🚩 {isFlagged ? 'Flagged' : 'Flag for review'}
+              </button>
+            </div>
+
+            <QuestionInput
+              question={currentQuestion}
+              response={responses[currentQuestion.id]}
+              onChange={(response) => setResponse(currentQuestion.id, response)}
+            />
+
+            <div className="flex justify-between mt-6">
+              <Button
+                onClick={() => setCurrentIndex(index => index - 1)}
+                disabled={currentIndex === 0}
+                className="bg-[#0f1419] border border-[#3d4f5b] text-white hover:bg-[#2a3540] [font-family:'Lexend',Helvetica] font-medium"
+              >
+                ← Previous
+              </Button>
+              {currentIndex < questions.length - 1 ? (
+                <Button
+                  onClick={() => setCurrentIndex(index => index + 1)}
+                  className="bg-[#3f8cbf] hover:bg-[#2d6a94] text-white [font-family:'Lexend',Helvetica] font-medium"
+                >
+                  Next →
+                </Button>
+              ) : (
+                <Button
+                  onClick={() => setConfirmingSubmit(true)}
+                  disabled={submitting}
+                  className="bg-[#10b981] hover:bg-[#059669] text-white [font-family:'Lexend',Helvetica] font-medium"
+                >
+                  Submit Test
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Question Navigator */}
+        <Card className="bg-[#1e282d] border-[#3d4f5b]">
+          <CardContent className="p-4">
+            <h3 className="[font-family:'Lexend',Helvetica] font-bold text-white text-sm mb-3">
+              Questions
+            </h3>
+            <div className="grid grid-cols-5 gap-2 mb-4">
+              {questions.map((question, index) => (
+                <button
+                  key={question.id}
+                  onClick={() => setCurrentIndex(index)}
+                  className={`relative h-9 rounded-lg text-sm font-medium [font-family:'Lexend',Helvetica] border ${
+                    index === currentIndex
+                      ? 'border-white'
+                      : 'border-transparent'
+                  } ${
+                    isAnswered(responses[question.id])
+                      ? 'bg-[#3f8cbf] text-white'
+                      : 'bg-[#0f1419] text-[#9eafbf]'
+                  }`}
+                >
+                  {index + 1}
+                  {flagged.includes(question.id) && (
+                    <span className="absolute -top-1 -right-1 w-2.5 h-2.5 rounded-full bg-yellow-400" />
+                  )}
+                </button>
+              ))}
+            </div>
+            <div className="space-y-1 mb-4 [font-family:'Lexend',Helvetica] text-xs text-[#9eafbf]">
+              <p><span className="inline-block w-2.5 h-2.5 rounded bg-[#3f8cbf] mr-2" />Answered</p>
+              <p><span className="inline-block w-2.5 h-2.5 rounded bg-[#0f1419] border border-[#3d4f5b] mr-2" />Not answered</p>
+              <p><span className="inline-block w-2.5 h-2.5 rounded-full bg-yellow-400 mr-2" />Flagged for review</p>
+            </div>
+            <Button
+              onClick={() => setConfirmingSubmit(true)}
+              disabled={submitting}
+              className="w-full bg-[#10b981] hover:bg-[#059669] text-white [font-family:'Lexend',Helvetica] font-medium"
+            >
+              {submitting ? 'Submitting...' : 'Submit Test'}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+
+      {error && (
+        <p className="[font-family:'Lexend',Helvetica] text-red-400 text-sm text-center">
+          {error}
+        </p>
+      )}
+
+      {/* Submit Confirmation */}
+      {confirmingSubmit && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <Card className="bg-[#1e282d] border-[#3d4f5b] w-full max-w-md">
+            <CardContent className="p-6">
+              <h3 className="[font-family:'Lexend',Helvetica] font-bold text-white text-lg mb-2">
+                Submit test?
+              </h3>
+              <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm mb-6">
+                {unansweredCount > 0
+                  ? `You have ${unansweredCount} unanswered question${unansweredCount === 1 ? '' : 's'}`
+                  : 'You have answered every question'}
+                {flagged.length > 0 && ` and ${flagged.length} flagged for review`}. You can't change your answers after submitting.
+              </p>
+              <div className="flex justify-end gap-3">
+                <Button
+                  onClick={() => setConfirmingSubmit(false)}
+                  className="bg-[#0f1419] border border-[#3d4f5b] text-white hover:bg-[#2a3540] [font-family:'Lexend',Helvetica] font-medium"
+                >
+                  Keep Working
+                </Button>
+                <Button
+                  onClick={handleSubmit}
+                  className="bg-[#10b981] hover:bg-[#059669] text-white [font-family:'Lexend',Helvetica] font-medium"
+                >
+                  Submit
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent } from "../../../components/ui/card";
+import { useAuth } from "../../../contexts/AuthContext";
+import { TopicProgressService, TOPIC_STATUSES, topicStatusLabels } from "../../../services/topicProgressService";
+import type { SubjectChecklist } from "../../../services/topicProgressService";
+import type { TopicStatus } from "../../../lib/supabase";
+import { lessonPath } from "../../../lib/lessons";
+
+const statusStyles: { [status in TopicStatus]: { icon: string; className: string } } = {
+  not_started: { icon: '○', className: 'text-[#9eafbf]' },
+  in_progress: { icon: '◐', className: 'text-yellow-400' },
+  completed: { icon: '✓', className: 'text-green-400' },
+  mastered: { icon: '★', className: 'text-[#3f8cbf]' }
+};
+
+const sourceLabels = {
+  lesson: 'from a lesson',
+  test: 'from a test',
+  flashcards: 'from flashcards',
+  manual: 'set by you'
+};
+
+export const TopicChecklist = (): JSX.Element => {
+  const { user, profile, subjectProgress, refreshProgress } = useAuth();
+  const [selectedSubject, setSelectedSubject] = useState('');
+  const [checklist, setChecklist] = useState<SubjectChecklist | null>(null);
+  const [openChapterId, setOpenChapterId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [savingTopicId, setSavingTopicId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const subjects = subjectProgress.map(subject => subject.subject_name);
+  const subject = selectedSubject || subjects[0] || '';
+
+  useEffect(() => {
+    if (!user || !subject) return;
+
+    const loadChecklist = async () => {
+      setLoading(true);
+      try {
+        const result = await TopicProgressService.getChecklist(user.id, subject, profile);
+        setChecklist(result);
+        setOpenChapterId(result?.chapters.find(chapter => chapter.completed < chapter.topics.length)?.id || null);
+        setError(null);
+      } catch (error) {
+        setChecklist(null);
+        setError(error instanceof Error ? error.message : 'Failed to load your topic checklist');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadChecklist();
+  }, [user, profile, subject]);
+
+  const handleStatusChange = async (topicId: string, status: TopicStatus) => {
+    if (!user || !checklist) return;
+
+    setSavingTopicId(topicId);
+    try {
+      await TopicProgressService.setTopicStatus(user.id, checklist.subjectId, topicId, status);
+      const chapters = checklist.chapters.map(chapter => {
+        const topics = chapter.topics.map(topic =>
+          topic.id === topicId ? { ...topic, status, source: 'manual' as const } : topic
+        );
+        return {
+          ...chapter,
+          topics,
+          completed: topics.filter(topic => topic.status === 'completed' || topic.status === 'mastered').length
+        };
+      });
+      setChecklist({ ...checklist, chapters, completed: chapters.reduce((sum, chapter) => sum + chapter.completed, 0) });
+      setError(null);
+      refreshProgress();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update the topic');
+    } finally {
+      setSavingTopicId(null);
+    }
+  };
+
+  return (
+    <Card className="bg-[#1e282d] border-[#3d4f5b]">
+      <CardContent className="p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-6">
+          <div>
+            <h3 className="[font-family:'Lexend',Helvetica] font-bold text-white text-lg">
+              Topic Checklist ✅
+            </h3>
+            <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
+              Lessons, tests and flashcards tick topics off as you go. You can also set them yourself.
+            </p>
+          </div>
+          {subjects.length > 1 && (
+            <select
+              value={subject}
+              onChange={(e) => setSelectedSubject(e.target.value)}
+              className="px-3 py-2 bg-[#0f1419] border border-[#3d4f5b] rounded-lg text-white text-sm focus:border-[#3f8cbf] focus:outline-none [font-family:'Lexend',Helvetica]"
+            >
+              {subjects.map((name) => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        {error && (
+          <p className="[font-family:'Lexend',Helvetica] text-red-400 text-sm mb-4">{error}</p>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#3f8cbf]"></div>
+          </div>
+        ) : checklist ? (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="[font-family:'Lexend',Helvetica] text-white font-medium">
+                {checklist.subject}
+              </span>
+              <span className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
+                {checklist.completed}/{checklist.total} topics done
+              </span>
+            </div>
+
+            {checklist.chapters.map((chapter) => (
+              <div key={chapter.id} className="bg-[#0f1419] rounded-lg">
+                <button
+                  onClick={() => setOpenChapterId(openChapterId === chapter.id ? null : chapter.id)}
+                  className="w-full flex items-center justify-between gap-3 p-3 text-left"
+                >
+                  <span className="[font-family:'Lexend',Helvetica] text-white text-sm font-medium">
+                    {openChapterId === chapter.id ? '▾' : '▸'} {chapter.title}
+                  </span>
+                  <span className={`[font-family:'Lexend',Helvetica] text-xs ${
+                    chapter.completed === chapter.topics.length ? 'text-green-400' : 'text-[#9eafbf]'
+                  }`}>
+                    {chapter.completed}/{chapter.topics.length}
+                  </span>
+                </button>
+
+                {openChapterId === chapter.id && (
+                  <div className="px-3 pb-3 space-y-2">
+                    {chapter.topics.map((topic) => (
+                      <div key={topic.id} className="flex items-center justify-between gap-3 p-2 rounded-lg bg-[#1e282d]">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <span className={`w-4 text-center ${statusStyles[topic.status].className}`}>
+                            {statusStyles[topic.status].icon}
+                          </span>
+                          <div className="min-w-0">
+                            <p className="[font-family:'Lexend',Helvetica] text-white text-sm truncate">
+                              {topic.title}
+                            </p>
+                            {topic.source && topic.status !== 'not_started' && (
+                              <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs">
+                                {topicStatusLabels[topic.status]} {sourceLabels[topic.source]}
+                              </p>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          {topic.hasLesson && (
+                            <Link
+                              to={lessonPath(subject, topic.title)}
+                              className="[font-family:'Lexend',Helvetica] text-[#3f8cbf] hover:text-white text-xs"
+                            >
+                              📖 Lesson
+                            </Link>
+                          )}
+                          <select
+                            value={topic.status}
+                            disabled={savingTopicId === topic.id}
+                            onChange={(e) => handleStatusChange(topic.id, e.target.value as TopicStatus)}
+                            className="px-2 py-1 bg-[#0f1419] border border-[#3d4f5b] rounded-lg text-white text-xs focus:border-[#3f8cbf] focus:outline-none [font-family:'Lexend',Helvetica]"
+                          >
+                            {TOPIC_STATUSES.map((status) => (
+                              <option key={status} value={status}>{topicStatusLabels[status]}</option>
+                            ))}
+                          </select>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : !error && (
+          <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
+            {subject
+              ? `There's no topic list for ${subject} at your grade yet.`
+              : 'Choose your subjects to see their topics here.'}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
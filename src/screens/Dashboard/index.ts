@@ -1,10 +1,17 @@
+import { lazy } from "react";
+
 export { Dashboard } from "./Dashboard";
-export { AITutorPage } from "./pages/AITutorPage";
-export { ProgressPage } from "./pages/ProgressPage";
-export { StudyMaterialsPage } from "./pages/StudyMaterialsPage";
-export { TestsPage } from "./pages/TestsPage";
-export { SettingsPage } from "./pages/SettingsPage";
-export { ProfileInformationPage } from "./pages/ProfileInformationPage.tsx";
-export { PlanBillingPage } from "./pages/PlanBillingPage";
-export { NotificationsPage } from "./pages/NotificationsPage";
-export { AccountActionsPage } from "./pages/AccountActionsPage";
\ No newline at end of file
+export { DashboardOverview } from "./sections/DashboardOverview";
+export { DashboardNotFoundPage } from "./pages/DashboardNotFoundPage";
+
+// The other pages are split into their own chunks and loaded the first time they are opened
+export const AITutorPage = lazy(() => import("./pages/AITutorPage").then(module => ({ default: module.AITutorPage })));
+export const ProgressPage = lazy(() => import("./pages/ProgressPage").then(module => ({ default: module.ProgressPage })));
+export const StudyMaterialsPage = lazy(() => import("./pages/StudyMaterialsPage").then(module => ({ default: module.StudyMaterialsPage })));
+export const TestsPage = lazy(() => import("./pages/TestsPage").then(module => ({ default: module.TestsPage })));
+export const LessonPage = lazy(() => import("./pages/LessonPage").then(module => ({ default: module.LessonPage })));
+export const SettingsPage = lazy(() => import("./pages/SettingsPage").then(module => ({ default: module.SettingsPage })));
+export const ProfileInformationPage = lazy(() => import("./pages/ProfileInformationPage").then(module => ({ default: module.ProfileInformationPage })));
+export const PlanBillingPage = lazy(() => import("./pages/PlanBillingPage").then(module => ({ default: module.PlanBillingPage })));
+export const NotificationsPage = lazy(() => import("./pages/NotificationsPage").then(module => ({ default: module.NotificationsPage })));
+export const AccountActionsPage = lazy(() => import("./pages/AccountActionsPage").then(module => ({ default: module.AccountActionsPage })));
\ No newline at end of file
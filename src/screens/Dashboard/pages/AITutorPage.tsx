@@ -1,19 +1,156 @@
-import React, { useState } from "react";
-import { DashboardLayout } from "../components/DashboardLayout";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { ConversationSidebar } from "../components/ConversationSidebar";
+import { AttachmentThumbnail } from "../components/AttachmentThumbnail";
 import { Card, CardContent } from "../../../components/ui/card";
 import { Button } from "../../../components/ui/button";
-import { ProtectedRoute } from "../../../components/ProtectedRoute";
+import { MessageRenderer } from "../../../components/MessageRenderer";
+import { useAuth } from "../../../contexts/AuthContext";
+import { createTutorProvider } from "../../../services/tutorProvider";
+import { TutorConversationService } from "../../../services/tutorConversationService";
+import { TutorContextService } from "../../../services/tutorContextService";
+import { SubjectGroupService } from "../../../services/subjectGroupService";
+import { getActiveThread, getSiblings, selectBranch, ROOT_KEY } from "../../../lib/chatThread";
+import type { ChatMessage } from "../../../lib/chatThread";
+import type { TutorMessage } from "../../../services/tutorProvider";
+import type { TutorAttachment, TutorConversation, TutorMessageRecord } from "../../../lib/supabase";
+
+const MAX_ATTACHMENTS = 4;
+
+const greetingMessage: ChatMessage = {
+  id: 'greeting',
+  type: 'ai',
+  content: "Hello! I'm your AI tutor. How can I help you with your studies today?",
+  timestamp: new Date(),
+  status: 'complete',
+  parentId: null
+};
+
+const toChatMessage = (record: TutorMessageRecord): ChatMessage => ({
+  id: record.id,
+  type: record.role === 'user' ? 'user' : 'ai',
+  content: record.content,
+  timestamp: new Date(record.created_at),
+  status: record.status || 'complete',
+  parentId: record.parent_id ?? null,
+  attachments: record.attachments || []
+});
 
 export const AITutorPage = (): JSX.Element => {
-  const [messages, setMessages] = useState([
-    {
-      id: 1,
-      type: 'ai',
-      content: "Hello! I'm your AI tutor. How can I help you with your studies today?",
-      timestamp: new Date()
-    }
-  ]);
+  const { user, profile, recordStudySession, tutorQuota, startTutorSession } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputMessage, setInputMessage] = useState('');
+  const [isResponding, setIsResponding] = useState(false);
+  const [tutorError, setTutorError] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<TutorConversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [loadingConversations, setLoadingConversations] = useState(true);
+  const [subjectGroup, setSubjectGroup] = useState<{ groupId: string; subjects: string[] } | null>(null);
+  const [pinnedSubject, setPinnedSubject] = useState('');
+  const [pinnedTopic, setPinnedTopic] = useState('');
+  const [syllabusTopics, setSyllabusTopics] = useState<string[]>([]);
+  const [branchSelection, setBranchSelection] = useState<{ [parentKey: string]: string }>({});
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editingContent, setEditingContent] = useState('');
+  const [pendingAttachments, setPendingAttachments] = useState<TutorAttachment[]>([]);
+  const [uploadingAttachments, setUploadingAttachments] = useState(false);
+  const [quotaExceeded, setQuotaExceeded] = useState(false);
+  const providerRef = useRef(createTutorProvider());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // A conversation opened from search, picked up once the history has loaded
+  const requestedConversationId = new URLSearchParams(location.search).get('conversation');
+
+  // Stop any reply still streaming when leaving the page
+  useEffect(() => {
+    const provider = providerRef.current;
+    return () => provider.cancel();
+  }, []);
+
+  // Pick up a question handed over from another page, then drop it from the address bar
+  useEffect(() => {
+    const prefill = TutorContextService.readPrefill(location.search);
+    if (!prefill) return;
+
+    setInputMessage(prefill.question);
+    if (prefill.subject) {
+      setPinnedSubject(TutorContextService.normalizeSubject(prefill.subject));
+      setPinnedTopic(prefill.topic || '');
+    }
+    navigate(location.pathname, { replace: true });
+  }, [location.search]);
+
+  // Load the conversation history sidebar
+  useEffect(() => {
+    if (!user) return;
+
+    const loadConversations = async () => {
+      try {
+        const history = await TutorConversationService.listConversations(user.id);
+        setConversations(history);
+      } catch (error) {
+        console.error('Error loading tutor conversations:', error);
+        setTutorError(error instanceof Error ? error.message : 'Could not load past conversations.');
+      } finally {
+        setLoadingConversations(false);
+      }
+    };
+
+    loadConversations();
+    SubjectGroupService.getUserSubjectGroup(user.id).then(setSubjectGroup);
+  }, [user]);
+
+  // Open the conversation asked for in the address bar, then drop it so a refresh starts fresh
+  useEffect(() => {
+    if (loadingConversations || !requestedConversationId) return;
+
+    if (conversations.some(c => c.id === requestedConversationId)) {
+      handleSelectConversation(requestedConversationId);
+    }
+    navigate(location.pathname, { replace: true });
+  }, [loadingConversations, requestedConversationId]);
+
+  // Load the curriculum topics for the pinned subject
+  useEffect(() => {
+    if (!pinnedSubject) {
+      setSyllabusTopics([]);
+      return;
+    }
+
+    let cancelled = false;
+    TutorContextService.getTopics(pinnedSubject, profile, subjectGroup?.groupId).then(topics => {
+      if (!cancelled) setSyllabusTopics(topics);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [pinnedSubject, profile, subjectGroup]);
+
+  // Everything we know about the student's syllabus, scoped to the pinned subject/topic
+  const tutorContext = useMemo(
+    () => TutorContextService.buildContext(profile, subjectGroup, {
+      subject: pinnedSubject || undefined,
+      topic: pinnedTopic || undefined
+    }, syllabusTopics),
+    [profile, subjectGroup, pinnedSubject, pinnedTopic, syllabusTopics]
+  );
+
+  // A subject or topic handed over from a test may not be in the student's own lists
+  const pinnableSubjects = useMemo(
+    () => Array.from(new Set([...tutorContext.subjects, ...(pinnedSubject ? [pinnedSubject] : [])])),
+    [tutorContext.subjects, pinnedSubject]
+  );
+
+  const pinnableTopics = useMemo(
+    () => pinnedTopic && !syllabusTopics.includes(pinnedTopic) ? [...syllabusTopics, pinnedTopic] : syllabusTopics,
+    [syllabusTopics, pinnedTopic]
+  );
+
+  const handlePinSubject = (subject: string) => {
+    setPinnedSubject(subject);
+    setPinnedTopic('');
+  };
 
   const quickQuestions = [
     "Explain quadratic equations",
@@ -22,76 +159,548 @@ export const AITutorPage = (): JSX.Element => {
     "Biology cell structure"
   ];
 
-  const handleSendMessage = () => {
-    if (!inputMessage.trim()) return;
+  const handleSelectConversation = async (conversationId: string) => {
+    if (!user || isResponding || conversationId === activeConversationId) return;
+
+    try {
+      setTutorError(null);
+      setQuotaExceeded(false);
+      const records = await TutorConversationService.getMessages(user.id, conversationId);
+      const thread = conversations.find(c => c.id === conversationId);
+      setActiveConversationId(conversationId);
+      setMessages(records.map(toChatMessage));
+      setBranchSelection({});
+      setEditingMessageId(null);
+      if (thread?.subject && tutorContext.subjects.includes(thread.subject)) {
+        handlePinSubject(thread.subject);
+      }
+    } catch (error) {
+      console.error('Error opening conversation:', error);
+      setTutorError(error instanceof Error ? error.message : 'Could not open that conversation.');
+    }
+  };
+
+  const handleNewConversation = () => {
+    if (isResponding) return;
+    setQuotaExceeded(false);
+    setActiveConversationId(null);
+    setMessages([]);
+    setBranchSelection({});
+    setEditingMessageId(null);
+    setTutorError(null);
+  };
+
+  const handleRenameConversation = async (conversationId: string, title: string) => {
+    if (!user) return;
+    await TutorConversationService.renameConversation(user.id, conversationId, title);
+    setConversations(prev => prev.map(conversation =>
+      conversation.id === conversationId ? { ...conversation, title: title.trim() } : conversation
+    ));
+  };
+
+  const handleDeleteConversation = async (conversationId: string) => {
+    if (!user) return;
+    await TutorConversationService.deleteConversation(user.id, conversationId);
+    setConversations(prev => prev.filter(conversation => conversation.id !== conversationId));
+    if (conversationId === activeConversationId) {
+      handleNewConversation();
+    }
+  };
+
+  // Move a thread to the top of the sidebar after new activity
+  const bumpConversation = (conversation: TutorConversation) => {
+    setConversations(prev => [
+      { ...conversation, updated_at: new Date().toISOString() },
+      ...prev.filter(c => c.id !== conversation.id)
+    ]);
+  };
+
+  // The branch of the conversation currently on screen
+  const thread = useMemo(() => getActiveThread(messages, branchSelection), [messages, branchSelection]);
+
+  const updateMessage = (messageId: string, changes: Partial<ChatMessage>) => {
+    setMessages(prev => prev.map(message =>
+      message.id === messageId ? { ...message, ...changes } : message
+    ));
+  };
+
+  // Reuse the open thread, or start one titled after its first question
+  const ensureConversation = async (firstQuestion: string, conversationId: string): Promise<TutorConversation> => {
+    const existing = conversations.find(c => c.id === conversationId);
+    if (existing) return existing;
+
+    const created = await TutorConversationService.createConversation(
+      user!.id,
+      TutorConversationService.titleFromMessage(firstQuestion),
+      tutorContext.pinnedSubject,
+      conversationId
+    );
+    setActiveConversationId(created.id);
+    return created;
+  };
+
+  // Stream an answer to `question`; `history` is the thread up to and including it.
+  // Returns false if the question was not sent because the plan's tutor sessions are used up.
+  const startExchange = async (question: ChatMessage, history: ChatMessage[], isNewQuestion: boolean): Promise<boolean> => {
+    if (!user) return false;
+
+    // Each conversation counts as one tutor session per month
+    const conversationId = activeConversationId || crypto.randomUUID();
+    try {
+      const allowed = await startTutorSession(conversationId);
+      if (!allowed) {
+        setQuotaExceeded(true);
+        return false;
+      }
+    } catch (error) {
+      setTutorError(error instanceof Error ? error.message : 'Could not check your tutor usage.');
+      return false;
+    }
+    setQuotaExceeded(false);
+
+    const startedAt = Date.now();
+    const answer: ChatMessage = {
+      id: crypto.randomUUID(),
+      type: 'ai',
+      content: '',
+      timestamp: new Date(),
+      status: 'streaming',
+      parentId: question.id
+    };
+    const conversation: TutorMessage[] = [
+      { role: 'system', content: TutorContextService.toSystemPrompt(tutorContext) },
+      ...history.map((message): TutorMessage => ({
+        role: message.type === 'user' ? 'user' : 'assistant',
+        content: message.content,
+        ...(message.attachments?.length && { attachments: message.attachments })
+      }))
+    ];
+
+    setMessages(prev => isNewQuestion ? [...prev, question, answer] : [...prev, answer]);
+    setBranchSelection(prev => selectBranch([...messages, question, answer], prev, answer.id));
+    setEditingMessageId(null);
+    setTutorError(null);
+    setIsResponding(true);
+
+    try {
+      const conversationRecord = await ensureConversation(history[0].content, conversationId);
+      bumpConversation(conversationRecord);
+
+      if (isNewQuestion) {
+        await TutorConversationService.addMessage(user.id, conversationRecord.id, {
+          id: question.id,
+          role: 'user',
+          content: question.content,
+          parent_id: question.parentId,
+          status: 'complete',
+          attachments: question.attachments
+        });
+      }
+
+      const reply = await providerRef.current.streamReply(
+        {
+          messages: conversation,
+          subject: tutorContext.pinnedSubject,
+          context: tutorContext
+        },
+        {
+          onToken: (token) => {
+            setMessages(prev => prev.map(message =>
+              message.id === answer.id
+                ? { ...message, content: message.content + token }
+                : message
+            ));
+          }
+        }
+      );
+
+      const status = reply.finishReason === 'stop' ? 'complete' : 'cancelled';
+      updateMessage(answer.id, { status });
+
+      if (reply.content) {
+        await TutorConversationService.addMessage(user.id, conversationRecord.id, {
+          id: answer.id,
+          role: 'assistant',
+          content: reply.content,
+          parent_id: question.id,
+          status
+        });
+      } else {
+        setMessages(prev => prev.filter(message => message.id !== answer.id));
+      }
 
-    const newMessage = {
-      id: messages.length + 1,
+      if (status === 'complete') {
+        const durationMinutes = Math.max(1, Math.round((Date.now() - startedAt) / 60000));
+        recordStudySession('ai_tutor', reply.subject, durationMinutes).catch(error => {
+          console.error('Error recording AI tutor session:', error);
+        });
+      }
+    } catch (error) {
+      console.error('AI tutor error:', error);
+      setTutorError(error instanceof Error ? error.message : 'The AI tutor could not respond.');
+      updateMessage(answer.id, { status: 'error' });
+      setMessages(prev => prev.filter(message => message.id !== answer.id || message.content));
+    } finally {
+      setIsResponding(false);
+    }
+    return true;
+  };
+
+  // Upload photos or PDFs of a question as soon as they are picked so they can be previewed
+  const handleAttachFiles = async (files: FileList | null) => {
+    if (!files || !user) return;
+
+    const selected = Array.from(files).slice(0, MAX_ATTACHMENTS - pendingAttachments.length);
+    if (files.length > selected.length) {
+      setTutorError(`You can attach up to ${MAX_ATTACHMENTS} files to one question.`);
+    } else {
+      setTutorError(null);
+    }
+
+    setUploadingAttachments(true);
+    for (const file of selected) {
+      try {
+        const attachment = await TutorConversationService.uploadAttachment(user.id, file);
+        setPendingAttachments(prev => [...prev, attachment]);
+      } catch (error) {
+        setTutorError(error instanceof Error ? error.message : `Failed to upload ${file.name}`);
+      }
+    }
+    setUploadingAttachments(false);
+
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleRemoveAttachment = (attachment: TutorAttachment) => {
+    setPendingAttachments(prev => prev.filter(a => a.path !== attachment.path));
+    TutorConversationService.discardAttachments([attachment]);
+  };
+
+  const handleSendMessage = async () => {
+    const hasAttachments = pendingAttachments.length > 0;
+    if ((!inputMessage.trim() && !hasAttachments) || isResponding || uploadingAttachments || !user) return;
+
+    const question: ChatMessage = {
+      id: crypto.randomUUID(),
       type: 'user',
-      content: inputMessage,
-      timestamp: new Date()
+      content: inputMessage.trim() || 'Please help me solve the question in the attached file.',
+      timestamp: new Date(),
+      status: 'complete',
+      parentId: thread.length > 0 ? thread[thread.length - 1].id : null,
+      attachments: pendingAttachments
     };
 
-    setMessages([...messages, newMessage]);
     setInputMessage('');
+    setPendingAttachments([]);
+    const sent = await startExchange(question, [...thread, question], true);
+    if (!sent) {
+      setInputMessage(inputMessage);
+      setPendingAttachments(question.attachments || []);
+    }
+  };
+
+  const handleStop = () => {
+    providerRef.current.cancel();
+  };
+
+  // Ask for a fresh answer to the same question, kept as a sibling branch
+  const handleRegenerate = async (answer: ChatMessage) => {
+    if (isResponding) return;
+
+    const questionIndex = thread.findIndex(message => message.id === answer.parentId);
+    if (questionIndex === -1) return;
+
+    await startExchange(thread[questionIndex], thread.slice(0, questionIndex + 1), false);
+  };
+
+  const handleStartEdit = (message: ChatMessage) => {
+    setEditingMessageId(message.id);
+    setEditingContent(message.content);
+  };
+
+  // Resubmitting an edited question branches the thread from that point
+  const handleSubmitEdit = async (original: ChatMessage) => {
+    if (!editingContent.trim() || isResponding) return;
+
+    const originalIndex = thread.findIndex(message => message.id === original.id);
+    const question: ChatMessage = {
+      id: crypto.randomUUID(),
+      type: 'user',
+      content: editingContent.trim(),
+      timestamp: new Date(),
+      status: 'complete',
+      parentId: original.parentId,
+      attachments: original.attachments
+    };
+
+    await startExchange(question, [...thread.slice(0, originalIndex), question], true);
+  };
+
+  const handleSwitchBranch = (message: ChatMessage, direction: -1 | 1) => {
+    const siblings = getSiblings(messages, message.parentId);
+    const target = siblings[siblings.findIndex(sibling => sibling.id === message.id) + direction];
+    if (!target || isResponding) return;
 
-    // Simulate AI response
-    setTimeout(() => {
-      const aiResponse = {
-        id: messages.length + 2,
-        type: 'ai',
-        content: "I understand you're asking about that topic. Let me break it down for you step by step...",
-        timestamp: new Date()
-      };
-      setMessages(prev => [...prev, aiResponse]);
-    }, 1000);
+    setBranchSelection(prev => ({ ...prev, [message.parentId ?? ROOT_KEY]: target.id }));
   };
 
+  const visibleMessages = thread.length > 0 ? thread : [greetingMessage];
+  const quotaUsedUp = quotaExceeded || tutorQuota?.remaining === 0;
+  const quotaResetDate = tutorQuota
+    ? new Date(`${tutorQuota.resetsOn}T00:00:00Z`).toLocaleDateString(undefined, { month: 'long', day: 'numeric' })
+    : '';
+  const lastMessage = thread[thread.length - 1];
+
   return (
-    <ProtectedRoute>
-      <DashboardLayout>
-        <div className="max-w-4xl mx-auto space-y-6">
-          {/* Header */}
-          <div className="text-center">
-            <h1 className="[font-family:'Lexend',Helvetica] font-bold text-white text-2xl md:text-3xl mb-2">
-              AI Tutor 🤖
-            </h1>
-            <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-base">
-              Get instant help with your studies. Ask questions, solve problems, and learn concepts.
-            </p>
-          </div>
-
-          {/* Chat Interface */}
+    <div className="max-w-6xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="text-center">
+        <h1 className="[font-family:'Lexend',Helvetica] font-bold text-white text-2xl md:text-3xl mb-2">
+          AI Tutor 🤖
+        </h1>
+        <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-base">
+          Get instant help with your studies. Ask questions, solve problems, and learn concepts.
+        </p>
+        {tutorQuota && (
+          <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm mt-2">
+            {tutorQuota.remaining === null
+              ? '♾️ Unlimited tutor sessions on your plan'
+              : `🎟️ ${tutorQuota.remaining} of ${tutorQuota.limit} tutor sessions left this month · resets ${quotaResetDate}`}
+          </p>
+        )}
+      </div>
+
+      {/* Upgrade Prompt */}
+      {quotaUsedUp && (
+        <Card className="bg-yellow-500/10 border-yellow-500/30">
+          <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <h3 className="[font-family:'Lexend',Helvetica] font-bold text-yellow-400 text-base mb-1">
+                {quotaExceeded ? "You've reached this month's tutor limit" : "You've used all your tutor sessions this month"}
+              </h3>
+              <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
+                The Basic plan includes {tutorQuota?.limit ?? 5} AI tutoring sessions per month. You can keep going in
+                conversations you started this month, wait until {quotaResetDate || 'next month'}, or upgrade to Pro for
+                unlimited sessions.
+              </p>
+            </div>
+            <Button
+              onClick={() => navigate('/dashboard/settings/billing')}
+              className="bg-[#3f8cbf] hover:bg-[#2d6a94] text-white whitespace-nowrap [font-family:'Lexend',Helvetica] font-medium"
+            >
+              Upgrade to Pro
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Conversation History */}
+        <div className="lg:col-span-1">
+          <ConversationSidebar
+            conversations={conversations}
+            activeConversationId={activeConversationId}
+            loading={loadingConversations}
+            onSelect={handleSelectConversation}
+            onNewConversation={handleNewConversation}
+            onRename={handleRenameConversation}
+            onDelete={handleDeleteConversation}
+          />
+        </div>
+
+        {/* Chat Interface */}
+        <div className="lg:col-span-3 space-y-6">
+          {/* Syllabus Scope */}
+          <Card className="bg-[#1e282d] border-[#3d4f5b]">
+            <CardContent className="p-4">
+              <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                <span className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm whitespace-nowrap">
+                  📌 Focus on:
+                </span>
+                <select
+                  value={pinnedSubject}
+                  onChange={(e) => handlePinSubject(e.target.value)}
+                  className="px-3 py-2 bg-[#0f1419] border border-[#3d4f5b] rounded-lg text-white text-sm focus:border-[#3f8cbf] focus:outline-none [font-family:'Lexend',Helvetica]"
+                >
+                  <option value="">Any subject</option>
+                  {pinnableSubjects.map((subject) => (
+                    <option key={subject} value={subject}>{subject}</option>
+                  ))}
+                </select>
+                <select
+                  value={pinnedTopic}
+                  onChange={(e) => setPinnedTopic(e.target.value)}
+                  disabled={!pinnedSubject}
+                  className="px-3 py-2 bg-[#0f1419] border border-[#3d4f5b] rounded-lg text-white text-sm focus:border-[#3f8cbf] focus:outline-none disabled:opacity-50 [font-family:'Lexend',Helvetica]"
+                >
+                  <option value="">Any topic</option>
+                  {pinnableTopics.map((topic) => (
+                    <option key={topic} value={topic}>{topic}</option>
+                  ))}
+                </select>
+              </div>
+              {TutorContextService.describeScope(tutorContext) && (
+                <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs mt-2">
+                  Answers are scoped to: {TutorContextService.describeScope(tutorContext)}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
           <Card className="bg-[#1e282d] border-[#3d4f5b]">
             <CardContent className="p-0">
               {/* Messages */}
               <div className="h-96 overflow-y-auto p-4 space-y-4">
-                {messages.map((message) => (
-                  <div
-                    key={message.id}
-                    className={`flex ${message.type === 'user' ? 'justify-end' : 'justify-start'}`}
-                  >
+                {visibleMessages.map((message) => {
+                  const siblings = getSiblings(messages, message.parentId);
+                  const branchIndex = siblings.findIndex(sibling => sibling.id === message.id);
+                  const isEditing = editingMessageId === message.id;
+
+                  return (
                     <div
-                      className={`max-w-xs lg:max-w-md px-4 py-2 rounded-lg ${
-                        message.type === 'user'
-                          ? 'bg-[#3f8cbf] text-white'
-                          : 'bg-[#0f1419] text-white border border-[#3d4f5b]'
-                      }`}
+                      key={message.id}
+                      className={`flex flex-col ${message.type === 'user' ? 'items-end' : 'items-start'}`}
                     >
-                      <p className="[font-family:'Lexend',Helvetica] text-sm">
-                        {message.content}
-                      </p>
-                      <p className="[font-family:'Lexend',Helvetica] text-xs opacity-70 mt-1">
-                        {message.timestamp.toLocaleTimeString()}
-                      </p>
+                      {isEditing ? (
+                        <div className="w-full max-w-md space-y-2">
+                          <textarea
+                            value={editingContent}
+                            onChange={(e) => setEditingContent(e.target.value)}
+                            rows={3}
+                            className="w-full px-3 py-2 bg-[#0f1419] border border-[#3f8cbf] rounded-lg text-white text-sm focus:outline-none [font-family:'Lexend',Helvetica]"
+                          />
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              onClick={() => setEditingMessageId(null)}
+                              className="bg-[#0f1419] border border-[#3d4f5b] text-white hover:bg-[#2a3540] text-xs px-3 py-1 h-7 [font-family:'Lexend',Helvetica]"
+                            >
+                              Cancel
+                            </Button>
+                            <Button
+                              onClick={() => handleSubmitEdit(message)}
+                              disabled={isResponding}
+                              className="bg-[#3f8cbf] hover:bg-[#2d6a94] text-white text-xs px-3 py-1 h-7 [font-family:'Lexend',Helvetica]"
+                            >
+                              Save & Submit
+                            </Button>
+                          </div>
+                        </div>
+                      ) : (
+                        <div
+                          className={`px-4 py-2 rounded-lg ${
+                            message.type === 'user'
+                              ? 'max-w-xs lg:max-w-md bg-[#3f8cbf] text-white'
+                              : 'max-w-full lg:max-w-2xl bg-[#0f1419] text-white border border-[#3d4f5b]'
+                          }`}
+                        >
+                          {message.attachments && message.attachments.length > 0 && (
+                            <div className="flex flex-wrap gap-2 mb-2">
+                              {message.attachments.map((attachment) => (
+                                <AttachmentThumbnail key={attachment.path} attachment={attachment} />
+                              ))}
+                            </div>
+                          )}
+                          {message.type === 'ai' && message.content ? (
+                            <MessageRenderer content={message.content} />
+                          ) : (
+                            <p className="[font-family:'Lexend',Helvetica] text-sm whitespace-pre-wrap">
+                              {message.content || (message.status === 'streaming' ? 'Thinking...' : '')}
+                            </p>
+                          )}
+                          {message.status === 'streaming' && (
+                            <span className="inline-block w-2 h-4 mt-1 bg-white/70 animate-pulse" />
+                          )}
+                          <p className="[font-family:'Lexend',Helvetica] text-xs opacity-70 mt-1">
+                            {message.timestamp.toLocaleTimeString()}
+                            {message.status === 'cancelled' && ' • Stopped'}
+                            {message.status === 'error' && ' • Failed'}
+                          </p>
+                        </div>
+                      )}
+
+                      {/* Message Actions */}
+                      {!isEditing && message.id !== greetingMessage.id && (
+                        <div className="flex items-center gap-2 mt-1 [font-family:'Lexend',Helvetica] text-xs text-[#9eafbf]">
+                          {siblings.length > 1 && (
+                            <span className="flex items-center gap-1">
+                              <button
+                                onClick={() => handleSwitchBranch(message, -1)}
+                                disabled={branchIndex === 0 || isResponding}
+                                className="hover:text-white disabled:opacity-40"
+                                title="Previous version"
+                              >
+                                ‹
+                              </button>
+                              {branchIndex + 1}/{siblings.length}
+                              <button
+                                onClick={() => handleSwitchBranch(message, 1)}
+                                disabled={branchIndex === siblings.length - 1 || isResponding}
+                                className="hover:text-white disabled:opacity-40"
+                                title="Next version"
+                              >
+                                ›
+                              </button>
+                            </span>
+                          )}
+                          {message.type === 'user' && !isResponding && (
+                            <button onClick={() => handleStartEdit(message)} className="hover:text-white">
+                              ✏️ Edit
+                            </button>
+                          )}
+                          {message.type === 'ai' && message.id === lastMessage?.id && !isResponding && (
+                            <button onClick={() => handleRegenerate(message)} className="hover:text-white">
+                              🔄 Regenerate
+                            </button>
+                          )}
+                        </div>
+                      )}
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
 
               {/* Input */}
               <div className="border-t border-[#3d4f5b] p-4">
+                {tutorError && (
+                  <p className="[font-family:'Lexend',Helvetica] text-red-400 text-sm mb-2">
+                    {tutorError}
+                  </p>
+                )}
+                {(pendingAttachments.length > 0 || uploadingAttachments) && (
+                  <div className="flex flex-wrap items-center gap-3 mb-3">
+                    {pendingAttachments.map((attachment) => (
+                      <AttachmentThumbnail
+                        key={attachment.path}
+                        attachment={attachment}
+                        onRemove={() => handleRemoveAttachment(attachment)}
+                      />
+                    ))}
+                    {uploadingAttachments && (
+                      <span className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
+                        Uploading...
+                      </span>
+                    )}
+                  </div>
+                )}
                 <div className="flex gap-2">
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/jpeg,image/png,image/webp,image/gif,application/pdf"
+                    multiple
+                    onChange={(e) => handleAttachFiles(e.target.files)}
+                    className="hidden"
+                  />
+                  <Button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isResponding || uploadingAttachments || pendingAttachments.length >= MAX_ATTACHMENTS}
+                    className="bg-[#0f1419] border border-[#3d4f5b] text-white hover:bg-[#2a3540] px-3"
+                    title="Attach a photo or PDF of a question"
+                  >
+                    📎
+                  </Button>
                   <input
                     type="text"
                     value={inputMessage}
@@ -100,12 +709,22 @@ export const AITutorPage = (): JSX.Element => {
                     placeholder="Ask me anything about your studies..."
                     className="flex-1 px-4 py-2 bg-[#0f1419] border border-[#3d4f5b] rounded-lg text-white placeholder-[#9eafbf] focus:border-[#3f8cbf] focus:outline-none [font-family:'Lexend',Helvetica]"
                   />
-                  <Button
-                    onClick={handleSendMessage}
-                    className="bg-[#3f8cbf] hover:bg-[#2d6a94] text-white px-6 [font-family:'Lexend',Helvetica]"
-                  >
-                    Send
-                  </Button>
+                  {isResponding ? (
+                    <Button
+                      onClick={handleStop}
+                      className="bg-red-500 hover:bg-red-600 text-white px-6 [font-family:'Lexend',Helvetica]"
+                    >
+                      ■ Stop
+                    </Button>
+                  ) : (
+                    <Button
+                      onClick={handleSendMessage}
+                      disabled={uploadingAttachments}
+                      className="bg-[#3f8cbf] hover:bg-[#2d6a94] text-white px-6 [font-family:'Lexend',Helvetica]"
+                    >
+                      Send
+                    </Button>
+                  )}
                 </div>
               </div>
             </CardContent>
@@ -131,7 +750,7 @@ export const AITutorPage = (): JSX.Element => {
             </CardContent>
           </Card>
         </div>
-      </DashboardLayout>
-    </ProtectedRoute>
+      </div>
+    </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,37 @@
+import React from "react";
+import { Link, useLocation } from "react-router-dom";
+import { Card, CardContent } from "../../../components/ui/card";
+
+export const DashboardNotFoundPage = (): JSX.Element => {
+  const location = useLocation();
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <Card className="bg-[#1e282d] border-[#3d4f5b]">
+        <CardContent className="p-8 text-center">
+          <div className="text-5xl mb-4">🧭</div>
+          <h1 className="[font-family:'Lexend',Helvetica] font-bold text-white text-2xl mb-2">
+            Page not found
+          </h1>
+          <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-base mb-6 break-words">
+            There's nothing at <span className="text-white">{location.pathname}</span>. It may have moved, or the link may be mistyped.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-3 justify-center">
+            <Link
+              to="/dashboard"
+              className="bg-[#3f8cbf] hover:bg-[#2d6a94] text-white px-6 py-2 rounded-lg [font-family:'Lexend',Helvetica] font-medium"
+            >
+              Back to Dashboard
+            </Link>
+            <Link
+              to="/help"
+              className="border border-[#3d4f5b] text-white hover:bg-[#2a3540] px-6 py-2 rounded-lg [font-family:'Lexend',Helvetica] font-medium"
+            >
+              Visit Help Center
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,231 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { LessonCheckCard, LessonVideo } from "../components/LessonBlocks";
+import { Card, CardContent } from "../../../components/ui/card";
+import { Button } from "../../../components/ui/button";
+import { MessageRenderer } from "../../../components/MessageRenderer";
+import type { FencedBlockRenderers } from "../../../components/MessageRenderer";
+import { useAuth } from "../../../contexts/AuthContext";
+import { LessonService } from "../../../services/lessonService";
+import type { LessonDetails } from "../../../services/lessonService";
+import { TopicProgressService } from "../../../services/topicProgressService";
+import { TutorContextService } from "../../../services/tutorContextService";
+import { formatDuration, getLessonChecks, lessonPath, parseCheck } from "../../../lib/lessons";
+
+export const LessonPage = (): JSX.Element => {
+  const { subject = '', topic = '' } = useParams();
+  const { user, profile, recordStudySession } = useAuth();
+  const navigate = useNavigate();
+  const [details, setDetails] = useState<LessonDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Option picked for each check question, keyed by the question's source
+  const [answers, setAnswers] = useState<{ [checkSource: string]: number }>({});
+  const [activeSeconds, setActiveSeconds] = useState(0);
+  const [finishing, setFinishing] = useState(false);
+  const [finished, setFinished] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadLesson = async () => {
+      setLoading(true);
+      try {
+        setDetails(await LessonService.getLesson(user.id, subject, topic, profile));
+        setError(null);
+      } catch (error) {
+        setError(error instanceof Error ? error.message : 'Failed to load the lesson');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadLesson();
+  }, [user, profile, subject, topic]);
+
+  // Count time only while the lesson is on screen, so a tab left open doesn't inflate it
+  useEffect(() => {
+    if (!details?.lesson || finished) return;
+
+    const timer = setInterval(() => {
+      if (document.visibilityState === 'visible') {
+        setActiveSeconds(seconds => seconds + 1);
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [details?.lesson, finished]);
+
+  const checks = useMemo(() => getLessonChecks(details?.lesson?.content || ''), [details?.lesson?.content]);
+  const answeredCount = checks.filter(source => answers[source] !== undefined).length;
+  const correctCount = checks.filter(source => answers[source] === parseCheck(source)?.answer).length;
+  const alreadyDone = details?.topic.status === 'completed' || details?.topic.status === 'mastered';
+
+  const handleAnswer = useCallback((source: string, index: number) => {
+    setAnswers(prev => prev[source] !== undefined ? prev : { ...prev, [source]: index });
+  }, []);
+
+  // Kept stable between timer ticks so the check questions aren't re-rendered from scratch
+  const blocks = useMemo<FencedBlockRenderers>(() => ({
+    check: (source) => {
+      const check = parseCheck(source);
+      if (!check) return <pre className="p-3 text-xs bg-[#0b1014] rounded-lg overflow-x-auto">{source}</pre>;
+      return <LessonCheckCard check={check} selected={answers[source]} onSelect={(index) => handleAnswer(source, index)} />;
+    },
+    video: (source) => <LessonVideo url={source} />
+  }), [answers, handleAnswer]);
+
+  const handleFinish = async () => {
+    if (!user || !details) return;
+
+    setFinishing(true);
+    try {
+      const durationMinutes = Math.max(1, Math.round(activeSeconds / 60));
+      await TopicProgressService.markLessonTopic(user.id, profile, details.subject, details.topic.title);
+      await recordStudySession('lesson', details.subject, durationMinutes);
+      setFinished(true);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save your progress');
+    } finally {
+      setFinishing(false);
+    }
+  };
+
+  const renderBody = () => {
+    if (loading) {
+      return (
+        <div className="flex items-center justify-center py-24">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#3f8cbf]"></div>
+        </div>
+      );
+    }
+
+    if (!details || !details.lesson) {
+      return (
+        <Card className="bg-[#1e282d] border-[#3d4f5b] max-w-2xl mx-auto">
+          <CardContent className="p-8 text-center">
+            <div className="text-5xl mb-4">📖</div>
+            <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] mb-6">
+              {error || (details
+                ? `There's no lesson for ${details.topic.title} yet. The AI tutor can walk you through it instead.`
+                : `We couldn't find ${topic} in your ${subject} syllabus.`)}
+            </p>
+            <div className="flex flex-wrap justify-center gap-3">
+              {details && (
+                <Button
+                  onClick={() => navigate(TutorContextService.buildPrefillUrl({
+                    question: `Teach me ${details.topic.title} step by step.`,
+                    subject: details.subject,
+                    topic: details.topic.title
+                  }))}
+                  className="bg-[#3f8cbf] hover:bg-[#2d6a94] text-white [font-family:'Lexend',Helvetica] font-medium"
+                >
+                  🤖 Ask the AI Tutor
+                </Button>
+              )}
+              <Button
+                onClick={() => navigate('/dashboard/progress')}
+                className="bg-transparent border border-[#3d4f5b] text-white hover:bg-[#2a3540] [font-family:'Lexend',Helvetica]"
+              >
+                Back to Progress
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    return (
+      <div className="max-w-3xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-3">
+          <div>
+            <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm mb-1">
+              {details.subject} • {details.chapterTitle}
+            </p>
+            <h1 className="[font-family:'Lexend',Helvetica] font-bold text-white text-2xl md:text-3xl">
+              {details.topic.title}
+            </h1>
+          </div>
+          <div className="flex items-center gap-3 text-sm [font-family:'Lexend',Helvetica]">
+            <span className="text-[#9eafbf]">~{details.lesson.estimated_minutes} min</span>
+            <span className="px-3 py-1 rounded-full bg-[#0f1419] border border-[#3d4f5b] text-white font-mono">
+              ⏱ {formatDuration(activeSeconds)}
+            </span>
+            {alreadyDone && (
+              <span className="px-2 py-1 rounded-full bg-green-500/20 text-green-400 text-xs">
+                Completed before
+              </span>
+            )}
+          </div>
+        </div>
+
+        {/* Lesson */}
+        <Card className="bg-[#1e282d] border-[#3d4f5b]">
+          <CardContent className="p-6 text-white">
+            <MessageRenderer content={details.lesson.content} blocks={blocks} className="text-base" />
+          </CardContent>
+        </Card>
+
+        {error && (
+          <p className="[font-family:'Lexend',Helvetica] text-red-400 text-sm text-center">{error}</p>
+        )}
+
+        {/* Completion */}
+        <Card className="bg-[#1e282d] border-[#3d4f5b]">
+          <CardContent className="p-6">
+            {finished ? (
+              <div className="text-center">
+                <div className="text-5xl mb-3">🎉</div>
+                <h3 className="[font-family:'Lexend',Helvetica] font-bold text-white text-lg mb-1">
+                  Lesson complete!
+                </h3>
+                <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm mb-6">
+                  You studied for {formatDuration(activeSeconds)}
+                  {checks.length > 0 && ` and got ${correctCount}/${checks.length} checks right`}.
+                  {' '}{details.topic.title} is ticked off in your progress.
+                </p>
+                <div className="flex flex-wrap justify-center gap-3">
+                  {details.nextTopic && (
+                    <Button
+                      onClick={() => navigate(lessonPath(details.subject, details.nextTopic!.title))}
+                      className="bg-[#3f8cbf] hover:bg-[#2d6a94] text-white [font-family:'Lexend',Helvetica] font-medium"
+                    >
+                      Next: {details.nextTopic.title} →
+                    </Button>
+                  )}
+                  <Button
+                    onClick={() => navigate('/dashboard/progress')}
+                    className="bg-transparent border border-[#3d4f5b] text-white hover:bg-[#2a3540] [font-family:'Lexend',Helvetica]"
+                  >
+                    Back to Progress
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
+                  {checks.length === 0
+                    ? 'Finished reading? Mark the lesson complete to update your progress.'
+                    : answeredCount < checks.length
+                      ? `Answer all the quick checks to finish (${answeredCount}/${checks.length} done).`
+                      : `All checks answered — ${correctCount}/${checks.length} right.`}
+                </p>
+                <Button
+                  onClick={handleFinish}
+                  disabled={finishing || answeredCount < checks.length}
+                  className="bg-[#10b981] hover:bg-[#059669] text-white [font-family:'Lexend',Helvetica] font-medium"
+                >
+                  {finishing ? 'Saving...' : '✓ Finish Lesson'}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  };
+
+  return renderBody();
+};
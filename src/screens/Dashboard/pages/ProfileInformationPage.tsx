@@ -1,8 +1,6 @@
 import React, { useState, useRef, useEffect } from "react";
-import { DashboardLayout } from "../components/DashboardLayout";
 import { Card, CardContent } from "../../../components/ui/card";
 import { Button } from "../../../components/ui/button";
-import { ProtectedRoute } from "../../../components/ProtectedRoute";
 import { useAuth } from "../../../contexts/AuthContext";
 
 export const ProfileInformationPage = (): JSX.Element => {
@@ -196,252 +194,248 @@ export const ProfileInformationPage = (): JSX.Element => {
   };
 
   return (
-    <ProtectedRoute>
-      <DashboardLayout>
-        <div className="max-w-4xl mx-auto space-y-6">
-          {/* Header */}
-          <div className="mb-6">
-            <h1 className="[font-family:'Lexend',Helvetica] font-bold text-white text-2xl md:text-3xl">
-              Profile Information 👤
-            </h1>
-            <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-base">
-              Manage your personal details and profile picture.
-            </p>
+    <div className="max-w-4xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="[font-family:'Lexend',Helvetica] font-bold text-white text-2xl md:text-3xl">
+          Profile Information 👤
+        </h1>
+        <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-base">
+          Manage your personal details and profile picture.
+        </p>
+      </div>
+
+      {/* Profile Information Form */}
+      <Card className="bg-[#1e282d] border-[#3d4f5b]">
+        <CardContent className="p-6 relative">
+          {/* Edit Button - Top Right Corner */}
+          <div className="absolute top-4 right-4">
+            <Button
+              type="button"
+              onClick={handleEditToggle}
+              className={`px-4 py-2 rounded-lg [font-family:'Lexend',Helvetica] font-medium text-sm transition-colors ${
+                isEditing
+                  ? 'bg-red-500 hover:bg-red-600 text-white'
+                  : 'bg-[#3f8cbf] hover:bg-[#2d6a94] text-white'
+              }`}
+            >
+              {isEditing ? '✕ Cancel' : '✏️ Edit'}
+            </Button>
           </div>
 
-          {/* Profile Information Form */}
-          <Card className="bg-[#1e282d] border-[#3d4f5b]">
-            <CardContent className="p-6 relative">
-              {/* Edit Button - Top Right Corner */}
-              <div className="absolute top-4 right-4">
-                <Button
-                  type="button"
-                  onClick={handleEditToggle}
-                  className={`px-4 py-2 rounded-lg [font-family:'Lexend',Helvetica] font-medium text-sm transition-colors ${
-                    isEditing
-                      ? 'bg-red-500 hover:bg-red-600 text-white'
-                      : 'bg-[#3f8cbf] hover:bg-[#2d6a94] text-white'
-                  }`}
-                >
-                  {isEditing ? '✕ Cancel' : '✏️ Edit'}
-                </Button>
+          {/* Content with top margin to account for edit button */}
+          <div className="mt-12">
+            {message && (
+              <div className={`p-4 rounded-lg mb-6 ${
+                message.type === 'success' 
+                  ? 'bg-green-500/10 border border-green-500/20 text-green-400' 
+                  : 'bg-red-500/10 border border-red-500/20 text-red-400'
+              }`}>
+                <p className="[font-family:'Lexend',Helvetica] text-sm">
+                  {message.text}
+                </p>
               </div>
+            )}
 
-              {/* Content with top margin to account for edit button */}
-              <div className="mt-12">
-                {message && (
-                  <div className={`p-4 rounded-lg mb-6 ${
-                    message.type === 'success' 
-                      ? 'bg-green-500/10 border border-green-500/20 text-green-400' 
-                      : 'bg-red-500/10 border border-red-500/20 text-red-400'
-                  }`}>
-                    <p className="[font-family:'Lexend',Helvetica] text-sm">
-                      {message.text}
-                    </p>
-                  </div>
-                )}
-
-                <form onSubmit={handleSubmit} className="space-y-6">
-                  {/* Profile Picture Section */}
-                  <div className="flex flex-col items-center gap-4">
-                    <div className="relative">
-                      <div className="w-24 h-24 md:w-32 md:h-32 rounded-full overflow-hidden bg-[#0f1419] border-2 border-[#3d4f5b] flex items-center justify-center">
-                        {profilePicturePreview ? (
-                          <img 
-                            src={profilePicturePreview} 
-                            alt="Profile preview"
-                            className="w-full h-full object-cover"
-                          />
-                        ) : profile?.profile_picture_url ? (
-                          <img 
-                            src={profile.profile_picture_url} 
-                            alt="Current profile"
-                            className="w-full h-full object-cover"
-                          />
-                        ) : (
-                          <div className="text-[#9eafbf] text-2xl md:text-3xl">
-                            👤
-                          </div>
-                        )}
-                      </div>
-                      {isEditing && (
-                        <button
-                          type="button"
-                          onClick={() => fileInputRef.current?.click()}
-                          className="absolute bottom-0 right-0 w-8 h-8 bg-[#3f8cbf] rounded-full flex items-center justify-center text-white hover:bg-[#2d6a94] transition-colors"
-                        >
-                          📷
-                        </button>
-                      )}
-                    </div>
-                    <div className="text-center">
-                      <p className="[font-family:'Lexend',Helvetica] font-medium text-white text-sm mb-1">
-                        Profile Picture
-                      </p>
-                      <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs">
-                        {isEditing ? 'Click the camera icon to change your photo' : 'Click Edit to change your photo'}
-                      </p>
-                    </div>
-                    <input
-                      ref={fileInputRef}
-                      type="file"
-                      accept="image/*"
-                      onChange={handleProfilePictureChange}
-                      className="hidden"
-                      disabled={!isEditing}
-                    />
-                  </div>
-
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                    <div className="space-y-2">
-                      <label className="[font-family:'Lexend',Helvetica] font-medium text-white text-sm">
-                        First Name
-                      </label>
-                      <input
-                        type="text"
-                        name="firstName"
-                        value={formData.firstName}
-                        onChange={handleInputChange}
-                        readOnly={!isEditing}
-                        className={`w-full px-4 py-3 border rounded-lg text-white placeholder-[#9eafbf] focus:border-[#3f8cbf] focus:outline-none [font-family:'Lexend',Helvetica] transition-colors ${
-                          isEditing 
-                            ? 'bg-[#0f1419] border-[#3d4f5b] hover:border-[#3f8cbf]' 
-                            : 'bg-[#2a3540] border-[#3d4f5b] cursor-not-allowed'
-                        }`}
-                        placeholder="Enter your first name"
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {/* Profile Picture Section */}
+              <div className="flex flex-col items-center gap-4">
+                <div className="relative">
+                  <div className="w-24 h-24 md:w-32 md:h-32 rounded-full overflow-hidden bg-[#0f1419] border-2 border-[#3d4f5b] flex items-center justify-center">
+                    {profilePicturePreview ? (
+                      <img 
+                        src={profilePicturePreview} 
+                        alt="Profile preview"
+                        className="w-full h-full object-cover"
                       />
-                    </div>
-
-                    <div className="space-y-2">
-                      <label className="[font-family:'Lexend',Helvetica] font-medium text-white text-sm">
-                        Last Name
-                      </label>
-                      <input
-                        type="text"
-                        name="lastName"
-                        value={formData.lastName}
-                        onChange={handleInputChange}
-                        readOnly={!isEditing}
-                        className={`w-full px-4 py-3 border rounded-lg text-white placeholder-[#9eafbf] focus:border-[#3f8cbf] focus:outline-none [font-family:'Lexend',Helvetica] transition-colors ${
-                          isEditing 
-                            ? 'bg-[#0f1419] border-[#3d4f5b] hover:border-[#3f8cbf]' 
-                            : 'bg-[#2a3540] border-[#3d4f5b] cursor-not-allowed'
-                        }`}
-                        placeholder="Enter your last name"
+                    ) : profile?.profile_picture_url ? (
+                      <img 
+                        src={profile.profile_picture_url} 
+                        alt="Current profile"
+                        className="w-full h-full object-cover"
                       />
-                    </div>
+                    ) : (
+                      <div className="text-[#9eafbf] text-2xl md:text-3xl">
+                        👤
+                      </div>
+                    )}
                   </div>
-
-                  <div className="space-y-2">
-                    <label className="[font-family:'Lexend',Helvetica] font-medium text-white text-sm">
-                      Current Grade/Level
-                    </label>
-                    <select
-                      name="grade"
-                      value={formData.grade}
-                      onChange={handleInputChange}
-                      disabled={!isEditing}
-                      className={`w-full px-4 py-3 border rounded-lg text-white focus:border-[#3f8cbf] focus:outline-none [font-family:'Lexend',Helvetica] transition-colors ${
-                        isEditing 
-                          ? 'bg-[#0f1419] border-[#3d4f5b] hover:border-[#3f8cbf]' 
-                          : 'bg-[#2a3540] border-[#3d4f5b] cursor-not-allowed'
-                      }`}
+                  {isEditing && (
+                    <button
+                      type="button"
+                      onClick={() => fileInputRef.current?.click()}
+                      className="absolute bottom-0 right-0 w-8 h-8 bg-[#3f8cbf] rounded-full flex items-center justify-center text-white hover:bg-[#2d6a94] transition-colors"
                     >
-                      <option value="">Select your grade/level</option>
-                      {grades.map((grade) => (
-                        <option key={grade} value={grade} className="text-white bg-[#0f1419]">
-                          {grade}
-                        </option>
-                      ))}
-                    </select>
-                  </div>
-
-                  {requiresBoardSelection(formData.grade) && (
-                    <div className="space-y-2">
-                      <label className="[font-family:'Lexend',Helvetica] font-medium text-white text-sm">
-                        Education Board <span className="text-red-400">*</span>
-                      </label>
-                      <select
-                        name="board"
-                        value={formData.board}
-                        onChange={handleInputChange}
-                        disabled={!isEditing}
-                        required={requiresBoardSelection(formData.grade)}
-                        className={`w-full px-4 py-3 border rounded-lg text-white focus:border-[#3f8cbf] focus:outline-none [font-family:'Lexend',Helvetica] transition-colors ${
-                          isEditing 
-                            ? 'bg-[#0f1419] border-[#3d4f5b] hover:border-[#3f8cbf]' 
-                            : 'bg-[#2a3540] border-[#3d4f5b] cursor-not-allowed'
-                        }`}
-                      >
-                        <option value="">Select your board</option>
-                        {boards.map((board) => (
-                          <option key={board} value={board} className="text-white bg-[#0f1419]">
-                            {board}
-                          </option>
-                        ))}
-                      </select>
-                    </div>
+                      📷
+                    </button>
                   )}
+                </div>
+                <div className="text-center">
+                  <p className="[font-family:'Lexend',Helvetica] font-medium text-white text-sm mb-1">
+                    Profile Picture
+                  </p>
+                  <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs">
+                    {isEditing ? 'Click the camera icon to change your photo' : 'Click Edit to change your photo'}
+                  </p>
+                </div>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/*"
+                  onChange={handleProfilePictureChange}
+                  className="hidden"
+                  disabled={!isEditing}
+                />
+              </div>
 
-                  {requiresAreaSelection(formData.board) && (
-                    <div className="space-y-2">
-                      <label className="[font-family:'Lexend',Helvetica] font-medium text-white text-sm">
-                        Area/Region <span className="text-red-400">*</span>
-                      </label>
-                      <select
-                        name="area"
-                        value={formData.area}
-                        onChange={handleInputChange}
-                        disabled={!isEditing}
-                        required={requiresAreaSelection(formData.board)}
-                        className={`w-full px-4 py-3 border rounded-lg text-white focus:border-[#3f8cbf] focus:outline-none [font-family:'Lexend',Helvetica] transition-colors ${
-                          isEditing 
-                            ? 'bg-[#0f1419] border-[#3d4f5b] hover:border-[#3f8cbf]' 
-                            : 'bg-[#2a3540] border-[#3d4f5b] cursor-not-allowed'
-                        }`}
-                      >
-                        <option value="">Select your area</option>
-                        {boardAreas[formData.board as keyof typeof boardAreas]?.map((area) => (
-                          <option key={area} value={area} className="text-white bg-[#0f1419]">
-                            {area}
-                          </option>
-                        ))}
-                      </select>
-                    </div>
-                  )}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-2">
+                  <label className="[font-family:'Lexend',Helvetica] font-medium text-white text-sm">
+                    First Name
+                  </label>
+                  <input
+                    type="text"
+                    name="firstName"
+                    value={formData.firstName}
+                    onChange={handleInputChange}
+                    readOnly={!isEditing}
+                    className={`w-full px-4 py-3 border rounded-lg text-white placeholder-[#9eafbf] focus:border-[#3f8cbf] focus:outline-none [font-family:'Lexend',Helvetica] transition-colors ${
+                      isEditing 
+                        ? 'bg-[#0f1419] border-[#3d4f5b] hover:border-[#3f8cbf]' 
+                        : 'bg-[#2a3540] border-[#3d4f5b] cursor-not-allowed'
+                    }`}
+                    placeholder="Enter your first name"
+                  />
+                </div>
 
-                  {isEditing && (
-                    <div className="flex gap-3">
-                      <Button
-                        type="submit"
-                        disabled={loading}
-                        className="bg-[#3f8cbf] hover:bg-[#2d6a94] text-white px-6 py-3 [font-family:'Lexend',Helvetica] font-medium disabled:opacity-50"
-                      >
-                        {loading ? (
-                          <div className="flex items-center gap-2">
-                            <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                            {formData.profilePicture ? 'Uploading...' : 'Updating...'}
-                          </div>
-                        ) : (
-                          'Save Changes'
-                        )}
-                      </Button>
-                      
-                      <Button
-                        type="button"
-                        onClick={handleEditToggle}
-                        className="bg-transparent border border-[#3d4f5b] text-[#9eafbf] hover:bg-[#2a3540] hover:text-white px-6 py-3 [font-family:'Lexend',Helvetica] font-medium"
-                      >
-                        Cancel
-                      </Button>
-                    </div>
-                  )}
-                </form>
+                <div className="space-y-2">
+                  <label className="[font-family:'Lexend',Helvetica] font-medium text-white text-sm">
+                    Last Name
+                  </label>
+                  <input
+                    type="text"
+                    name="lastName"
+                    value={formData.lastName}
+                    onChange={handleInputChange}
+                    readOnly={!isEditing}
+                    className={`w-full px-4 py-3 border rounded-lg text-white placeholder-[#9eafbf] focus:border-[#3f8cbf] focus:outline-none [font-family:'Lexend',Helvetica] transition-colors ${
+                      isEditing 
+                        ? 'bg-[#0f1419] border-[#3d4f5b] hover:border-[#3f8cbf]' 
+                        : 'bg-[#2a3540] border-[#3d4f5b] cursor-not-allowed'
+                    }`}
+                    placeholder="Enter your last name"
+                  />
+                </div>
               </div>
-            </CardContent>
-          </Card>
-        </div>
-      </DashboardLayout>
-    </ProtectedRoute>
+
+              <div className="space-y-2">
+                <label className="[font-family:'Lexend',Helvetica] font-medium text-white text-sm">
+                  Current Grade/Level
+                </label>
+                <select
+                  name="grade"
+                  value={formData.grade}
+                  onChange={handleInputChange}
+                  disabled={!isEditing}
+                  className={`w-full px-4 py-3 border rounded-lg text-white focus:border-[#3f8cbf] focus:outline-none [font-family:'Lexend',Helvetica] transition-colors ${
+                    isEditing 
+                      ? 'bg-[#0f1419] border-[#3d4f5b] hover:border-[#3f8cbf]' 
+                      : 'bg-[#2a3540] border-[#3d4f5b] cursor-not-allowed'
+                  }`}
+                >
+                  <option value="">Select your grade/level</option>
+                  {grades.map((grade) => (
+                    <option key={grade} value={grade} className="text-white bg-[#0f1419]">
+                      {grade}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {requiresBoardSelection(formData.grade) && (
+                <div className="space-y-2">
+                  <label className="[font-family:'Lexend',Helvetica] font-medium text-white text-sm">
+                    Education Board <span className="text-red-400">*</span>
+                  </label>
+                  <select
+                    name="board"
+                    value={formData.board}
+                    onChange={handleInputChange}
+                    disabled={!isEditing}
+                    required={requiresBoardSelection(formData.grade)}
+                    className={`w-full px-4 py-3 border rounded-lg text-white focus:border-[#3f8cbf] focus:outline-none [font-family:'Lexend',Helvetica] transition-colors ${
+                      isEditing 
+                        ? 'bg-[#0f1419] border-[#3d4f5b] hover:border-[#3f8cbf]' 
+                        : 'bg-[#2a3540] border-[#3d4f5b] cursor-not-allowed'
+                    }`}
+                  >
+                    <option value="">Select your board</option>
+                    {boards.map((board) => (
+                      <option key={board} value={board} className="text-white bg-[#0f1419]">
+                        {board}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {requiresAreaSelection(formData.board) && (
+                <div className="space-y-2">
+                  <label className="[font-family:'Lexend',Helvetica] font-medium text-white text-sm">
+                    Area/Region <span className="text-red-400">*</span>
+                  </label>
+                  <select
+                    name="area"
+                    value={formData.area}
+                    onChange={handleInputChange}
+                    disabled={!isEditing}
+                    required={requiresAreaSelection(formData.board)}
+                    className={`w-full px-4 py-3 border rounded-lg text-white focus:border-[#3f8cbf] focus:outline-none [font-family:'Lexend',Helvetica] transition-colors ${
+                      isEditing 
+                        ? 'bg-[#0f1419] border-[#3d4f5b] hover:border-[#3f8cbf]' 
+                        : 'bg-[#2a3540] border-[#3d4f5b] cursor-not-allowed'
+                    }`}
+                  >
+                    <option value="">Select your area</option>
+                    {boardAreas[formData.board as keyof typeof boardAreas]?.map((area) => (
+                      <option key={area} value={area} className="text-white bg-[#0f1419]">
+                        {area}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {isEditing && (
+                <div className="flex gap-3">
+                  <Button
+                    type="submit"
+                    disabled={loading}
+                    className="bg-[#3f8cbf] hover:bg-[#2d6a94] text-white px-6 py-3 [font-family:'Lexend',Helvetica] font-medium disabled:opacity-50"
+                  >
+                    {loading ? (
+                      <div className="flex items-center gap-2">
+                        <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                        {formData.profilePicture ? 'Uploading...' : 'Updating...'}
+                      </div>
+                    ) : (
+                      'Save Changes'
+                    )}
+                  </Button>
+                  
+                  <Button
+                    type="button"
+                    onClick={handleEditToggle}
+                    className="bg-transparent border border-[#3d4f5b] text-[#9eafbf] hover:bg-[#2a3540] hover:text-white px-6 py-3 [font-family:'Lexend',Helvetica] font-medium"
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              )}
+            </form>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
   );
 };
\ No newline at end of file
@@ -1,154 +1,295 @@
-import React, { useState } from "react";
-import { DashboardLayout } from "../components/DashboardLayout";
+import React, { useEffect, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { MaterialViewer } from "../components/MaterialViewer";
+import { MaterialUploadForm } from "../components/MaterialUploadForm";
+import { MaterialReviews, StarRating } from "../components/MaterialReviews";
 import { Card, CardContent } from "../../../components/ui/card";
 import { Button } from "../../../components/ui/button";
-import { ProtectedRoute } from "../../../components/ProtectedRoute";
+import { useAuth } from "../../../contexts/AuthContext";
+import { CurriculumService } from "../../../services/curriculumService";
+import { MIN_MATERIAL_STUDY_SECONDS, StudyMaterialService, formatFileSize } from "../../../services/studyMaterialService";
+import { TutorContextService } from "../../../services/tutorContextService";
+import type { RatingSummary } from "../../../services/materialReviewService";
+import type { MaterialType, StudyMaterial } from "../../../lib/supabase";
 
 export const StudyMaterialsPage = (): JSX.Element => {
+  const { user, profile, subjectProgress, recordStudySession } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
   const [selectedSubject, setSelectedSubject] = useState('all');
+  const [materials, setMaterials] = useState<StudyMaterial[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [viewing, setViewing] = useState<StudyMaterial | null>(null);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [showUpload, setShowUpload] = useState(false);
+  const [bookmarkedIds, setBookmarkedIds] = useState<Set<string>>(new Set());
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  // A material opened from search, pointed out once the list has loaded
+  const highlightedId = new URLSearchParams(location.search).get('material');
+  const studentSubjects = subjectProgress.map(progress => progress.subject_name);
+  const subjectKey = studentSubjects.join('|');
+  const subjects = ['all', 'library', ...studentSubjects];
+  const reviewing = materials.find(material => material.id === reviewingId) || null;
 
-  const subjects = ['all', 'Mathematics', 'Physics', 'Chemistry', 'Biology'];
-
-  const materials = [
-    {
-      id: 1,
-      title: "Quadratic Equations - Complete Guide",
-      subject: "Mathematics",
-      type: "PDF",
-      size: "2.5 MB",
-      downloadCount: 1250,
-      rating: 4.8,
-      description: "Comprehensive guide covering all aspects of quadratic equations with examples and practice problems."
-    },
-    {
-      id: 2,
-      title: "Newton's Laws of Motion",
-      subject: "Physics",
-      type: "Video",
-      size: "45 min",
-      downloadCount: 890,
-      rating: 4.9,
-      description: "Interactive video explaining Newton's three laws with real-world applications and demonstrations."
-    },
-    {
-      id: 3,
-      title: "Organic Chemistry Reactions",
-      subject: "Chemistry",
-      type: "PDF",
-      size: "3.2 MB",
-      downloadCount: 675,
-      rating: 4.7,
-      description: "Detailed notes on organic chemistry reactions with mechanisms and practice questions."
-    },
-    {
-      id: 4,
-      title: "Cell Structure and Function",
-      subject: "Biology",
-      type: "Interactive",
-      size: "Web App",
-      downloadCount: 1100,
-      rating: 4.6,
-      description: "Interactive 3D models of cell structures with detailed explanations and quizzes."
-    },
-    {
-      id: 5,
-      title: "Calculus Fundamentals",
-      subject: "Mathematics",
-      type: "PDF",
-      size: "4.1 MB",
-      downloadCount: 980,
-      rating: 4.8,
-      description: "Introduction to calculus concepts including limits, derivatives, and integrals."
-    },
-    {
-      id: 6,
-      title: "Thermodynamics Principles",
-      subject: "Physics",
-      type: "Video",
-      size: "38 min",
-      downloadCount: 720,
-      rating: 4.5,
-      description: "Comprehensive overview of thermodynamics laws and their applications."
-    }
-  ];
+  useEffect(() => {
+    if (!user) return;
+
+    const loadMaterials = async () => {
+      setLoading(true);
+      try {
+        const [list, bookmarks] = await Promise.all([
+          StudyMaterialService.getMaterials(subjectKey ? subjectKey.split('|') : [], profile),
+          StudyMaterialService.getBookmarkedIds(user.id)
+        ]);
+        const highlighted = highlightedId && !list.some(material => material.id === highlightedId)
+          ? await StudyMaterialService.getMaterial(highlightedId)
+          : null;
+        setMaterials(highlighted ? [highlighted, ...list] : list);
+        setBookmarkedIds(bookmarks);
+        setError(null);
+      } catch (error) {
+        setError(error instanceof Error ? error.message : 'Failed to load study materials');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadMaterials();
+  }, [user, profile, subjectKey, highlightedId]);
+
+  // Make sure a material opened from search isn't hidden by the current filter
+  useEffect(() => {
+    if (highlightedId) setSelectedSubject('all');
+  }, [highlightedId]);
 
-  const filteredMaterials = selectedSubject === 'all' 
-    ? materials 
-    : materials.filter(material => material.subject === selectedSubject);
+  useEffect(() => {
+    if (loading || !highlightedId) return;
+    document.getElementById(`material-${highlightedId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [loading, highlightedId]);
 
-  const getTypeIcon = (type: string) => {
+  // Materials are stored under catalogue subject names, the student's list may add a label
+  const studentSubjectFor = (material: StudyMaterial) =>
+    studentSubjects.find(subject => CurriculumService.normalizeSubject(subject) === material.subject) || material.subject;
+
+  const filteredMaterials = selectedSubject === 'all'
+    ? materials
+    : selectedSubject === 'library'
+      ? materials.filter(material => bookmarkedIds.has(material.id))
+      : materials.filter(material => material.subject === CurriculumService.normalizeSubject(selectedSubject));
+
+  const getTypeIcon = (type: MaterialType) => {
     switch (type) {
-      case 'PDF': return '📄';
-      case 'Video': return '🎥';
-      case 'Interactive': return '🎮';
+      case 'pdf': return '📄';
+      case 'video': return '🎥';
+      case 'link': return '🎮';
       default: return '📚';
     }
   };
 
-  const getTypeColor = (type: string) => {
+  const getTypeColor = (type: MaterialType) => {
     switch (type) {
-      case 'PDF': return 'bg-red-500/20 text-red-400';
-      case 'Video': return 'bg-blue-500/20 text-blue-400';
-      case 'Interactive': return 'bg-green-500/20 text-green-400';
+      case 'pdf': return 'bg-red-500/20 text-red-400';
+      case 'video': return 'bg-blue-500/20 text-blue-400';
+      case 'link': return 'bg-green-500/20 text-green-400';
       default: return 'bg-gray-500/20 text-gray-400';
     }
   };
 
+  const typeLabels: { [type in MaterialType]: string } = {
+    pdf: 'PDF',
+    video: 'Video',
+    link: 'Interactive'
+  };
+
+  const getSizeLabel = (material: StudyMaterial) => {
+    if (material.duration_minutes) return `${material.duration_minutes} min`;
+    if (material.file_size) return formatFileSize(material.file_size);
+    return 'Web App';
+  };
+
+  const handleOpen = (material: StudyMaterial) => {
+    if (material.material_type === 'link' && material.external_url) {
+      if (StudyMaterialService.isSafeUrl(material.external_url)) {
+        window.open(material.external_url, '_blank', 'noopener,noreferrer');
+      } else {
+        setError('This material\'s link can\'t be opened');
+      }
+      return;
+    }
+    setViewing(material);
+  };
+
+  const handleDownload = async (material: StudyMaterial) => {
+    setDownloadingId(material.id);
+    try {
+      const { url, downloadCount } = await StudyMaterialService.download(material);
+      setMaterials(prev => prev.map(item => item.id === material.id ? { ...item, download_count: downloadCount } : item));
+      setError(null);
+      window.location.href = url;
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to download the material');
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const handleCloseViewer = (activeSeconds: number) => {
+    const material = viewing;
+    setViewing(null);
+
+    // A quick peek isn't studying; only log materials that stayed open a while
+    if (material && activeSeconds >= MIN_MATERIAL_STUDY_SECONDS) {
+      recordStudySession('materials', studentSubjectFor(material), Math.round(activeSeconds / 60)).catch(error => {
+        console.error('Failed to record materials session:', error);
+      });
+    }
+  };
+
+  const handleDelete = async (material: StudyMaterial) => {
+    if (!window.confirm(`Delete "${material.title}"? Other students will no longer see it.`)) return;
+
+    try {
+      await StudyMaterialService.deleteMaterial(material);
+      setMaterials(prev => prev.filter(item => item.id !== material.id));
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to delete the material');
+    }
+  };
+
+  const handleToggleBookmark = async (material: StudyMaterial) => {
+    if (!user) return;
+
+    const bookmarked = !bookmarkedIds.has(material.id);
+    const update = (ids: Set<string>, add: boolean) => {
+      const next = new Set(ids);
+      if (add) {
+        next.add(material.id);
+      } else {
+        next.delete(material.id);
+      }
+      return next;
+    };
+
+    // Flip the bookmark straight away and put it back if saving fails
+    setBookmarkedIds(prev => update(prev, bookmarked));
+    try {
+      await StudyMaterialService.setBookmarked(user.id, material.id, bookmarked);
+      setError(null);
+    } catch (error) {
+      setBookmarkedIds(prev => update(prev, !bookmarked));
+      setError(error instanceof Error ? error.message : 'Failed to update your library');
+    }
+  };
+
+  const handleRatingChange = (materialId: string, summary: RatingSummary) => {
+    setMaterials(prev => prev.map(item => item.id === materialId ? { ...item, ...summary } : item));
+  };
+
+  const handleUploaded = (material: StudyMaterial) => {
+    setMaterials(prev => [material, ...prev]);
+    setShowUpload(false);
+  };
+
   return (
-    <ProtectedRoute>
-      <DashboardLayout>
-        <div className="space-y-6">
-          {/* Header */}
-          <div className="text-center">
-            <h1 className="[font-family:'Lexend',Helvetica] font-bold text-white text-2xl md:text-3xl mb-2">
-              Study Materials 📚
-            </h1>
-            <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-base">
-              Access comprehensive study materials, notes, and resources for all subjects.
-            </p>
-          </div>
+    <>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="text-center">
+          <h1 className="[font-family:'Lexend',Helvetica] font-bold text-white text-2xl md:text-3xl mb-2">
+            Study Materials 📚
+          </h1>
+          <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-base">
+            Notes, videos and interactive resources for your subjects.
+          </p>
+        </div>
+
+        {/* Subject Filter */}
+        <Card className="bg-[#1e282d] border-[#3d4f5b]">
+          <CardContent className="p-6">
+            <h3 className="[font-family:'Lexend',Helvetica] font-bold text-white text-lg mb-4">
+              Filter by Subject
+            </h3>
+            <div className="flex flex-wrap gap-2">
+              {subjects.map((subject) => (
+                <Button
+                  key={subject}
+                  onClick={() => setSelectedSubject(subject)}
+                  className={`${
+                    selectedSubject === subject
+                      ? 'bg-[#3f8cbf] text-white'
+                      : 'bg-[#0f1419] border border-[#3d4f5b] text-[#9eafbf] hover:bg-[#2a3540] hover:text-white'
+                  } [font-family:'Lexend',Helvetica] font-medium`}
+                >
+                  {subject === 'all' ? 'All Subjects' : subject === 'library' ? '🔖 My Library' : subject}
+                </Button>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <p className="[font-family:'Lexend',Helvetica] text-red-400 text-sm text-center">{error}</p>
+        )}
 
-          {/* Subject Filter */}
+        {/* Materials Grid */}
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#3f8cbf]"></div>
+          </div>
+        ) : filteredMaterials.length === 0 ? (
           <Card className="bg-[#1e282d] border-[#3d4f5b]">
-            <CardContent className="p-6">
-              <h3 className="[font-family:'Lexend',Helvetica] font-bold text-white text-lg mb-4">
-                Filter by Subject
-              </h3>
-              <div className="flex flex-wrap gap-2">
-                {subjects.map((subject) => (
-                  <Button
-                    key={subject}
-                    onClick={() => setSelectedSubject(subject)}
-                    className={`${
-                      selectedSubject === subject
-                        ? 'bg-[#3f8cbf] text-white'
-                        : 'bg-[#0f1419] border border-[#3d4f5b] text-[#9eafbf] hover:bg-[#2a3540] hover:text-white'
-                    } [font-family:'Lexend',Helvetica] font-medium`}
-                  >
-                    {subject === 'all' ? 'All Subjects' : subject}
-                  </Button>
-                ))}
-              </div>
+            <CardContent className="p-8 text-center">
+              <div className="text-5xl mb-4">📭</div>
+              <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf]">
+                {studentSubjects.length === 0
+                  ? 'Choose your subjects to see materials for them here.'
+                  : selectedSubject === 'library'
+                    ? 'Your library is empty. Tap 🔖 on a material to save it here.'
+                    : 'No materials here yet. Be the first to share some!'}
+              </p>
             </CardContent>
           </Card>
-
-          {/* Materials Grid */}
+        ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             {filteredMaterials.map((material) => (
-              <Card key={material.id} className="bg-[#1e282d] border-[#3d4f5b] hover:scale-105 transition-all duration-300">
-                <CardContent className="p-6">
+              <Card
+                key={material.id}
+                id={`material-${material.id}`}
+                className={`bg-[#1e282d] border-[#3d4f5b] hover:scale-105 transition-all duration-300 ${
+                  material.id === highlightedId ? 'ring-2 ring-[#3f8cbf]' : ''
+                }`}
+              >
+                <CardContent className="p-6 h-full flex flex-col">
                   <div className="flex items-start justify-between mb-3">
                     <div className="flex items-center gap-2">
-                      <span className="text-2xl">{getTypeIcon(material.type)}</span>
-                      <span className={`text-xs px-2 py-1 rounded-full ${getTypeColor(material.type)} [font-family:'Lexend',Helvetica]`}>
-                        {material.type}
+                      <span className="text-2xl">{getTypeIcon(material.material_type)}</span>
+                      <span className={`text-xs px-2 py-1 rounded-full ${getTypeColor(material.material_type)} [font-family:'Lexend',Helvetica]`}>
+                        {typeLabels[material.material_type]}
                       </span>
+                      {!material.is_published && (
+                        <span className="text-xs px-2 py-1 rounded-full bg-yellow-500/20 text-yellow-400 [font-family:'Lexend',Helvetica]" title="Only you can see this until it has been reviewed">
+                          Pending review
+                        </span>
+                      )}
                     </div>
-                    <div className="flex items-center gap-1">
-                      <span className="text-yellow-400">⭐</span>
-                      <span className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
-                        {material.rating}
-                      </span>
+                    <div className="flex items-center gap-3">
+                      {material.uploaded_by === user?.id && (
+                        <button
+                          onClick={() => handleDelete(material)}
+                          className="[font-family:'Lexend',Helvetica] text-[#9eafbf] hover:text-red-400 text-xs"
+                        >
+                          🗑 Delete
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleToggleBookmark(material)}
+                        className={`text-lg transition-opacity ${bookmarkedIds.has(material.id) ? '' : 'opacity-40 hover:opacity-100'}`}
+                        title={bookmarkedIds.has(material.id) ? 'Remove from My Library' : 'Save to My Library'}
+                      >
+                        🔖
+                      </button>
                     </div>
                   </div>
 
@@ -156,34 +297,70 @@ export const StudyMaterialsPage = (): JSX.Element => {
                     {material.title}
                   </h4>
 
-                  <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm mb-4 line-clamp-3">
-                    {material.description}
+                  <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm mb-4 line-clamp-3 flex-1">
+                    {material.description || (material.topic ? `Covers ${material.topic}.` : '')}
                   </p>
 
+                  <button
+                    onClick={() => setReviewingId(material.id)}
+                    className="flex items-center gap-2 mb-3 text-left [font-family:'Lexend',Helvetica] text-[#9eafbf] hover:text-white text-sm"
+                  >
+                    {material.rating_count > 0 ? (
+                      <>
+                        <StarRating rating={material.rating_average} />
+                        <span>{Number(material.rating_average).toFixed(1)} ({material.rating_count})</span>
+                      </>
+                    ) : (
+                      <span>☆ Be the first to rate</span>
+                    )}
+                  </button>
+
                   <div className="flex items-center justify-between mb-4">
                     <span className="[font-family:'Lexend',Helvetica] text-[#3f8cbf] font-medium text-sm">
-                      {material.subject}
+                      {material.subject}{material.topic && ` • ${material.topic}`}
                     </span>
                     <span className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
-                      {material.size}
+                      {getSizeLabel(material)}
                     </span>
                   </div>
 
-                  <div className="flex items-center justify-between">
+                  <div className="flex items-center justify-between gap-2">
                     <span className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs">
-                      {material.downloadCount} downloads
+                      {material.storage_path ? `${material.download_count} downloads` : 'External link ↗'}
                     </span>
-                    <Button className="bg-[#3f8cbf] hover:bg-[#2d6a94] text-white px-4 py-2 [font-family:'Lexend',Helvetica] font-medium text-sm">
-                      {material.type === 'Video' ? 'Watch' : 
-                       material.type === 'Interactive' ? 'Open' : 'Download'}
-                    </Button>
+                    <div className="flex gap-2">
+                      {material.storage_path && (
+                        <Button
+                          onClick={() => handleDownload(material)}
+                          disabled={downloadingId === material.id}
+                          className="bg-transparent border border-[#3d4f5b] text-white hover:bg-[#2a3540] px-3 py-2 [font-family:'Lexend',Helvetica] text-sm"
+                          title="Download"
+                        >
+                          {downloadingId === material.id ? '...' : '⬇'}
+                        </Button>
+                      )}
+                      <Button
+                        onClick={() => handleOpen(material)}
+                        className="bg-[#3f8cbf] hover:bg-[#2d6a94] text-white px-4 py-2 [font-family:'Lexend',Helvetica] font-medium text-sm"
+                      >
+                        {material.material_type === 'video' ? 'Watch' : 'Open'}
+                      </Button>
+                    </div>
                   </div>
                 </CardContent>
               </Card>
             ))}
           </div>
+        )}
 
-          {/* Upload Section */}
+        {/* Upload Section */}
+        {showUpload ? (
+          <MaterialUploadForm
+            subjects={studentSubjects}
+            onUploaded={handleUploaded}
+            onCancel={() => setShowUpload(false)}
+          />
+        ) : (
           <Card className="bg-gradient-to-r from-[#3f8cbf] to-[#2d6a94] border-[#3f8cbf]">
             <CardContent className="p-6 text-center">
               <h3 className="[font-family:'Lexend',Helvetica] font-bold text-white text-lg mb-2">
@@ -193,17 +370,44 @@ export const StudyMaterialsPage = (): JSX.Element => {
                 Upload your own study materials or request specific topics from our AI tutor.
               </p>
               <div className="flex flex-col sm:flex-row gap-3 justify-center">
-                <Button className="bg-white text-[#3f8cbf] hover:bg-gray-100 [font-family:'Lexend',Helvetica] font-bold">
+                <Button
+                  onClick={() => setShowUpload(true)}
+                  disabled={studentSubjects.length === 0}
+                  className="bg-white text-[#3f8cbf] hover:bg-gray-100 [font-family:'Lexend',Helvetica] font-bold"
+                >
                   Upload Materials
                 </Button>
-                <Button className="bg-transparent border border-white text-white hover:bg-white/10 [font-family:'Lexend',Helvetica] font-bold">
+                <Button
+                  onClick={() => navigate(TutorContextService.buildPrefillUrl({
+                    question: 'Can you write me study notes on a topic? I\'ll tell you which one.',
+                    subject: studentSubjects.includes(selectedSubject) ? selectedSubject : undefined
+                  }))}
+                  className="bg-transparent border border-white text-white hover:bg-white/10 [font-family:'Lexend',Helvetica] font-bold"
+                >
                   Request Topic
                 </Button>
               </div>
             </CardContent>
           </Card>
-        </div>
-      </DashboardLayout>
-    </ProtectedRoute>
+        )}
+      </div>
+
+      {viewing && (
+        <MaterialViewer
+          material={viewing}
+          downloading={downloadingId === viewing.id}
+          onDownload={() => handleDownload(viewing)}
+          onClose={handleCloseViewer}
+        />
+      )}
+
+      {reviewing && (
+        <MaterialReviews
+          material={reviewing}
+          onRatingChange={(summary) => handleRatingChange(reviewing.id, summary)}
+          onClose={() => setReviewingId(null)}
+        />
+      )}
+    </>
   );
-};
\ No newline at end of file
+};
@@ -1,87 +1,102 @@
-import React, { useState } from "react";
-import { DashboardLayout } from "../components/DashboardLayout";
+import React, { useCallback, useEffect, useState } from "react";
 import { Card, CardContent } from "../../../components/ui/card";
 import { Button } from "../../../components/ui/button";
-import { ProtectedRoute } from "../../../components/ProtectedRoute";
+import { TestTakingScreen } from "../components/TestTakingScreen";
+import { MockExamScreen } from "../components/MockExamScreen";
+import { PastPaperBrowser } from "../components/PastPaperBrowser";
+import { TestReviewScreen } from "../components/TestReviewScreen";
+import { MistakeNotebook } from "../components/MistakeNotebook";
+import { AdaptivePracticeScreen } from "../components/AdaptivePracticeScreen";
+import { useAuth } from "../../../contexts/AuthContext";
+import { TestService } from "../../../services/testService";
+import type { CompletedAttempt, TestSummary } from "../../../services/testService";
+import { MockExamService } from "../../../services/mockExamService";
+import { MOCK_EXAMS } from "../../../lib/mockExams";
+import type { MockExamId } from "../../../lib/mockExams";
+import type { MockExamAttempt } from "../../../lib/supabase";
 
 export const TestsPage = (): JSX.Element => {
+  const { user, profile } = useAuth();
   const [activeTab, setActiveTab] = useState('available');
+  const [availableTests, setAvailableTests] = useState<TestSummary[]>([]);
+  const [completedTests, setCompletedTests] = useState<CompletedAttempt[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [activeTest, setActiveTest] = useState<TestSummary | null>(null);
+  const [mockAttempts, setMockAttempts] = useState<MockExamAttempt[]>([]);
+  const [activeMockExam, setActiveMockExam] = useState<MockExamId | null>(null);
+  const [reviewAttemptId, setReviewAttemptId] = useState<string | null>(null);
+  const [practicing, setPracticing] = useState(false);
 
-  const availableTests = [
-    {
-      id: 1,
-      title: "Algebra Fundamentals",
-      subject: "Mathematics",
-      questions: 25,
-      duration: 45,
-      difficulty: "Medium",
-      attempts: 0,
-      bestScore: null
-    },
-    {
-      id: 2,
-      title: "Newton's Laws Quiz",
-      subject: "Physics",
-      questions: 15,
-      duration: 30,
-      difficulty: "Easy",
-      attempts: 2,
-      bestScore: 85
-    },
-    {
-      id: 3,
-      title: "Organic Chemistry Test",
-      subject: "Chemistry",
-      questions: 30,
-      duration: 60,
-      difficulty: "Hard",
-      attempts: 1,
-      bestScore: 78
-    },
-    {
-      id: 4,
-      title: "Cell Biology Assessment",
-      subject: "Biology",
-      questions: 20,
-      duration: 40,
-      difficulty: "Medium",
-      attempts: 0,
-      bestScore: null
-    }
-  ];
-
-  const completedTests = [
-    {
-      id: 1,
-      title: "Trigonometry Basics",
-      subject: "Mathematics",
-      score: 92,
-      totalQuestions: 20,
-      correctAnswers: 18,
-      completedAt: "2024-01-15",
-      duration: 35
-    },
-    {
-      id: 2,
-      title: "Thermodynamics Quiz",
-      subject: "Physics",
-      score: 78,
-      totalQuestions: 15,
-      correctAnswers: 12,
-      completedAt: "2024-01-14",
-      duration: 28
-    },
-    {
-      id: 3,
-      title: "Periodic Table Test",
-      subject: "Chemistry",
-      score: 88,
-      totalQuestions: 25,
-      correctAnswers: 22,
-      completedAt: "2024-01-13",
-      duration: 42
+  const loadTests = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setError(null);
+      const [tests, attempts, mocks] = await Promise.all([
+        TestService.getAvailableTests(user.id, profile?.grade),
+        TestService.getCompletedAttempts(user.id),
+        MockExamService.getCompletedAttempts(user.id)
+      ]);
+      setAvailableTests(tests);
+      setCompletedTests(attempts);
+      setMockAttempts(mocks);
+    } catch (error) {
+      console.error('Error loading tests:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load tests');
+    } finally {
+      setLoading(false);
     }
-  ];
+  }, [user, profile?.grade]);
+
+  useEffect(() => {
+    loadTests();
+  }, [loadTests]);
+
+  const stats = TestService.getStats(completedTests);
+
+  if (activeTest) {
+    return (
+      <TestTakingScreen
+        test={activeTest}
+        onExit={() => setActiveTest(null)}
+        onSubmitted={loadTests}
+        onReview={(attemptId) => {
+          setActiveTest(null);
+          setReviewAttemptId(attemptId);
+        }}
+      />
+    );
+  }
+
+  if (reviewAttemptId) {
+    return (
+      <TestReviewScreen
+        attemptId={reviewAttemptId}
+        onExit={() => setReviewAttemptId(null)}
+      />
+    );
+  }
+
+  if (practicing) {
+    return (
+      <AdaptivePracticeScreen onExit={() => setPracticing(false)} />
+    );
+  }
+
+  if (activeMockExam) {
+    return (
+      <MockExamScreen
+        exam={activeMockExam}
+        onExit={() => setActiveMockExam(null)}
+        onSubmitted={loadTests}
+      />
+    );
+  }
+
+  // Show the student's own entrance exam first
+  const mockExamIds = (Object.keys(MOCK_EXAMS) as MockExamId[])
+    .sort((a, b) => Number(b === profile?.grade) - Number(a === profile?.grade));
 
   const getDifficultyColor = (difficulty: string) => {
     switch (difficulty) {
@@ -100,220 +115,333 @@ export const TestsPage = (): JSX.Element => {
   };
 
   return (
-    <ProtectedRoute>
-      <DashboardLayout>
-        <div className="space-y-6">
-          {/* Header */}
-          <div className="text-center">
-            <h1 className="[font-family:'Lexend',Helvetica] font-bold text-white text-2xl md:text-3xl mb-2">
-              Tests & Quizzes 📝
-            </h1>
-            <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-base">
-              Test your knowledge and track your progress with our comprehensive assessments.
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="text-center">
+        <h1 className="[font-family:'Lexend',Helvetica] font-bold text-white text-2xl md:text-3xl mb-2">
+          Tests & Quizzes 📝
+        </h1>
+        <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-base">
+          Test your knowledge and track your progress with our comprehensive assessments.
+        </p>
+      </div>
+
+      {/* Stats Overview */}
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+        <Card className="bg-[#1e282d] border-[#3d4f5b]">
+          <CardContent className="p-4 text-center">
+            <div className="text-2xl font-bold text-[#3f8cbf] mb-1 [font-family:'Lexend',Helvetica]">
+              {stats.completed}
+            </div>
+            <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
+              Tests Completed
             </p>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-[#1e282d] border-[#3d4f5b]">
+          <CardContent className="p-4 text-center">
+            <div className="text-2xl font-bold text-[#10b981] mb-1 [font-family:'Lexend',Helvetica]">
+              {stats.completed > 0 ? `${stats.averageScore}%` : '—'}
+            </div>
+            <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
+              Average Score
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-[#1e282d] border-[#3d4f5b]">
+          <CardContent className="p-4 text-center">
+            <div className="text-2xl font-bold text-[#f59e0b] mb-1 [font-family:'Lexend',Helvetica]">
+              {availableTests.length}
+            </div>
+            <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
+              Available Tests
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-[#1e282d] border-[#3d4f5b]">
+          <CardContent className="p-4 text-center">
+            <div className="text-2xl font-bold text-[#ef4444] mb-1 [font-family:'Lexend',Helvetica]">
+              {stats.thisWeek}
+            </div>
+            <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
+              This Week
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Full Mock Exams */}
+      <Card className="bg-[#1e282d] border-[#3d4f5b]">
+        <CardContent className="p-6">
+          <h3 className="[font-family:'Lexend',Helvetica] font-bold text-white text-lg mb-1">
+            Full Mock Exams 🎯
+          </h3>
+          <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm mb-4">
+            Sit a complete entrance test paper under exam conditions, with section-wise results and a percentile.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {mockExamIds.map((examId) => {
+              const blueprint = MOCK_EXAMS[examId];
+              const attempts = mockAttempts.filter(attempt => attempt.exam === examId);
+              const latest = attempts[0];
+
+              return (
+                <Card key={examId} className="bg-[#0f1419] border-[#3d4f5b]">
+                  <CardContent className="p-5">
+                    <div className="flex items-start justify-between mb-2">
+                      <h4 className="[font-family:'Lexend',Helvetica] font-bold text-white text-lg">
+                        {blueprint.name}
+                      </h4>
+                      {examId === profile?.grade && (
+                        <span className="text-xs px-2 py-1 rounded-full bg-[#3f8cbf]/20 text-[#3f8cbf] [font-family:'Lexend',Helvetica]">
+                          Your exam
+                        </span>
+                      )}
+                    </div>
+                    <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm mb-3">
+                      {blueprint.sections.map(section => section.subject).join(' • ')}
+                    </p>
+                    <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs mb-4">
+                      {blueprint.negativeMarks > 0
+                        ? `+${blueprint.marksPerQuestion} / −${blueprint.negativeMarks} marking`
+                        : 'No negative marking'}
+                      {latest && ` • Last score ${latest.score ?? 0}%${
+                        latest.percentile !== null && latest.percentile !== undefined ? ` (${Math.round(latest.percentile)}th percentile)` : ''
+                      }`}
+                    </p>
+                    <Button
+                      onClick={() => setActiveMockExam(examId)}
+                      className="w-full bg-[#3f8cbf] hover:bg-[#2d6a94] text-white [font-family:'Lexend',Helvetica] font-medium"
+                    >
+                      {attempts.length > 0 ? 'Take Another Mock' : 'Start Full Mock'}
+                    </Button>
+                  </CardContent>
+                </Card>
+              );
+            })}
           </div>
+        </CardContent>
+      </Card>
 
-          {/* Stats Overview */}
-          <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
-            <Card className="bg-[#1e282d] border-[#3d4f5b]">
-              <CardContent className="p-4 text-center">
-                <div className="text-2xl font-bold text-[#3f8cbf] mb-1 [font-family:'Lexend',Helvetica]">
-                  12
-                </div>
-                <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
-                  Tests Completed
-                </p>
-              </CardContent>
-            </Card>
-
-            <Card className="bg-[#1e282d] border-[#3d4f5b]">
-              <CardContent className="p-4 text-center">
-                <div className="text-2xl font-bold text-[#10b981] mb-1 [font-family:'Lexend',Helvetica]">
-                  84%
-                </div>
-                <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
-                  Average Score
-                </p>
-              </CardContent>
-            </Card>
-
-            <Card className="bg-[#1e282d] border-[#3d4f5b]">
-              <CardContent className="p-4 text-center">
-                <div className="text-2xl font-bold text-[#f59e0b] mb-1 [font-family:'Lexend',Helvetica]">
-                  8
-                </div>
-                <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
-                  Available Tests
-                </p>
-              </CardContent>
-            </Card>
-
-            <Card className="bg-[#1e282d] border-[#3d4f5b]">
-              <CardContent className="p-4 text-center">
-                <div className="text-2xl font-bold text-[#ef4444] mb-1 [font-family:'Lexend',Helvetica]">
-                  3
-                </div>
-                <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
-                  This Week
-                </p>
-              </CardContent>
-            </Card>
+      {/* Tab Navigation */}
+      <Card className="bg-[#1e282d] border-[#3d4f5b]">
+        <CardContent className="p-6">
+          <div className="flex flex-wrap gap-4 mb-6">
+            <Button
+              onClick={() => setActiveTab('available')}
+              className={`${
+                activeTab === 'available'
+                  ? 'bg-[#3f8cbf] text-white'
+                  : 'bg-[#0f1419] border border-[#3d4f5b] text-[#9eafbf] hover:bg-[#2a3540] hover:text-white'
+              } [font-family:'Lexend',Helvetica] font-medium`}
+            >
+              Available Tests
+            </Button>
+            <Button
+              onClick={() => setActiveTab('completed')}
+              className={`${
+                activeTab === 'completed'
+                  ? 'bg-[#3f8cbf] text-white'
+                  : 'bg-[#0f1419] border border-[#3d4f5b] text-[#9eafbf] hover:bg-[#2a3540] hover:text-white'
+              } [font-family:'Lexend',Helvetica] font-medium`}
+            >
+              Completed Tests
+            </Button>
+            <Button
+              onClick={() => setActiveTab('papers')}
+              className={`${
+                activeTab === 'papers'
+                  ? 'bg-[#3f8cbf] text-white'
+                  : 'bg-[#0f1419] border border-[#3d4f5b] text-[#9eafbf] hover:bg-[#2a3540] hover:text-white'
+              } [font-family:'Lexend',Helvetica] font-medium`}
+            >
+              Past Papers
+            </Button>
+            <Button
+              onClick={() => setActiveTab('mistakes')}
+              className={`${
+                activeTab === 'mistakes'
+                  ? 'bg-[#3f8cbf] text-white'
+                  : 'bg-[#0f1419] border border-[#3d4f5b] text-[#9eafbf] hover:bg-[#2a3540] hover:text-white'
+              } [font-family:'Lexend',Helvetica] font-medium`}
+            >
+              Mistake Notebook
+            </Button>
           </div>
 
-          {/* Tab Navigation */}
-          <Card className="bg-[#1e282d] border-[#3d4f5b]">
-            <CardContent className="p-6">
-              <div className="flex gap-4 mb-6">
-                <Button
-                  onClick={() => setActiveTab('available')}
-                  className={`${
-                    activeTab === 'available'
-                      ? 'bg-[#3f8cbf] text-white'
-                      : 'bg-[#0f1419] border border-[#3d4f5b] text-[#9eafbf] hover:bg-[#2a3540] hover:text-white'
-                  } [font-family:'Lexend',Helvetica] font-medium`}
-                >
-                  Available Tests
-                </Button>
-                <Button
-                  onClick={() => setActiveTab('completed')}
-                  className={`${
-                    activeTab === 'completed'
-                      ? 'bg-[#3f8cbf] text-white'
-                      : 'bg-[#0f1419] border border-[#3d4f5b] text-[#9eafbf] hover:bg-[#2a3540] hover:text-white'
-                  } [font-family:'Lexend',Helvetica] font-medium`}
-                >
-                  Completed Tests
-                </Button>
-              </div>
-
-              {/* Available Tests */}
-              {activeTab === 'available' && (
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                  {availableTests.map((test) => (
-                    <Card key={test.id} className="bg-[#0f1419] border-[#3d4f5b]">
-                      <CardContent className="p-6">
-                        <div className="flex items-start justify-between mb-3">
-                          <h4 className="[font-family:'Lexend',Helvetica] font-bold text-white text-lg">
-                            {test.title}
-                          </h4>
-                          <span className={`text-xs px-2 py-1 rounded-full ${getDifficultyColor(test.difficulty)} [font-family:'Lexend',Helvetica]`}>
-                            {test.difficulty}
+          {error && (activeTab === 'available' || activeTab === 'completed') && (
+            <p className="[font-family:'Lexend',Helvetica] text-red-400 text-sm mb-4">
+              {error}
+            </p>
+          )}
+
+          {loading && (activeTab === 'available' || activeTab === 'completed') && (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-[#3f8cbf]"></div>
+            </div>
+          )}
+
+          {!loading && activeTab === 'available' && availableTests.length === 0 && (
+            <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-center py-8">
+              No tests are available for your grade yet. Check back soon!
+            </p>
+          )}
+
+          {!loading && activeTab === 'completed' && completedTests.length === 0 && (
+            <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-center py-8">
+              You haven't completed any tests yet. Start one from the Available Tests tab.
+            </p>
+          )}
+
+          {/* Available Tests */}
+          {!loading && activeTab === 'available' && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {availableTests.map((test) => (
+                <Card key={test.id} className="bg-[#0f1419] border-[#3d4f5b]">
+                  <CardContent className="p-6">
+                    <div className="flex items-start justify-between mb-3">
+                      <h4 className="[font-family:'Lexend',Helvetica] font-bold text-white text-lg">
+                        {test.title}
+                      </h4>
+                      <span className={`text-xs px-2 py-1 rounded-full ${getDifficultyColor(test.difficulty)} [font-family:'Lexend',Helvetica]`}>
+                        {test.difficulty}
+                      </span>
+                    </div>
+
+                    <p className="[font-family:'Lexend',Helvetica] text-[#3f8cbf] font-medium text-sm mb-4">
+                      {test.subject}
+                    </p>
+
+                    <div className="space-y-2 mb-4">
+                      <div className="flex justify-between">
+                        <span className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
+                          Questions:
+                        </span>
+                        <span className="[font-family:'Lexend',Helvetica] text-white text-sm">
+                          {test.question_count}
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
+                          Duration:
+                        </span>
+                        <span className="[font-family:'Lexend',Helvetica] text-white text-sm">
+                          {test.duration_minutes} min
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
+                          Attempts:
+                        </span>
+                        <span className="[font-family:'Lexend',Helvetica] text-white text-sm">
+                          {test.attempts}
+                        </span>
+                      </div>
+                      {test.best_score !== null && (
+                        <div className="flex justify-between">
+                          <span className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
+                            Best Score:
+                          </span>
+                          <span className={`[font-family:'Lexend',Helvetica] text-sm font-bold ${getScoreColor(test.best_score)}`}>
+                            {test.best_score}%
                           </span>
                         </div>
+                      )}
+                    </div>
+
+                    <Button
+                      onClick={() => setActiveTest(test)}
+                      disabled={test.question_count === 0}
+                      className="w-full bg-[#3f8cbf] hover:bg-[#2d6a94] text-white [font-family:'Lexend',Helvetica] font-medium"
+                    >
+                      {test.attempts > 0 ? 'Retake Test' : 'Start Test'}
+                    </Button>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
 
-                        <p className="[font-family:'Lexend',Helvetica] text-[#3f8cbf] font-medium text-sm mb-4">
-                          {test.subject}
+          {/* Past Papers */}
+          {activeTab === 'papers' && (
+            <PastPaperBrowser onStart={setActiveTest} />
+          )}
+
+          {/* Mistake Notebook */}
+          {activeTab === 'mistakes' && (
+            <MistakeNotebook />
+          )}
+
+          {/* Completed Tests */}
+          {!loading && activeTab === 'completed' && (
+            <div className="space-y-4">
+              {completedTests.map((test) => (
+                <Card key={test.id} className="bg-[#0f1419] border-[#3d4f5b]">
+                  <CardContent className="p-6">
+                    <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                      <div className="flex-1">
+                        <h4 className="[font-family:'Lexend',Helvetica] font-bold text-white text-lg mb-1">
+                          {test.test.title}
+                        </h4>
+                        <p className="[font-family:'Lexend',Helvetica] text-[#3f8cbf] font-medium text-sm mb-2">
+                          {test.test.subject}
+                        </p>
+                        <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
+                          Completed on {test.submitted_at ? new Date(test.submitted_at).toLocaleDateString() : '—'} • {Math.max(1, Math.round((test.duration_seconds || 0) / 60))} minutes
                         </p>
+                      </div>
 
-                        <div className="space-y-2 mb-4">
-                          <div className="flex justify-between">
-                            <span className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
-                              Questions:
-                            </span>
-                            <span className="[font-family:'Lexend',Helvetica] text-white text-sm">
-                              {test.questions}
-                            </span>
-                          </div>
-                          <div className="flex justify-between">
-                            <span className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
-                              Duration:
-                            </span>
-                            <span className="[font-family:'Lexend',Helvetica] text-white text-sm">
-                              {test.duration} min
-                            </span>
-                          </div>
-                          <div className="flex justify-between">
-                            <span className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
-                              Attempts:
-                            </span>
-                            <span className="[font-family:'Lexend',Helvetica] text-white text-sm">
-                              {test.attempts}
-                            </span>
+                      <div className="flex items-center gap-6">
+                        <div className="text-center">
+                          <div className={`text-2xl font-bold mb-1 [font-family:'Lexend',Helvetica] ${getScoreColor(test.score ?? 0)}`}>
+                            {test.score ?? 0}%
                           </div>
-                          {test.bestScore && (
-                            <div className="flex justify-between">
-                              <span className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
-                                Best Score:
-                              </span>
-                              <span className={`[font-family:'Lexend',Helvetica] text-sm font-bold ${getScoreColor(test.bestScore)}`}>
-                                {test.bestScore}%
-                              </span>
-                            </div>
-                          )}
+                          <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs">
+                            {test.correct_answers}/{test.total_questions} correct
+                          </p>
                         </div>
 
-                        <Button className="w-full bg-[#3f8cbf] hover:bg-[#2d6a94] text-white [font-family:'Lexend',Helvetica] font-medium">
-                          {test.attempts > 0 ? 'Retake Test' : 'Start Test'}
+                        <Button
+                          onClick={() => setReviewAttemptId(test.id)}
+                          className="bg-[#0f1419] border border-[#3d4f5b] text-white hover:bg-[#2a3540] [font-family:'Lexend',Helvetica] font-medium"
+                        >
+                          View Details
                         </Button>
-                      </CardContent>
-                    </Card>
-                  ))}
-                </div>
-              )}
-
-              {/* Completed Tests */}
-              {activeTab === 'completed' && (
-                <div className="space-y-4">
-                  {completedTests.map((test) => (
-                    <Card key={test.id} className="bg-[#0f1419] border-[#3d4f5b]">
-                      <CardContent className="p-6">
-                        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
-                          <div className="flex-1">
-                            <h4 className="[font-family:'Lexend',Helvetica] font-bold text-white text-lg mb-1">
-                              {test.title}
-                            </h4>
-                            <p className="[font-family:'Lexend',Helvetica] text-[#3f8cbf] font-medium text-sm mb-2">
-                              {test.subject}
-                            </p>
-                            <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-sm">
-                              Completed on {test.completedAt} • {test.duration} minutes
-                            </p>
-                          </div>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
 
-                          <div className="flex items-center gap-6">
-                            <div className="text-center">
-                              <div className={`text-2xl font-bold mb-1 [font-family:'Lexend',Helvetica] ${getScoreColor(test.score)}`}>
-                                {test.score}%
-                              </div>
-                              <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs">
-                                {test.correctAnswers}/{test.totalQuestions} correct
-                              </p>
-                            </div>
-
-                            <Button className="bg-[#0f1419] border border-[#3d4f5b] text-white hover:bg-[#2a3540] [font-family:'Lexend',Helvetica] font-medium">
-                              View Details
-                            </Button>
-                          </div>
-                        </div>
-                      </CardContent>
-                    </Card>
-                  ))}
-                </div>
-              )}
-            </CardContent>
-          </Card>
-
-          {/* Practice Recommendations */}
-          <Card className="bg-gradient-to-r from-[#3f8cbf] to-[#2d6a94] border-[#3f8cbf]">
-            <CardContent className="p-6 text-center">
-              <h3 className="[font-family:'Lexend',Helvetica] font-bold text-white text-lg mb-2">
-                Ready for More Practice?
-              </h3>
-              <p className="[font-family:'Lexend',Helvetica] text-white/90 mb-4">
-                Based on your performance, we recommend focusing on these areas for improvement.
-              </p>
-              <div className="flex flex-col sm:flex-row gap-3 justify-center">
-                <Button className="bg-white text-[#3f8cbf] hover:bg-gray-100 [font-family:'Lexend',Helvetica] font-bold">
-                  Generate Custom Test
-                </Button>
-                <Button className="bg-transparent border border-white text-white hover:bg-white/10 [font-family:'Lexend',Helvetica] font-bold">
-                  Practice Weak Areas
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
-        </div>
-      </DashboardLayout>
-    </ProtectedRoute>
+      {/* Practice Recommendations */}
+      <Card className="bg-gradient-to-r from-[#3f8cbf] to-[#2d6a94] border-[#3f8cbf]">
+        <CardContent className="p-6 text-center">
+          <h3 className="[font-family:'Lexend',Helvetica] font-bold text-white text-lg mb-2">
+            Ready for More Practice?
+          </h3>
+          <p className="[font-family:'Lexend',Helvetica] text-white/90 mb-4">
+            Based on your performance, we recommend focusing on these areas for improvement.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-3 justify-center">
+            <Button className="bg-white text-[#3f8cbf] hover:bg-gray-100 [font-family:'Lexend',Helvetica] font-bold">
+              Generate Custom Test
+            </Button>
+            <Button
+              onClick={() => setPracticing(true)}
+              className="bg-transparent border border-white text-white hover:bg-white/10 [font-family:'Lexend',Helvetica] font-bold"
+            >
+              Practice Weak Areas
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
   );
 };
\ No newline at end of file
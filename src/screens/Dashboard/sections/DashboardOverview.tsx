@@ -1,21 +1,47 @@
-import React from "react";
+import React, { lazy, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { Card, CardContent } from "../../../components/ui/card";
 import { Button } from "../../../components/ui/button";
 import { useAuth } from "../../../contexts/AuthContext";
 import { AnalyticsCard } from "../components/AnalyticsCard";
 import { StudyStreakCard } from "../components/StudyStreakCard";
+import { DailyReviewCard } from "../components/DailyReviewCard";
+import { AdaptivePracticeService } from "../../../services/adaptivePracticeService";
+import { LessonService } from "../../../services/lessonService";
+import { lessonPath } from "../../../lib/lessons";
+import type { TopicMastery } from "../../../lib/mastery";
+
+// The practice and flashcard screens render maths and markdown, so they load when first opened,
+// under the dashboard's page loader
+const AdaptivePracticeScreen = lazy(() => import("../components/AdaptivePracticeScreen").then(module => ({ default: module.AdaptivePracticeScreen })));
+const FlashcardReviewScreen = lazy(() => import("../components/FlashcardReviewScreen").then(module => ({ default: module.FlashcardReviewScreen })));
 
 export const DashboardOverview = (): JSX.Element => {
-  const { profile, progressStats, subjectProgress, recordStudySession } = useAuth();
+  const { user, profile, progressStats, subjectProgress, recordStudySession } = useAuth();
+  const navigate = useNavigate();
+  const [practicing, setPracticing] = useState(false);
+  const [weakTopics, setWeakTopics] = useState<TopicMastery[]>([]);
+  const [flashcardReview, setFlashcardReview] = useState<{ deckId?: string } | null>(null);
 
-  // Mock function to simulate study session
-  const handleQuickStudy = async (subject: string) => {
-    try {
-      // Record a 15-minute lesson session
-      await recordStudySession('lesson', subject, 15);
-      alert(`Great! You've completed a 15-minute ${subject} lesson. Your progress has been updated!`);
-    } catch (error) {
-      console.error('Error recording study session:', error);
+  // Topics the student is struggling with, from their test and practice answers
+  useEffect(() => {
+    if (!user || practicing) return;
+
+    AdaptivePracticeService.getTopicMastery(user.id)
+      .then(mastery => setWeakTopics(mastery.filter(topic => topic.level !== 'strong').slice(0, 3)))
+      .catch(error => console.error('Error loading topic mastery:', error));
+  }, [user, practicing]);
+
+  // Open the next lesson the student hasn't finished, in one subject or across all of them
+  const handleQuickStudy = async (subject?: string) => {
+    if (!user) return;
+
+    const subjects = subject ? [subject] : subjectProgress.map(progress => progress.subject_name);
+    const next = await LessonService.getNextLesson(user.id, subjects, profile);
+    if (next) {
+      navigate(lessonPath(next.subject, next.topic));
+    } else {
+      alert(`There are no new ${subject ? `${subject} ` : ''}lessons for you yet. Try the AI tutor or a practice test instead!`);
     }
   };
 
@@ -24,10 +50,10 @@ export const DashboardOverview = (): JSX.Element => {
     try {
       // Record a 10-minute AI tutor session
       await recordStudySession('ai_tutor', 'General', 10);
-      window.location.href = '/dashboard/ai-tutor';
+      navigate('/dashboard/ai-tutor');
     } catch (error) {
       console.error('Error recording AI session:', error);
-      window.location.href = '/dashboard/ai-tutor';
+      navigate('/dashboard/ai-tutor');
     }
   };
 
@@ -119,6 +145,14 @@ export const DashboardOverview = (): JSX.Element => {
     }
   ];
 
+  if (practicing) {
+    return <AdaptivePracticeScreen onExit={() => setPracticing(false)} />;
+  }
+
+  if (flashcardReview) {
+    return <FlashcardReviewScreen deckId={flashcardReview.deckId} onExit={() => setFlashcardReview(null)} />;
+  }
+
   return (
     <div className="space-y-6">
       {/* Welcome Section */}
@@ -226,6 +260,12 @@ export const DashboardOverview = (): JSX.Element => {
                 >
                   🤖 Ask AI Tutor
                 </Button>
+                <Button 
+                  className="w-full bg-transparent border border-[#3d4f5b] text-white hover:bg-[#2a3540] justify-start [font-family:'Lexend',Helvetica]"
+                  onClick={() => setPracticing(true)}
+                >
+                  🎯 Practice Weak Topics
+                </Button>
                 <Button 
                   className="w-full bg-transparent border border-[#3d4f5b] text-white hover:bg-[#2a3540] justify-start [font-family:'Lexend',Helvetica]"
                   onClick={() => handleTakeTest('Mathematics')}
@@ -234,20 +274,47 @@ export const DashboardOverview = (): JSX.Element => {
                 </Button>
                 <Button 
                   className="w-full bg-transparent border border-[#3d4f5b] text-white hover:bg-[#2a3540] justify-start [font-family:'Lexend',Helvetica]"
-                  onClick={() => window.location.href = '/dashboard/materials'}
+                  onClick={() => navigate('/dashboard/materials')}
                 >
                   📚 Browse Materials
                 </Button>
                 <Button 
                   className="w-full bg-transparent border border-[#3d4f5b] text-white hover:bg-[#2a3540] justify-start [font-family:'Lexend',Helvetica]"
-                  onClick={() => window.location.href = '/dashboard/progress'}
+                  onClick={() => navigate('/dashboard/progress')}
                 >
                   📊 View Progress
                 </Button>
               </div>
+
+              {weakTopics.length > 0 && (
+                <div className="mt-5 pt-4 border-t border-[#3d4f5b]">
+                  <p className="[font-family:'Lexend',Helvetica] text-[#9eafbf] text-xs mb-3">
+                    Topics to work on
+                  </p>
+                  <div className="space-y-3">
+                    {weakTopics.map(topic => (
+                      <div key={`${topic.subject}-${topic.topic}`}>
+                        <div className="flex justify-between mb-1 [font-family:'Lexend',Helvetica] text-xs">
+                          <span className="text-white">{topic.topic}</span>
+                          <span className="text-[#9eafbf]">{topic.mastery}%</span>
+                        </div>
+                        <div className="w-full bg-[#0f1419] rounded-full h-1.5">
+                          <div
+                            className={`${topic.level === 'weak' ? 'bg-red-500' : 'bg-yellow-500'} h-1.5 rounded-full`}
+                            style={{ width: `${topic.mastery}%` }}
+                          ></div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </CardContent>
           </Card>
 
+          {/* Flashcards */}
+          <DailyReviewCard onStart={(deckId) => setFlashcardReview({ deckId })} />
+
           {/* Monthly Analytics */}
           <AnalyticsCard type="monthly" />
         </div>
@@ -302,13 +369,13 @@ export const DashboardOverview = (): JSX.Element => {
           <div className="flex flex-col sm:flex-row gap-3 justify-center">
             <Button 
               className="bg-white text-[#10b981] hover:bg-gray-100 [font-family:'Lexend',Helvetica] font-bold"
-              onClick={() => window.location.href = '/dashboard/progress'}
+              onClick={() => navigate('/dashboard/progress')}
             >
               View Detailed Analytics
             </Button>
             <Button 
               className="bg-transparent border border-white text-white hover:bg-white/10 [font-family:'Lexend',Helvetica] font-bold"
-              onClick={() => handleQuickStudy('Mathematics')}
+              onClick={() => handleQuickStudy()}
             >
               Try Quick Study Session
             </Button>
@@ -5,7 +5,8 @@ import { Button } from "../../components/ui/button";
 import { CoursesSection } from "../StitchDesign/sections/CoursesSection/index.ts";
 
 export const HelpCenterPage = (): JSX.Element => {
-  const [searchQuery, setSearchQuery] = useState('');
+  // Dashboard search links here with the article it found
+  const [searchQuery, setSearchQuery] = useState(() => new URLSearchParams(window.location.search).get('search') || '');
   const [selectedCategory, setSelectedCategory] = useState('all');
   const [expandedFaq, setExpandedFaq] = useState<number | null>(null);
 
@@ -0,0 +1,182 @@
+import { supabase, isUsingMockClient } from '../lib/supabase'
+import type { MockExamAttempt, Test } from '../lib/supabase'
+import { QUESTION_PROMPT_COLUMNS, withAnswerKey } from '../lib/questions'
+import type { Question, QuestionPrompt, QuestionResponse } from '../lib/questions'
+import { gradeQuestion } from '../lib/grading'
+import type { QuestionGrade } from '../lib/grading'
+import { computeTopicMastery, pickPracticeQuestions } from '../lib/mastery'
+import type { AnswerRecord, PracticeCandidate, PracticePlan, TopicMastery } from '../lib/mastery'
+
+// How many of the student's latest answers feed into mastery
+const HISTORY_LIMIT = 500
+
+interface AnsweredRow {
+  is_correct: boolean
+  created_at: string
+  question: {
+    id: string
+    topic?: string
+    test: Pick<Test, 'subject' | 'difficulty'>
+  } | null
+}
+
+export interface PracticeResult {
+  question: Question
+  grade: QuestionGrade
+}
+
+export class AdaptivePracticeService {
+  // Check if we can safely make database calls
+  private static canMakeDbCalls(): boolean {
+    if (isUsingMockClient) {
+      console.warn('AdaptivePracticeService: Using mock client, adaptive practice is unavailable')
+      return false
+    }
+    return true
+  }
+
+  private static toRecords(rows: AnsweredRow[] | null): AnswerRecord[] {
+    return (rows || [])
+      .filter(row => row.question?.topic)
+      .map(row => ({
+        questionId: row.question!.id,
+        subject: row.question!.test.subject,
+        topic: row.question!.topic!,
+        difficulty: row.question!.test.difficulty,
+        isCorrect: row.is_correct,
+        answeredAt: row.created_at
+      }))
+  }
+
+  // Collect the student's recent answers from tests and practice sessions
+  static async getAnswerHistory(userId: string): Promise<AnswerRecord[]> {
+    if (!this.canMakeDbCalls()) return []
+
+    const columns = 'is_correct, created_at, question:questions(id, topic, test:tests(subject, difficulty))'
+
+    try {
+      const [testAnswers, practiceAnswers] = await Promise.all([
+        supabase
+          .from('attempt_answers')
+          .select(columns)
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false })
+          .limit(HISTORY_LIMIT),
+        supabase
+          .from('practice_answers')
+          .select(columns)
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false })
+          .limit(HISTORY_LIMIT)
+      ])
+
+      if (testAnswers.error) throw testAnswers.error
+      if (practiceAnswers.error) throw practiceAnswers.error
+
+      return [...this.toRecords(testAnswers.data), ...this.toRecords(practiceAnswers.data)]
+    } catch (error) {
+      console.error('Error fetching answer history:', error)
+      throw new Error('Failed to load your practice history')
+    }
+  }
+
+  // Mastery for each topic the student has answered, weakest first
+  static async getTopicMastery(userId: string, subject?: string): Promise<TopicMastery[]> {
+    const mastery = computeTopicMastery(await this.getAnswerHistory(userId))
+    return subject ? mastery.filter(entry => entry.subject === subject) : mastery
+  }
+
+  // Questions in tests and mock exams the student has started but not submitted can't be practised
+  private static async getOpenAttemptQuestions(userId: string): Promise<{ testIds: Set<string>; questionIds: Set<string> }> {
+    const [tests, mockExams] = await Promise.all([
+      supabase.from('test_attempts').select('test_id').eq('user_id', userId).eq('status', 'in_progress'),
+      supabase.from('mock_exam_attempts').select('paper').eq('user_id', userId).eq('status', 'in_progress')
+    ])
+
+    if (tests.error) throw tests.error
+    if (mockExams.error) throw mockExams.error
+
+    return {
+      testIds: new Set((tests.data || []).map((row: { test_id: string }) => row.test_id)),
+      questionIds: new Set(
+        (mockExams.data || []).flatMap((row: Pick<MockExamAttempt, 'paper'>) =>
+          row.paper.flatMap(section => section.question_ids)
+        )
+      )
+    }
+  }
+
+  // Build a practice set aimed at the student's weakest topics
+  static async buildSession(
+    userId: string,
+    options: { grade?: string; subject?: string; count?: number } = {}
+  ): Promise<PracticePlan> {
+    if (!this.canMakeDbCalls()) return { questions: [], focusTopics: [] }
+
+    const { grade, subject, count = 10 } = options
+
+    try {
+      const [history, open] = await Promise.all([
+        this.getAnswerHistory(userId),
+        this.getOpenAttemptQuestions(userId)
+      ])
+
+      let query = supabase
+        .from('questions')
+        .select(`${QUESTION_PROMPT_COLUMNS}, test:tests!inner(subject, difficulty, grade, is_published, kind)`)
+        .eq('test.is_published', true)
+        .eq('test.kind', 'practice')
+        .not('topic', 'is', null)
+
+      if (subject) query = query.eq('test.subject', subject)
+
+      const { data, error } = await query
+      if (error) throw error
+
+      const candidates: PracticeCandidate[] = (data || [])
+        .filter((row: QuestionPrompt & { test: Pick<Test, 'grade'> }) => !row.test.grade || row.test.grade === grade)
+        .filter((row: QuestionPrompt) => !open.testIds.has(row.test_id) && !open.questionIds.has(row.id))
+        .map((row: QuestionPrompt & { test: Pick<Test, 'subject' | 'difficulty'> }) => {
+          const { test, ...question } = row
+          return { question: question as QuestionPrompt, subject: test.subject, difficulty: test.difficulty }
+        })
+
+      // Questions answered correctly in the last few days are saved for later
+      const cutoff = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString()
+      const recentlyCorrect = new Set(
+        history.filter(record => record.isCorrect && record.answeredAt >= cutoff).map(record => record.questionId)
+      )
+
+      return pickPracticeQuestions(candidates, computeTopicMastery(history), { count, recentlyCorrect })
+    } catch (error) {
+      console.error('Error building practice session:', error)
+      throw new Error('Failed to build your practice session')
+    }
+  }
+
+  // Grade and save a practice answer so it counts towards topic mastery, revealing the answer key
+  static async submitAnswer(question: QuestionPrompt, response: QuestionResponse): Promise<PracticeResult> {
+    try {
+      const { data, error } = await supabase.rpc('submit_practice_answer', {
+        p_question_id: question.id,
+        p_response: response
+      })
+
+      if (error) throw error
+
+      const answered = withAnswerKey(question, { answer: data.answer, explanation: data.explanation })
+      return {
+        question: answered,
+        // The saved grade counts; grading locally as well only adds the feedback
+        grade: {
+          ...gradeQuestion(answered, response),
+          isCorrect: data.is_correct,
+          marksAwarded: data.marks_awarded
+        }
+      }
+    } catch (error) {
+      console.error('Error recording practice answer:', error)
+      throw new Error('Failed to save your answer')
+    }
+  }
+}
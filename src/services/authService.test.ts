@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import { AuthService } from './authService'
+
+describe('AuthService.normalizePhone', () => {
+  it('adds the country code to local Pakistani numbers', () => {
+    expect(AuthService.normalizePhone('03001234567')).toBe('+923001234567')
+    expect(AuthService.normalizePhone('0300 1234567')).toBe('+923001234567')
+    expect(AuthService.normalizePhone('300-1234567')).toBe('+923001234567')
+  })
+
+  it('accepts Pakistani numbers written with the country code', () => {
+    expect(AuthService.normalizePhone('+92 300 1234567')).toBe('+923001234567')
+    expect(AuthService.normalizePhone('923001234567')).toBe('+923001234567')
+    expect(AuthService.normalizePhone('+92 (300) 123-4567')).toBe('+923001234567')
+  })
+
+  it('keeps international numbers that include their country code', () => {
+    expect(AuthService.normalizePhone('+44 7911 123456')).toBe('+447911123456')
+  })
+
+  it('rejects anything that is not a mobile number', () => {
+    expect(AuthService.normalizePhone('')).toBeNull()
+    expect(AuthService.normalizePhone('0300123456')).toBeNull()
+    expect(AuthService.normalizePhone('04212345678')).toBeNull()
+    expect(AuthService.normalizePhone('7911 123456')).toBeNull()
+    expect(AuthService.normalizePhone('+0 300 1234567')).toBeNull()
+    expect(AuthService.normalizePhone('call me')).toBeNull()
+  })
+})
@@ -1,5 +1,9 @@
+import type { User } from '@supabase/supabase-js'
 import { supabase } from '../lib/supabase'
 import type { UserProfile } from '../lib/supabase'
+import { StorageService } from './storageService'
+import { createOtpProvider } from './otpProvider'
+import type { OtpDelivery } from './otpProvider'
 
 export interface SignUpData {
   email: string
@@ -16,60 +20,39 @@ export interface SignInData {
   password: string
 }
 
+// What an emailed auth link put in the address bar
+export interface AuthLink {
+  // Set when the email template links straight to the app with {{ .TokenHash }}
+  tokenHash: string | null
+  type: string | null
+  // Supabase's default templates sign the student in on the way, arriving with ?code= (or #access_token=)
+  hasSession: boolean
+  error: string | null
+}
+
+// Where confirmation emails send the student back to
+const emailCallbackUrl = () => `${window.location.origin}/auth/callback`
+
 export class AuthService {
+  private static otpProvider = createOtpProvider()
+
   // Upload profile picture to Supabase storage
   static async uploadProfilePicture(userId: string, file: File): Promise<string> {
     try {
-      const fileExt = file.name.split('.').pop()
-      const fileName = `${userId}-${Date.now()}.${fileExt}`
-      const filePath = `${userId}/${fileName}` // Store in user-specific folder
-
-      // Upload file to Supabase storage
-      const { data, error } = await supabase.storage
-        .from('profile-pictures')
-        .upload(filePath, file, {
-          cacheControl: '3600',
-          upsert: true
-        })
-
-      if (error) {
-        console.error('Storage upload error:', error)
-        throw new Error('Failed to upload profile picture')
-      }
-
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('profile-pictures')
-        .getPublicUrl(filePath)
-
-      return publicUrl
+      const { url } = await StorageService.uploadUserFile('profile-pictures', userId, file, { upsert: true })
+      return url
     } catch (error) {
       console.error('Profile picture upload error:', error)
-      throw error
+      throw new Error('Failed to upload profile picture')
     }
   }
 
   // Delete old profile picture from storage
   static async deleteProfilePicture(url: string): Promise<void> {
-    try {
-      // Extract file path from URL
-      const urlParts = url.split('/profile-pictures/')
-      if (urlParts.length < 2) return
-
-      const filePath = urlParts[1]
+    const filePath = StorageService.pathFromPublicUrl('profile-pictures', url)
+    if (!filePath) return
 
-      const { error } = await supabase.storage
-        .from('profile-pictures')
-        .remove([filePath])
-
-      if (error) {
-        console.error('Storage delete error:', error)
-        // Don't throw error for delete failures - it's not critical
-      }
-    } catch (error) {
-      console.error('Profile picture delete error:', error)
-      // Don't throw error for delete failures
-    }
+    await StorageService.removeFiles('profile-pictures', [filePath])
   }
 
   // Sign up new user with enhanced error handling
@@ -80,6 +63,7 @@ export class AuthService {
         email: data.email,
         password: data.password,
         options: {
+          emailRedirectTo: emailCallbackUrl(),
           data: {
             first_name: data.firstName,
             last_name: data.lastName,
@@ -134,7 +118,13 @@ export class AuthService {
         throw new Error(`Signup failed: ${authError.message}\n\nIf this persists, your Supabase project may need attention. Check https://supabase.com/dashboard`)
       }
 
-      if (authData.user) {
+      // With email confirmation on, Supabase hides whether the address is taken by returning a user with no identities
+      if (authData.user && !authData.session && authData.user.identities?.length === 0) {
+        throw new Error('An account with this email already exists. Please sign in instead.')
+      }
+
+      // Until the email is confirmed there is no session to write with, so the database trigger creates the profile
+      if (authData.user && authData.session) {
         // Create user profile - this will be handled by database trigger if set up
         try {
           const { error: profileError } = await supabase
@@ -158,7 +148,12 @@ export class AuthService {
         }
       }
 
-      return { user: authData.user, session: authData.session }
+      return {
+        user: authData.user,
+        session: authData.session,
+        // Signed up, but not signed in until the link in the confirmation email is opened
+        needsEmailConfirmation: !!authData.user && !authData.session
+      }
     } catch (error) {
       console.error('Sign up error:', error)
       throw error
@@ -185,8 +180,10 @@ export class AuthService {
         if (error.message.includes('Invalid login credentials')) {
           throw new Error('Invalid email or password. Please check your credentials and try again.')
         }
-        if (error.message.includes('Email not confirmed')) {
-          throw new Error('Please check your email and click the confirmation link before signing in.')
+        if (error.code === 'email_not_confirmed' || error.message.includes('Email not confirmed')) {
+          const notConfirmedError = new Error('Please check your email and click the confirmation link before signing in.')
+          notConfirmedError.name = 'EmailNotConfirmedError'
+          throw notConfirmedError
         }
         if (error.message.includes('Too many requests')) {
           throw new Error('Too many login attempts. Please wait a few minutes before trying again.')
@@ -205,6 +202,74 @@ export class AuthService {
     }
   }
 
+  // Send the student to Google; Supabase brings them back to the login page signed in
+  static async signInWithGoogle() {
+    try {
+      const { error } = await supabase.auth.signInWithOAuth({
+        provider: 'google',
+        options: {
+          redirectTo: `${window.location.origin}/login`,
+        }
+      })
+
+      if (error) {
+        if (error.message.includes('not enabled') || error.message.includes('Unsupported provider')) {
+          throw new Error('Google sign-in isn\'t available right now. Please use your email or phone number.')
+        }
+        if (error.message.includes('not configured')) {
+          throw new Error('Authentication service is not configured. Please set up your Supabase credentials.')
+        }
+        throw new Error(error.message)
+      }
+    } catch (error) {
+      console.error('Google sign in error:', error)
+      throw error
+    }
+  }
+
+  // Turn a number as students type it (0300 1234567, 300-1234567, +92 300 1234567) into +923001234567;
+  // numbers from other countries must include their country code. Returns null if it isn't a mobile number
+  static normalizePhone(input: string): string | null {
+    const compact = input.replace(/[\s()-]/g, '')
+    const pakistani = compact.match(/^(?:\+?92|0)?(3\d{9})$/)
+    if (pakistani) return `+92${pakistani[1]}`
+    return /^\+[1-9]\d{7,14}$/.test(compact) ? compact : null
+  }
+
+  // Text a one-time sign-in code; new numbers get an account when the code is verified
+  static async sendPhoneCode(phone: string): Promise<OtpDelivery> {
+    try {
+      return await this.otpProvider.sendCode(phone)
+    } catch (error) {
+      console.error('Send phone code error:', error)
+      const message = error instanceof Error ? error.message : ''
+      if (message.includes('rate limit') || message.includes('security purposes')) {
+        throw new Error('Please wait a minute before asking for another code.')
+      }
+      if (message.includes('Unsupported phone provider') || message.includes('disabled') || message.includes('not configured')) {
+        throw new Error('Phone sign-in isn\'t available right now. Please use your email or Google.')
+      }
+      if (message.includes('Invalid phone')) {
+        throw new Error('Please enter a valid mobile number.')
+      }
+      throw new Error(message || 'Failed to send the code')
+    }
+  }
+
+  // Sign in with the code texted to the student's phone
+  static async verifyPhoneCode(phone: string, code: string) {
+    try {
+      await this.otpProvider.verifyCode(phone, code)
+    } catch (error) {
+      console.error('Verify phone code error:', error)
+      const message = error instanceof Error ? error.message : ''
+      if (message.includes('expired or is invalid')) {
+        throw new Error('That code is wrong or has expired. Check the message or ask for a new code.')
+      }
+      throw new Error(message || 'Failed to verify the code')
+    }
+  }
+
   // Sign out user
   static async signOut() {
     try {
@@ -437,6 +502,151 @@ export class AuthService {
     }
   }
 
+  // Send the sign-up confirmation email again
+  static async resendConfirmationEmail(email: string) {
+    try {
+      const { error } = await supabase.auth.resend({
+        type: 'signup',
+        email,
+        options: {
+          emailRedirectTo: emailCallbackUrl(),
+        }
+      })
+
+      if (error) {
+        if (error.message.includes('Failed to fetch') || error.message.includes('NetworkError')) {
+          throw new Error('🚨 Cannot connect to authentication service.\n\nYour Supabase project may be paused.\nCheck https://supabase.com for your project status.')
+        }
+        if (error.status === 429 || error.message.includes('rate limit') || error.message.includes('security purposes')) {
+          throw new Error('Please wait a minute before asking for another email.')
+        }
+        throw new Error(error.message)
+      }
+    } catch (error) {
+      console.error('Resend confirmation email error:', error)
+      throw error
+    }
+  }
+
+  // Confirm the email address with the one-time token from the confirmation email, which signs the student in
+  static async verifyEmailToken(tokenHash: string) {
+    try {
+      const { data, error } = await supabase.auth.verifyOtp({ token_hash: tokenHash, type: 'email' })
+
+      if (error) {
+        if (error.message.includes('expired') || error.message.includes('invalid')) {
+          throw new Error('This confirmation link has expired or was already used.')
+        }
+        throw new Error(error.message)
+      }
+      return data.session
+    } catch (error) {
+      console.error('Verify email token error:', error)
+      throw error
+    }
+  }
+
+  // Read the parameters an emailed link arrived with; call this on first render, before Supabase clears them
+  static readAuthLink(location: Pick<Location, 'search' | 'hash'>): AuthLink {
+    const query = new URLSearchParams(location.search)
+    const hash = new URLSearchParams(location.hash.replace(/^#/, ''))
+    return {
+      tokenHash: query.get('token_hash'),
+      type: query.get('type') || hash.get('type'),
+      hasSession: query.has('code') || hash.has('access_token'),
+      error: query.get('error_description') || hash.get('error_description')
+    }
+  }
+
+  // Sign in with the one-time token from a password reset email, so the student can choose a new password
+  static async verifyRecoveryToken(tokenHash: string) {
+    try {
+      const { data, error } = await supabase.auth.verifyOtp({ token_hash: tokenHash, type: 'recovery' })
+
+      if (error) {
+        if (error.message.includes('expired') || error.message.includes('invalid')) {
+          throw new Error('This reset link has expired or was already used. Please request a new one.')
+        }
+        throw new Error(error.message)
+      }
+      return data.session
+    } catch (error) {
+      console.error('Verify recovery token error:', error)
+      throw error
+    }
+  }
+
+  // Get the current session, waiting for any sign-in link in the address bar to be processed first
+  static async getSession() {
+    const { data: { session }, error } = await supabase.auth.getSession()
+    if (error) {
+      console.error('Get session error:', error)
+      return null
+    }
+    return session
+  }
+
+  // Set a new password for the signed-in user
+  static async updatePassword(newPassword: string) {
+    try {
+      const { error } = await supabase.auth.updateUser({ password: newPassword })
+
+      if (error) {
+        if (error.message.includes('different from the old password')) {
+          throw new Error('Your new password must be different from your current one.')
+        }
+        if (error.message.includes('Password should')) {
+          throw new Error('That password is too weak. Please choose a stronger one.')
+        }
+        if (error.message.includes('session')) {
+          throw new Error('Your session has expired. Please request a new reset link.')
+        }
+        throw new Error(error.message)
+      }
+    } catch (error) {
+      console.error('Update password error:', error)
+      throw error
+    }
+  }
+
+  // Sign out every other device, e.g. after the password changes
+  static async signOutOtherSessions() {
+    const { error } = await supabase.auth.signOut({ scope: 'others' })
+    if (error) {
+      // The password has already changed; old sessions expire on their own
+      console.error('Sign out other sessions error:', error)
+    }
+  }
+
+  // Whether the student has a password to change; Google and phone accounts sign in without one
+  static hasPassword(user: User): boolean {
+    const providers: string[] = user.app_metadata.providers ?? [user.app_metadata.provider]
+    return !!user.email && providers.includes('email')
+  }
+
+  // Change the password after confirming the current one, then sign out everywhere else
+  static async changePassword(email: string, currentPassword: string, newPassword: string) {
+    if (currentPassword === newPassword) {
+      throw new Error('Your new password must be different from your current one.')
+    }
+
+    // Signing in again is how Supabase confirms the current password
+    const { error: verifyError } = await supabase.auth.signInWithPassword({ email, password: currentPassword })
+    if (verifyError) {
+      console.error('Verify current password error:', verifyError)
+      if (verifyError.message.includes('Invalid login credentials')) {
+        throw new Error('Your current password is incorrect.')
+      }
+      if (verifyError.message.includes('Too many requests')) {
+        throw new Error('Too many attempts. Please wait a few minutes before trying again.')
+      }
+      throw new Error(verifyError.message)
+    }
+
+    await this.updatePassword(newPassword)
+    await this.signOutOtherSessions()
+  }
+
   // Listen to auth state changes
   static onAuthStateChange(callback: (event: string, session: any) => void) {
     return supabase.auth.onAuthStateChange(callback)
@@ -0,0 +1,155 @@
+import { supabase, isUsingMockClient } from '../lib/supabase'
+import type { CurriculumChapter, CurriculumLesson, CurriculumSubject, CurriculumTopic } from '../lib/supabase'
+
+// Used for subjects the catalogue doesn't cover yet, so progress still has a denominator
+export const DEFAULT_TOTAL_TOPICS = 15
+
+export interface CurriculumChapterWithTopics extends CurriculumChapter {
+  topics: CurriculumTopic[]
+}
+
+export interface CurriculumSyllabus extends CurriculumSubject {
+  chapters: CurriculumChapterWithTopics[]
+}
+
+export class CurriculumService {
+  // Syllabi per grade; the catalogue only changes when the seed loader runs
+  private static cache = new Map<string, CurriculumSyllabus[]>()
+
+  // Check if we can safely make database calls
+  private static canMakeDbCalls(): boolean {
+    if (isUsingMockClient) {
+      console.warn('CurriculumService: Using mock client, the curriculum catalogue is unavailable')
+      return false
+    }
+    return true
+  }
+
+  // Group subjects carry labels like "English (Compulsory)" that the catalogue doesn't use
+  static normalizeSubject(subject: string): string {
+    const base = subject.replace(/\s*\(.*?\)\s*$/, '').trim()
+    return base === 'Islamiat' ? 'Islamiyat' : base
+  }
+
+  // Get every syllabus for a grade, with chapters and topics in order
+  static async getSyllabi(grade: string): Promise<CurriculumSyllabus[]> {
+    if (!this.canMakeDbCalls()) return []
+
+    const cached = this.cache.get(grade)
+    if (cached) return cached
+
+    try {
+      const { data, error } = await supabase
+        .from('curriculum_subjects')
+        .select('*, chapters:curriculum_chapters(*, topics:curriculum_topics(*))')
+        .eq('grade', grade)
+
+      if (error) throw error
+
+      const syllabi = ((data || []) as CurriculumSyllabus[]).map(syllabus => ({
+        ...syllabus,
+        chapters: [...(syllabus.chapters || [])]
+          .sort((a, b) => a.position - b.position)
+          .map(chapter => ({
+            ...chapter,
+            topics: [...(chapter.topics || [])].sort((a, b) => a.position - b.position)
+          }))
+      }))
+
+      this.cache.set(grade, syllabi)
+      return syllabi
+    } catch (error) {
+      console.error('Error fetching curriculum:', error)
+      if (error instanceof Error && error.message.includes('relation') && error.message.includes('does not exist')) {
+        throw new Error('The curriculum is not set up yet. Please run the database migrations.')
+      }
+      throw new Error('Failed to load the curriculum')
+    }
+  }
+
+  // Get the most specific syllabus for a subject: board and group matches beat grade-wide ones
+  static async getSubject(
+    subject: string,
+    grade: string,
+    board?: string,
+    subjectGroup?: string
+  ): Promise<CurriculumSyllabus | null> {
+    const name = this.normalizeSubject(subject)
+    const candidates = (await this.getSyllabi(grade)).filter(syllabus =>
+      syllabus.subject === name &&
+      (!syllabus.board || syllabus.board === board) &&
+      (!syllabus.subject_group || syllabus.subject_group === subjectGroup)
+    )
+
+    const specificity = (syllabus: CurriculumSyllabus) =>
+      (syllabus.board ? 1 : 0) + (syllabus.subject_group ? 1 : 0)
+
+    return candidates.sort((a, b) => specificity(b) - specificity(a))[0] || null
+  }
+
+  // Get the topic titles for a subject in syllabus order, without repeats across chapters
+  static async getTopics(
+    subject: string,
+    grade: string,
+    board?: string,
+    subjectGroup?: string
+  ): Promise<string[]> {
+    const syllabus = await this.getSubject(subject, grade, board, subjectGroup)
+    if (!syllabus) return []
+
+    const titles = syllabus.chapters.flatMap(chapter => chapter.topics.map(topic => topic.title))
+    return Array.from(new Set(titles))
+  }
+
+  // Get the number of topics used as total_topics in subject_progress
+  static async getTotalTopics(
+    subject: string,
+    grade: string,
+    board?: string,
+    subjectGroup?: string
+  ): Promise<number> {
+    try {
+      const syllabus = await this.getSubject(subject, grade, board, subjectGroup)
+      const count = syllabus?.chapters.reduce((sum, chapter) => sum + chapter.topics.length, 0) || 0
+      return count > 0 ? count : DEFAULT_TOTAL_TOPICS
+    } catch (error) {
+      console.error('Error counting curriculum topics:', error)
+      return DEFAULT_TOTAL_TOPICS
+    }
+  }
+
+  // Get which of these topics have a lesson written for them
+  static async getLessonTopicIds(topicIds: string[]): Promise<Set<string>> {
+    if (!this.canMakeDbCalls() || topicIds.length === 0) return new Set()
+
+    const { data, error } = await supabase
+      .from('curriculum_lessons')
+      .select('topic_id')
+      .in('topic_id', topicIds)
+
+    if (error) throw error
+    return new Set((data || []).map((row: { topic_id: string }) => row.topic_id))
+  }
+
+  // Get the lesson for a topic, if one has been written
+  static async getLesson(topicId: string): Promise<CurriculumLesson | null> {
+    if (!this.canMakeDbCalls()) return null
+
+    try {
+      const { data, error } = await supabase
+        .from('curriculum_lessons')
+        .select('*')
+        .eq('topic_id', topicId)
+        .maybeSingle()
+
+      if (error) throw error
+      return data
+    } catch (error) {
+      console.error('Error fetching lesson:', error)
+      if (error instanceof Error && error.message.includes('relation') && error.message.includes('does not exist')) {
+        throw new Error('Lessons are not set up yet. Please run the database migrations.')
+      }
+      throw new Error('Failed to load the lesson')
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { supabase } from '../lib/supabase'
-import type { UserProfile } from '../lib/supabase'
+import type { SubjectProgress, UserProfile } from '../lib/supabase'
+import { CurriculumService } from './curriculumService'
 
 export interface UserDatabase {
   id: string
@@ -30,6 +31,7 @@ export class DatabaseService {
           database_name: databaseName,
           grade: profile.grade,
           board: profile.board || null,
+          subject_group: profile.subject_group || null,
           subjects: subjects
         })
         .select()
@@ -41,7 +43,7 @@ export class DatabaseService {
       }
 
       // Initialize subject-specific tables and data
-      await this.initializeSubjectTables(userId, subjects, profile.grade, profile.board)
+      await this.initializeSubjectTables(userId, subjects, profile.grade, profile.board, profile.subject_group)
       
       return data
     } catch (error) {
@@ -134,18 +136,19 @@ export class DatabaseService {
     userId: string, 
     subjects: string[], 
     grade: string, 
-    board?: string
+    board?: string,
+    subjectGroup?: string
   ): Promise<void> {
     try {
-      // Create subject progress entries
-      const subjectProgressData = subjects.map(subject => ({
+      // Create subject progress entries, sized from the curriculum catalogue
+      const subjectProgressData = await Promise.all(subjects.map(async subject => ({
         user_id: userId,
         subject_name: subject,
         progress_percentage: 0,
         completed_topics: 0,
-        total_topics: this.getTotalTopicsForSubject(subject, grade),
+        total_topics: await CurriculumService.getTotalTopics(subject, grade, board, subjectGroup),
         last_accessed: new Date().toISOString()
-      }))
+      })))
 
       const { error: progressError } = await supabase
         .from('subject_progress')
@@ -155,9 +158,6 @@ export class DatabaseService {
         console.error('Error creating subject progress:', progressError)
       }
 
-      // Create curriculum-specific content entries
-      await this.createCurriculumContent(userId, subjects, grade, board)
-      
       // Initialize user progress stats
       const { error: statsError } = await supabase
         .from('user_progress_stats')
@@ -183,134 +183,6 @@ export class DatabaseService {
     }
   }
 
-  // Get total topics for a subject based on grade
-  private static getTotalTopicsForSubject(subject: string, grade: string): number {
-    const topicCounts: { [key: string]: { [key: string]: number } } = {
-      'Mathematics': {
-        'Class 9 (Metric)': 15,
-        'Class 10 (Metric)': 18,
-        'Class 11 (FSc)': 20,
-        'Class 12 (FSc)': 22,
-        'O-levels': 16,
-        'A-Levels': 25,
-        'ECAT': 30
-      },
-      'Physics': {
-        'Class 9 (Metric)': 12,
-        'Class 10 (Metric)': 15,
-        'Class 11 (FSc)': 18,
-        'Class 12 (FSc)': 20,
-        'O-levels': 14,
-        'A-Levels': 22,
-        'MDCAT': 25,
-        'ECAT': 28
-      },
-      'Chemistry': {
-        'Class 9 (Metric)': 10,
-        'Class 10 (Metric)': 12,
-        'Class 11 (FSc)': 16,
-        'Class 12 (FSc)': 18,
-        'O-levels': 12,
-        'A-Levels': 20,
-        'MDCAT': 22,
-        'ECAT': 20
-      },
-      'Biology': {
-        'Class 9 (Metric)': 8,
-        'Class 10 (Metric)': 10,
-        'Class 11 (FSc)': 14,
-        'Class 12 (FSc)': 16,
-        'O-levels': 10,
-        'A-Levels': 18,
-        'MDCAT': 30
-      }
-    }
-
-    return topicCounts[subject]?.[grade] || 15 // Default to 15 topics
-  }
-
-  // Create curriculum-specific content
-  private static async createCurriculumContent(
-    userId: string,
-    subjects: string[],
-    grade: string,
-    board?: string
-  ): Promise<void> {
-    try {
-      // Create curriculum content entries for each subject
-      const curriculumData = subjects.map(subject => ({
-        user_id: userId,
-        subject: subject,
-        grade: grade,
-        board: board || null,
-        content_type: 'curriculum',
-        topics: this.getTopicsForSubject(subject, grade, board),
-        created_at: new Date().toISOString()
-      }))
-
-      // Note: This would require a curriculum_content table
-      // For now, we'll just log the structure
-      console.log('Curriculum content structure created for user:', userId, curriculumData)
-
-    } catch (error) {
-      console.error('Error creating curriculum content:', error)
-    }
-  }
-
-  // Get topics for a specific subject, grade, and board
-  private static getTopicsForSubject(subject: string, grade: string, board?: string): string[] {
-    // This is a simplified example - in a real application, 
-    // you'd have a comprehensive curriculum database
-    const topicMaps: { [key: string]: { [key: string]: string[] } } = {
-      'Mathematics': {
-        'Class 9 (Metric)': [
-          'Real Numbers',
-          'Polynomials',
-          'Linear Equations',
-          'Coordinate Geometry',
-          'Triangles',
-          'Quadrilaterals',
-          'Circles',
-          'Constructions',
-          'Heron\'s Formula',
-          'Surface Areas and Volumes',
-          'Statistics',
-          'Probability'
-        ],
-        'Class 10 (Metric)': [
-          'Real Numbers',
-          'Polynomials',
-          'Pair of Linear Equations',
-          'Quadratic Equations',
-          'Arithmetic Progressions',
-          'Triangles',
-          'Coordinate Geometry',
-          'Trigonometry',
-          'Circles',
-          'Areas Related to Circles',
-          'Surface Areas and Volumes',
-          'Statistics',
-          'Probability'
-        ]
-      },
-      'Physics': {
-        'Class 9 (Metric)': [
-          'Physical Quantities and Measurement',
-          'Kinematics',
-          'Dynamics',
-          'Turning Effect of Forces',
-          'Gravitation',
-          'Work and Energy',
-          'Properties of Matter',
-          'Thermal Properties of Matter',
-          'Transfer of Heat'
-        ]
-      }
-    }
-
-    return topicMaps[subject]?.[grade] || [`${subject} Topic 1`, `${subject} Topic 2`, `${subject} Topic 3`]
-  }
-
   // Get user database information
   static async getUserDatabase(userId: string): Promise<UserDatabase | null> {
     try {
@@ -340,7 +212,7 @@ export class DatabaseService {
     try {
       const subjects = this.getSubjectsForGrade(profile.grade, profile.board)
       
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('user_databases')
         .update({
           grade: profile.grade,
@@ -349,13 +221,16 @@ export class DatabaseService {
           updated_at: new Date().toISOString()
         })
         .eq('user_id', userId)
+        .select('subject_group')
+        .maybeSingle()
 
       if (error) {
         throw error
       }
 
-      // Update subject progress to match new grade/board
-      await this.updateSubjectProgress(userId, subjects, profile.grade)
+      // Update subject progress to match new grade/board, sized for the student's subject group
+      // the same way sync_subject_topic_totals() does
+      await this.updateSubjectProgress(userId, subjects, profile.grade, profile.board, data?.subject_group || profile.subject_group)
 
     } catch (error) {
       console.error('Error updating user database:', error)
@@ -367,7 +242,9 @@ export class DatabaseService {
   private static async updateSubjectProgress(
     userId: string,
     subjects: string[],
-    grade: string
+    grade: string,
+    board?: string,
+    subjectGroup?: string
   ): Promise<void> {
     try {
       // Remove subjects that are no longer relevant
@@ -381,14 +258,27 @@ export class DatabaseService {
         console.error('Error removing old subjects:', deleteError)
       }
 
-      // Add new subjects
-      const subjectProgressData = subjects.map(subject => ({
-        user_id: userId,
-        subject_name: subject,
-        progress_percentage: 0,
-        completed_topics: 0,
-        total_topics: this.getTotalTopicsForSubject(subject, grade),
-        last_accessed: new Date().toISOString()
+      const { data: existing, error: existingError } = await supabase
+        .from('subject_progress')
+        .select('subject_name, completed_topics, last_accessed')
+        .eq('user_id', userId)
+
+      if (existingError) throw existingError
+
+      // Add new subjects and resize the ones the student keeps, without losing their progress
+      const subjectProgressData = await Promise.all(subjects.map(async subject => {
+        const kept = (existing || []).find((row: Pick<SubjectProgress, 'subject_name'>) => row.subject_name === subject)
+        const completedTopics = kept?.completed_topics || 0
+        const totalTopics = await CurriculumService.getTotalTopics(subject, grade, board, subjectGroup)
+
+        return {
+          user_id: userId,
+          subject_name: subject,
+          progress_percentage: Math.min(100, Math.round(completedTopics * 100 / totalTopics)),
+          completed_topics: completedTopics,
+          total_topics: totalTopics,
+          last_accessed: kept?.last_accessed || new Date().toISOString()
+        }
       }))
 
       const { error: upsertError } = await supabase
@@ -0,0 +1,171 @@
+import { supabase, isUsingMockClient } from '../lib/supabase'
+import type { Flashcard, FlashcardDeck, FlashcardProgress } from '../lib/supabase'
+import { newCardSchedule, scheduleReview, toDateString } from '../lib/spacedRepetition'
+import type { ReviewRating } from '../lib/spacedRepetition'
+
+// New cards introduced per deck each day, on top of the cards already due
+export const NEW_CARDS_PER_DAY = 10
+
+export interface DeckSummary extends FlashcardDeck {
+  card_count: number
+  due_count: number
+  new_count: number
+  // True once the student has reviewed at least one card, so the deck feeds their daily queue
+  started: boolean
+}
+
+export interface ReviewCard {
+  card: Flashcard
+  deck: Pick<FlashcardDeck, 'id' | 'title' | 'subject' | 'topic'>
+  progress: FlashcardProgress | null
+}
+
+interface DeckWithCards extends FlashcardDeck {
+  cards: Flashcard[]
+}
+
+export class FlashcardService {
+  // Check if we can safely make database calls
+  private static canMakeDbCalls(): boolean {
+    if (isUsingMockClient) {
+      console.warn('FlashcardService: Using mock client, flashcards are unavailable')
+      return false
+    }
+    return true
+  }
+
+  private static async getDecksWithCards(grade?: string): Promise<DeckWithCards[]> {
+    const { data, error } = await supabase
+      .from('flashcard_decks')
+      .select('*, cards:flashcards(*)')
+      .eq('is_published', true)
+      .order('subject')
+      .order('title')
+
+    if (error) {
+      if (error.message.includes('relation "flashcard_decks" does not exist')) {
+        throw new Error('Flashcard tables not found. Please run the database migrations.')
+      }
+      throw error
+    }
+
+    return (data || [])
+      .filter((deck: DeckWithCards) => !deck.grade || deck.grade === grade)
+      .map((deck: DeckWithCards) => ({ ...deck, cards: [...deck.cards].sort((a, b) => a.position - b.position) }))
+  }
+
+  private static async getProgress(userId: string): Promise<FlashcardProgress[]> {
+    const { data, error } = await supabase
+      .from('flashcard_progress')
+      .select('*')
+      .eq('user_id', userId)
+
+    if (error) throw error
+    return data || []
+  }
+
+  // New cards the deck can still introduce today; a card's progress row is created on its first review
+  private static newCardsLeftToday(deckProgress: FlashcardProgress[], today: string): number {
+    const introducedToday = deckProgress.filter(entry => toDateString(new Date(entry.created_at)) === today).length
+    return Math.max(0, NEW_CARDS_PER_DAY - introducedToday)
+  }
+
+  // All published decks for the student's grade, with how many cards are due or new today
+  static async getDecks(userId: string, grade?: string): Promise<DeckSummary[]> {
+    if (!this.canMakeDbCalls()) return []
+
+    try {
+      const [decks, progress] = await Promise.all([this.getDecksWithCards(grade), this.getProgress(userId)])
+      const today = toDateString(new Date())
+
+      return decks.map(({ cards, ...deck }) => {
+        const deckProgress = progress.filter(entry => entry.deck_id === deck.id)
+        const reviewed = new Set(deckProgress.map(entry => entry.card_id))
+
+        return {
+          ...deck,
+          card_count: cards.length,
+          due_count: deckProgress.filter(entry => entry.due_date <= today).length,
+          new_count: Math.min(
+            this.newCardsLeftToday(deckProgress, today),
+            cards.filter(card => !reviewed.has(card.id)).length
+          ),
+          started: deckProgress.length > 0
+        }
+      })
+    } catch (error) {
+      console.error('Error fetching flashcard decks:', error)
+      throw error
+    }
+  }
+
+  // Today's review queue: every due card, then a few new cards from each deck.
+  // Without a deck, only decks the student has started are included.
+  static async getReviewQueue(userId: string, options: { grade?: string; deckId?: string } = {}): Promise<ReviewCard[]> {
+    if (!this.canMakeDbCalls()) return []
+
+    const { grade, deckId } = options
+
+    try {
+      const [decks, progress] = await Promise.all([this.getDecksWithCards(grade), this.getProgress(userId)])
+      const today = toDateString(new Date())
+      const progressByCard = new Map(progress.map(entry => [entry.card_id, entry]))
+      const startedDecks = new Set(progress.map(entry => entry.deck_id))
+
+      const queueDecks = decks.filter(deck => deckId ? deck.id === deckId : startedDecks.has(deck.id))
+      const due: ReviewCard[] = []
+      const fresh: ReviewCard[] = []
+
+      queueDecks.forEach(({ cards, ...deck }) => {
+        const deckInfo = { id: deck.id, title: deck.title, subject: deck.subject, topic: deck.topic }
+
+        cards.forEach(card => {
+          const cardProgress = progressByCard.get(card.id)
+          if (cardProgress && cardProgress.due_date <= today) {
+            due.push({ card, deck: deckInfo, progress: cardProgress })
+          }
+        })
+
+        const newCardsLeft = this.newCardsLeftToday(progress.filter(entry => entry.deck_id === deck.id), today)
+
+        cards
+          .filter(card => !progressByCard.has(card.id))
+          .slice(0, newCardsLeft)
+          .forEach(card => fresh.push({ card, deck: deckInfo, progress: null }))
+      })
+
+      // Most overdue first
+      due.sort((a, b) => a.progress!.due_date.localeCompare(b.progress!.due_date))
+
+      return [...due, ...fresh]
+    } catch (error) {
+      console.error('Error building flashcard queue:', error)
+      throw new Error('Failed to load your flashcard reviews')
+    }
+  }
+
+  // Save how well the student recalled a card and schedule its next review
+  static async recordReview(userId: string, item: ReviewCard, rating: ReviewRating): Promise<FlashcardProgress> {
+    const schedule = scheduleReview(item.progress || newCardSchedule(), rating)
+
+    try {
+      const { data, error } = await supabase
+        .from('flashcard_progress')
+        .upsert({
+          user_id: userId,
+          card_id: item.card.id,
+          deck_id: item.deck.id,
+          ...schedule,
+          last_reviewed_at: new Date().toISOString()
+        }, { onConflict: 'user_id,card_id' })
+        .select()
+        .single()
+
+      if (error) throw error
+      return data
+    } catch (error) {
+      console.error('Error recording flashcard review:', error)
+      throw new Error('Failed to save your review')
+    }
+  }
+}
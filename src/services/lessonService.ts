@@ -0,0 +1,72 @@
+import type { CurriculumLesson, UserProfile } from '../lib/supabase'
+import { CurriculumService } from './curriculumService'
+import { TopicProgressService } from './topicProgressService'
+import type { ChecklistTopic } from './topicProgressService'
+
+export interface LessonDetails {
+  // The subject as the student's own subject list names it
+  subject: string
+  chapterTitle: string
+  topic: ChecklistTopic
+  lesson: CurriculumLesson | null
+  // The next topic in the syllabus that has a lesson, to carry on with
+  nextTopic: ChecklistTopic | null
+}
+
+export interface NextLesson {
+  subject: string
+  topic: string
+}
+
+const isDone = (topic: ChecklistTopic) => topic.status === 'completed' || topic.status === 'mastered'
+
+export class LessonService {
+  // Get a topic's lesson along with where it sits in the syllabus and the student's status on it
+  static async getLesson(
+    userId: string,
+    subject: string,
+    topicTitle: string,
+    profile: UserProfile | null
+  ): Promise<LessonDetails | null> {
+    const checklist = await TopicProgressService.getChecklist(userId, subject, profile)
+    if (!checklist) return null
+
+    const topics = checklist.chapters.flatMap(chapter =>
+      chapter.topics.map(topic => ({ topic, chapterTitle: chapter.title }))
+    )
+    const wanted = topicTitle.trim().toLowerCase()
+    const index = topics.findIndex(entry => entry.topic.title.toLowerCase() === wanted)
+    if (index === -1) return null
+
+    const { topic, chapterTitle } = topics[index]
+    const lesson = topic.hasLesson ? await CurriculumService.getLesson(topic.id) : null
+
+    return {
+      subject,
+      chapterTitle,
+      topic,
+      lesson,
+      nextTopic: topics.slice(index + 1).find(entry => entry.topic.hasLesson)?.topic || null
+    }
+  }
+
+  // Find the first lesson the student hasn't finished, checking their subjects in order
+  static async getNextLesson(
+    userId: string,
+    subjects: string[],
+    profile: UserProfile | null
+  ): Promise<NextLesson | null> {
+    for (const subject of subjects) {
+      try {
+        const checklist = await TopicProgressService.getChecklist(userId, subject, profile)
+        const topic = checklist?.chapters
+          .flatMap(chapter => chapter.topics)
+          .find(topic => topic.hasLesson && !isDone(topic))
+        if (topic) return { subject, topic: topic.title }
+      } catch (error) {
+        console.error(`Error finding the next ${subject} lesson:`, error)
+      }
+    }
+    return null
+  }
+}
@@ -0,0 +1,160 @@
+import { supabase, isUsingMockClient } from '../lib/supabase'
+import type { MaterialReview, ReviewFlagReason, StudyMaterial } from '../lib/supabase'
+
+export const MAX_REVIEW_LENGTH = 500
+
+export const reviewFlagLabels: { [reason in ReviewFlagReason]: string } = {
+  abusive: 'Abusive or rude',
+  spam: 'Spam or advertising',
+  off_topic: 'Not about this material'
+}
+
+export interface MaterialReviews {
+  reviews: MaterialReview[]
+  // The student's own review, shown in the form rather than the list
+  ownReview: MaterialReview | null
+  // Reviews the student has already reported
+  flaggedIds: Set<string>
+}
+
+export type RatingSummary = Pick<StudyMaterial, 'rating_average' | 'rating_count'>
+
+export class MaterialReviewService {
+  // Check if we can safely make database calls
+  private static canMakeDbCalls(): boolean {
+    if (isUsingMockClient) {
+      console.warn('MaterialReviewService: Using mock client, material reviews are unavailable')
+      return false
+    }
+    return true
+  }
+
+  // Get a material's visible reviews, newest first, along with what the student has written and reported
+  static async getReviews(userId: string, materialId: string): Promise<MaterialReviews> {
+    if (!this.canMakeDbCalls()) return { reviews: [], ownReview: null, flaggedIds: new Set() }
+
+    try {
+      const [reviewsResult, flagsResult] = await Promise.all([
+        supabase
+          .from('material_reviews')
+          .select('*')
+          .eq('material_id', materialId)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('material_review_flags')
+          .select('review_id')
+          .eq('user_id', userId)
+      ])
+
+      if (reviewsResult.error) {
+        if (reviewsResult.error.message.includes('relation "material_reviews" does not exist')) {
+          throw new Error('Material reviews table not found. Please run the database migrations.')
+        }
+        throw reviewsResult.error
+      }
+      if (flagsResult.error) throw flagsResult.error
+
+      const reviews: MaterialReview[] = reviewsResult.data || []
+      return {
+        reviews: reviews.filter(review => review.user_id !== userId),
+        ownReview: reviews.find(review => review.user_id === userId) || null,
+        flaggedIds: new Set((flagsResult.data || []).map((flag: { review_id: string }) => flag.review_id))
+      }
+    } catch (error) {
+      console.error('Error fetching material reviews:', error)
+      throw error
+    }
+  }
+
+  // Rate a material, or change the student's existing rating and review
+  static async saveReview(
+    userId: string,
+    materialId: string,
+    rating: number,
+    review: string,
+    existing: MaterialReview | null
+  ): Promise<MaterialReview> {
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+      throw new Error('Please choose a rating from 1 to 5 stars')
+    }
+    if (review.length > MAX_REVIEW_LENGTH) {
+      throw new Error(`Reviews can be at most ${MAX_REVIEW_LENGTH} characters`)
+    }
+    if (!this.canMakeDbCalls()) {
+      throw new Error('Rating materials needs a database connection')
+    }
+
+    try {
+      // Only the rating and text of a review can be changed, so an existing one is updated rather than upserted
+      const { data, error } = existing
+        ? await supabase
+          .from('material_reviews')
+          .update({ rating, review: review.trim() || null })
+          .eq('id', existing.id)
+          .select()
+          .single()
+        : await supabase
+          .from('material_reviews')
+          .insert({ material_id: materialId, user_id: userId, rating, review: review.trim() || null })
+          .select()
+          .single()
+
+      if (error) throw error
+      return data
+    } catch (error) {
+      console.error('Error saving material review:', error)
+      throw new Error('Failed to save your review')
+    }
+  }
+
+  // Remove the student's review and its rating
+  static async deleteReview(reviewId: string): Promise<void> {
+    if (!this.canMakeDbCalls()) return
+
+    try {
+      const { error } = await supabase
+        .from('material_reviews')
+        .delete()
+        .eq('id', reviewId)
+
+      if (error) throw error
+    } catch (error) {
+      console.error('Error deleting material review:', error)
+      throw new Error('Failed to delete your review')
+    }
+  }
+
+  // Report a review; it is hidden for everyone once enough students report it
+  static async flagReview(userId: string, reviewId: string, reason: ReviewFlagReason): Promise<void> {
+    if (!this.canMakeDbCalls()) return
+
+    try {
+      const { error } = await supabase
+        .from('material_review_flags')
+        .insert({ review_id: reviewId, user_id: userId, reason })
+
+      // Reporting twice is harmless; the first report already counts
+      if (error && error.code !== '23505') throw error
+    } catch (error) {
+      console.error('Error reporting material review:', error)
+      throw new Error('Failed to report the review')
+    }
+  }
+
+  // Read back a material's rating after the reviews trigger has recomputed it
+  static async getRatingSummary(materialId: string): Promise<RatingSummary | null> {
+    if (!this.canMakeDbCalls()) return null
+
+    const { data, error } = await supabase
+      .from('study_materials')
+      .select('rating_average, rating_count')
+      .eq('id', materialId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching material rating:', error)
+      return null
+    }
+    return data
+  }
+}
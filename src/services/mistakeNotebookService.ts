@@ -0,0 +1,117 @@
+import { supabase, isUsingMockClient } from '../lib/supabase'
+import type { MistakeEntry, Test } from '../lib/supabase'
+import { QUESTION_PROMPT_COLUMNS, withAnswerKey } from '../lib/questions'
+import type { Question, QuestionPrompt } from '../lib/questions'
+import { TestService } from './testService'
+
+// Correct answers in a row needed while drilling before a mistake counts as mastered
+export const MASTERY_STREAK = 2
+
+export interface NotebookEntry extends MistakeEntry {
+  question: Question
+  test: Pick<Test, 'title' | 'subject'>
+}
+
+export class MistakeNotebookService {
+  // Check if we can safely make database calls
+  private static canMakeDbCalls(): boolean {
+    if (isUsingMockClient) {
+      console.warn('MistakeNotebookService: Using mock client, the mistake notebook is unavailable')
+      return false
+    }
+    return true
+  }
+
+  // Get the student's notebook, most recently missed first
+  static async getEntries(userId: string, status: MistakeEntry['status'] = 'active'): Promise<NotebookEntry[]> {
+    if (!this.canMakeDbCalls()) return []
+
+    try {
+      const { data, error } = await supabase
+        .from('mistake_notebook')
+        .select(`*, question:questions(${QUESTION_PROMPT_COLUMNS}), test:tests(title, subject)`)
+        .eq('user_id', userId)
+        .eq('status', status)
+        .order('last_wrong_at', { ascending: false })
+
+      if (error) {
+        if (error.message.includes('relation "mistake_notebook" does not exist')) {
+          throw new Error('Mistake notebook table not found. Please run the database migrations.')
+        }
+        throw error
+      }
+
+      // Mistakes are filed from answered questions, so each one's answer key can be shown
+      const entries: (MistakeEntry & { question: QuestionPrompt; test: NotebookEntry['test'] })[] = data || []
+      const keys = await TestService.getAnswerKeys(entries.map(entry => entry.question_id))
+      return entries
+        .filter(entry => keys[entry.question_id])
+        .map(entry => ({ ...entry, question: withAnswerKey(entry.question, keys[entry.question_id]) }))
+    } catch (error) {
+      console.error('Error fetching mistake notebook:', error)
+      throw error
+    }
+  }
+
+  // Count mastered mistakes for the notebook summary
+  static async getMasteredCount(userId: string): Promise<number> {
+    if (!this.canMakeDbCalls()) return 0
+
+    try {
+      const { count, error } = await supabase
+        .from('mistake_notebook')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('status', 'mastered')
+
+      if (error) throw error
+      return count || 0
+    } catch (error) {
+      console.error('Error counting mastered mistakes:', error)
+      return 0
+    }
+  }
+
+  // Record a drill answer; enough correct answers in a row mark the mistake mastered
+  static async recordDrillResult(userId: string, entry: MistakeEntry, isCorrect: boolean): Promise<MistakeEntry> {
+    const drillStreak = isCorrect ? entry.drill_streak + 1 : 0
+
+    try {
+      const { data, error } = await supabase
+        .from('mistake_notebook')
+        .update({
+          drill_streak: drillStreak,
+          times_wrong: isCorrect ? entry.times_wrong : entry.times_wrong + 1,
+          status: drillStreak >= MASTERY_STREAK ? 'mastered' : 'active',
+          last_drilled_at: new Date().toISOString(),
+          ...(!isCorrect && { last_wrong_at: new Date().toISOString() })
+        })
+        .eq('id', entry.id)
+        .eq('user_id', userId)
+        .select()
+        .single()
+
+      if (error) throw error
+      return data
+    } catch (error) {
+      console.error('Error recording drill result:', error)
+      throw new Error('Failed to save your drill answer')
+    }
+  }
+
+  // Take a question out of the notebook
+  static async removeEntry(userId: string, entryId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('mistake_notebook')
+        .delete()
+        .eq('id', entryId)
+        .eq('user_id', userId)
+
+      if (error) throw error
+    } catch (error) {
+      console.error('Error removing mistake:', error)
+      throw new Error('Failed to remove the question from your notebook')
+    }
+  }
+}
@@ -0,0 +1,165 @@
+import { supabase, isUsingMockClient } from '../lib/supabase'
+import type { MockExamAttempt } from '../lib/supabase'
+import { QUESTION_PROMPT_COLUMNS } from '../lib/questions'
+import type { QuestionPrompt, QuestionResponse } from '../lib/questions'
+import { MOCK_EXAMS, planPaper } from '../lib/mockExams'
+import type { MockExamGrade, MockExamId, MockPaperSection } from '../lib/mockExams'
+
+export interface MockPaper {
+  exam: MockExamId
+  sections: MockPaperSection[]
+  missingSubjects: string[]
+  durationMinutes: number
+}
+
+export interface MockExamResult {
+  attempt: MockExamAttempt
+  grade: MockExamGrade
+  // null until enough other students have sat the same exam
+  percentile: number | null
+  comparedWith: number
+}
+
+const shuffle = <T>(items: T[]): T[] => {
+  const shuffled = [...items]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  return shuffled
+}
+
+export class MockExamService {
+  // Check if we can safely make database calls
+  private static canMakeDbCalls(): boolean {
+    if (isUsingMockClient) {
+      console.warn('MockExamService: Using mock client, mock exams are unavailable')
+      return false
+    }
+    return true
+  }
+
+  // Draw a random paper from the published question bank, following the exam's section weights
+  static async buildPaper(exam: MockExamId): Promise<MockPaper> {
+    const blueprint = MOCK_EXAMS[exam]
+    const subjects = blueprint.sections.map(section => section.subject)
+
+    if (!this.canMakeDbCalls()) {
+      return { exam, sections: [], missingSubjects: subjects, durationMinutes: 0 }
+    }
+
+    try {
+      // Entrance tests are all single-answer MCQs, so other question types are left out
+      const { data, error } = await supabase
+        .from('questions')
+        .select(`${QUESTION_PROMPT_COLUMNS}, test:tests!inner(subject, is_published)`)
+        .eq('question_type', 'mcq')
+        .eq('test.is_published', true)
+        .in('test.subject', subjects)
+
+      if (error) throw error
+
+      const bySubject: { [subject: string]: QuestionPrompt[] } = {}
+      ;(data || []).forEach((row: QuestionPrompt & { test: { subject: string } }) => {
+        const { test, ...question } = row
+        bySubject[test.subject] = [...(bySubject[test.subject] || []), question as QuestionPrompt]
+      })
+
+      const available = Object.fromEntries(
+        Object.entries(bySubject).map(([subject, questions]) => [subject, questions.length])
+      )
+      const plan = planPaper(blueprint, available)
+
+      return {
+        exam,
+        sections: plan.sections.map(section => ({
+          subject: section.subject,
+          questions: shuffle(bySubject[section.subject]).slice(0, section.questions)
+        })),
+        missingSubjects: plan.missingSubjects,
+        durationMinutes: plan.durationMinutes
+      }
+    } catch (error) {
+      console.error('Error building mock exam paper:', error)
+      throw new Error('Failed to prepare the mock exam')
+    }
+  }
+
+  // Record that the student has started a mock exam with the drawn paper
+  static async startAttempt(userId: string, paper: MockPaper): Promise<MockExamAttempt> {
+    try {
+      const { data, error } = await supabase
+        .from('mock_exam_attempts')
+        .insert({
+          user_id: userId,
+          exam: paper.exam,
+          paper: paper.sections.map(section => ({
+            subject: section.subject,
+            question_ids: section.questions.map(question => question.id)
+          }))
+        })
+        .select()
+        .single()
+
+      if (error) throw error
+      return data
+    } catch (error) {
+      console.error('Error starting mock exam:', error)
+      throw new Error('Failed to start the mock exam')
+    }
+  }
+
+  // Hand the answers in; the database scores the paper section by section and ranks it against past attempts
+  static async submitAttempt(
+    attemptId: string,
+    responses: { [questionId: string]: QuestionResponse }
+  ): Promise<MockExamResult> {
+    try {
+      const { data, error } = await supabase.rpc('submit_mock_exam_attempt', {
+        p_attempt_id: attemptId,
+        p_responses: responses
+      })
+
+      if (error) throw error
+
+      const attempt: MockExamAttempt = data.attempt
+
+      return {
+        attempt,
+        grade: {
+          sections: attempt.section_scores,
+          correctAnswers: attempt.correct_answers,
+          totalQuestions: attempt.total_questions,
+          marksObtained: attempt.marks_obtained,
+          totalMarks: attempt.total_marks,
+          score: attempt.score ?? 0
+        },
+        percentile: data.percentile ?? null,
+        comparedWith: data.compared_with ?? 0
+      }
+    } catch (error) {
+      console.error('Error submitting mock exam:', error)
+      throw new Error('Failed to submit the mock exam. Please check your connection and try again.')
+    }
+  }
+
+  // Get the student's submitted mock exams, newest first
+  static async getCompletedAttempts(userId: string): Promise<MockExamAttempt[]> {
+    if (!this.canMakeDbCalls()) return []
+
+    try {
+      const { data, error } = await supabase
+        .from('mock_exam_attempts')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('status', 'submitted')
+        .order('submitted_at', { ascending: false })
+
+      if (error) throw error
+      return data || []
+    } catch (error) {
+      console.error('Error fetching mock exam attempts:', error)
+      throw new Error('Failed to load your mock exams')
+    }
+  }
+}
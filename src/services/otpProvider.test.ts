@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { supabase } from '../lib/supabase'
+import { LocalOtpProvider } from './otpProvider'
+
+const phone = '+923001234567'
+const credentials = { email: 'phone-923001234567@example.com', password: 'local-otp-923001234567' }
+
+describe('LocalOtpProvider', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.spyOn(console, 'info').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('hands back a six-digit code instead of texting it', async () => {
+    const delivery = await new LocalOtpProvider().sendCode(phone)
+    expect(delivery.phone).toBe(phone)
+    expect(delivery.devCode).toMatch(/^\d{6}$/)
+  })
+
+  it('signs in to the account behind the number with the right code', async () => {
+    const signIn = vi.spyOn(supabase.auth, 'signInWithPassword').mockResolvedValue({ data: {}, error: null })
+    const signUp = vi.spyOn(supabase.auth, 'signUp')
+    const provider = new LocalOtpProvider()
+
+    const { devCode } = await provider.sendCode(phone)
+    await provider.verifyCode(phone, devCode!)
+
+    expect(signIn).toHaveBeenCalledWith(credentials)
+    expect(signUp).not.toHaveBeenCalled()
+  })
+
+  it('creates the account the first time a number signs in', async () => {
+    vi.spyOn(supabase.auth, 'signInWithPassword').mockResolvedValue({ data: {}, error: { message: 'Invalid login credentials' } })
+    const signUp = vi.spyOn(supabase.auth, 'signUp').mockResolvedValue({ data: { session: {} }, error: null })
+    const provider = new LocalOtpProvider()
+
+    const { devCode } = await provider.sendCode(phone)
+    await provider.verifyCode(phone, devCode!)
+
+    expect(signUp).toHaveBeenCalledWith({ ...credentials, options: { data: { phone } } })
+  })
+
+  it('rejects a wrong code', async () => {
+    const signIn = vi.spyOn(supabase.auth, 'signInWithPassword')
+    const provider = new LocalOtpProvider()
+
+    const { devCode } = await provider.sendCode(phone)
+    const wrongCode = devCode === '123456' ? '654321' : '123456'
+
+    await expect(provider.verifyCode(phone, wrongCode)).rejects.toThrow('Token has expired or is invalid')
+    expect(signIn).not.toHaveBeenCalled()
+  })
+
+  it('rejects a code once it has expired', async () => {
+    const provider = new LocalOtpProvider(60 * 1000)
+
+    const { devCode } = await provider.sendCode(phone)
+    vi.advanceTimersByTime(61 * 1000)
+
+    await expect(provider.verifyCode(phone, devCode!)).rejects.toThrow('Token has expired or is invalid')
+  })
+
+  it('only accepts each code once', async () => {
+    vi.spyOn(supabase.auth, 'signInWithPassword').mockResolvedValue({ data: {}, error: null })
+    const provider = new LocalOtpProvider()
+
+    const { devCode } = await provider.sendCode(phone)
+    await provider.verifyCode(phone, devCode!)
+
+    await expect(provider.verifyCode(phone, devCode!)).rejects.toThrow('Token has expired or is invalid')
+  })
+})
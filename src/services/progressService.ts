@@ -236,7 +236,7 @@ export class ProgressService {
   // Record a study session
   static async recordStudySession(
     userId: string,
-    sessionType: 'lesson' | 'test' | 'ai_tutor' | 'materials',
+    sessionType: 'lesson' | 'test' | 'ai_tutor' | 'materials' | 'flashcards',
     subject: string,
     durationMinutes: number,
     score?: number
@@ -273,10 +273,8 @@ export class ProgressService {
       // Update progress stats
       await this.updateProgressStats(userId, sessionType, durationMinutes, score)
       
-      // Update subject progress if applicable
-      if (sessionType === 'lesson') {
-        await this.updateSubjectProgress(userId, subject)
-      }
+      // Topic counts come from topic_progress; a session only marks the subject as recently studied
+      await this.touchSubject(userId, subject)
     } catch (error) {
       console.error('Error recording study session:', error)
       if (error instanceof Error && 
@@ -384,57 +382,28 @@ export class ProgressService {
     }
   }
 
-  // Update subject progress
-  private static async updateSubjectProgress(userId: string, subject: string): Promise<void> {
+  // Mark a subject as recently studied; subjects the student doesn't track are left alone
+  private static async touchSubject(userId: string, subject: string): Promise<void> {
     if (!this.canMakeDbCalls()) {
       console.log('ProgressService: Skipping subject progress update (database unavailable)')
       return
     }
 
     try {
-      const { data: currentProgress, error: fetchError } = await supabase
+      const { error } = await supabase
         .from('subject_progress')
-        .select('*')
+        .update({ last_accessed: new Date().toISOString() })
         .eq('user_id', userId)
         .eq('subject_name', subject)
-        .single()
 
-      if (fetchError && fetchError.code !== 'PGRST116') {
-        if (fetchError.message.includes('Failed to fetch') || 
-            fetchError.message.includes('NetworkError') ||
-            fetchError.message.includes('not configured')) {
+      if (error) {
+        if (error.message.includes('Failed to fetch') || 
+            error.message.includes('NetworkError') ||
+            error.message.includes('not configured')) {
           console.warn('ProgressService: Database connection failed, skipping subject progress update')
           return
         }
-        throw fetchError
-      }
-
-      if (currentProgress) {
-        const newCompletedTopics = currentProgress.completed_topics + 1
-        const newProgressPercentage = Math.min(
-          Math.round((newCompletedTopics / currentProgress.total_topics) * 100),
-          100
-        )
-
-        const { error: updateError } = await supabase
-          .from('subject_progress')
-          .update({
-            completed_topics: newCompletedTopics,
-            progress_percentage: newProgressPercentage,
-            last_accessed: new Date().toISOString()
-          })
-          .eq('user_id', userId)
-          .eq('subject_name', subject)
-
-        if (updateError) {
-          if (updateError.message.includes('Failed to fetch') || 
-              updateError.message.includes('NetworkError') ||
-              updateError.message.includes('not configured')) {
-            console.warn('ProgressService: Database connection failed, skipping subject progress update')
-            return
-          }
-          throw updateError
-        }
+        throw error
       }
     } catch (error) {
       console.error('Error updating subject progress:', error)
@@ -0,0 +1,109 @@
+import { supabase, isUsingMockClient } from '../lib/supabase'
+import type { UserProfile } from '../lib/supabase'
+import { lessonPath } from '../lib/lessons'
+import { CurriculumService } from './curriculumService'
+
+export type SearchResultKind = 'lesson' | 'material' | 'conversation' | 'article'
+
+export interface SearchResult {
+  kind: SearchResultKind
+  id: string
+  title: string
+  // A short extract around the match, with matched words wrapped in << and >>
+  snippet: string
+  subject: string | null
+  // The lesson's topic, the material's topic or the help article's category
+  topic: string | null
+  rank: number
+}
+
+export interface SearchGroup {
+  kind: SearchResultKind
+  label: string
+  icon: string
+  results: SearchResult[]
+}
+
+// Groups in the order they are listed, most useful for studying first
+export const SEARCH_GROUPS: Omit<SearchGroup, 'results'>[] = [
+  { kind: 'lesson', label: 'Lessons', icon: '📖' },
+  { kind: 'material', label: 'Study Materials', icon: '📚' },
+  { kind: 'conversation', label: 'Tutor Conversations', icon: '🤖' },
+  { kind: 'article', label: 'Help Center', icon: '❓' }
+]
+
+// Shorter queries match too much to be useful
+export const MIN_SEARCH_LENGTH = 2
+
+export class SearchService {
+  // Check if we can safely make database calls
+  private static canMakeDbCalls(): boolean {
+    if (isUsingMockClient) {
+      console.warn('SearchService: Using mock client, search is unavailable')
+      return false
+    }
+    return true
+  }
+
+  // Search lessons, materials, help articles and the student's tutor conversations, grouped by kind
+  static async search(query: string, profile: UserProfile | null, perGroup: number = 5): Promise<SearchGroup[]> {
+    if (!this.canMakeDbCalls() || query.trim().length < MIN_SEARCH_LENGTH) return []
+
+    try {
+      const { data, error } = await supabase.rpc('search_everything', {
+        p_query: query,
+        p_grade: profile?.grade || null,
+        p_per_group: perGroup
+      })
+
+      if (error) {
+        if (error.message.includes('search_everything')) {
+          throw new Error('Search is not set up yet. Please run the database migrations.')
+        }
+        throw error
+      }
+
+      const results: SearchResult[] = (data || []).map((result: SearchResult) => ({
+        ...result,
+        snippet: this.cleanSnippet(result.snippet)
+      }))
+
+      return SEARCH_GROUPS
+        .map(group => ({
+          ...group,
+          results: results.filter(result => result.kind === group.kind).sort((a, b) => b.rank - a.rank)
+        }))
+        .filter(group => group.results.length > 0)
+    } catch (error) {
+      console.error('Error searching:', error)
+      throw error
+    }
+  }
+
+  // Where a result opens; lessons use the student's own name for the subject so progress lines up
+  static resultPath(result: SearchResult, studentSubjects: string[] = []): string {
+    switch (result.kind) {
+      case 'lesson': {
+        const subject = studentSubjects.find(name => CurriculumService.normalizeSubject(name) === result.subject) || result.subject || ''
+        return lessonPath(subject, result.topic || result.title)
+      }
+      case 'material':
+        return `/dashboard/materials?material=${encodeURIComponent(result.id)}`
+      case 'conversation':
+        return `/dashboard/ai-tutor?conversation=${encodeURIComponent(result.id)}`
+      case 'article':
+        return `/help?search=${encodeURIComponent(result.title)}`
+    }
+  }
+
+  // Lesson snippets come straight from Markdown, so drop the formatting characters around the words
+  private static cleanSnippet(snippet: string): string {
+    return snippet
+      .replace(/<<|>>/g, marker => marker === '<<' ? '\u0001' : '\u0002')
+      .replace(/```\w*|[#*_`$|\\>]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .replace(/\u0001/g, '<<')
+      .replace(/\u0002/g, '>>')
+      .trim()
+  }
+}
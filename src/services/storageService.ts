@@ -0,0 +1,96 @@
+import { supabase } from '../lib/supabase'
+
+export interface UploadedFile {
+  path: string
+  url: string
+}
+
+export interface UploadOptions {
+  // Public buckets return a permanent URL, private buckets a signed one
+  isPublic?: boolean
+  upsert?: boolean
+  signedUrlExpiresIn?: number
+}
+
+export class StorageService {
+  // Upload a file into the user's own folder of a bucket
+  static async uploadUserFile(bucket: string, userId: string, file: File, options: UploadOptions = {}): Promise<UploadedFile> {
+    const { isPublic = true, upsert = false, signedUrlExpiresIn = 3600 } = options
+
+    try {
+      const fileExt = file.name.split('.').pop()
+      const fileName = `${userId}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${fileExt}`
+      const filePath = `${userId}/${fileName}` // Store in user-specific folder
+
+      const { error } = await supabase.storage
+        .from(bucket)
+        .upload(filePath, file, {
+          cacheControl: '3600',
+          contentType: file.type || undefined,
+          upsert
+        })
+
+      if (error) {
+        console.error('Storage upload error:', error)
+        throw new Error(`Failed to upload ${file.name}`)
+      }
+
+      const url = isPublic
+        ? this.getPublicUrl(bucket, filePath)
+        : await this.getSignedUrl(bucket, filePath, signedUrlExpiresIn)
+
+      return { path: filePath, url }
+    } catch (error) {
+      console.error(`Upload to ${bucket} failed:`, error)
+      throw error
+    }
+  }
+
+  // Get the permanent URL of a file in a public bucket
+  static getPublicUrl(bucket: string, filePath: string): string {
+    const { data: { publicUrl } } = supabase.storage
+      .from(bucket)
+      .getPublicUrl(filePath)
+
+    return publicUrl
+  }
+
+  // Get a time-limited URL for a file in a private bucket; pass a file name to have it saved as a download
+  static async getSignedUrl(bucket: string, filePath: string, expiresIn: number = 3600, downloadAs?: string): Promise<string> {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .createSignedUrl(filePath, expiresIn, downloadAs ? { download: downloadAs } : undefined)
+
+    if (error || !data) {
+      console.error('Signed URL error:', error)
+      throw new Error('Failed to get file link')
+    }
+
+    return data.signedUrl
+  }
+
+  // Remove files from a bucket
+  static async removeFiles(bucket: string, filePaths: string[]): Promise<void> {
+    if (filePaths.length === 0) return
+
+    try {
+      const { error } = await supabase.storage
+        .from(bucket)
+        .remove(filePaths)
+
+      if (error) {
+        console.error('Storage delete error:', error)
+        // Don't throw error for delete failures - it's not critical
+      }
+    } catch (error) {
+      console.error(`Delete from ${bucket} failed:`, error)
+      // Don't throw error for delete failures
+    }
+  }
+
+  // Extract the storage path from a public URL of the given bucket
+  static pathFromPublicUrl(bucket: string, url: string): string | null {
+    const urlParts = url.split(`/${bucket}/`)
+    return urlParts.length < 2 ? null : urlParts[1]
+  }
+}
@@ -0,0 +1,238 @@
+import { supabase, isUsingMockClient } from '../lib/supabase'
+import type { MaterialType, StudyMaterial, UserProfile } from '../lib/supabase'
+import { CurriculumService } from './curriculumService'
+import { StorageService } from './storageService'
+
+const MATERIAL_BUCKET = 'study-materials'
+const MAX_MATERIAL_SIZE = 50 * 1024 * 1024
+const MATERIAL_TYPES: { [mimeType: string]: MaterialType } = {
+  'application/pdf': 'pdf',
+  'video/mp4': 'video',
+  'video/webm': 'video'
+}
+
+// A material has to stay open this long before it is logged as a study session
+export const MIN_MATERIAL_STUDY_SECONDS = 120
+
+export interface MaterialUpload {
+  title: string
+  description?: string
+  subject: string
+  topic?: string
+}
+
+export class StudyMaterialService {
+  // Check if we can safely make database calls
+  private static canMakeDbCalls(): boolean {
+    if (isUsingMockClient) {
+      console.warn('StudyMaterialService: Using mock client, study materials are unavailable')
+      return false
+    }
+    return true
+  }
+
+  // Published materials for the student's subjects and grade, plus anything they shared themselves
+  static async getMaterials(subjects: string[], profile: UserProfile | null): Promise<StudyMaterial[]> {
+    if (!this.canMakeDbCalls() || subjects.length === 0) return []
+
+    try {
+      const names = Array.from(new Set(subjects.map(subject => CurriculumService.normalizeSubject(subject))))
+      const { data, error } = await supabase
+        .from('study_materials')
+        .select('*')
+        .in('subject', names)
+        .order('download_count', { ascending: false })
+        .order('created_at', { ascending: false })
+
+      if (error) {
+        if (error.message.includes('relation "study_materials" does not exist')) {
+          throw new Error('Study materials table not found. Please run the database migrations.')
+        }
+        throw error
+      }
+
+      return (data || []).filter((material: StudyMaterial) => !material.grade || material.grade === profile?.grade)
+    } catch (error) {
+      console.error('Error fetching study materials:', error)
+      throw error
+    }
+  }
+
+  // Get a single material, e.g. one opened from search that isn't in the student's subjects
+  static async getMaterial(materialId: string): Promise<StudyMaterial | null> {
+    if (!this.canMakeDbCalls()) return null
+
+    const { data, error } = await supabase
+      .from('study_materials')
+      .select('*')
+      .eq('id', materialId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching study material:', error)
+      return null
+    }
+    return data
+  }
+
+  // Only web addresses are shown or opened, so a javascript: or data: URL can never run in the app.
+  // Shared links must be https; signed file links can be http on a local Supabase
+  static isSafeUrl(url: string, protocols: string[] = ['https:']): boolean {
+    try {
+      return protocols.includes(new URL(url).protocol)
+    } catch {
+      return false
+    }
+  }
+
+  // Get a link to show the material in the app; uploaded files get a short-lived signed link
+  static async getViewUrl(material: StudyMaterial): Promise<string> {
+    if (material.storage_path) {
+      return StorageService.getSignedUrl(MATERIAL_BUCKET, material.storage_path)
+    }
+    if (!material.external_url || !this.isSafeUrl(material.external_url)) {
+      throw new Error('This material\'s link can\'t be opened')
+    }
+    return material.external_url
+  }
+
+  // Get a link that saves the file, and count the download; returns the link and the new total
+  static async download(material: StudyMaterial): Promise<{ url: string; downloadCount: number }> {
+    if (!material.storage_path) {
+      throw new Error('This material is a link and can\'t be downloaded')
+    }
+
+    const extension = material.storage_path.split('.').pop()
+    const url = await StorageService.getSignedUrl(MATERIAL_BUCKET, material.storage_path, 300, `${material.title.replace(/[\\/:*?"<>|]/g, '-')}.${extension}`)
+
+    const { data, error } = await supabase.rpc('record_material_download', { p_material_id: material.id })
+    if (error) {
+      // The file is still theirs to save; only the counter missed it
+      console.error('Error recording material download:', error)
+      return { url, downloadCount: material.download_count }
+    }
+
+    return { url, downloadCount: data as number }
+  }
+
+  // Get the ids of the materials the student has saved to their library
+  static async getBookmarkedIds(userId: string): Promise<Set<string>> {
+    if (!this.canMakeDbCalls()) return new Set()
+
+    try {
+      const { data, error } = await supabase
+        .from('material_bookmarks')
+        .select('material_id')
+        .eq('user_id', userId)
+
+      if (error) throw error
+      return new Set((data || []).map((bookmark: { material_id: string }) => bookmark.material_id))
+    } catch (error) {
+      console.error('Error fetching material bookmarks:', error)
+      return new Set()
+    }
+  }
+
+  // Save a material to the student's library or take it out again
+  static async setBookmarked(userId: string, materialId: string, bookmarked: boolean): Promise<void> {
+    if (!this.canMakeDbCalls()) {
+      throw new Error('Saving materials needs a database connection')
+    }
+
+    try {
+      const { error } = bookmarked
+        ? await supabase
+          .from('material_bookmarks')
+          .upsert({ user_id: userId, material_id: materialId }, { onConflict: 'user_id,material_id', ignoreDuplicates: true })
+        : await supabase
+          .from('material_bookmarks')
+          .delete()
+          .eq('user_id', userId)
+          .eq('material_id', materialId)
+
+      if (error) throw error
+    } catch (error) {
+      console.error('Error updating material bookmark:', error)
+      throw new Error(bookmarked ? 'Failed to save the material' : 'Failed to remove the material from your library')
+    }
+  }
+
+  // Check a file before uploading; returns an error message or null
+  static validateFile(file: File): string | null {
+    if (!MATERIAL_TYPES[file.type]) {
+      return `${file.name} is not supported. Please upload a PDF or an MP4/WebM video.`
+    }
+    if (file.size > MAX_MATERIAL_SIZE) {
+      return `${file.name} is larger than 50 MB. Please upload a smaller file.`
+    }
+    return null
+  }
+
+  // Share a PDF or video with other students taking the same subject
+  static async uploadMaterial(
+    userId: string,
+    profile: UserProfile | null,
+    file: File,
+    details: MaterialUpload
+  ): Promise<StudyMaterial> {
+    const validationError = this.validateFile(file)
+    if (validationError) {
+      throw new Error(validationError)
+    }
+    if (!this.canMakeDbCalls()) {
+      throw new Error('Sharing materials needs a database connection')
+    }
+
+    const { path } = await StorageService.uploadUserFile(MATERIAL_BUCKET, userId, file, { isPublic: false })
+
+    try {
+      const { data, error } = await supabase
+        .from('study_materials')
+        .insert({
+          title: details.title.trim(),
+          description: details.description?.trim() || null,
+          subject: CurriculumService.normalizeSubject(details.subject),
+          topic: details.topic?.trim() || null,
+          grade: profile?.grade || null,
+          material_type: MATERIAL_TYPES[file.type],
+          storage_path: path,
+          file_size: file.size,
+          uploaded_by: userId
+        })
+        .select()
+        .single()
+
+      if (error) throw error
+      return data
+    } catch (error) {
+      console.error('Error saving study material:', error)
+      // Don't leave an orphaned file behind
+      await StorageService.removeFiles(MATERIAL_BUCKET, [path])
+      throw new Error('Failed to share the material')
+    }
+  }
+
+  // Remove a material the student shared, along with its file
+  static async deleteMaterial(material: StudyMaterial): Promise<void> {
+    if (!this.canMakeDbCalls()) return
+
+    try {
+      const { error } = await supabase
+        .from('study_materials')
+        .delete()
+        .eq('id', material.id)
+
+      if (error) throw error
+    } catch (error) {
+      console.error('Error deleting study material:', error)
+      throw new Error('Failed to delete the material')
+    }
+
+    if (material.storage_path) {
+      await StorageService.removeFiles(MATERIAL_BUCKET, [material.storage_path])
+    }
+  }
+}
+
+export const formatFileSize = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`
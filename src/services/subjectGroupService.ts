@@ -1,5 +1,6 @@
 import { supabase } from '../lib/supabase'
 import type { UserProfile } from '../lib/supabase'
+import { CurriculumService } from './curriculumService'
 
 export interface SubjectGroup {
   id: string
@@ -249,7 +250,7 @@ export class SubjectGroupService {
       }
 
       // Initialize subject progress for selected subjects
-      await this.initializeSubjectProgress(userId, selectedGroup.subjects, profile.grade);
+      await this.initializeSubjectProgress(userId, selectedGroup.subjects, profile.grade, profile.board, groupId);
 
     } catch (error) {
       console.error('Subject group selection error:', error);
@@ -261,17 +262,19 @@ export class SubjectGroupService {
   private static async initializeSubjectProgress(
     userId: string,
     subjects: string[],
-    grade: string
+    grade: string,
+    board?: string,
+    groupId?: string
   ): Promise<void> {
     try {
-      const subjectProgressData = subjects.map(subject => ({
+      const subjectProgressData = await Promise.all(subjects.map(async subject => ({
         user_id: userId,
         subject_name: subject,
         progress_percentage: 0,
         completed_topics: 0,
-        total_topics: this.getTotalTopicsForSubject(subject, grade),
+        total_topics: await CurriculumService.getTotalTopics(subject, grade, board, groupId),
         last_accessed: new Date().toISOString()
-      }));
+      })));
 
       const { error } = await supabase
         .from('subject_progress')
@@ -285,52 +288,6 @@ export class SubjectGroupService {
     }
   }
 
-  // Get total topics for a subject based on grade
-  private static getTotalTopicsForSubject(subject: string, grade: string): number {
-    const topicCounts: { [key: string]: { [key: string]: number } } = {
-      'Mathematics': {
-        'Class 9 (Metric)': 15,
-        'Class 10 (Metric)': 18,
-        'Class 11 (FSc)': 20,
-        'Class 12 (FSc)': 22,
-        'O-levels': 16,
-        'A-Levels': 25,
-        'ECAT': 30
-      },
-      'Physics': {
-        'Class 9 (Metric)': 12,
-        'Class 10 (Metric)': 15,
-        'Class 11 (FSc)': 18,
-        'Class 12 (FSc)': 20,
-        'O-levels': 14,
-        'A-Levels': 22,
-        'MDCAT': 25,
-        'ECAT': 28
-      },
-      'Chemistry': {
-        'Class 9 (Metric)': 10,
-        'Class 10 (Metric)': 12,
-        'Class 11 (FSc)': 16,
-        'Class 12 (FSc)': 18,
-        'O-levels': 12,
-        'A-Levels': 20,
-        'MDCAT': 22,
-        'ECAT': 20
-      },
-      'Biology': {
-        'Class 9 (Metric)': 8,
-        'Class 10 (Metric)': 10,
-        'Class 11 (FSc)': 14,
-        'Class 12 (FSc)': 16,
-        'O-levels': 10,
-        'A-Levels': 18,
-        'MDCAT': 30
-      }
-    };
-
-    return topicCounts[subject]?.[grade] || 15; // Default to 15 topics
-  }
-
   // Get user's selected subject group
   static async getUserSubjectGroup(userId: string): Promise<{ groupId: string; subjects: string[] } | null> {
     try {
@@ -0,0 +1,361 @@
+import { supabase, isUsingMockClient } from '../lib/supabase'
+import type { AttemptAnswer, Test, TestAttempt } from '../lib/supabase'
+import { QUESTION_PROMPT_COLUMNS, withAnswerKey } from '../lib/questions'
+import type { AnswerKey, Question, QuestionPrompt, QuestionResponse } from '../lib/questions'
+import { gradeQuestion } from '../lib/grading'
+import type { AttemptGrade, QuestionGrade } from '../lib/grading'
+
+export interface TestSummary extends Test {
+  question_count: number
+  attempts: number
+  best_score: number | null
+}
+
+export interface PastPaperSummary extends TestSummary {
+  // Syllabus topics covered by the paper's questions
+  topics: string[]
+}
+
+export interface PastPaperFilters {
+  board?: string
+  grade?: string
+  subject?: string
+  year?: number
+}
+
+// Examination boards with past papers; Cambridge covers O-levels and A-Levels
+export const PAST_PAPER_BOARDS = [
+  'Federal Board',
+  'Punjab Board',
+  'Sindh Board',
+  'KPK Board',
+  'Baluchistan Board',
+  'AJK Board',
+  'Cambridge'
+]
+
+type TestWithQuestions = Test & { questions: { count?: number; topic?: string }[] }
+
+export interface CompletedAttempt extends TestAttempt {
+  test: Pick<Test, 'title' | 'subject'>
+}
+
+export interface ReviewItem {
+  question: Question
+  answer: AttemptAnswer | null
+  // Regraded from the saved response so the review can explain lost marks
+  grade: QuestionGrade
+}
+
+export interface AttemptReview {
+  attempt: CompletedAttempt
+  items: ReviewItem[]
+}
+
+// What submit_test_attempt returns: the graded attempt and each question's grade
+interface SubmittedAttempt {
+  attempt: TestAttempt
+  grades: { question_id: string; is_correct: boolean; marks_awarded: number }[]
+}
+
+export interface TestStats {
+  completed: number
+  averageScore: number
+  thisWeek: number
+}
+
+export class TestService {
+  // Check if we can safely make database calls
+  private static canMakeDbCalls(): boolean {
+    if (isUsingMockClient) {
+      console.warn('TestService: Using mock client, tests are unavailable')
+      return false
+    }
+    return true
+  }
+
+  // Past papers are filed under the student's board, or under Cambridge for O/A Levels
+  static getPastPaperBoard(grade?: string, board?: string): string | undefined {
+    if (grade === 'O-levels' || grade === 'A-Levels') return 'Cambridge'
+    return board || undefined
+  }
+
+  // Look up how many times, and how well, the student has sat each test
+  private static async getAttemptScores(userId: string): Promise<Pick<TestAttempt, 'test_id' | 'score'>[]> {
+    const { data, error } = await supabase
+      .from('test_attempts')
+      .select('test_id, score')
+      .eq('user_id', userId)
+      .eq('status', 'submitted')
+
+    if (error) throw error
+    return data || []
+  }
+
+  private static withAttemptHistory(
+    test: Test,
+    questionCount: number,
+    attempts: Pick<TestAttempt, 'test_id' | 'score'>[]
+  ): TestSummary {
+    const scores = attempts
+      .filter(attempt => attempt.test_id === test.id)
+      .map(attempt => attempt.score ?? 0)
+
+    return {
+      ...test,
+      question_count: questionCount,
+      attempts: scores.length,
+      best_score: scores.length > 0 ? Math.max(...scores) : null
+    }
+  }
+
+  // List published tests for the student's grade with their own attempt history
+  static async getAvailableTests(userId: string, grade?: string): Promise<TestSummary[]> {
+    if (!this.canMakeDbCalls()) return []
+
+    try {
+      const { data: tests, error } = await supabase
+        .from('tests')
+        .select('*, questions(count)')
+        .eq('is_published', true)
+        .eq('kind', 'practice')
+        .order('subject', { ascending: true })
+
+      if (error) {
+        if (error.message.includes('relation "tests" does not exist')) {
+          throw new Error('Test tables not found. Please run the database migrations.')
+        }
+        throw error
+      }
+
+      const attempts = await this.getAttemptScores(userId)
+
+      return (tests || [])
+        .filter((test: Test) => !test.grade || test.grade === grade)
+        .map((test: TestWithQuestions) => {
+          const { questions, ...rest } = test
+          return this.withAttemptHistory(rest, questions?.[0]?.count ?? 0, attempts)
+        })
+    } catch (error) {
+      console.error('Error fetching available tests:', error)
+      throw error
+    }
+  }
+
+  // List published past papers, newest first, with the topics each one covers
+  static async getPastPapers(userId: string, filters: PastPaperFilters = {}): Promise<PastPaperSummary[]> {
+    if (!this.canMakeDbCalls()) return []
+
+    try {
+      let query = supabase
+        .from('tests')
+        .select('*, questions(topic)')
+        .eq('is_published', true)
+        .eq('kind', 'past_paper')
+
+      if (filters.board) query = query.eq('board', filters.board)
+      if (filters.grade) query = query.eq('grade', filters.grade)
+      if (filters.subject) query = query.eq('subject', filters.subject)
+      if (filters.year) query = query.eq('year', filters.year)
+
+      const { data: papers, error } = await query
+        .order('year', { ascending: false })
+        .order('subject', { ascending: true })
+
+      if (error) throw error
+
+      const attempts = await this.getAttemptScores(userId)
+
+      return (papers || []).map((paper: TestWithQuestions) => {
+        const { questions, ...rest } = paper
+        const topics = Array.from(new Set(
+          (questions || []).map(question => question.topic).filter((topic): topic is string => !!topic)
+        ))
+
+        return {
+          ...this.withAttemptHistory(rest, questions?.length ?? 0, attempts),
+          topics
+        }
+      })
+    } catch (error) {
+      console.error('Error fetching past papers:', error)
+      throw new Error('Failed to load past papers')
+    }
+  }
+
+  // Get a test's questions in order, without their answer keys
+  static async getQuestions(testId: string): Promise<QuestionPrompt[]> {
+    try {
+      const { data, error } = await supabase
+        .from('questions')
+        .select(QUESTION_PROMPT_COLUMNS)
+        .eq('test_id', testId)
+        .order('position', { ascending: true })
+
+      if (error) throw error
+      return data || []
+    } catch (error) {
+      console.error('Error fetching test questions:', error)
+      throw new Error('Failed to load test questions')
+    }
+  }
+
+  // Get the answer keys for questions the student has already answered, keyed by question id
+  static async getAnswerKeys(questionIds: string[]): Promise<{ [questionId: string]: AnswerKey }> {
+    if (questionIds.length === 0) return {}
+
+    try {
+      const { data, error } = await supabase.rpc('get_question_answers', { p_question_ids: questionIds })
+
+      if (error) throw error
+      return Object.fromEntries(
+        (data || []).map((row: { question_id: string } & AnswerKey) => [
+          row.question_id,
+          { answer: row.answer, explanation: row.explanation }
+        ])
+      )
+    } catch (error) {
+      console.error('Error fetching answer keys:', error)
+      throw new Error('Failed to load the answers')
+    }
+  }
+
+  // Record that the student has started a test
+  static async startAttempt(userId: string, testId: string, totalQuestions: number): Promise<TestAttempt> {
+    try {
+      const { data, error } = await supabase
+        .from('test_attempts')
+        .insert({
+          user_id: userId,
+          test_id: testId,
+          total_questions: totalQuestions
+        })
+        .select()
+        .single()
+
+      if (error) throw error
+      return data
+    } catch (error) {
+      console.error('Error starting test attempt:', error)
+      throw new Error('Failed to start the test')
+    }
+  }
+
+  // Hand the student's answers to the database, which grades and saves them with the attempt
+  static async submitAttempt(
+    attemptId: string,
+    responses: { [questionId: string]: QuestionResponse },
+    flagged: string[]
+  ): Promise<{ attempt: TestAttempt; grade: AttemptGrade }> {
+    try {
+      const { data, error } = await supabase.rpc('submit_test_attempt', {
+        p_attempt_id: attemptId,
+        p_responses: responses,
+        p_flagged: flagged
+      })
+
+      if (error) throw error
+
+      const { attempt, grades } = data as SubmittedAttempt
+      return {
+        attempt,
+        grade: {
+          grades: grades.map(questionGrade => ({
+            questionId: questionGrade.question_id,
+            isCorrect: questionGrade.is_correct,
+            marksAwarded: questionGrade.marks_awarded
+          })),
+          correctAnswers: attempt.correct_answers,
+          marksObtained: attempt.marks_obtained,
+          totalMarks: attempt.total_marks,
+          score: attempt.score ?? 0
+        }
+      }
+    } catch (error) {
+      console.error('Error submitting test attempt:', error)
+      throw new Error('Failed to submit the test. Please check your connection and try again.')
+    }
+  }
+
+  // Get the student's submitted attempts, newest first
+  static async getCompletedAttempts(userId: string): Promise<CompletedAttempt[]> {
+    if (!this.canMakeDbCalls()) return []
+
+    try {
+      const { data, error } = await supabase
+        .from('test_attempts')
+        .select('*, test:tests(title, subject)')
+        .eq('user_id', userId)
+        .eq('status', 'submitted')
+        .order('submitted_at', { ascending: false })
+
+      if (error) throw error
+      return data || []
+    } catch (error) {
+      console.error('Error fetching completed tests:', error)
+      throw new Error('Failed to load your completed tests')
+    }
+  }
+
+  // Load a submitted attempt with every question, the student's answer and the answer key
+  static async getAttemptReview(userId: string, attemptId: string): Promise<AttemptReview> {
+    try {
+      const { data: attempt, error } = await supabase
+        .from('test_attempts')
+        .select('*, test:tests(title, subject)')
+        .eq('id', attemptId)
+        .eq('user_id', userId)
+        .single()
+
+      if (error) throw error
+
+      const [questions, { data: answers, error: answersError }] = await Promise.all([
+        this.getQuestions(attempt.test_id),
+        supabase
+          .from('attempt_answers')
+          .select('*')
+          .eq('attempt_id', attemptId)
+          .eq('user_id', userId)
+      ])
+
+      if (answersError) throw answersError
+
+      const keys = await this.getAnswerKeys(questions.map(question => question.id))
+
+      return {
+        attempt,
+        items: questions.filter(question => keys[question.id]).map(prompt => {
+          const question = withAnswerKey(prompt, keys[prompt.id])
+          const answer = (answers || []).find((row: AttemptAnswer) => row.question_id === question.id) || null
+          return {
+            question,
+            answer,
+            // The grade saved at submission is the one that counted; grading locally only adds the feedback
+            grade: {
+              ...gradeQuestion(question, answer?.response ?? null),
+              isCorrect: answer?.is_correct ?? false,
+              marksAwarded: answer?.marks_awarded ?? 0
+            }
+          }
+        })
+      }
+    } catch (error) {
+      console.error('Error fetching attempt review:', error)
+      throw new Error('Failed to load the test review')
+    }
+  }
+
+  // Summarise submitted attempts for the stats cards
+  static getStats(attempts: CompletedAttempt[]): TestStats {
+    const weekAgo = Date.now() - 7 * 24 * 60 * 60 * 1000
+    const totalScore = attempts.reduce((sum, attempt) => sum + (attempt.score ?? 0), 0)
+
+    return {
+      completed: attempts.length,
+      averageScore: attempts.length > 0 ? Math.round(totalScore / attempts.length) : 0,
+      thisWeek: attempts.filter(attempt =>
+        attempt.submitted_at && new Date(attempt.submitted_at).getTime() >= weekAgo
+      ).length
+    }
+  }
+}
@@ -0,0 +1,288 @@
+import { supabase, isUsingMockClient } from '../lib/supabase'
+import type { CurriculumTopic, TopicProgress, TopicStatus, UserProfile } from '../lib/supabase'
+import type { QuestionGrade } from '../lib/grading'
+import type { QuestionPrompt } from '../lib/questions'
+import { CurriculumService } from './curriculumService'
+import type { CurriculumSyllabus } from './curriculumService'
+
+export const TOPIC_STATUSES: TopicStatus[] = ['not_started', 'in_progress', 'completed', 'mastered']
+
+export const topicStatusLabels: { [status in TopicStatus]: string } = {
+  not_started: 'Not started',
+  in_progress: 'In progress',
+  completed: 'Completed',
+  mastered: 'Mastered'
+}
+
+// Accuracy on a topic's test questions needed to count it as completed, and as mastered
+const TEST_COMPLETED_ACCURACY = 50
+const TEST_MASTERED_ACCURACY = 80
+// One lucky answer shouldn't master a topic
+const TEST_MASTERED_MIN_QUESTIONS = 3
+// Share of a deck's cards recalled first time for the topic to count as completed
+const FLASHCARD_COMPLETED_RECALL = 80
+
+type TopicSource = TopicProgress['source']
+
+export interface ChecklistTopic extends CurriculumTopic {
+  status: TopicStatus
+  source?: TopicSource
+  hasLesson: boolean
+}
+
+export interface ChecklistChapter {
+  id: string
+  title: string
+  topics: ChecklistTopic[]
+  completed: number
+}
+
+export interface SubjectChecklist {
+  subjectId: string
+  subject: string
+  chapters: ChecklistChapter[]
+  completed: number
+  total: number
+}
+
+export interface TopicTestResult {
+  topic: string
+  correct: number
+  total: number
+}
+
+const isDone = (status: TopicStatus) => status === 'completed' || status === 'mastered'
+
+export class TopicProgressService {
+  // Check if we can safely make database calls
+  private static canMakeDbCalls(): boolean {
+    if (isUsingMockClient) {
+      console.warn('TopicProgressService: Using mock client, topic progress is unavailable')
+      return false
+    }
+    return true
+  }
+
+  private static getSyllabus(subject: string, profile: UserProfile | null): Promise<CurriculumSyllabus | null> {
+    if (!profile?.grade) return Promise.resolve(null)
+    return CurriculumService.getSubject(subject, profile.grade, profile.board, profile.subject_group)
+  }
+
+  // Topics named by a lesson, question or deck; a chapter title covers every topic in the chapter
+  private static matchTopics(syllabus: CurriculumSyllabus, title: string): CurriculumTopic[] {
+    const wanted = title.trim().toLowerCase()
+    const topics = syllabus.chapters.flatMap(chapter => chapter.topics)
+    const exact = topics.filter(topic => topic.title.toLowerCase() === wanted)
+    if (exact.length > 0) return exact
+
+    const chapter = syllabus.chapters.find(chapter => chapter.title.toLowerCase() === wanted)
+    return chapter ? chapter.topics : []
+  }
+
+  private static async getProgressRows(userId: string, subjectId: string): Promise<TopicProgress[]> {
+    const { data, error } = await supabase
+      .from('topic_progress')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('subject_id', subjectId)
+
+    if (error) throw error
+    return data || []
+  }
+
+  // Move topics up to a status from study activity; activity never moves a topic backwards
+  private static async raiseStatus(
+    userId: string,
+    syllabus: CurriculumSyllabus,
+    topics: CurriculumTopic[],
+    status: TopicStatus,
+    source: TopicSource
+  ): Promise<void> {
+    if (topics.length === 0) return
+
+    const existing = new Map(
+      (await this.getProgressRows(userId, syllabus.id)).map(row => [row.topic_id, row])
+    )
+    const rank = TOPIC_STATUSES.indexOf(status)
+    const now = new Date().toISOString()
+
+    const updates = topics
+      .filter(topic => TOPIC_STATUSES.indexOf(existing.get(topic.id)?.status || 'not_started') < rank)
+      .map(topic => ({
+        user_id: userId,
+        topic_id: topic.id,
+        subject_id: syllabus.id,
+        status,
+        source,
+        completed_at: isDone(status) ? existing.get(topic.id)?.completed_at || now : null
+      }))
+
+    if (updates.length === 0) return
+
+    const { error } = await supabase
+      .from('topic_progress')
+      .upsert(updates, { onConflict: 'user_id,topic_id' })
+
+    if (error) throw error
+  }
+
+  // Get a subject's chapters with the student's status on every topic
+  static async getChecklist(
+    userId: string,
+    subject: string,
+    profile: UserProfile | null
+  ): Promise<SubjectChecklist | null> {
+    if (!this.canMakeDbCalls()) return null
+
+    try {
+      const syllabus = await this.getSyllabus(subject, profile)
+      if (!syllabus) return null
+
+      const [rows, lessonTopicIds] = await Promise.all([
+        this.getProgressRows(userId, syllabus.id),
+        CurriculumService.getLessonTopicIds(syllabus.chapters.flatMap(chapter => chapter.topics.map(topic => topic.id)))
+      ])
+      const progress = new Map(rows.map(row => [row.topic_id, row]))
+
+      const chapters = syllabus.chapters.map(chapter => {
+        const topics = chapter.topics.map(topic => ({
+          ...topic,
+          status: progress.get(topic.id)?.status || 'not_started',
+          source: progress.get(topic.id)?.source,
+          hasLesson: lessonTopicIds.has(topic.id)
+        }))
+        return {
+          id: chapter.id,
+          title: chapter.title,
+          topics,
+          completed: topics.filter(topic => isDone(topic.status)).length
+        }
+      })
+
+      return {
+        subjectId: syllabus.id,
+        subject: syllabus.subject,
+        chapters,
+        completed: chapters.reduce((sum, chapter) => sum + chapter.completed, 0),
+        total: chapters.reduce((sum, chapter) => sum + chapter.topics.length, 0)
+      }
+    } catch (error) {
+      console.error('Error fetching topic checklist:', error)
+      if (error instanceof Error && error.message.includes('relation') && error.message.includes('does not exist')) {
+        throw new Error('Topic tracking is not set up yet. Please run the database migrations.')
+      }
+      throw new Error('Failed to load your topic checklist')
+    }
+  }
+
+  // Set a topic's status from the checklist; unlike study activity this can move a topic back
+  static async setTopicStatus(
+    userId: string,
+    subjectId: string,
+    topicId: string,
+    status: TopicStatus
+  ): Promise<void> {
+    if (!this.canMakeDbCalls()) return
+
+    try {
+      const { error } = await supabase
+        .from('topic_progress')
+        .upsert({
+          user_id: userId,
+          topic_id: topicId,
+          subject_id: subjectId,
+          status,
+          source: 'manual',
+          completed_at: isDone(status) ? new Date().toISOString() : null
+        }, { onConflict: 'user_id,topic_id' })
+
+      if (error) throw error
+    } catch (error) {
+      console.error('Error updating topic status:', error)
+      throw new Error('Failed to update the topic')
+    }
+  }
+
+  // Mark the topic a lesson covered as completed
+  static async markLessonTopic(
+    userId: string,
+    profile: UserProfile | null,
+    subject: string,
+    topic: string
+  ): Promise<void> {
+    if (!this.canMakeDbCalls()) return
+
+    try {
+      const syllabus = await this.getSyllabus(subject, profile)
+      if (!syllabus) return
+      await this.raiseStatus(userId, syllabus, this.matchTopics(syllabus, topic), 'completed', 'lesson')
+    } catch (error) {
+      console.error('Error recording lesson topic:', error)
+      throw new Error('Failed to update your topic progress')
+    }
+  }
+
+  // Tally a graded test by question topic; questions without a topic are left out
+  static summarizeTestTopics(questions: QuestionPrompt[], grades: QuestionGrade[]): TopicTestResult[] {
+    const byTopic = new Map<string, TopicTestResult>()
+    questions.forEach(question => {
+      if (!question.topic) return
+      const grade = grades.find(entry => entry.questionId === question.id)
+      const tally = byTopic.get(question.topic) || { topic: question.topic, correct: 0, total: 0 }
+      byTopic.set(question.topic, {
+        ...tally,
+        correct: tally.correct + (grade?.isCorrect ? 1 : 0),
+        total: tally.total + 1
+      })
+    })
+    return Array.from(byTopic.values())
+  }
+
+  // Update the topics a test's questions covered from how the student did on each
+  static async recordTestTopics(
+    userId: string,
+    profile: UserProfile | null,
+    subject: string,
+    results: TopicTestResult[]
+  ): Promise<void> {
+    if (!this.canMakeDbCalls() || results.length === 0) return
+
+    try {
+      const syllabus = await this.getSyllabus(subject, profile)
+      if (!syllabus) return
+
+      for (const result of results) {
+        const accuracy = result.total > 0 ? result.correct / result.total * 100 : 0
+        const status: TopicStatus = accuracy >= TEST_MASTERED_ACCURACY && result.total >= TEST_MASTERED_MIN_QUESTIONS
+          ? 'mastered'
+          : accuracy >= TEST_COMPLETED_ACCURACY ? 'completed' : 'in_progress'
+        await this.raiseStatus(userId, syllabus, this.matchTopics(syllabus, result.topic), status, 'test')
+      }
+    } catch (error) {
+      console.error('Error recording test topics:', error)
+      throw new Error('Failed to update your topic progress')
+    }
+  }
+
+  // Update a deck's topic after a flashcard review, from the share of cards recalled first time
+  static async recordFlashcardTopic(
+    userId: string,
+    profile: UserProfile | null,
+    subject: string,
+    topic: string,
+    recallPercent: number
+  ): Promise<void> {
+    if (!this.canMakeDbCalls()) return
+
+    try {
+      const syllabus = await this.getSyllabus(subject, profile)
+      if (!syllabus) return
+
+      const status: TopicStatus = recallPercent >= FLASHCARD_COMPLETED_RECALL ? 'completed' : 'in_progress'
+      await this.raiseStatus(userId, syllabus, this.matchTopics(syllabus, topic), status, 'flashcards')
+    } catch (error) {
+      console.error('Error recording flashcard topic:', error)
+      throw new Error('Failed to update your topic progress')
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import { CurriculumService } from './curriculumService'
+import { SubjectGroupService } from './subjectGroupService'
+import type { UserProfile } from '../lib/supabase'
+
+export interface TutorContext {
+  grade?: string
+  board?: string
+  subjectGroup?: string
+  subjects: string[]
+  pinnedSubject?: string
+  pinnedTopic?: string
+  syllabusTopics: string[]
+}
+
+export interface PinnedScope {
+  subject?: string
+  topic?: string
+}
+
+// A question handed to the tutor from elsewhere in the app, e.g. a test review
+export interface TutorPrefill extends PinnedScope {
+  question: string
+}
+
+export class TutorContextService {
+  // Group subjects carry labels like "English (Compulsory)" that the catalogue doesn't use
+  static normalizeSubject(subject: string): string {
+    return CurriculumService.normalizeSubject(subject)
+  }
+
+  // Resolve a stored group id such as "fsc-pre-medical" to its display name
+  static getSubjectGroupName(grade: string, groupId?: string): string | undefined {
+    if (!groupId) return undefined
+    const group = SubjectGroupService.getSubjectGroups(grade).find(g => g.id === groupId)
+    return group?.name || groupId
+  }
+
+  // Subjects the student actually studies, from their group selection or their profile
+  static getStudentSubjects(profile: UserProfile | null, groupSubjects?: string[]): string[] {
+    const subjects = groupSubjects && groupSubjects.length > 0
+      ? groupSubjects
+      : profile?.subjects || []
+    return Array.from(new Set(subjects.map(subject => this.normalizeSubject(subject))))
+  }
+
+  // Syllabus topics for a subject at the student's grade, board and subject group
+  static async getTopics(subject: string, profile: UserProfile | null, groupId?: string): Promise<string[]> {
+    if (!profile?.grade) return []
+    try {
+      return await CurriculumService.getTopics(subject, profile.grade, profile.board, groupId || profile.subject_group)
+    } catch (error) {
+      console.error('Error loading syllabus topics:', error)
+      return []
+    }
+  }
+
+  // Collect everything we know about the student into a tutor context
+  static buildContext(
+    profile: UserProfile | null,
+    subjectGroup: { groupId: string; subjects: string[] } | null,
+    pinned: PinnedScope = {},
+    syllabusTopics: string[] = []
+  ): TutorContext {
+    const groupId = subjectGroup?.groupId || profile?.subject_group
+    const subjects = this.getStudentSubjects(profile, subjectGroup?.subjects)
+    const pinnedSubject = pinned.subject ? this.normalizeSubject(pinned.subject) : undefined
+
+    return {
+      grade: profile?.grade || undefined,
+      board: profile?.board || undefined,
+      subjectGroup: profile?.grade ? this.getSubjectGroupName(profile.grade, groupId) : groupId,
+      subjects,
+      pinnedSubject,
+      pinnedTopic: pinnedSubject ? pinned.topic : undefined,
+      syllabusTopics: pinnedSubject ? syllabusTopics : []
+    }
+  }
+
+  // Turn a tutor context into the system prompt sent ahead of the conversation
+  static toSystemPrompt(context: TutorContext): string {
+    const lines = [
+      'You are MyEduPro, a patient tutor for Pakistani students. Explain step by step, check understanding with short questions, and keep answers within the student\'s syllabus.'
+    ]
+
+    const studentLine = [
+      context.grade && `Grade: ${context.grade}`,
+      context.board && `Board: ${context.board}`,
+      context.subjectGroup && `Subject group: ${context.subjectGroup}`
+    ].filter(Boolean).join(' | ')
+    if (studentLine) {
+      lines.push(`Student — ${studentLine}`)
+    }
+
+    if (context.subjects.length > 0) {
+      lines.push(`Subjects studied: ${context.subjects.join(', ')}`)
+    }
+
+    if (context.pinnedSubject) {
+      lines.push(`Focus subject: ${context.pinnedSubject}${context.pinnedTopic ? ` — topic: ${context.pinnedTopic}` : ''}`)
+      if (context.syllabusTopics.length > 0) {
+        lines.push(`Syllabus topics for ${context.pinnedSubject}: ${context.syllabusTopics.join('; ')}`)
+      }
+    }
+
+    lines.push('Use examples, notation and terminology from the student\'s board textbooks. If a question is outside their syllabus, say so briefly before answering.')
+
+    return lines.join('\n')
+  }
+
+  // Link that opens the tutor with a question typed in and its subject pinned
+  static buildPrefillUrl(prefill: TutorPrefill): string {
+    const params = new URLSearchParams({ question: prefill.question })
+    if (prefill.subject) params.set('subject', prefill.subject)
+    if (prefill.topic) params.set('topic', prefill.topic)
+    return `/dashboard/ai-tutor?${params.toString()}`
+  }
+
+  // Read a prefilled question back out of the tutor page's query string
+  static readPrefill(search: string): TutorPrefill | null {
+    const params = new URLSearchParams(search)
+    const question = params.get('question')
+    if (!question) return null
+
+    return {
+      question,
+      subject: params.get('subject') || undefined,
+      topic: params.get('topic') || undefined
+    }
+  }
+
+  // Short label shown above the chat so the student knows how answers are scoped
+  static describeScope(context: TutorContext): string {
+    return [
+      context.subjectGroup || context.grade,
+      context.board,
+      context.pinnedSubject,
+      context.pinnedTopic
+    ].filter(Boolean).join(' • ')
+  }
+}
@@ -0,0 +1,324 @@
+import { supabase, isUsingMockClient } from '../lib/supabase'
+import type { TutorAttachment, TutorConversation, TutorMessageRecord } from '../lib/supabase'
+import { StorageService } from './storageService'
+
+const ATTACHMENT_BUCKET = 'tutor-attachments'
+const MAX_ATTACHMENT_SIZE = 5 * 1024 * 1024
+const ALLOWED_ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'application/pdf']
+
+interface LocalTutorStore {
+  conversations: TutorConversation[]
+  messages: TutorMessageRecord[]
+}
+
+export class TutorConversationService {
+  // Check if we can safely make database calls
+  private static canMakeDbCalls(): boolean {
+    if (isUsingMockClient) {
+      console.warn('TutorConversationService: Using mock client, conversations will be kept in this browser')
+      return false
+    }
+    return true
+  }
+
+  // Conversations are kept in localStorage when the database is unavailable
+  private static loadLocalStore(userId: string): LocalTutorStore {
+    try {
+      const saved = localStorage.getItem(`tutorConversations:${userId}`)
+      if (saved) return JSON.parse(saved)
+    } catch (error) {
+      console.error('Error reading local tutor conversations:', error)
+    }
+    return { conversations: [], messages: [] }
+  }
+
+  private static saveLocalStore(userId: string, store: LocalTutorStore): void {
+    localStorage.setItem(`tutorConversations:${userId}`, JSON.stringify(store))
+  }
+
+  // Links to attachments expire, so only the storage path is ever saved
+  private static withoutUrls(attachments: TutorAttachment[] = []): TutorAttachment[] {
+    return attachments.map(({ url, ...attachment }) => attachment)
+  }
+
+  // Attach fresh signed links to every stored attachment
+  private static async withAttachmentUrls(records: TutorMessageRecord[]): Promise<TutorMessageRecord[]> {
+    return Promise.all(records.map(async record => ({
+      ...record,
+      attachments: await Promise.all((record.attachments || []).map(async attachment => {
+        try {
+          return { ...attachment, url: await StorageService.getSignedUrl(ATTACHMENT_BUCKET, attachment.path) }
+        } catch (error) {
+          return attachment
+        }
+      }))
+    })))
+  }
+
+  // Check an attachment before uploading; returns an error message or null
+  static validateAttachment(file: File): string | null {
+    if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+      return `${file.name} is not supported. Please attach an image (JPG, PNG, WebP, GIF) or a PDF.`
+    }
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      return `${file.name} is larger than 5 MB. Please attach a smaller file.`
+    }
+    return null
+  }
+
+  // Upload an image or PDF of a question to the user's private attachment folder
+  static async uploadAttachment(userId: string, file: File): Promise<TutorAttachment> {
+    const validationError = this.validateAttachment(file)
+    if (validationError) {
+      throw new Error(validationError)
+    }
+
+    const attachment: TutorAttachment = {
+      name: file.name,
+      path: '',
+      mime_type: file.type,
+      size: file.size
+    }
+
+    if (!this.canMakeDbCalls()) {
+      // Files can't be kept offline, so the preview only lasts for this visit
+      return { ...attachment, path: `local/${crypto.randomUUID()}`, url: URL.createObjectURL(file) }
+    }
+
+    try {
+      const { path, url } = await StorageService.uploadUserFile(ATTACHMENT_BUCKET, userId, file, { isPublic: false })
+      return { ...attachment, path, url }
+    } catch (error) {
+      console.error('Error uploading tutor attachment:', error)
+      throw new Error(`Failed to upload ${file.name}`)
+    }
+  }
+
+  // Build a short thread title from the first question
+  static titleFromMessage(content: string): string {
+    const singleLine = content.replace(/\s+/g, ' ').trim()
+    if (!singleLine) return 'New conversation'
+    return singleLine.length > 60 ? `${singleLine.slice(0, 57)}...` : singleLine
+  }
+
+  // Remove attachments that were uploaded but never sent
+  static async discardAttachments(attachments: TutorAttachment[]): Promise<void> {
+    if (!this.canMakeDbCalls()) {
+      attachments.forEach(a => a.url && URL.revokeObjectURL(a.url))
+      return
+    }
+    await StorageService.removeFiles(ATTACHMENT_BUCKET, attachments.map(a => a.path))
+  }
+
+  // List a user's conversations, most recently active first
+  static async listConversations(userId: string): Promise<TutorConversation[]> {
+    if (!this.canMakeDbCalls()) {
+      return this.loadLocalStore(userId).conversations
+        .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('tutor_conversations')
+        .select('*')
+        .eq('user_id', userId)
+        .order('updated_at', { ascending: false })
+
+      if (error) {
+        if (error.message.includes('relation "tutor_conversations" does not exist')) {
+          throw new Error('Tutor conversation tables not found. Please run the database migrations.')
+        }
+        throw error
+      }
+      return data || []
+    } catch (error) {
+      console.error('Error listing tutor conversations:', error)
+      throw error
+    }
+  }
+
+  // Start a new conversation thread
+  static async createConversation(
+    userId: string,
+    title: string,
+    subject?: string,
+    id: string = crypto.randomUUID()
+  ): Promise<TutorConversation> {
+    const now = new Date().toISOString()
+    const conversation: TutorConversation = {
+      id,
+      user_id: userId,
+      title: title || 'New conversation',
+      subject,
+      created_at: now,
+      updated_at: now
+    }
+
+    if (!this.canMakeDbCalls()) {
+      const store = this.loadLocalStore(userId)
+      store.conversations.push(conversation)
+      this.saveLocalStore(userId, store)
+      return conversation
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('tutor_conversations')
+        .insert({
+          id: conversation.id,
+          user_id: userId,
+          title: conversation.title,
+          subject: subject || null
+        })
+        .select()
+        .single()
+
+      if (error) throw error
+      return data
+    } catch (error) {
+      console.error('Error creating tutor conversation:', error)
+      throw new Error('Failed to start a new conversation')
+    }
+  }
+
+  // Rename a conversation thread
+  static async renameConversation(userId: string, conversationId: string, title: string): Promise<void> {
+    const trimmedTitle = title.trim()
+    if (!trimmedTitle) {
+      throw new Error('Conversation title cannot be empty')
+    }
+
+    if (!this.canMakeDbCalls()) {
+      const store = this.loadLocalStore(userId)
+      store.conversations = store.conversations.map(c =>
+        c.id === conversationId ? { ...c, title: trimmedTitle, updated_at: new Date().toISOString() } : c
+      )
+      this.saveLocalStore(userId, store)
+      return
+    }
+
+    try {
+      const { error } = await supabase
+        .from('tutor_conversations')
+        .update({ title: trimmedTitle })
+        .eq('id', conversationId)
+        .eq('user_id', userId)
+
+      if (error) throw error
+    } catch (error) {
+      console.error('Error renaming tutor conversation:', error)
+      throw new Error('Failed to rename conversation')
+    }
+  }
+
+  // Delete a conversation and all of its messages
+  static async deleteConversation(userId: string, conversationId: string): Promise<void> {
+    if (!this.canMakeDbCalls()) {
+      const store = this.loadLocalStore(userId)
+      store.conversations = store.conversations.filter(c => c.id !== conversationId)
+      store.messages = store.messages.filter(m => m.conversation_id !== conversationId)
+      this.saveLocalStore(userId, store)
+      return
+    }
+
+    try {
+      const { data: messages } = await supabase
+        .from('tutor_messages')
+        .select('attachments')
+        .eq('conversation_id', conversationId)
+        .eq('user_id', userId)
+
+      const { error } = await supabase
+        .from('tutor_conversations')
+        .delete()
+        .eq('id', conversationId)
+        .eq('user_id', userId)
+
+      if (error) throw error
+
+      const attachmentPaths = (messages || []).flatMap(
+        (m: Pick<TutorMessageRecord, 'attachments'>) => (m.attachments || []).map(a => a.path)
+      )
+      await StorageService.removeFiles(ATTACHMENT_BUCKET, attachmentPaths)
+    } catch (error) {
+      console.error('Error deleting tutor conversation:', error)
+      throw new Error('Failed to delete conversation')
+    }
+  }
+
+  // Get all messages in a conversation in the order they were sent
+  static async getMessages(userId: string, conversationId: string): Promise<TutorMessageRecord[]> {
+    if (!this.canMakeDbCalls()) {
+      return this.loadLocalStore(userId).messages
+        .filter(m => m.conversation_id === conversationId)
+        .map(m => ({ ...m, attachments: m.attachments || [] }))
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('tutor_messages')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+      return this.withAttachmentUrls(data || [])
+    } catch (error) {
+      console.error('Error fetching tutor messages:', error)
+      throw new Error('Failed to load conversation')
+    }
+  }
+
+  // Save a message to a conversation
+  static async addMessage(
+    userId: string,
+    conversationId: string,
+    message: Pick<TutorMessageRecord, 'id' | 'role' | 'content' | 'parent_id' | 'status'> & {
+      attachments?: TutorAttachment[]
+    }
+  ): Promise<TutorMessageRecord> {
+    const record: TutorMessageRecord = {
+      ...message,
+      attachments: message.attachments || [],
+      conversation_id: conversationId,
+      user_id: userId,
+      created_at: new Date().toISOString()
+    }
+
+    if (!this.canMakeDbCalls()) {
+      const store = this.loadLocalStore(userId)
+      store.messages.push({ ...record, attachments: this.withoutUrls(record.attachments) })
+      store.conversations = store.conversations.map(c =>
+        c.id === conversationId ? { ...c, updated_at: record.created_at } : c
+      )
+      this.saveLocalStore(userId, store)
+      return record
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('tutor_messages')
+        .insert({
+          id: record.id,
+          conversation_id: conversationId,
+          user_id: userId,
+          role: record.role,
+          content: record.content,
+          parent_id: record.parent_id,
+          status: record.status,
+          attachments: this.withoutUrls(record.attachments)
+        })
+        .select()
+        .single()
+
+      if (error) throw error
+      // Keep the links we already have rather than signing them again
+      return { ...data, attachments: record.attachments }
+    } catch (error) {
+      console.error('Error saving tutor message:', error)
+      throw new Error('Failed to save message')
+    }
+  }
+}
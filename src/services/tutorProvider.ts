@@ -0,0 +1,273 @@
+import { supabase } from '../lib/supabase'
+import type { TutorAttachment } from '../lib/supabase'
+import type { TutorContext } from './tutorContextService'
+
+export type TutorRole = 'system' | 'user' | 'assistant'
+
+export interface TutorMessage {
+  role: TutorRole
+  content: string
+  // Images or PDFs of the question, sent to the provider as signed links
+  attachments?: TutorAttachment[]
+}
+
+export interface TutorRequest {
+  messages: TutorMessage[]
+  subject?: string
+  context?: TutorContext
+}
+
+export interface TutorStreamHandlers {
+  onToken: (token: string) => void
+}
+
+export interface TutorReply {
+  content: string
+  subject: string
+  finishReason: 'stop' | 'cancelled'
+}
+
+// Anything that can turn a conversation into a streamed tutor reply
+export interface TutorProvider {
+  readonly name: string
+  streamReply(request: TutorRequest, handlers: TutorStreamHandlers): Promise<TutorReply>
+  cancel(): void
+}
+
+const subjectKeywords: { [key: string]: string[] } = {
+  'Mathematics': ['equation', 'quadratic', 'algebra', 'calculus', 'derivative', 'integral', 'trigonometry', 'matrix', 'polynomial', 'geometry', 'probability', 'statistics'],
+  'Physics': ['force', 'motion', 'velocity', 'acceleration', 'newton', 'energy', 'momentum', 'gravity', 'current', 'voltage', 'wave', 'thermodynamics'],
+  'Chemistry': ['organic', 'reaction', 'molecule', 'atom', 'bond', 'acid', 'base', 'periodic', 'mole', 'electron', 'compound', 'oxidation'],
+  'Biology': ['cell', 'dna', 'gene', 'enzyme', 'photosynthesis', 'protein', 'tissue', 'organ', 'evolution', 'respiration', 'mitosis', 'heart'],
+  'English': ['grammar', 'essay', 'tense', 'vocabulary', 'comprehension', 'poem', 'sentence', 'precis'],
+  'Urdu': ['urdu', 'ghazal', 'nazm', 'tashreeh', 'mazmoon']
+}
+
+// Pick the subject a piece of text is most likely about
+export const detectSubject = (text: string, fallback: string = 'General'): string => {
+  const lowerText = text.toLowerCase()
+  let bestSubject = fallback
+  let bestScore = 0
+
+  Object.entries(subjectKeywords).forEach(([subject, keywords]) => {
+    const score = keywords.filter(keyword => lowerText.includes(keyword)).length
+    if (score > bestScore) {
+      bestScore = score
+      bestSubject = subject
+    }
+  })
+
+  return bestSubject
+}
+
+// Offline stand-in that builds a structured answer from the conversation itself
+export class LocalTutorProvider implements TutorProvider {
+  readonly name = 'local'
+  private controller: AbortController | null = null
+
+  constructor(private tokenDelayMs: number = 25) {}
+
+  async streamReply(request: TutorRequest, handlers: TutorStreamHandlers): Promise<TutorReply> {
+    this.cancel()
+    const controller = new AbortController()
+    this.controller = controller
+
+    const userMessages = request.messages.filter(m => m.role === 'user')
+    const lastMessage = userMessages[userMessages.length - 1]
+    const question = lastMessage?.content.trim() || ''
+    const subject = request.subject || detectSubject(
+      userMessages.map(m => m.content).join(' ')
+    )
+
+    const reply = this.composeReply(question, subject, userMessages.length > 1, request.context, lastMessage?.attachments)
+    const tokens = reply.match(/\S+\s*/g) || []
+    let content = ''
+
+    for (const token of tokens) {
+      if (controller.signal.aborted) {
+        return { content, subject, finishReason: 'cancelled' }
+      }
+      await new Promise(resolve => setTimeout(resolve, this.tokenDelayMs))
+      if (controller.signal.aborted) {
+        return { content, subject, finishReason: 'cancelled' }
+      }
+      content += token
+      handlers.onToken(token)
+    }
+
+    if (this.controller === controller) {
+      this.controller = null
+    }
+    return { content, subject, finishReason: 'stop' }
+  }
+
+  cancel(): void {
+    if (this.controller) {
+      this.controller.abort()
+      this.controller = null
+    }
+  }
+
+  private composeReply(
+    question: string,
+    subject: string,
+    isFollowUp: boolean,
+    context?: TutorContext,
+    attachments: TutorAttachment[] = []
+  ): string {
+    const opening = isFollowUp
+      ? `Good follow-up. Let's build on what we covered and look at "${question}".`
+      : `Great question! Let's work through "${question}" together.`
+
+    const stepsBySubject: { [key: string]: string[] } = {
+      'Mathematics': [
+        'Write down what is given and what you need to find.',
+        'Choose the formula or method that links them, and say why it applies.',
+        'Substitute carefully and simplify one step at a time.',
+        'Check the answer by putting it back into the original problem.'
+      ],
+      'Physics': [
+        'List the known quantities with their SI units.',
+        'Identify the law or equation that connects them.',
+        'Rearrange for the unknown before substituting numbers.',
+        'Check that the units and the size of the answer make sense.'
+      ],
+      'Chemistry': [
+        'Identify the substances involved and their formulas.',
+        'Decide what type of reaction or concept this is.',
+        'Balance the equation or apply the relevant rule.',
+        'Relate the result back to the structure or properties of the substances.'
+      ],
+      'Biology': [
+        'Start with the definition of the key term.',
+        'Describe the structure involved and where it is found.',
+        'Explain the function or process in order.',
+        'Link it to a real example from the syllabus.'
+      ]
+    }
+
+    const steps = stepsBySubject[subject] || [
+      'Break the question into the key ideas it is asking about.',
+      'Recall the definitions and rules that apply to each idea.',
+      'Put them together into a clear, step-by-step answer.',
+      'Summarise the main point in one sentence.'
+    ]
+
+    const subjectLine = subject === 'General'
+      ? 'Here is how I would approach it:'
+      : `This is a ${subject} question. Here is how I would approach it:`
+
+    // The offline tutor can't read files, so ask for the parts it needs
+    const attachmentNote = attachments.length > 0
+      ? [`I can see you attached ${attachments.map(a => a.name).join(', ')}. I can't read files in offline mode, so please type out the question or the values it gives.`]
+      : []
+
+    return [
+      opening,
+      ...attachmentNote,
+      ...this.describeSyllabusFit(question, subject, context),
+      '',
+      subjectLine,
+      ...steps.map((step, index) => `${index + 1}. ${step}`),
+      '',
+      'Try the first step yourself and tell me what you get. I will check your work and guide you through the rest.'
+    ].join('\n')
+  }
+
+  // Relate the question to the student's own grade, board and syllabus topics
+  private describeSyllabusFit(question: string, subject: string, context?: TutorContext): string[] {
+    if (!context) return []
+
+    const level = [context.subjectGroup || context.grade, context.board].filter(Boolean).join(', ')
+    const lowerQuestion = question.toLowerCase()
+    const matchedTopic = context.pinnedTopic || context.syllabusTopics.find(topic =>
+      lowerQuestion.includes(topic.toLowerCase())
+    )
+    const lines: string[] = []
+
+    if (matchedTopic) {
+      lines.push(`In your ${level} syllabus this comes under ${subject} → ${matchedTopic}, so I'll stick to what your exams expect.`)
+    } else if (level && subject !== 'General') {
+      lines.push(`I'll keep this at the level of your ${level} ${subject} course.`)
+    }
+
+    if (subject !== 'General' && context.subjects.length > 0 && !context.subjects.includes(subject)) {
+      lines.push(`Note: ${subject} isn't one of your registered subjects, so this goes beyond your syllabus.`)
+    }
+
+    return lines
+  }
+}
+
+// Streams replies from a hosted tutor endpoint that returns plain text chunks
+export class RemoteTutorProvider implements TutorProvider {
+  readonly name = 'remote'
+  private controller: AbortController | null = null
+
+  constructor(private endpoint: string) {}
+
+  async streamReply(request: TutorRequest, handlers: TutorStreamHandlers): Promise<TutorReply> {
+    this.cancel()
+    const controller = new AbortController()
+    this.controller = controller
+
+    const subject = request.subject || detectSubject(
+      request.messages.filter(m => m.role === 'user').map(m => m.content).join(' ')
+    )
+    let content = ''
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+
+      const response = await fetch(this.endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(session?.access_token && { Authorization: `Bearer ${session.access_token}` })
+        },
+        body: JSON.stringify({ messages: request.messages, subject, context: request.context }),
+        signal: controller.signal
+      })
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Tutor service responded with status ${response.status}`)
+      }
+
+      const reader = response.body.getReader()
+      const decoder = new TextDecoder()
+
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+        const token = decoder.decode(value, { stream: true })
+        content += token
+        handlers.onToken(token)
+      }
+
+      return { content, subject, finishReason: 'stop' }
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        return { content, subject, finishReason: 'cancelled' }
+      }
+      console.error('Remote tutor error:', error)
+      throw new Error('The AI tutor is unavailable right now. Please try again in a moment.')
+    } finally {
+      if (this.controller === controller) {
+        this.controller = null
+      }
+    }
+  }
+
+  cancel(): void {
+    if (this.controller) {
+      this.controller.abort()
+      this.controller = null
+    }
+  }
+}
+
+// Use the hosted tutor when one is configured, otherwise fall back to the offline stand-in
+export const createTutorProvider = (): TutorProvider => {
+  const tutorApiUrl = import.meta.env.VITE_TUTOR_API_URL || ''
+  return tutorApiUrl ? new RemoteTutorProvider(tutorApiUrl) : new LocalTutorProvider()
+}
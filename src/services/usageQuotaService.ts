@@ -0,0 +1,156 @@
+import { supabase, isUsingMockClient } from '../lib/supabase'
+import type { SubscriptionPlan } from '../lib/supabase'
+
+// Plan allowances come from the database's tutor_session_limit(); this one only applies when
+// there is no database and sessions are counted in the browser
+const LOCAL_SESSION_LIMIT = 5
+
+export interface TutorQuota {
+  plan: SubscriptionPlan
+  used: number
+  limit: number | null
+  remaining: number | null
+  periodStart: string
+  resetsOn: string
+}
+
+export interface TutorSessionCheck {
+  allowed: boolean
+  quota: TutorQuota
+}
+
+interface LocalUsageEntry {
+  period_start: string
+  conversation_id: string
+}
+
+export class UsageQuotaService {
+  // Check if we can safely make database calls
+  private static canMakeDbCalls(): boolean {
+    if (isUsingMockClient) {
+      console.warn('UsageQuotaService: Using mock client, tutor usage will be counted in this browser')
+      return false
+    }
+    return true
+  }
+
+  // Billing periods are calendar months in UTC, matching the database
+  static getCurrentPeriodStart(now: Date = new Date()): string {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString().slice(0, 10)
+  }
+
+  private static buildQuota(plan: SubscriptionPlan, used: number, limit: number | null, periodStart: string): TutorQuota {
+    const start = new Date(`${periodStart}T00:00:00Z`)
+    const resetsOn = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1)).toISOString().slice(0, 10)
+
+    return {
+      plan,
+      used,
+      limit,
+      remaining: limit === null ? null : Math.max(0, limit - used),
+      periodStart,
+      resetsOn
+    }
+  }
+
+  private static loadLocalLedger(userId: string): LocalUsageEntry[] {
+    try {
+      const saved = localStorage.getItem(`tutorUsage:${userId}`)
+      if (saved) return JSON.parse(saved)
+    } catch (error) {
+      console.error('Error reading local tutor usage:', error)
+    }
+    return []
+  }
+
+  // Get the plan a user is on; users without a subscription are on Basic
+  static async getPlan(userId: string): Promise<SubscriptionPlan> {
+    if (!this.canMakeDbCalls()) return 'basic'
+
+    try {
+      const { data, error } = await supabase
+        .from('user_subscriptions')
+        .select('plan, status')
+        .eq('user_id', userId)
+        .maybeSingle()
+
+      if (error) throw error
+      return data && data.status === 'active' ? data.plan : 'basic'
+    } catch (error) {
+      console.error('Error fetching subscription:', error)
+      return 'basic'
+    }
+  }
+
+  // Get how many tutor sessions the user has used this month, counted from the usage ledger
+  static async getTutorQuota(userId: string): Promise<TutorQuota> {
+    const periodStart = this.getCurrentPeriodStart()
+
+    if (!this.canMakeDbCalls()) {
+      const used = this.loadLocalLedger(userId).filter(entry => entry.period_start === periodStart).length
+      return this.buildQuota('basic', used, LOCAL_SESSION_LIMIT, periodStart)
+    }
+
+    try {
+      const plan = await this.getPlan(userId)
+      const [usage, limit] = await Promise.all([
+        supabase
+          .from('tutor_usage_ledger')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', userId)
+          .eq('period_start', periodStart),
+        supabase.rpc('tutor_session_limit', { p_plan: plan })
+      ])
+
+      if (usage.error) throw usage.error
+      if (limit.error) throw limit.error
+      return this.buildQuota(plan, usage.count || 0, limit.data ?? null, periodStart)
+    } catch (error) {
+      console.error('Error fetching tutor quota:', error)
+      throw new Error('Failed to load your tutor usage')
+    }
+  }
+
+  // Check the quota and charge a session for this conversation, unless it was already charged this month
+  static async startTutorSession(userId: string, conversationId: string): Promise<TutorSessionCheck> {
+    const periodStart = this.getCurrentPeriodStart()
+
+    if (!this.canMakeDbCalls()) {
+      const ledger = this.loadLocalLedger(userId)
+      const thisPeriod = ledger.filter(entry => entry.period_start === periodStart)
+      const alreadyCounted = thisPeriod.some(entry => entry.conversation_id === conversationId)
+
+      if (alreadyCounted) {
+        return { allowed: true, quota: this.buildQuota('basic', thisPeriod.length, LOCAL_SESSION_LIMIT, periodStart) }
+      }
+      if (thisPeriod.length >= LOCAL_SESSION_LIMIT) {
+        return { allowed: false, quota: this.buildQuota('basic', thisPeriod.length, LOCAL_SESSION_LIMIT, periodStart) }
+      }
+
+      ledger.push({ period_start: periodStart, conversation_id: conversationId })
+      localStorage.setItem(`tutorUsage:${userId}`, JSON.stringify(ledger))
+      return { allowed: true, quota: this.buildQuota('basic', thisPeriod.length + 1, LOCAL_SESSION_LIMIT, periodStart) }
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('consume_tutor_session', {
+        p_conversation_id: conversationId
+      })
+
+      if (error) {
+        if (error.message.includes('consume_tutor_session')) {
+          throw new Error('Tutor usage tables not found. Please run the database migrations.')
+        }
+        throw error
+      }
+
+      return {
+        allowed: data.allowed,
+        quota: this.buildQuota(data.plan, data.used, data.limit ?? null, data.period_start)
+      }
+    } catch (error) {
+      console.error('Error starting tutor session:', error)
+      throw error instanceof Error ? error : new Error('Could not check your tutor usage')
+    }
+  }
+}
@@ -0,0 +1,113 @@
+/*
+  # AI Tutor Conversations
+
+  1. New Tables
+    - `tutor_conversations` - One row per tutor chat thread
+    - `tutor_messages` - Messages exchanged within a thread
+
+  2. Security
+    - Enable RLS on both tables
+    - Users can only read and manage their own threads and messages
+
+  3. Triggers
+    - Keep `tutor_conversations.updated_at` current on rename
+    - Bump the parent thread when a new message is added so recent threads sort first
+
+  4. Performance
+    - Index threads by user and recency, messages by thread and order
+*/
+
+CREATE TABLE IF NOT EXISTS tutor_conversations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title text NOT NULL DEFAULT 'New conversation',
+  subject text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS tutor_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id uuid NOT NULL REFERENCES tutor_conversations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL CHECK (role IN ('user', 'assistant')),
+  content text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tutor_conversations_user_id ON tutor_conversations(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_tutor_messages_conversation ON tutor_messages(conversation_id, created_at);
+
+ALTER TABLE tutor_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tutor_messages ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for tutor_conversations
+CREATE POLICY "Users can insert own tutor conversations"
+  ON tutor_conversations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own tutor conversations"
+  ON tutor_conversations
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own tutor conversations"
+  ON tutor_conversations
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own tutor conversations"
+  ON tutor_conversations
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create RLS policies for tutor_messages
+CREATE POLICY "Users can insert own tutor messages"
+  ON tutor_messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM tutor_conversations c
+      WHERE c.id = conversation_id AND c.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view own tutor messages"
+  ON tutor_messages
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own tutor messages"
+  ON tutor_messages
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_tutor_conversations_updated_at
+  BEFORE UPDATE ON tutor_conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Bump the parent conversation whenever a message is added
+CREATE OR REPLACE FUNCTION touch_tutor_conversation()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.tutor_conversations
+  SET updated_at = now()
+  WHERE id = NEW.conversation_id;
+  RETURN NEW;
+END;
+$$ language 'plpgsql' security definer;
+
+CREATE TRIGGER touch_tutor_conversation_on_message
+  AFTER INSERT ON tutor_messages
+  FOR EACH ROW EXECUTE FUNCTION touch_tutor_conversation();
@@ -0,0 +1,31 @@
+/*
+  # AI Tutor Message Branches
+
+  1. Changes
+    - `tutor_messages.parent_id` - The message this one replies to; siblings are alternative branches
+      created by regenerating an answer or editing a question
+    - `tutor_messages.status` - Whether a reply finished, was stopped, or failed
+
+  2. Data
+    - Existing threads are linear, so each message is linked to the one before it
+*/
+
+ALTER TABLE tutor_messages
+  ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES tutor_messages(id) ON DELETE CASCADE;
+
+ALTER TABLE tutor_messages
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'complete'
+  CHECK (status IN ('streaming', 'complete', 'cancelled', 'error'));
+
+-- Link existing messages into a single chain per conversation
+UPDATE tutor_messages m
+SET parent_id = ordered.previous_id
+FROM (
+  SELECT id, lag(id) OVER (PARTITION BY conversation_id ORDER BY created_at) AS previous_id
+  FROM tutor_messages
+) ordered
+WHERE m.id = ordered.id
+  AND m.parent_id IS NULL
+  AND ordered.previous_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tutor_messages_parent ON tutor_messages(parent_id);
@@ -0,0 +1,84 @@
+/*
+  # AI Tutor Attachments
+
+  1. Changes
+    - `tutor_messages.attachments` - Images and PDFs sent with a question, stored as
+      `{ name, path, mime_type, size }` objects pointing into the `tutor-attachments` bucket
+
+  2. Storage
+    - Private `tutor-attachments` bucket limited to images and PDFs up to 5 MB
+    - Files live under a folder named after the owner's user id
+
+  3. Security
+    - Same per-user folder policies as `profile-pictures`, but files are not public:
+      users can only upload, read and delete files in their own folder
+*/
+
+ALTER TABLE tutor_messages
+  ADD COLUMN IF NOT EXISTS attachments jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+-- Create storage bucket for tutor attachments if it doesn't exist
+DO $$
+BEGIN
+  INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+  VALUES (
+    'tutor-attachments',
+    'tutor-attachments',
+    false,
+    5242880,
+    ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'application/pdf']
+  )
+  ON CONFLICT (id) DO NOTHING;
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE WARNING 'Failed to create storage bucket: %', SQLERRM;
+END $$;
+
+-- Create storage policies for tutor attachments
+DO $$
+BEGIN
+  -- Policy for uploading attachments
+  CREATE POLICY "Users can upload own tutor attachments"
+    ON storage.objects
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (bucket_id = 'tutor-attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
+EXCEPTION
+  WHEN duplicate_object THEN
+    -- Policy already exists, ignore
+    NULL;
+  WHEN OTHERS THEN
+    RAISE WARNING 'Failed to create upload policy: %', SQLERRM;
+END $$;
+
+DO $$
+BEGIN
+  -- Policy for reading attachments (needed to create signed URLs)
+  CREATE POLICY "Users can view own tutor attachments"
+    ON storage.objects
+    FOR SELECT
+    TO authenticated
+    USING (bucket_id = 'tutor-attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
+EXCEPTION
+  WHEN duplicate_object THEN
+    -- Policy already exists, ignore
+    NULL;
+  WHEN OTHERS THEN
+    RAISE WARNING 'Failed to create select policy: %', SQLERRM;
+END $$;
+
+DO $$
+BEGIN
+  -- Policy for deleting attachments
+  CREATE POLICY "Users can delete own tutor attachments"
+    ON storage.objects
+    FOR DELETE
+    TO authenticated
+    USING (bucket_id = 'tutor-attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
+EXCEPTION
+  WHEN duplicate_object THEN
+    -- Policy already exists, ignore
+    NULL;
+  WHEN OTHERS THEN
+    RAISE WARNING 'Failed to create delete policy: %', SQLERRM;
+END $$;
@@ -0,0 +1,118 @@
+/*
+  # AI Tutor Usage Quota
+
+  1. New Tables
+    - `user_subscriptions` - The plan each user is on. Users without a row are on Basic.
+      Only the billing backend (service role) writes to this table.
+    - `tutor_usage_ledger` - One row per tutor session a user starts in a billing period.
+      A session is a conversation; continuing it within the same month is not charged again.
+
+  2. Functions
+    - `tutor_session_limit(plan)` - Monthly tutor sessions included in a plan (NULL = unlimited)
+    - `consume_tutor_session(conversation_id)` - Checks the caller's quota and records the session
+      in one step, so the limit cannot be bypassed from the client
+
+  3. Security
+    - Enable RLS on both tables
+    - Users can read their own subscription and ledger rows; neither can be written directly
+*/
+
+CREATE TABLE IF NOT EXISTS user_subscriptions (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  plan text NOT NULL DEFAULT 'basic' CHECK (plan IN ('basic', 'pro', 'custom')),
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'past_due', 'cancelled')),
+  current_period_end timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS tutor_usage_ledger (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  period_start date NOT NULL,
+  conversation_id uuid NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, period_start, conversation_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tutor_usage_ledger_user_period ON tutor_usage_ledger(user_id, period_start);
+
+ALTER TABLE user_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tutor_usage_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own subscription"
+  ON user_subscriptions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own tutor usage"
+  ON tutor_usage_ledger
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_user_subscriptions_updated_at
+  BEFORE UPDATE ON user_subscriptions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Monthly tutor sessions included in each plan
+CREATE OR REPLACE FUNCTION tutor_session_limit(p_plan text)
+RETURNS integer AS $$
+BEGIN
+  RETURN CASE p_plan
+    WHEN 'basic' THEN 5
+    ELSE NULL
+  END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Record a tutor session for the current user if their plan allows it
+CREATE OR REPLACE FUNCTION consume_tutor_session(p_conversation_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_period date := date_trunc('month', now())::date;
+  v_plan text;
+  v_limit integer;
+  v_used integer;
+  v_already_counted boolean;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Serialise concurrent requests from the same user
+  PERFORM pg_advisory_xact_lock(hashtext(v_user_id::text));
+
+  SELECT plan INTO v_plan
+  FROM user_subscriptions
+  WHERE user_id = v_user_id AND status = 'active';
+
+  v_plan := COALESCE(v_plan, 'basic');
+  v_limit := tutor_session_limit(v_plan);
+
+  SELECT EXISTS (
+    SELECT 1 FROM tutor_usage_ledger
+    WHERE user_id = v_user_id AND period_start = v_period AND conversation_id = p_conversation_id
+  ) INTO v_already_counted;
+
+  SELECT count(*) INTO v_used
+  FROM tutor_usage_ledger
+  WHERE user_id = v_user_id AND period_start = v_period;
+
+  IF NOT v_already_counted THEN
+    IF v_limit IS NOT NULL AND v_used >= v_limit THEN
+      RETURN jsonb_build_object('allowed', false, 'plan', v_plan, 'used', v_used, 'limit', v_limit, 'period_start', v_period);
+    END IF;
+
+    INSERT INTO tutor_usage_ledger (user_id, period_start, conversation_id)
+    VALUES (v_user_id, v_period, p_conversation_id);
+    v_used := v_used + 1;
+  END IF;
+
+  RETURN jsonb_build_object('allowed', true, 'plan', v_plan, 'used', v_used, 'limit', v_limit, 'period_start', v_period);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION consume_tutor_session(uuid) TO authenticated;
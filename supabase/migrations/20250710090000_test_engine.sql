@@ -0,0 +1,238 @@
+/*
+  # Tests and Question Bank
+
+  1. New Tables
+    - `tests` - A published test or quiz for a subject, with its time limit
+    - `questions` - Questions belonging to a test, in order
+    - `test_attempts` - One row each time a student sits a test
+    - `attempt_answers` - The student's answer to each question in an attempt, with its grade
+
+  2. Question Format
+    - `question_type` - `mcq` (single correct option)
+    - `options` - JSON array of option labels
+    - `answer` - JSON answer key, e.g. `{ "correctIndex": 2 }` for an MCQ
+
+  3. Security
+    - Enable RLS on all tables
+    - Any signed-in student can read published tests and their questions
+    - Students can only create, read and update their own attempts and answers
+
+  4. Seed Data
+    - A starter bank of Mathematics, Physics, Chemistry and Biology tests
+*/
+
+CREATE TABLE IF NOT EXISTS tests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text NOT NULL,
+  description text,
+  subject text NOT NULL,
+  grade text,
+  board text,
+  difficulty text NOT NULL DEFAULT 'Medium' CHECK (difficulty IN ('Easy', 'Medium', 'Hard')),
+  duration_minutes integer NOT NULL CHECK (duration_minutes > 0),
+  is_published boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS questions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  test_id uuid NOT NULL REFERENCES tests(id) ON DELETE CASCADE,
+  position integer NOT NULL DEFAULT 0,
+  question_type text NOT NULL DEFAULT 'mcq' CHECK (question_type IN ('mcq')),
+  prompt text NOT NULL,
+  options jsonb NOT NULL DEFAULT '[]'::jsonb,
+  answer jsonb NOT NULL,
+  explanation text,
+  topic text,
+  marks numeric NOT NULL DEFAULT 1 CHECK (marks > 0),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS test_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  test_id uuid NOT NULL REFERENCES tests(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'submitted')),
+  started_at timestamptz NOT NULL DEFAULT now(),
+  submitted_at timestamptz,
+  duration_seconds integer,
+  total_questions integer NOT NULL DEFAULT 0,
+  correct_answers integer NOT NULL DEFAULT 0,
+  marks_obtained numeric NOT NULL DEFAULT 0,
+  total_marks numeric NOT NULL DEFAULT 0,
+  score numeric CHECK (score >= 0 AND score <= 100),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS attempt_answers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  attempt_id uuid NOT NULL REFERENCES test_attempts(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  question_id uuid NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+  response jsonb,
+  is_correct boolean NOT NULL DEFAULT false,
+  marks_awarded numeric NOT NULL DEFAULT 0,
+  flagged boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (attempt_id, question_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tests_subject ON tests(subject);
+CREATE INDEX IF NOT EXISTS idx_questions_test ON questions(test_id, position);
+CREATE INDEX IF NOT EXISTS idx_test_attempts_user ON test_attempts(user_id, submitted_at DESC);
+CREATE INDEX IF NOT EXISTS idx_attempt_answers_attempt ON attempt_answers(attempt_id);
+
+ALTER TABLE tests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE test_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE attempt_answers ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for tests and questions
+CREATE POLICY "Authenticated users can view published tests"
+  ON tests
+  FOR SELECT
+  TO authenticated
+  USING (is_published);
+
+CREATE POLICY "Authenticated users can view questions of published tests"
+  ON questions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM tests t
+      WHERE t.id = test_id AND t.is_published
+    )
+  );
+
+-- Create RLS policies for test_attempts
+CREATE POLICY "Users can insert own test attempts"
+  ON test_attempts
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own test attempts"
+  ON test_attempts
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own test attempts"
+  ON test_attempts
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create RLS policies for attempt_answers
+CREATE POLICY "Users can insert own attempt answers"
+  ON attempt_answers
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM test_attempts a
+      WHERE a.id = attempt_id AND a.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view own attempt answers"
+  ON attempt_answers
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own attempt answers"
+  ON attempt_answers
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_tests_updated_at
+  BEFORE UPDATE ON tests
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Seed a starter question bank
+INSERT INTO tests (id, title, description, subject, difficulty, duration_minutes) VALUES
+  ('7c1e0a10-0001-4000-8000-000000000001', 'Algebra Fundamentals', 'Linear and quadratic equations, factorisation and indices.', 'Mathematics', 'Medium', 15),
+  ('7c1e0a10-0002-4000-8000-000000000002', 'Newton''s Laws Quiz', 'Force, mass, acceleration and the three laws of motion.', 'Physics', 'Easy', 10),
+  ('7c1e0a10-0003-4000-8000-000000000003', 'Organic Chemistry Test', 'Hydrocarbons, functional groups and isomerism.', 'Chemistry', 'Hard', 15),
+  ('7c1e0a10-0004-4000-8000-000000000004', 'Cell Biology Assessment', 'Cell structure, organelles and cell division.', 'Biology', 'Medium', 10)
+ON CONFLICT (id) DO NOTHING;
+
+-- Questions are only added to tests that don't have any yet, so this is safe to re-run
+INSERT INTO questions (test_id, position, prompt, options, answer, explanation, topic)
+SELECT seed.test_id::uuid, seed.position, seed.prompt, seed.options::jsonb, seed.answer::jsonb, seed.explanation, seed.topic
+FROM (VALUES
+  ('7c1e0a10-0001-4000-8000-000000000001', 1, 'Solve for $x$: $2x + 7 = 19$',
+    '["$x = 5$", "$x = 6$", "$x = 13$", "$x = 12$"]', '{"correctIndex": 1}',
+    'Subtract 7 from both sides to get $2x = 12$, then divide by 2.', 'Linear Equations'),
+  ('7c1e0a10-0001-4000-8000-000000000001', 2, 'What are the roots of $x^2 - 5x + 6 = 0$?',
+    '["$2$ and $3$", "$-2$ and $-3$", "$1$ and $6$", "$-1$ and $-6$"]', '{"correctIndex": 0}',
+    'The quadratic factorises as $(x - 2)(x - 3) = 0$.', 'Quadratic Equations'),
+  ('7c1e0a10-0001-4000-8000-000000000001', 3, 'Simplify $a^3 \times a^4$',
+    '["$a^{12}$", "$a^7$", "$2a^7$", "$a^{1}$"]', '{"correctIndex": 1}',
+    'When multiplying powers with the same base, add the indices: $3 + 4 = 7$.', 'Indices'),
+  ('7c1e0a10-0001-4000-8000-000000000001', 4, 'Factorise $x^2 - 9$',
+    '["$(x - 3)^2$", "$(x + 9)(x - 1)$", "$(x - 3)(x + 3)$", "$x(x - 9)$"]', '{"correctIndex": 2}',
+    'This is a difference of two squares: $a^2 - b^2 = (a - b)(a + b)$.', 'Factorisation'),
+  ('7c1e0a10-0001-4000-8000-000000000001', 5, 'The discriminant of $ax^2 + bx + c = 0$ is negative. The roots are:',
+    '["Real and equal", "Real and distinct", "Complex (not real)", "Always zero"]', '{"correctIndex": 2}',
+    'If $b^2 - 4ac < 0$ the square root in the quadratic formula is of a negative number, so the roots are complex.', 'Quadratic Equations'),
+
+  ('7c1e0a10-0002-4000-8000-000000000002', 1, 'Which law states that every action has an equal and opposite reaction?',
+    '["First law", "Second law", "Third law", "Law of gravitation"]', '{"correctIndex": 2}',
+    'Newton''s third law describes action-reaction pairs acting on different bodies.', 'Laws of Motion'),
+  ('7c1e0a10-0002-4000-8000-000000000002', 2, 'A net force of $20\,\text{N}$ acts on a $4\,\text{kg}$ mass. Its acceleration is:',
+    '["$80\\,\\text{m/s}^2$", "$5\\,\\text{m/s}^2$", "$0.2\\,\\text{m/s}^2$", "$16\\,\\text{m/s}^2$"]', '{"correctIndex": 1}',
+    'Using $F = ma$, $a = F/m = 20/4 = 5\,\text{m/s}^2$.', 'Laws of Motion'),
+  ('7c1e0a10-0002-4000-8000-000000000002', 3, 'Inertia of a body depends on its:',
+    '["Velocity", "Mass", "Shape", "Colour"]', '{"correctIndex": 1}',
+    'Mass is the measure of inertia.', 'Laws of Motion'),
+  ('7c1e0a10-0002-4000-8000-000000000002', 4, 'The SI unit of momentum is:',
+    '["$\\text{N}$", "$\\text{kg m/s}$", "$\\text{J}$", "$\\text{kg m/s}^2$"]', '{"correctIndex": 1}',
+    'Momentum is $p = mv$, so its unit is $\text{kg} \times \text{m/s}$.', 'Momentum'),
+  ('7c1e0a10-0002-4000-8000-000000000002', 5, 'A body moving with constant velocity has a net force of:',
+    '["Zero", "Equal to its weight", "Increasing with time", "Equal to its momentum"]', '{"correctIndex": 0}',
+    'By the first law, no acceleration means no net force.', 'Laws of Motion'),
+
+  ('7c1e0a10-0003-4000-8000-000000000003', 1, 'The general formula of alkanes is:',
+    '["$C_nH_{2n}$", "$C_nH_{2n+2}$", "$C_nH_{2n-2}$", "$C_nH_n$"]', '{"correctIndex": 1}',
+    'Alkanes are saturated, so each carbon forms the maximum number of C–H bonds.', 'Hydrocarbons'),
+  ('7c1e0a10-0003-4000-8000-000000000003', 2, 'Which functional group is present in ethanol?',
+    '["$-COOH$", "$-CHO$", "$-OH$", "$-NH_2$"]', '{"correctIndex": 2}',
+    'Ethanol, $\ce{C2H5OH}$, is an alcohol.', 'Functional Groups'),
+  ('7c1e0a10-0003-4000-8000-000000000003', 3, 'Compounds with the same molecular formula but different structures are called:',
+    '["Isotopes", "Isomers", "Allotropes", "Homologues"]', '{"correctIndex": 1}',
+    'Isomers share a molecular formula but differ in the arrangement of atoms.', 'Isomerism'),
+  ('7c1e0a10-0003-4000-8000-000000000003', 4, 'Hybridisation of carbon in ethyne is:',
+    '["$sp^3$", "$sp^2$", "$sp$", "$dsp^2$"]', '{"correctIndex": 2}',
+    'Each carbon in $\ce{HC#CH}$ forms a triple bond and one single bond, which needs $sp$ hybrid orbitals.', 'Hydrocarbons'),
+  ('7c1e0a10-0003-4000-8000-000000000003', 5, 'The reaction of an alkene with hydrogen in the presence of nickel is called:',
+    '["Hydration", "Hydrogenation", "Halogenation", "Hydrolysis"]', '{"correctIndex": 1}',
+    'Adding $\ce{H2}$ across the double bond is hydrogenation.', 'Hydrocarbons'),
+
+  ('7c1e0a10-0004-4000-8000-000000000004', 1, 'Which organelle is known as the powerhouse of the cell?',
+    '["Ribosome", "Mitochondrion", "Golgi apparatus", "Lysosome"]', '{"correctIndex": 1}',
+    'Mitochondria carry out aerobic respiration and produce most of the cell''s ATP.', 'Cell Structure'),
+  ('7c1e0a10-0004-4000-8000-000000000004', 2, 'Which structure is found in plant cells but not in animal cells?',
+    '["Cell membrane", "Nucleus", "Cell wall", "Mitochondria"]', '{"correctIndex": 2}',
+    'Plant cells have a cellulose cell wall outside the cell membrane.', 'Cell Structure'),
+  ('7c1e0a10-0004-4000-8000-000000000004', 3, 'Protein synthesis takes place on:',
+    '["Ribosomes", "Lysosomes", "Vacuoles", "Centrioles"]', '{"correctIndex": 0}',
+    'Ribosomes translate mRNA into polypeptide chains.', 'Cell Structure'),
+  ('7c1e0a10-0004-4000-8000-000000000004', 4, 'Mitosis produces:',
+    '["Four haploid cells", "Two haploid cells", "Two identical diploid cells", "Four diploid cells"]', '{"correctIndex": 2}',
+    'Mitosis keeps the chromosome number the same, giving two identical daughter cells.', 'Cell Division'),
+  ('7c1e0a10-0004-4000-8000-000000000004', 5, 'Crossing over occurs during:',
+    '["Prophase I of meiosis", "Metaphase of mitosis", "Anaphase II of meiosis", "Interphase"]', '{"correctIndex": 0}',
+    'Homologous chromosomes pair up and exchange segments in prophase I.', 'Cell Division')
+) AS seed(test_id, position, prompt, options, answer, explanation, topic)
+WHERE NOT EXISTS (
+  SELECT 1 FROM questions q WHERE q.test_id = seed.test_id::uuid
+);
@@ -0,0 +1,48 @@
+/*
+  # More Question Types
+
+  1. Changes
+    - `questions.question_type` now also allows `multi_select`, `numeric` and `short_answer`
+
+  2. Answer Key Formats
+    - `mcq` - `{ "correctIndex": 2 }`
+    - `multi_select` - `{ "correctIndexes": [0, 2], "partialCredit": true }`
+    - `numeric` - `{ "value": 9.8, "tolerance": 0.1, "toleranceType": "absolute", "unit": "m/s^2", "acceptedUnits": ["m s^-2"] }`
+      (`toleranceType` may be `absolute` or `percent`; leave out `unit` for unitless answers)
+    - `short_answer` - any of `acceptedAnswers`, `keywords` with `minKeywords`, or a `rubric`
+      of `{ "criterion", "keywords", "marks" }` items, plus an optional `sampleAnswer`
+    - `options` stays an empty array for `numeric` and `short_answer` questions
+
+  3. Seed Data
+    - Adds numeric, multi-select and short-answer questions to the starter tests
+*/
+
+ALTER TABLE questions DROP CONSTRAINT IF EXISTS questions_question_type_check;
+
+ALTER TABLE questions
+  ADD CONSTRAINT questions_question_type_check
+  CHECK (question_type IN ('mcq', 'multi_select', 'numeric', 'short_answer'));
+
+-- Each question is only added if its position in the test is still free, so this is safe to re-run
+INSERT INTO questions (test_id, position, question_type, prompt, options, answer, explanation, topic, marks)
+SELECT seed.test_id::uuid, seed.position, seed.question_type, seed.prompt, seed.options::jsonb, seed.answer::jsonb, seed.explanation, seed.topic, seed.marks
+FROM (VALUES
+  ('7c1e0a10-0001-4000-8000-000000000001', 6, 'numeric', 'Find the positive root of $x^2 - 2 = 0$, correct to two decimal places.',
+    '[]', '{"value": 1.414, "tolerance": 0.01}',
+    'The roots are $\pm\sqrt{2}$, and $\sqrt{2} \approx 1.41$.', 'Quadratic Equations', 1),
+  ('7c1e0a10-0002-4000-8000-000000000002', 6, 'numeric', 'A $1500\,\text{kg}$ car accelerates uniformly from rest to $20\,\text{m/s}$ in $10\,\text{s}$. What net force acts on it? Give the unit.',
+    '[]', '{"value": 3000, "tolerance": 2, "toleranceType": "percent", "unit": "N", "acceptedUnits": ["kg m/s^2", "kg.m/s^2", "newton", "newtons"]}',
+    'The acceleration is $a = 20/10 = 2\,\text{m/s}^2$, so $F = ma = 1500 \times 2 = 3000\,\text{N}$.', 'Laws of Motion', 2),
+  ('7c1e0a10-0003-4000-8000-000000000003', 6, 'multi_select', 'Which of the following are unsaturated hydrocarbons?',
+    '["Ethene, \\ce{C2H4}", "Ethane, \\ce{C2H6}", "Ethyne, \\ce{C2H2}", "Propene, \\ce{C3H6}"]', '{"correctIndexes": [0, 2, 3], "partialCredit": true}',
+    'Alkenes and alkynes contain double or triple bonds, so they are unsaturated; ethane only has single bonds.', 'Hydrocarbons', 2),
+  ('7c1e0a10-0004-4000-8000-000000000004', 6, 'multi_select', 'Which organelles contain their own DNA?',
+    '["Mitochondria", "Golgi apparatus", "Chloroplasts", "Ribosomes"]', '{"correctIndexes": [0, 2], "partialCredit": true}',
+    'Mitochondria and chloroplasts have their own circular DNA, supporting the endosymbiotic theory.', 'Cell Structure', 2),
+  ('7c1e0a10-0004-4000-8000-000000000004', 7, 'short_answer', 'Briefly explain why the cell membrane is described as selectively permeable.',
+    '[]', '{"rubric": [{"criterion": "Some substances pass through freely", "keywords": ["some substances", "small molecules", "allows", "lets"], "marks": 1}, {"criterion": "Others are restricted or need transport proteins", "keywords": ["not others", "restricts", "blocks", "prevents", "carrier", "channel", "protein"], "marks": 1}], "sampleAnswer": "It allows some substances such as water and oxygen to pass through freely, while restricting others, which need carrier or channel proteins to cross."}',
+    'A selectively permeable membrane controls what enters and leaves the cell: small non-polar molecules diffuse across, while ions and large molecules need transport proteins.', 'Cell Structure', 2)
+) AS seed(test_id, position, question_type, prompt, options, answer, explanation, topic, marks)
+WHERE NOT EXISTS (
+  SELECT 1 FROM questions q WHERE q.test_id = seed.test_id::uuid AND q.position = seed.position
+);
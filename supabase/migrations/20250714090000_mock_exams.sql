@@ -0,0 +1,157 @@
+/*
+  # Full Mock Exams
+
+  1. New Tables
+    - `mock_exam_attempts` - One row each time a student sits a full MDCAT or ECAT mock
+      - `paper` - The questions drawn for each section, as `[{ "subject", "question_ids" }]`
+      - `responses` - The student's answers keyed by question id
+      - `section_scores` - Section-wise marks, correct, wrong and skipped counts
+      - `percentile` - Share of other submitted attempts at the same exam that scored lower
+
+  2. New Functions
+    - `mock_exam_percentile(attempt_id)` - Ranks a submitted attempt against everyone's past
+      attempts at the same exam and stores the result on the attempt
+
+  3. Security
+    - Enable RLS on `mock_exam_attempts`
+    - Students can only create, read and update their own attempts
+    - Percentiles are worked out by a security definer function so students never read other attempts
+
+  4. Seed Data
+    - English and Logical Reasoning tests so every MDCAT and ECAT section has questions
+*/
+
+CREATE TABLE IF NOT EXISTS mock_exam_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  exam text NOT NULL CHECK (exam IN ('MDCAT', 'ECAT')),
+  status text NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'submitted')),
+  paper jsonb NOT NULL DEFAULT '[]'::jsonb,
+  responses jsonb NOT NULL DEFAULT '{}'::jsonb,
+  section_scores jsonb NOT NULL DEFAULT '[]'::jsonb,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  submitted_at timestamptz,
+  duration_seconds integer,
+  total_questions integer NOT NULL DEFAULT 0,
+  correct_answers integer NOT NULL DEFAULT 0,
+  marks_obtained numeric NOT NULL DEFAULT 0,
+  total_marks numeric NOT NULL DEFAULT 0,
+  score integer CHECK (score BETWEEN 0 AND 100),
+  percentile numeric,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS mock_exam_attempts_user_id_idx ON mock_exam_attempts(user_id);
+CREATE INDEX IF NOT EXISTS mock_exam_attempts_exam_score_idx ON mock_exam_attempts(exam, score) WHERE status = 'submitted';
+
+ALTER TABLE mock_exam_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can insert own mock exam attempts"
+  ON mock_exam_attempts
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own mock exam attempts"
+  ON mock_exam_attempts
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own mock exam attempts"
+  ON mock_exam_attempts
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Rank the current user's submitted attempt against all other submitted attempts at the same exam
+CREATE OR REPLACE FUNCTION mock_exam_percentile(p_attempt_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_exam text;
+  v_score integer;
+  v_below integer;
+  v_equal integer;
+  v_total integer;
+  v_percentile numeric;
+BEGIN
+  SELECT exam, score INTO v_exam, v_score
+  FROM mock_exam_attempts
+  WHERE id = p_attempt_id AND user_id = auth.uid() AND status = 'submitted';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Mock exam attempt not found';
+  END IF;
+
+  SELECT
+    count(*) FILTER (WHERE score < v_score),
+    count(*) FILTER (WHERE score = v_score),
+    count(*)
+  INTO v_below, v_equal, v_total
+  FROM mock_exam_attempts
+  WHERE exam = v_exam AND status = 'submitted' AND id <> p_attempt_id;
+
+  -- Ties count as half above and half below
+  IF v_total > 0 THEN
+    v_percentile := round((v_below + v_equal * 0.5) * 100.0 / v_total, 1);
+  END IF;
+
+  UPDATE mock_exam_attempts SET percentile = v_percentile WHERE id = p_attempt_id;
+
+  RETURN jsonb_build_object('percentile', v_percentile, 'compared_with', v_total);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION mock_exam_percentile(uuid) TO authenticated;
+
+-- Seed the sections the starter bank doesn't cover yet
+INSERT INTO tests (id, title, description, subject, difficulty, duration_minutes) VALUES
+  ('7c1e0a10-0005-4000-8000-000000000005', 'English Usage Drill', 'Vocabulary, grammar and sentence correction in the entrance test style.', 'English', 'Easy', 10),
+  ('7c1e0a10-0006-4000-8000-000000000006', 'Logical Reasoning Practice', 'Sequences, deductions and analogies.', 'Logical Reasoning', 'Medium', 10)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO questions (test_id, position, prompt, options, answer, explanation, topic)
+SELECT seed.test_id::uuid, seed.position, seed.prompt, seed.options::jsonb, seed.answer::jsonb, seed.explanation, seed.topic
+FROM (VALUES
+  ('7c1e0a10-0005-4000-8000-000000000005', 1, 'Choose the word closest in meaning to **abundant**.',
+    '["Scarce", "Plentiful", "Hidden", "Brief"]', '{"correctIndex": 1}',
+    'Abundant means existing in large quantities, i.e. plentiful.', 'Vocabulary'),
+  ('7c1e0a10-0005-4000-8000-000000000005', 2, 'Choose the word opposite in meaning to **transparent**.',
+    '["Clear", "Obvious", "Opaque", "Bright"]', '{"correctIndex": 2}',
+    'Opaque materials do not let light pass through, the opposite of transparent.', 'Vocabulary'),
+  ('7c1e0a10-0005-4000-8000-000000000005', 3, 'Pick the correct sentence.',
+    '["Neither of the boys have finished.", "Neither of the boys has finished.", "Neither of the boy has finished.", "Neither of the boys are finished."]', '{"correctIndex": 1}',
+    '"Neither" is singular, so it takes the singular verb "has".', 'Subject-Verb Agreement'),
+  ('7c1e0a10-0005-4000-8000-000000000005', 4, 'She has been studying here ___ 2021.',
+    '["for", "since", "from", "by"]', '{"correctIndex": 1}',
+    '"Since" is used with a point in time; "for" is used with a period of time.', 'Prepositions'),
+  ('7c1e0a10-0005-4000-8000-000000000005', 5, 'Identify the error: "The data (A) / clearly shows (B) / that the results (C) / are reliable (D)."',
+    '["A", "B", "C", "D"]', '{"correctIndex": 1}',
+    'In formal usage "data" is plural, so it should be "clearly show".', 'Sentence Correction'),
+  ('7c1e0a10-0005-4000-8000-000000000005', 6, 'Choose the correctly spelt word.',
+    '["Accomodate", "Acommodate", "Accommodate", "Acomodate"]', '{"correctIndex": 2}',
+    '"Accommodate" has a double c and a double m.', 'Spelling'),
+
+  ('7c1e0a10-0006-4000-8000-000000000006', 1, 'What comes next in the series $2, 6, 12, 20, 30, \ldots$?',
+    '["$38$", "$40$", "$42$", "$44$"]', '{"correctIndex": 2}',
+    'The differences are $4, 6, 8, 10$, so the next difference is $12$ and $30 + 12 = 42$.', 'Number Series'),
+  ('7c1e0a10-0006-4000-8000-000000000006', 2, 'All roses are flowers. Some flowers fade quickly. Which conclusion follows?',
+    '["All roses fade quickly", "Some roses fade quickly", "No rose fades quickly", "None of these follows"]', '{"correctIndex": 3}',
+    'The flowers that fade quickly may or may not include roses, so no definite conclusion follows.', 'Syllogisms'),
+  ('7c1e0a10-0006-4000-8000-000000000006', 3, 'Book is to Reading as Fork is to:',
+    '["Drawing", "Writing", "Eating", "Stirring"]', '{"correctIndex": 2}',
+    'A book is used for reading; a fork is used for eating.', 'Analogies'),
+  ('7c1e0a10-0006-4000-8000-000000000006', 4, 'If CAT is coded as DBU, how is DOG coded?',
+    '["EPH", "EOH", "CPF", "EPG"]', '{"correctIndex": 0}',
+    'Each letter moves one place forward: D→E, O→P, G→H.', 'Coding-Decoding'),
+  ('7c1e0a10-0006-4000-8000-000000000006', 5, 'Ali is taller than Sara. Sara is taller than Omar. Who is the shortest?',
+    '["Ali", "Sara", "Omar", "Cannot be determined"]', '{"correctIndex": 2}',
+    'Ali > Sara > Omar, so Omar is the shortest.', 'Ordering'),
+  ('7c1e0a10-0006-4000-8000-000000000006', 6, 'Which number is the odd one out: $9, 16, 25, 33, 49$?',
+    '["$16$", "$25$", "$33$", "$49$"]', '{"correctIndex": 2}',
+    'All the others are perfect squares; $33$ is not.', 'Odd One Out')
+) AS seed(test_id, position, prompt, options, answer, explanation, topic)
+WHERE NOT EXISTS (
+  SELECT 1 FROM questions q WHERE q.test_id = seed.test_id::uuid
+);
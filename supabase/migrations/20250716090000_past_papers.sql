@@ -0,0 +1,106 @@
+/*
+  # Past Paper Archive
+
+  1. Changes to `tests`
+    - `kind` - `practice` for question bank tests, `past_paper` for board and Cambridge papers
+    - `year` - Year the paper was set
+    - `session` - Exam sitting, e.g. `Annual`, `Supplementary`, `May/June`, `Oct/Nov`
+    - `paper_number` - Paper or component, e.g. `Paper I` or `Paper 12`
+    - Past papers use the existing `board` and `grade` columns; Cambridge papers use the board `Cambridge`
+
+  2. Topic Tagging
+    - Past paper questions carry the syllabus topic in `questions.topic`, using the topic names the
+      app lists for each subject
+
+  3. Seed Data
+    - A few sample board and Cambridge papers
+*/
+
+ALTER TABLE tests ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'practice';
+ALTER TABLE tests ADD COLUMN IF NOT EXISTS year integer;
+ALTER TABLE tests ADD COLUMN IF NOT EXISTS session text;
+ALTER TABLE tests ADD COLUMN IF NOT EXISTS paper_number text;
+
+ALTER TABLE tests DROP CONSTRAINT IF EXISTS tests_kind_check;
+
+ALTER TABLE tests
+  ADD CONSTRAINT tests_kind_check
+  CHECK (kind IN ('practice', 'past_paper'));
+
+CREATE INDEX IF NOT EXISTS tests_past_papers_idx ON tests(board, grade, year DESC) WHERE kind = 'past_paper';
+
+-- Seed sample past papers
+INSERT INTO tests (id, title, description, subject, grade, board, difficulty, duration_minutes, kind, year, session, paper_number) VALUES
+  ('7c1e0a10-0007-4000-8000-000000000007', 'Mathematics 2023 Annual — Paper I', 'Objective section (MCQs).', 'Mathematics', 'Class 10 (Metric)', 'Federal Board', 'Medium', 10, 'past_paper', 2023, 'Annual', 'Paper I'),
+  ('7c1e0a10-0008-4000-8000-000000000008', 'Physics 2022 Annual — Paper I', 'Objective section (MCQs).', 'Physics', 'Class 9 (Metric)', 'Punjab Board', 'Easy', 10, 'past_paper', 2022, 'Annual', 'Paper I'),
+  ('7c1e0a10-0009-4000-8000-000000000009', 'Mathematics 2022 Annual — Paper I', 'Objective section (MCQs).', 'Mathematics', 'Class 10 (Metric)', 'Sindh Board', 'Medium', 10, 'past_paper', 2022, 'Annual', 'Paper I'),
+  ('7c1e0a10-0010-4000-8000-000000000010', 'Physics May/June 2023 — Paper 12', 'Multiple choice paper.', 'Physics', 'O-levels', 'Cambridge', 'Medium', 15, 'past_paper', 2023, 'May/June', 'Paper 12')
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO questions (test_id, position, prompt, options, answer, explanation, topic)
+SELECT seed.test_id::uuid, seed.position, seed.prompt, seed.options::jsonb, seed.answer::jsonb, seed.explanation, seed.topic
+FROM (VALUES
+  ('7c1e0a10-0007-4000-8000-000000000007', 1, 'The roots of $x^2 - 7x + 12 = 0$ are:',
+    '["$3, 4$", "$-3, -4$", "$2, 6$", "$1, 12$"]', '{"correctIndex": 0}',
+    'The quadratic factorises as $(x - 3)(x - 4) = 0$.', 'Quadratic Equations'),
+  ('7c1e0a10-0007-4000-8000-000000000007', 2, 'The 10th term of the sequence $3, 7, 11, 15, \ldots$ is:',
+    '["$39$", "$40$", "$43$", "$37$"]', '{"correctIndex": 0}',
+    'Using $a_n = a + (n - 1)d = 3 + 9 \times 4 = 39$.', 'Arithmetic Progressions'),
+  ('7c1e0a10-0007-4000-8000-000000000007', 3, 'The value of $\sin^2\theta + \cos^2\theta$ is:',
+    '["$0$", "$1$", "$2$", "$\\tan\\theta$"]', '{"correctIndex": 1}',
+    'This is the fundamental Pythagorean identity.', 'Trigonometry'),
+  ('7c1e0a10-0007-4000-8000-000000000007', 4, 'The mean of $4, 8, 6, 10, 12$ is:',
+    '["$6$", "$7$", "$8$", "$9$"]', '{"correctIndex": 2}',
+    'The sum is $40$ and there are $5$ values, so the mean is $8$.', 'Statistics'),
+  ('7c1e0a10-0007-4000-8000-000000000007', 5, 'A fair die is rolled once. The probability of getting an even number is:',
+    '["$\\frac{1}{6}$", "$\\frac{1}{3}$", "$\\frac{1}{2}$", "$\\frac{2}{3}$"]', '{"correctIndex": 2}',
+    'Three of the six faces ($2, 4, 6$) are even.', 'Probability'),
+
+  ('7c1e0a10-0008-4000-8000-000000000008', 1, 'The SI unit of temperature is:',
+    '["Celsius", "Fahrenheit", "Kelvin", "Joule"]', '{"correctIndex": 2}',
+    'Kelvin is one of the seven SI base units.', 'Physical Quantities and Measurement'),
+  ('7c1e0a10-0008-4000-8000-000000000008', 2, 'The slope of a velocity-time graph gives:',
+    '["Distance", "Speed", "Acceleration", "Displacement"]', '{"correctIndex": 2}',
+    'Acceleration is the rate of change of velocity, which is the gradient of a $v$-$t$ graph.', 'Kinematics'),
+  ('7c1e0a10-0008-4000-8000-000000000008', 3, 'Momentum is the product of:',
+    '["Mass and acceleration", "Mass and velocity", "Force and time", "Force and distance"]', '{"correctIndex": 1}',
+    'Momentum is defined as $p = mv$.', 'Dynamics'),
+  ('7c1e0a10-0008-4000-8000-000000000008', 4, 'The value of $g$ on the surface of the Earth is approximately:',
+    '["$1.6\\,\\text{m/s}^2$", "$9.8\\,\\text{m/s}^2$", "$6.7\\,\\text{m/s}^2$", "$98\\,\\text{m/s}^2$"]', '{"correctIndex": 1}',
+    'Near the Earth''s surface, free-fall acceleration is about $9.8\,\text{m/s}^2$.', 'Gravitation'),
+  ('7c1e0a10-0008-4000-8000-000000000008', 5, 'The SI unit of power is:',
+    '["Joule", "Newton", "Watt", "Pascal"]', '{"correctIndex": 2}',
+    'Power is work done per unit time, measured in watts ($1\,\text{W} = 1\,\text{J/s}$).', 'Work and Energy'),
+
+  ('7c1e0a10-0009-4000-8000-000000000009', 1, 'The sum of the roots of $2x^2 - 6x + 3 = 0$ is:',
+    '["$-3$", "$3$", "$\\frac{3}{2}$", "$6$"]', '{"correctIndex": 1}',
+    'For $ax^2 + bx + c = 0$ the sum of the roots is $-b/a = 6/2 = 3$.', 'Quadratic Equations'),
+  ('7c1e0a10-0009-4000-8000-000000000009', 2, 'The common difference of the A.P. $10, 7, 4, 1, \ldots$ is:',
+    '["$3$", "$-3$", "$7$", "$-7$"]', '{"correctIndex": 1}',
+    'Each term is $3$ less than the one before it.', 'Arithmetic Progressions'),
+  ('7c1e0a10-0009-4000-8000-000000000009', 3, 'The distance between the points $(0, 0)$ and $(3, 4)$ is:',
+    '["$5$", "$7$", "$12$", "$25$"]', '{"correctIndex": 0}',
+    'Using the distance formula, $\sqrt{3^2 + 4^2} = \sqrt{25} = 5$.', 'Coordinate Geometry'),
+  ('7c1e0a10-0009-4000-8000-000000000009', 4, 'The area of a circle of radius $7\,\text{cm}$ is (take $\pi = \frac{22}{7}$):',
+    '["$44\\,\\text{cm}^2$", "$154\\,\\text{cm}^2$", "$49\\,\\text{cm}^2$", "$308\\,\\text{cm}^2$"]', '{"correctIndex": 1}',
+    '$\pi r^2 = \frac{22}{7} \times 49 = 154\,\text{cm}^2$.', 'Areas Related to Circles'),
+
+  ('7c1e0a10-0010-4000-8000-000000000010', 1, 'A car travels $150\,\text{m}$ in $10\,\text{s}$ at constant speed. What is its speed?',
+    '["$1.5\\,\\text{m/s}$", "$15\\,\\text{m/s}$", "$150\\,\\text{m/s}$", "$1500\\,\\text{m/s}$"]', '{"correctIndex": 1}',
+    'Speed is distance divided by time: $150/10 = 15\,\text{m/s}$.', 'Kinematics'),
+  ('7c1e0a10-0010-4000-8000-000000000010', 2, 'Which quantity is a vector?',
+    '["Mass", "Energy", "Weight", "Temperature"]', '{"correctIndex": 2}',
+    'Weight is a force, so it has both magnitude and direction.', 'Physical Quantities and Measurement'),
+  ('7c1e0a10-0010-4000-8000-000000000010', 3, 'A resultant force of $12\,\text{N}$ acts on a mass of $3\,\text{kg}$. What is the acceleration?',
+    '["$0.25\\,\\text{m/s}^2$", "$4\\,\\text{m/s}^2$", "$9\\,\\text{m/s}^2$", "$36\\,\\text{m/s}^2$"]', '{"correctIndex": 1}',
+    'From $F = ma$, $a = 12/3 = 4\,\text{m/s}^2$.', 'Dynamics'),
+  ('7c1e0a10-0010-4000-8000-000000000010', 4, 'Thermal energy is transferred through a vacuum by:',
+    '["Conduction", "Convection", "Radiation", "Evaporation"]', '{"correctIndex": 2}',
+    'Conduction and convection need a medium; infrared radiation does not.', 'Transfer of Heat'),
+  ('7c1e0a10-0010-4000-8000-000000000010', 5, 'A $2\,\text{kg}$ object is lifted $5\,\text{m}$ ($g = 10\,\text{N/kg}$). What is the gain in gravitational potential energy?',
+    '["$10\\,\\text{J}$", "$50\\,\\text{J}$", "$100\\,\\text{J}$", "$1000\\,\\text{J}$"]', '{"correctIndex": 2}',
+    '$\Delta E_p = mgh = 2 \times 10 \times 5 = 100\,\text{J}$.', 'Work and Energy')
+) AS seed(test_id, position, prompt, options, answer, explanation, topic)
+WHERE NOT EXISTS (
+  SELECT 1 FROM questions q WHERE q.test_id = seed.test_id::uuid
+);
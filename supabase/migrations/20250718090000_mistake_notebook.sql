@@ -0,0 +1,100 @@
+/*
+  # Mistake Notebook
+
+  1. New Tables
+    - `mistake_notebook` - One row per question a student has got wrong
+      - `times_wrong` - How many times the question has been answered wrongly, in tests or drills
+      - `drill_streak` - Correct answers in a row while drilling; two in a row marks the mistake mastered
+      - `status` - `active` while the student is still working on it, `mastered` once drilled
+
+  2. Automation
+    - Trigger on `attempt_answers` files every answered-but-wrong question into the notebook when a
+      test is submitted, and puts mastered questions back into the active list if they're missed again
+
+  3. Security
+    - Enable RLS on `mistake_notebook`
+    - Students can only manage their own notebook
+*/
+
+CREATE TABLE IF NOT EXISTS mistake_notebook (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  question_id uuid NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+  test_id uuid NOT NULL REFERENCES tests(id) ON DELETE CASCADE,
+  attempt_id uuid REFERENCES test_attempts(id) ON DELETE SET NULL,
+  last_response jsonb,
+  times_wrong integer NOT NULL DEFAULT 1,
+  drill_streak integer NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'mastered')),
+  last_wrong_at timestamptz NOT NULL DEFAULT now(),
+  last_drilled_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, question_id)
+);
+
+CREATE INDEX IF NOT EXISTS mistake_notebook_user_status_idx ON mistake_notebook(user_id, status);
+
+ALTER TABLE mistake_notebook ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can insert own mistakes"
+  ON mistake_notebook
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own mistakes"
+  ON mistake_notebook
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own mistakes"
+  ON mistake_notebook
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own mistakes"
+  ON mistake_notebook
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_mistake_notebook_updated_at
+  BEFORE UPDATE ON mistake_notebook
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- File a wrong answer into the student's notebook; skipped questions are left out
+CREATE OR REPLACE FUNCTION record_mistake()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.is_correct OR NEW.response IS NULL OR NEW.response = 'null'::jsonb THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO mistake_notebook (user_id, question_id, test_id, attempt_id, last_response)
+  SELECT NEW.user_id, NEW.question_id, q.test_id, NEW.attempt_id, NEW.response
+  FROM questions q
+  WHERE q.id = NEW.question_id
+  ON CONFLICT (user_id, question_id) DO UPDATE SET
+    attempt_id = EXCLUDED.attempt_id,
+    last_response = EXCLUDED.last_response,
+    times_wrong = mistake_notebook.times_wrong + 1,
+    drill_streak = 0,
+    status = 'active',
+    last_wrong_at = now();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only new answers count, so retrying a failed submission doesn't double count
+DROP TRIGGER IF EXISTS record_mistake_on_answer ON attempt_answers;
+
+CREATE TRIGGER record_mistake_on_answer
+  AFTER INSERT ON attempt_answers
+  FOR EACH ROW
+  EXECUTE FUNCTION record_mistake();
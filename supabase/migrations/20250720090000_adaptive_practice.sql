@@ -0,0 +1,41 @@
+/*
+  # Adaptive Practice
+
+  1. New Tables
+    - `practice_answers` - Answers given in adaptive practice sessions, outside of a timed test
+
+  2. Topic Mastery
+    - Mastery is worked out per topic from `attempt_answers` and `practice_answers`, using each
+      question's `topic` and its test's `difficulty`
+
+  3. Security
+    - Enable RLS on `practice_answers`
+    - Students can only record and read their own answers
+*/
+
+CREATE TABLE IF NOT EXISTS practice_answers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  question_id uuid NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+  response jsonb,
+  is_correct boolean NOT NULL DEFAULT false,
+  marks_awarded numeric NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS practice_answers_user_created_idx ON practice_answers(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS attempt_answers_user_created_idx ON attempt_answers(user_id, created_at DESC);
+
+ALTER TABLE practice_answers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can insert own practice answers"
+  ON practice_answers
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own practice answers"
+  ON practice_answers
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
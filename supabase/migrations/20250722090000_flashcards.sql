@@ -0,0 +1,163 @@
+/*
+  # Spaced-Repetition Flashcards
+
+  1. New Tables
+    - `flashcard_decks` - A published deck of cards for one subject and topic
+    - `flashcards` - The cards in a deck, in order, with a front (prompt) and back (answer)
+    - `flashcard_progress` - Each student's SM-2 schedule for a card they have reviewed
+      - `ease_factor` - How easy the card is for the student; starts at 2.5 and never drops below 1.3
+      - `interval_days` - Days until the card is next due
+      - `repetitions` - Reviews in a row the student has recalled the card
+      - `lapses` - How many times the student has forgotten the card after learning it
+      - `due_date` - The day the card next appears in the student's review queue
+
+  2. Study Sessions
+    - `study_sessions.session_type` now also allows `flashcards`
+
+  3. Security
+    - Enable RLS on all tables
+    - Any signed-in student can read published decks and their cards
+    - Students can only create, read and update their own card progress
+
+  4. Seed Data
+    - Starter decks for Biology, Chemistry, Pakistan Studies and Islamiyat
+*/
+
+CREATE TABLE IF NOT EXISTS flashcard_decks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text NOT NULL,
+  description text,
+  subject text NOT NULL,
+  topic text NOT NULL,
+  grade text,
+  is_published boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS flashcards (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  deck_id uuid NOT NULL REFERENCES flashcard_decks(id) ON DELETE CASCADE,
+  position integer NOT NULL DEFAULT 0,
+  front text NOT NULL,
+  back text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS flashcard_progress (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  card_id uuid NOT NULL REFERENCES flashcards(id) ON DELETE CASCADE,
+  deck_id uuid NOT NULL REFERENCES flashcard_decks(id) ON DELETE CASCADE,
+  ease_factor numeric NOT NULL DEFAULT 2.5 CHECK (ease_factor >= 1.3),
+  interval_days integer NOT NULL DEFAULT 0 CHECK (interval_days >= 0),
+  repetitions integer NOT NULL DEFAULT 0,
+  lapses integer NOT NULL DEFAULT 0,
+  due_date date NOT NULL DEFAULT CURRENT_DATE,
+  last_reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, card_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_flashcard_decks_subject ON flashcard_decks(subject);
+CREATE INDEX IF NOT EXISTS idx_flashcards_deck ON flashcards(deck_id, position);
+CREATE INDEX IF NOT EXISTS idx_flashcard_progress_due ON flashcard_progress(user_id, due_date);
+
+ALTER TABLE flashcard_decks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE flashcards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE flashcard_progress ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view published flashcard decks"
+  ON flashcard_decks
+  FOR SELECT
+  TO authenticated
+  USING (is_published);
+
+CREATE POLICY "Authenticated users can view cards of published decks"
+  ON flashcards
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM flashcard_decks d
+      WHERE d.id = deck_id AND d.is_published
+    )
+  );
+
+CREATE POLICY "Users can insert own flashcard progress"
+  ON flashcard_progress
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own flashcard progress"
+  ON flashcard_progress
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own flashcard progress"
+  ON flashcard_progress
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_flashcard_decks_updated_at
+  BEFORE UPDATE ON flashcard_decks
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_flashcard_progress_updated_at
+  BEFORE UPDATE ON flashcard_progress
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Allow flashcard reviews to be logged as study sessions
+ALTER TABLE study_sessions DROP CONSTRAINT IF EXISTS study_sessions_session_type_check;
+
+ALTER TABLE study_sessions
+  ADD CONSTRAINT study_sessions_session_type_check
+  CHECK (session_type IN ('lesson', 'test', 'ai_tutor', 'materials', 'flashcards'));
+
+-- Seed starter decks
+INSERT INTO flashcard_decks (id, title, description, subject, topic) VALUES
+  ('5d1c0f10-0001-4000-8000-000000000001', 'Cell Structure', 'Organelles and what they do.', 'Biology', 'Cell Biology'),
+  ('5d1c0f10-0002-4000-8000-000000000002', 'Periodic Table Basics', 'Groups, periods and element facts.', 'Chemistry', 'Periodic Table'),
+  ('5d1c0f10-0003-4000-8000-000000000003', 'Pakistan Movement', 'Key events and dates on the road to independence.', 'Pakistan Studies', 'Pakistan Movement'),
+  ('5d1c0f10-0004-4000-8000-000000000004', 'Pillars of Islam', 'The five pillars and their meaning.', 'Islamiyat', 'Pillars of Islam')
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO flashcards (deck_id, position, front, back)
+SELECT seed.deck_id::uuid, seed.position, seed.front, seed.back
+FROM (VALUES
+  ('5d1c0f10-0001-4000-8000-000000000001', 1, 'Which organelle is the site of aerobic respiration?', 'The **mitochondrion**, which produces ATP.'),
+  ('5d1c0f10-0001-4000-8000-000000000001', 2, 'What is the function of ribosomes?', 'Protein synthesis, by translating mRNA.'),
+  ('5d1c0f10-0001-4000-8000-000000000001', 3, 'Which organelle modifies and packages proteins for secretion?', 'The **Golgi apparatus**.'),
+  ('5d1c0f10-0001-4000-8000-000000000001', 4, 'What do lysosomes contain?', 'Hydrolytic (digestive) enzymes.'),
+  ('5d1c0f10-0001-4000-8000-000000000001', 5, 'Name two structures found in plant cells but not animal cells.', 'A cellulose **cell wall** and **chloroplasts** (also a large central vacuole).'),
+  ('5d1c0f10-0001-4000-8000-000000000001', 6, 'What is the fluid mosaic model?', 'The cell membrane is a phospholipid bilayer with proteins that move within it.'),
+
+  ('5d1c0f10-0002-4000-8000-000000000002', 1, 'What are the elements in Group 18 called?', 'The **noble gases**.'),
+  ('5d1c0f10-0002-4000-8000-000000000002', 2, 'How does atomic radius change across a period?', 'It **decreases**, because nuclear charge increases while the shell stays the same.'),
+  ('5d1c0f10-0002-4000-8000-000000000002', 3, 'Which element has the highest electronegativity?', '**Fluorine**.'),
+  ('5d1c0f10-0002-4000-8000-000000000002', 4, 'What is the electronic configuration of sodium?', '$1s^2\,2s^2\,2p^6\,3s^1$'),
+  ('5d1c0f10-0002-4000-8000-000000000002', 5, 'What are the Group 1 elements called?', 'The **alkali metals**.'),
+
+  ('5d1c0f10-0003-4000-8000-000000000003', 1, 'When was the All-India Muslim League founded?', '**1906**, in Dhaka.'),
+  ('5d1c0f10-0003-4000-8000-000000000003', 2, 'When was the Lahore Resolution passed?', '**23 March 1940**.'),
+  ('5d1c0f10-0003-4000-8000-000000000003', 3, 'Who presented the idea of a separate Muslim state in the Allahabad Address (1930)?', '**Allama Muhammad Iqbal**.'),
+  ('5d1c0f10-0003-4000-8000-000000000003', 4, 'What were Quaid-e-Azam''s Fourteen Points (1929) a response to?', 'The **Nehru Report** (1928).'),
+  ('5d1c0f10-0003-4000-8000-000000000003', 5, 'In which year did the Simla Conference take place?', '**1945**.'),
+  ('5d1c0f10-0003-4000-8000-000000000003', 6, 'Who was the first Governor-General of Pakistan?', '**Quaid-e-Azam Muhammad Ali Jinnah**.'),
+
+  ('5d1c0f10-0004-4000-8000-000000000004', 1, 'What is Shahadah?', 'The declaration of faith: there is no god but Allah and Muhammad (PBUH) is His Messenger.'),
+  ('5d1c0f10-0004-4000-8000-000000000004', 2, 'How many obligatory prayers (Salah) are there each day?', '**Five**: Fajr, Zuhr, Asr, Maghrib and Isha.'),
+  ('5d1c0f10-0004-4000-8000-000000000004', 3, 'What is the usual rate of Zakat on savings?', '**2.5%** of wealth held above the nisab for a lunar year.'),
+  ('5d1c0f10-0004-4000-8000-000000000004', 4, 'In which Islamic month is fasting (Sawm) obligatory?', '**Ramadan**.'),
+  ('5d1c0f10-0004-4000-8000-000000000004', 5, 'In which month is Hajj performed?', '**Dhul Hijjah**.')
+) AS seed(deck_id, position, front, back)
+WHERE NOT EXISTS (
+  SELECT 1 FROM flashcards f WHERE f.deck_id = seed.deck_id::uuid
+);
@@ -0,0 +1,133 @@
+/*
+  # Curriculum Catalogue
+
+  1. New Tables
+    - `curriculum_subjects` - A subject's syllabus for a grade, optionally specific to a board and/or subject group
+    - `curriculum_chapters` - The chapters of a subject's syllabus, in order
+    - `curriculum_topics` - The topics in each chapter, in order
+
+  2. Matching
+    - A student gets the most specific syllabus for their grade: one keyed by their board and subject
+      group wins over one keyed by only one of them, which wins over the grade-wide syllabus
+    - `curriculum_subject_name()` strips labels such as "(Compulsory)" so group subject names match
+    - `curriculum_topic_counts` gives the number of topics in each syllabus
+
+  3. Seed Data
+    - The catalogue lives in the JSON files in `supabase/curriculum` and is loaded with `npm run seed:curriculum`
+    - `sync_subject_topic_totals()` brings `subject_progress.total_topics` in line with the catalogue
+      after it has been loaded
+
+  4. Security
+    - Enable RLS on all tables
+    - Any signed-in student can read the catalogue; only the service role can change it
+*/
+
+CREATE TABLE IF NOT EXISTS curriculum_subjects (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  grade text NOT NULL,
+  board text,
+  subject_group text,
+  subject text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- One syllabus per grade/board/group/subject, treating a missing board or group as "any"
+CREATE UNIQUE INDEX IF NOT EXISTS curriculum_subjects_key_idx
+  ON curriculum_subjects(grade, COALESCE(board, ''), COALESCE(subject_group, ''), subject);
+
+CREATE TABLE IF NOT EXISTS curriculum_chapters (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subject_id uuid NOT NULL REFERENCES curriculum_subjects(id) ON DELETE CASCADE,
+  position integer NOT NULL DEFAULT 0,
+  title text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS curriculum_topics (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  chapter_id uuid NOT NULL REFERENCES curriculum_chapters(id) ON DELETE CASCADE,
+  position integer NOT NULL DEFAULT 0,
+  title text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_curriculum_subjects_grade ON curriculum_subjects(grade, subject);
+CREATE INDEX IF NOT EXISTS idx_curriculum_chapters_subject ON curriculum_chapters(subject_id, position);
+CREATE INDEX IF NOT EXISTS idx_curriculum_topics_chapter ON curriculum_topics(chapter_id, position);
+
+ALTER TABLE curriculum_subjects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE curriculum_chapters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE curriculum_topics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view curriculum subjects"
+  ON curriculum_subjects
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can view curriculum chapters"
+  ON curriculum_chapters
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can view curriculum topics"
+  ON curriculum_topics
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE TRIGGER update_curriculum_subjects_updated_at
+  BEFORE UPDATE ON curriculum_subjects
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- "Islamiat (Compulsory)" and "Islamiyat" are the same catalogue subject
+CREATE OR REPLACE FUNCTION curriculum_subject_name(p_subject text)
+RETURNS text AS $$
+  SELECT CASE WHEN base = 'Islamiat' THEN 'Islamiyat' ELSE base END
+  FROM (SELECT trim(regexp_replace(p_subject, '\s*\(.*?\)\s*$', '')) AS base) normalized
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE VIEW curriculum_topic_counts
+WITH (security_invoker = true) AS
+SELECT s.id AS subject_id, s.grade, s.board, s.subject_group, s.subject, COUNT(t.id)::integer AS topic_count
+FROM curriculum_subjects s
+LEFT JOIN curriculum_chapters c ON c.subject_id = s.id
+LEFT JOIN curriculum_topics t ON t.chapter_id = c.id
+GROUP BY s.id;
+
+-- Recount total_topics for every student from the catalogue; run after loading new curriculum files
+CREATE OR REPLACE FUNCTION sync_subject_topic_totals()
+RETURNS integer AS $$
+DECLARE
+  updated_count integer;
+BEGIN
+  UPDATE subject_progress sp
+  SET total_topics = totals.topic_count,
+      progress_percentage = LEAST(100, ROUND(sp.completed_topics * 100.0 / totals.topic_count))
+  FROM (
+    SELECT progress.id, (
+      SELECT c.topic_count
+      FROM curriculum_topic_counts c
+      WHERE c.grade = ud.grade
+        AND c.subject = curriculum_subject_name(progress.subject_name)
+        AND (c.board IS NULL OR c.board = ud.board)
+        AND (c.subject_group IS NULL OR c.subject_group = ud.subject_group)
+      ORDER BY (c.board IS NOT NULL)::integer + (c.subject_group IS NOT NULL)::integer DESC
+      LIMIT 1
+    ) AS topic_count
+    FROM subject_progress progress
+    JOIN user_databases ud ON ud.user_id = progress.user_id
+  ) totals
+  WHERE totals.id = sp.id
+    AND totals.topic_count > 0
+    AND sp.total_topics IS DISTINCT FROM totals.topic_count;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION sync_subject_topic_totals() FROM PUBLIC, anon, authenticated;
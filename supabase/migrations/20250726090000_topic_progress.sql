@@ -0,0 +1,108 @@
+/*
+  # Topic Progress
+
+  1. New Tables
+    - `topic_progress` - Each student's status on a curriculum topic
+      - `status` - `not_started`, `in_progress`, `completed` or `mastered`
+      - `source` - What last changed the status: a lesson, a test, a flashcard review or the student
+        ticking the topic off themselves
+      - `subject_id` - The curriculum syllabus the topic belongs to, kept alongside the topic so
+        subject totals don't need to walk chapters
+
+  2. Subject Progress
+    - `subject_progress.completed_topics` and `progress_percentage` are now derived from
+      `topic_progress`: a topic counts once it is completed or mastered
+    - `sync_subject_progress()` recounts the student's subject whenever one of their topics changes
+    - Counters from the old "+1 topic per lesson" tracking are left as they are, so students keep
+      their progress until they first update a topic in that subject
+
+  3. Security
+    - Enable RLS on `topic_progress`
+    - Students can only create, read, update and delete their own topic progress
+*/
+
+CREATE TABLE IF NOT EXISTS topic_progress (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  topic_id uuid NOT NULL REFERENCES curriculum_topics(id) ON DELETE CASCADE,
+  subject_id uuid NOT NULL REFERENCES curriculum_subjects(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'not_started'
+    CHECK (status IN ('not_started', 'in_progress', 'completed', 'mastered')),
+  source text NOT NULL DEFAULT 'manual'
+    CHECK (source IN ('lesson', 'test', 'flashcards', 'manual')),
+  completed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, topic_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_topic_progress_user_subject ON topic_progress(user_id, subject_id);
+
+ALTER TABLE topic_progress ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can insert own topic progress"
+  ON topic_progress
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own topic progress"
+  ON topic_progress
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own topic progress"
+  ON topic_progress
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own topic progress"
+  ON topic_progress
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_topic_progress_updated_at
+  BEFORE UPDATE ON topic_progress
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Recount the student's subject from their topics; group subjects like "Islamiat (Compulsory)" match by name
+CREATE OR REPLACE FUNCTION sync_subject_progress()
+RETURNS trigger AS $$
+DECLARE
+  target_user uuid := COALESCE(NEW.user_id, OLD.user_id);
+  target_subject uuid := COALESCE(NEW.subject_id, OLD.subject_id);
+  done integer;
+BEGIN
+  SELECT COUNT(*) INTO done
+  FROM topic_progress
+  WHERE user_id = target_user
+    AND subject_id = target_subject
+    AND status IN ('completed', 'mastered');
+
+  UPDATE subject_progress sp
+  SET completed_topics = done,
+      progress_percentage = CASE
+        WHEN sp.total_topics > 0 THEN LEAST(100, ROUND(done * 100.0 / sp.total_topics))
+        ELSE 0
+      END,
+      last_accessed = now()
+  FROM curriculum_subjects cs
+  WHERE cs.id = target_subject
+    AND sp.user_id = target_user
+    AND curriculum_subject_name(sp.subject_name) = cs.subject;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_subject_progress_on_topic ON topic_progress;
+
+CREATE TRIGGER sync_subject_progress_on_topic
+  AFTER INSERT OR UPDATE OF status OR DELETE ON topic_progress
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_subject_progress();
@@ -0,0 +1,39 @@
+/*
+  # Lessons
+
+  1. New Tables
+    - `curriculum_lessons` - The lesson for a curriculum topic
+      - `content` - Markdown with LaTeX math and images; fenced `video` and `check` blocks embed
+        videos and inline check questions
+      - `estimated_minutes` - How long the lesson is expected to take, shown before starting
+
+  2. Seed Data
+    - Lessons are written as Markdown files under `supabase/curriculum/lessons/` and linked from
+      topics in the curriculum files; `npm run seed:curriculum` loads them with the topics
+
+  3. Security
+    - Enable RLS on `curriculum_lessons`
+    - Any signed-in student can read lessons; only the service role can change them
+*/
+
+CREATE TABLE IF NOT EXISTS curriculum_lessons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  topic_id uuid NOT NULL UNIQUE REFERENCES curriculum_topics(id) ON DELETE CASCADE,
+  content text NOT NULL,
+  estimated_minutes integer NOT NULL DEFAULT 10 CHECK (estimated_minutes > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE curriculum_lessons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view curriculum lessons"
+  ON curriculum_lessons
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE TRIGGER update_curriculum_lessons_updated_at
+  BEFORE UPDATE ON curriculum_lessons
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,172 @@
+/*
+  # Study Materials Library
+
+  1. New Tables
+    - `study_materials` - Notes, videos and links students can open in the app
+      - `material_type` - `pdf`, `video` or `link`
+      - `storage_path` - Where an uploaded file lives in the `study-materials` bucket
+      - `external_url` - A hosted video or web resource, used when there is no uploaded file
+      - `grade` - Limits the material to one grade; empty means every grade
+      - `download_count` - How many times the file has been downloaded
+      - `uploaded_by` - The student who shared it; empty for materials we publish
+
+  2. Functions
+    - `record_material_download(material_id)` - Counts a download; students can't update
+      materials directly, so the count only changes through this function
+
+  3. Storage
+    - Private `study-materials` bucket for PDFs and videos up to 50 MB
+    - Uploads go in a folder named after the uploader's user id
+
+  4. Security
+    - Enable RLS on `study_materials`
+    - Any signed-in student can read published materials and their files
+    - Students can share materials of their own and delete what they shared
+
+  5. Seed Data
+    - Links to free interactive resources for the science subjects and Mathematics
+*/
+
+CREATE TABLE IF NOT EXISTS study_materials (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text NOT NULL,
+  description text,
+  subject text NOT NULL,
+  topic text,
+  grade text,
+  material_type text NOT NULL CHECK (material_type IN ('pdf', 'video', 'link')),
+  storage_path text,
+  external_url text,
+  file_size bigint CHECK (file_size >= 0),
+  duration_minutes integer CHECK (duration_minutes > 0),
+  download_count integer NOT NULL DEFAULT 0,
+  uploaded_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  is_published boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (storage_path IS NOT NULL OR external_url IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_study_materials_subject ON study_materials(subject);
+CREATE INDEX IF NOT EXISTS idx_study_materials_uploaded_by ON study_materials(uploaded_by);
+
+ALTER TABLE study_materials ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view published study materials"
+  ON study_materials
+  FOR SELECT
+  TO authenticated
+  USING (is_published OR auth.uid() = uploaded_by);
+
+CREATE POLICY "Users can insert own study materials"
+  ON study_materials
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = uploaded_by AND download_count = 0);
+
+CREATE POLICY "Users can delete own study materials"
+  ON study_materials
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = uploaded_by);
+
+CREATE TRIGGER update_study_materials_updated_at
+  BEFORE UPDATE ON study_materials
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Count a download and return the new total
+CREATE OR REPLACE FUNCTION record_material_download(p_material_id uuid)
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE study_materials
+  SET download_count = download_count + 1
+  WHERE id = p_material_id
+    AND (is_published OR uploaded_by = auth.uid())
+  RETURNING download_count INTO v_count;
+
+  IF v_count IS NULL THEN
+    RAISE EXCEPTION 'Study material not found';
+  END IF;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION record_material_download(uuid) TO authenticated;
+
+-- Create storage bucket for study materials if it doesn't exist
+DO $$
+BEGIN
+  INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+  VALUES (
+    'study-materials',
+    'study-materials',
+    false,
+    52428800,
+    ARRAY['application/pdf', 'video/mp4', 'video/webm']
+  )
+  ON CONFLICT (id) DO NOTHING;
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE WARNING 'Failed to create storage bucket: %', SQLERRM;
+END $$;
+
+-- Create storage policies for study materials
+DO $$
+BEGIN
+  -- Policy for uploading materials
+  CREATE POLICY "Users can upload own study materials"
+    ON storage.objects
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (bucket_id = 'study-materials' AND auth.uid()::text = (storage.foldername(name))[1]);
+EXCEPTION
+  WHEN duplicate_object THEN
+    -- Policy already exists, ignore
+    NULL;
+  WHEN OTHERS THEN
+    RAISE WARNING 'Failed to create upload policy: %', SQLERRM;
+END $$;
+
+DO $$
+BEGIN
+  -- Policy for reading materials (needed to create signed URLs); every student can open them
+  CREATE POLICY "Authenticated users can view study materials"
+    ON storage.objects
+    FOR SELECT
+    TO authenticated
+    USING (bucket_id = 'study-materials');
+EXCEPTION
+  WHEN duplicate_object THEN
+    -- Policy already exists, ignore
+    NULL;
+  WHEN OTHERS THEN
+    RAISE WARNING 'Failed to create select policy: %', SQLERRM;
+END $$;
+
+DO $$
+BEGIN
+  -- Policy for deleting materials
+  CREATE POLICY "Users can delete own study materials"
+    ON storage.objects
+    FOR DELETE
+    TO authenticated
+    USING (bucket_id = 'study-materials' AND auth.uid()::text = (storage.foldername(name))[1]);
+EXCEPTION
+  WHEN duplicate_object THEN
+    -- Policy already exists, ignore
+    NULL;
+  WHEN OTHERS THEN
+    RAISE WARNING 'Failed to create delete policy: %', SQLERRM;
+END $$;
+
+-- Seed starter materials
+INSERT INTO study_materials (id, title, description, subject, topic, material_type, external_url) VALUES
+  ('9a3b5c10-0001-4000-8000-000000000001', 'PhET Physics Simulations', 'Free interactive simulations for motion, forces, energy, waves and electricity.', 'Physics', NULL, 'link', 'https://phet.colorado.edu/en/simulations/filter?subjects=physics'),
+  ('9a3b5c10-0002-4000-8000-000000000002', 'PhET Chemistry Simulations', 'Build atoms and molecules, balance equations and explore reactions.', 'Chemistry', NULL, 'link', 'https://phet.colorado.edu/en/simulations/filter?subjects=chemistry'),
+  ('9a3b5c10-0003-4000-8000-000000000003', 'Khan Academy Biology', 'Video lessons and practice covering cells, genetics, evolution and human biology.', 'Biology', NULL, 'link', 'https://www.khanacademy.org/science/biology'),
+  ('9a3b5c10-0004-4000-8000-000000000004', 'Khan Academy Algebra', 'Video lessons and practice on equations, functions, quadratics and more.', 'Mathematics', 'Algebra', 'link', 'https://www.khanacademy.org/math/algebra')
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,185 @@
+/*
+  # Material Ratings, Reviews and Bookmarks
+
+  1. New Tables
+    - `material_reviews` - A student's 1-5 star rating of a study material, with an optional short review
+      - `is_hidden` - Set when a review is reported too often or hidden by a moderator; hidden reviews
+        are only visible to their author and don't count towards the rating
+      - `flag_count` - How many students have reported the review
+    - `material_review_flags` - Reports of abusive reviews, one per student per review
+    - `material_bookmarks` - Materials a student has saved to their library
+
+  2. Changes
+    - `study_materials.rating_average` and `study_materials.rating_count` - Kept up to date by a
+      trigger on `material_reviews` so cards can show real ratings without loading every review
+
+  3. Moderation
+    - A review is hidden automatically once it has 3 reports
+    - Students can only change the rating and text of their own reviews; `is_hidden` and `flag_count`
+      are changed by the report trigger or by a moderator using the service role
+
+  4. Security
+    - Enable RLS on all tables
+    - Any signed-in student can read visible reviews, and their own reviews even when hidden
+    - Students can only write their own reviews, reports and bookmarks, and can't report their own reviews
+*/
+
+ALTER TABLE study_materials
+  ADD COLUMN IF NOT EXISTS rating_average numeric(3, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS rating_count integer NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS material_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  material_id uuid NOT NULL REFERENCES study_materials(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  rating integer NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  review text CHECK (char_length(review) <= 500),
+  is_hidden boolean NOT NULL DEFAULT false,
+  flag_count integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (material_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS material_review_flags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id uuid NOT NULL REFERENCES material_reviews(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reason text NOT NULL CHECK (reason IN ('abusive', 'spam', 'off_topic')),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (review_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS material_bookmarks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  material_id uuid NOT NULL REFERENCES study_materials(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, material_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_material_reviews_material ON material_reviews(material_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_material_bookmarks_user ON material_bookmarks(user_id);
+
+ALTER TABLE material_reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE material_review_flags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE material_bookmarks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view visible material reviews"
+  ON material_reviews
+  FOR SELECT
+  TO authenticated
+  USING (NOT is_hidden OR auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own material reviews"
+  ON material_reviews
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND NOT is_hidden AND flag_count = 0);
+
+CREATE POLICY "Users can update own material reviews"
+  ON material_reviews
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own material reviews"
+  ON material_reviews
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Moderation columns stay out of students' reach even on their own reviews
+REVOKE UPDATE ON material_reviews FROM authenticated;
+GRANT UPDATE (rating, review) ON material_reviews TO authenticated;
+
+CREATE POLICY "Users can insert own review flags"
+  ON material_review_flags
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND
+    NOT EXISTS (
+      SELECT 1 FROM material_reviews r
+      WHERE r.id = review_id AND r.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view own review flags"
+  ON material_review_flags
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own material bookmarks"
+  ON material_bookmarks
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own material bookmarks"
+  ON material_bookmarks
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own material bookmarks"
+  ON material_bookmarks
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_material_reviews_updated_at
+  BEFORE UPDATE ON material_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Recompute a material's rating from its visible reviews whenever one changes
+CREATE OR REPLACE FUNCTION sync_material_rating()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_material_id uuid;
+BEGIN
+  v_material_id := COALESCE(NEW.material_id, OLD.material_id);
+
+  UPDATE study_materials m
+  SET rating_average = COALESCE(stats.average, 0),
+      rating_count = stats.total
+  FROM (
+    SELECT ROUND(AVG(rating)::numeric, 2) AS average, COUNT(*)::integer AS total
+    FROM material_reviews
+    WHERE material_id = v_material_id AND NOT is_hidden
+  ) stats
+  WHERE m.id = v_material_id;
+
+  RETURN NULL;
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE WARNING 'Failed to sync material rating: %', SQLERRM;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_material_rating_on_review
+  AFTER INSERT OR UPDATE OF rating, is_hidden OR DELETE ON material_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_material_rating();
+
+-- Count a report against its review and hide the review once it has been reported 3 times
+CREATE OR REPLACE FUNCTION record_review_flag()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE material_reviews
+  SET flag_count = flag_count + 1,
+      is_hidden = is_hidden OR flag_count + 1 >= 3
+  WHERE id = NEW.review_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_review_flag_on_insert
+  AFTER INSERT ON material_review_flags
+  FOR EACH ROW
+  EXECUTE FUNCTION record_review_flag();
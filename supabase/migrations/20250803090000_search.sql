@@ -0,0 +1,205 @@
+/*
+  # Full-Text Search
+
+  1. New Tables
+    - `help_articles` - Help Center knowledge-base articles and FAQs, so they can be searched from
+      the dashboard alongside everything else
+      - `kind` - `article` or `faq`; for an FAQ the title is the question and the body the answer
+
+  2. Changes
+    - `search_vector` generated columns, with GIN indexes, on `study_materials`, `curriculum_lessons`,
+      `help_articles` and `tutor_messages`; titles weigh more than descriptions and body text
+
+  3. Functions
+    - `search_everything(query, grade, per_group)` - Ranked matches across study materials, lessons,
+      help articles and the student's own tutor conversations, with a highlighted snippet for each
+      - Every word is matched as a prefix so results appear while the student is still typing
+      - Highlights are wrapped in `<<` and `>>`
+      - Runs with the caller's permissions, so RLS keeps other students' conversations out
+
+  4. Security
+    - Enable RLS on `help_articles`
+    - Anyone, signed in or not, can read help articles; only the service role can change them
+
+  5. Seed Data
+    - The articles and FAQs currently listed on the Help Center page
+*/
+
+CREATE TABLE IF NOT EXISTS help_articles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL CHECK (kind IN ('article', 'faq')),
+  slug text NOT NULL UNIQUE,
+  category text NOT NULL,
+  title text NOT NULL,
+  body text NOT NULL,
+  read_minutes integer CHECK (read_minutes > 0),
+  popular boolean NOT NULL DEFAULT false,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE help_articles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view help articles"
+  ON help_articles
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE TRIGGER update_help_articles_updated_at
+  BEFORE UPDATE ON help_articles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Search vectors
+ALTER TABLE study_materials
+  ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(subject, '') || ' ' || coalesce(topic, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'C')
+  ) STORED;
+
+ALTER TABLE curriculum_lessons
+  ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', content), 'C')
+  ) STORED;
+
+ALTER TABLE help_articles
+  ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', title), 'A') ||
+    setweight(to_tsvector('english', body), 'C')
+  ) STORED;
+
+ALTER TABLE tutor_messages
+  ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', content), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_study_materials_search ON study_materials USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_curriculum_lessons_search ON curriculum_lessons USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_help_articles_search ON help_articles USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_tutor_messages_search ON tutor_messages USING gin(search_vector);
+
+-- Search materials, lessons, help articles and the caller's tutor conversations in one go
+CREATE OR REPLACE FUNCTION search_everything(
+  p_query text,
+  p_grade text DEFAULT NULL,
+  p_per_group integer DEFAULT 5
+)
+RETURNS TABLE (
+  kind text,
+  id uuid,
+  title text,
+  snippet text,
+  subject text,
+  topic text,
+  rank real
+) AS $$
+  WITH search AS (
+    SELECT to_tsquery('english', string_agg(term || ':*', ' & ')) AS query
+    FROM regexp_split_to_table(lower(coalesce(p_query, '')), '[^[:alnum:]]+') AS term
+    WHERE term <> ''
+  ),
+  materials AS (
+    SELECT
+      'material'::text AS kind,
+      m.id,
+      m.title,
+      ts_headline('english', coalesce(m.description, m.title), s.query, 'StartSel=<<, StopSel=>>, MaxWords=18, MinWords=6') AS snippet,
+      m.subject,
+      m.topic,
+      ts_rank(m.search_vector, s.query) AS rank
+    FROM study_materials m, search s
+    WHERE m.search_vector @@ s.query
+      AND (p_grade IS NULL OR m.grade IS NULL OR m.grade = p_grade)
+    ORDER BY rank DESC
+    LIMIT p_per_group
+  ),
+  lessons AS (
+    SELECT * FROM (
+      -- The same topic can appear in several boards' syllabi; show it once
+      SELECT DISTINCT ON (cs.subject, t.title)
+        'lesson'::text AS kind,
+        l.id,
+        t.title,
+        ts_headline('english', l.content, s.query, 'StartSel=<<, StopSel=>>, MaxWords=18, MinWords=6') AS snippet,
+        cs.subject,
+        t.title AS topic,
+        ts_rank(l.search_vector || setweight(to_tsvector('english', t.title), 'A'), s.query) AS rank
+      FROM curriculum_lessons l
+      JOIN curriculum_topics t ON t.id = l.topic_id
+      JOIN curriculum_chapters ch ON ch.id = t.chapter_id
+      JOIN curriculum_subjects cs ON cs.id = ch.subject_id
+      CROSS JOIN search s
+      WHERE (l.search_vector @@ s.query OR to_tsvector('english', t.title) @@ s.query)
+        AND (p_grade IS NULL OR cs.grade = p_grade)
+      ORDER BY cs.subject, t.title, rank DESC
+    ) matches
+    ORDER BY rank DESC
+    LIMIT p_per_group
+  ),
+  articles AS (
+    SELECT
+      'article'::text AS kind,
+      h.id,
+      h.title,
+      ts_headline('english', h.body, s.query, 'StartSel=<<, StopSel=>>, MaxWords=18, MinWords=6') AS snippet,
+      NULL::text AS subject,
+      h.category AS topic,
+      ts_rank(h.search_vector, s.query) AS rank
+    FROM help_articles h, search s
+    WHERE h.search_vector @@ s.query
+    ORDER BY rank DESC
+    LIMIT p_per_group
+  ),
+  conversations AS (
+    SELECT * FROM (
+      -- Show each conversation once, with its best-matching message
+      SELECT DISTINCT ON (c.id)
+        'conversation'::text AS kind,
+        c.id,
+        c.title,
+        ts_headline('english', msg.content, s.query, 'StartSel=<<, StopSel=>>, MaxWords=18, MinWords=6') AS snippet,
+        c.subject,
+        NULL::text AS topic,
+        ts_rank(msg.search_vector || setweight(to_tsvector('english', c.title), 'A'), s.query) AS rank
+      FROM tutor_conversations c
+      JOIN tutor_messages msg ON msg.conversation_id = c.id
+      CROSS JOIN search s
+      WHERE c.user_id = auth.uid()
+        AND (msg.search_vector @@ s.query OR to_tsvector('english', c.title) @@ s.query)
+      ORDER BY c.id, rank DESC
+    ) matches
+    ORDER BY rank DESC
+    LIMIT p_per_group
+  )
+  SELECT * FROM materials
+  UNION ALL SELECT * FROM lessons
+  UNION ALL SELECT * FROM articles
+  UNION ALL SELECT * FROM conversations;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION search_everything(text, text, integer) TO authenticated;
+
+-- Seed the Help Center articles and FAQs
+INSERT INTO help_articles (kind, slug, category, title, body, read_minutes, popular, position) VALUES
+  ('article', 'how-to-get-started-with-myedupro', 'getting-started', 'How to Get Started with MyEduPro', 'Complete guide to setting up your account and starting your learning journey', 5, true, 1),
+  ('article', 'using-the-ai-tutor-effectively', 'learning', 'Using the AI Tutor Effectively', 'Tips and tricks to get the most out of your AI tutoring sessions', 7, true, 2),
+  ('article', 'understanding-your-progress-dashboard', 'learning', 'Understanding Your Progress Dashboard', 'Learn how to interpret your learning analytics and progress reports', 4, false, 3),
+  ('article', 'managing-your-subscription', 'billing', 'Managing Your Subscription', 'How to upgrade, downgrade, or cancel your subscription', 3, true, 4),
+  ('article', 'customizing-your-profile', 'account', 'Customizing Your Profile', 'Set up your profile for personalized learning recommendations', 3, false, 5),
+  ('article', 'troubleshooting-login-issues', 'technical', 'Troubleshooting Login Issues', 'Common solutions for login and authentication problems', 5, false, 6),
+  ('article', 'using-myedupro-on-mobile', 'mobile', 'Using MyEduPro on Mobile', 'Access your learning materials and AI tutor on your smartphone', 4, false, 7),
+  ('article', 'setting-up-study-reminders', 'learning', 'Setting Up Study Reminders', 'Configure notifications to maintain your study streak', 2, false, 8),
+  ('faq', 'faq-how-does-the-ai-tutor-work', 'learning', 'How does the AI tutor work?', 'Our AI tutor uses advanced natural language processing to understand your questions and provide personalized explanations. It adapts to your learning style and curriculum, offering step-by-step solutions and conceptual explanations tailored to Pakistani education boards.', NULL, false, 1),
+  ('faq', 'faq-what-subjects-and-grades-do-you-cover', 'learning', 'What subjects and grades do you cover?', 'We cover all major subjects for Metric (Classes 9-10), FSc/FA (Classes 11-12), O-levels, A-levels, and competitive exam preparation including MDCAT and ECAT. Our content is aligned with Pakistani education boards including Federal Board, Punjab Board, Sindh Board, and others.', NULL, false, 2),
+  ('faq', 'faq-can-i-use-myedupro-offline', 'technical', 'Can I use MyEduPro offline?', 'While the AI tutor requires an internet connection, you can download study materials and notes for offline access. Your progress is automatically synced when you reconnect to the internet.', NULL, false, 3),
+  ('faq', 'faq-how-much-does-myedupro-cost', 'billing', 'How much does MyEduPro cost?', 'We offer a free Basic plan with limited features, and a Pro plan for PKR 799/month with unlimited access. We also provide custom plans for educational institutions. Check our pricing page for detailed information.', NULL, false, 4),
+  ('faq', 'faq-is-there-a-free-trial-available', 'billing', 'Is there a free trial available?', 'Yes! We offer a 7-day free trial of our Pro plan so you can experience all features before committing. No credit card required to start your trial.', NULL, false, 5),
+  ('faq', 'faq-how-do-i-reset-my-password', 'account', 'How do I reset my password?', 'Click on ''Forgot Password'' on the login page, enter your email address, and we''ll send you a password reset link. If you don''t receive the email, check your spam folder or contact our support team.', NULL, false, 6),
+  ('faq', 'faq-can-parents-track-their-child-s-progress', 'account', 'Can parents track their child''s progress?', 'Yes, parents can request access to their child''s progress reports and learning analytics. Contact our support team to set up parental access for students under 18.', NULL, false, 7),
+  ('faq', 'faq-what-payment-methods-do-you-accept', 'billing', 'What payment methods do you accept?', 'We accept all major credit/debit cards, JazzCash, Easypaisa, and bank transfers. All payments are processed securely through our encrypted payment gateway.', NULL, false, 8),
+  ('faq', 'faq-how-accurate-is-the-ai-tutor', 'learning', 'How accurate is the AI tutor?', 'Our AI tutor has been trained on curriculum-specific content and maintains high accuracy. However, we recommend cross-referencing important information with your textbooks and teachers. We continuously improve the AI based on user feedback.', NULL, false, 9),
+  ('faq', 'faq-can-i-cancel-my-subscription-anytime', 'billing', 'Can I cancel my subscription anytime?', 'Yes, you can cancel your subscription at any time from your account settings. You''ll continue to have access to Pro features until the end of your current billing period.', NULL, false, 10)
+ON CONFLICT (slug) DO NOTHING;
@@ -0,0 +1,66 @@
+/*
+  # Google and Phone Sign-In
+
+  1. Changes
+    - `handle_new_user()` also reads the metadata Google sends (`given_name`, `family_name`,
+      `full_name`, `avatar_url`), so students who sign in with Google start with their name and picture
+    - Phone sign-ups arrive without any metadata; their profile starts with an empty name, which
+      profile completion asks for along with the grade
+
+  2. Notes
+    - The grade still comes only from sign-up metadata, which Google and phone accounts never have,
+      so they go through profile completion like everyone else
+    - Enable the Google and Phone providers under Authentication → Providers
+*/
+
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_meta jsonb := COALESCE(NEW.raw_user_meta_data, '{}'::jsonb);
+  v_full_name text := btrim(COALESCE(v_meta->>'full_name', v_meta->>'name', ''));
+  v_first_name text;
+  v_last_name text;
+BEGIN
+  v_first_name := COALESCE(
+    NULLIF(v_meta->>'first_name', ''),
+    NULLIF(v_meta->>'given_name', ''),
+    NULLIF(split_part(v_full_name, ' ', 1), ''),
+    ''
+  );
+  v_last_name := COALESCE(
+    NULLIF(v_meta->>'last_name', ''),
+    NULLIF(v_meta->>'family_name', ''),
+    CASE WHEN position(' ' IN v_full_name) > 0
+      THEN btrim(substring(v_full_name FROM position(' ' IN v_full_name) + 1))
+    END,
+    ''
+  );
+
+  -- Create user profile with error handling
+  BEGIN
+    INSERT INTO public.user_profiles (id, first_name, last_name, grade, profile_picture_url)
+    VALUES (
+      NEW.id,
+      v_first_name,
+      v_last_name,
+      COALESCE(v_meta->>'grade', ''),
+      COALESCE(v_meta->>'avatar_url', v_meta->>'picture')
+    );
+  EXCEPTION
+    WHEN unique_violation THEN
+      -- Profile already exists, update it instead
+      UPDATE public.user_profiles
+      SET
+        first_name = COALESCE(NULLIF(v_first_name, ''), first_name),
+        last_name = COALESCE(NULLIF(v_last_name, ''), last_name),
+        grade = COALESCE(v_meta->>'grade', grade),
+        updated_at = now()
+      WHERE id = NEW.id;
+    WHEN OTHERS THEN
+      -- Log the error but don't fail the user creation
+      RAISE WARNING 'Failed to create user profile for user %: %', NEW.id, SQLERRM;
+  END;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
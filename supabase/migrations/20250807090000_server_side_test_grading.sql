@@ -0,0 +1,247 @@
+/*
+  # Server-Side Test Grading
+
+  1. New Functions
+    - `normalize_unit(unit)` and `normalize_answer_text(text)` - The same normalisation the client
+      uses to compare units and short answers
+    - `grade_question(question, response)` - Grades one response against the question's answer key,
+      following the rules in `src/lib/grading.ts`, and returns `{ "is_correct", "marks_awarded" }`
+    - `submit_test_attempt(attempt_id, responses, flagged)` - Grades every question of an in-progress
+      attempt, saves the answers and the score, and returns the attempt with each question's grade
+
+  2. Security
+    - Scores, marks and correctness are only written by `submit_test_attempt`, so students can no
+      longer update their attempts or answers directly
+    - Students can still start an attempt, but only choose the test and the question count
+    - The grading helpers can't be called directly
+*/
+
+-- Compare units regardless of spacing and how powers are written, e.g. "m/s²" and "m / s^2"
+CREATE OR REPLACE FUNCTION normalize_unit(p_unit text)
+RETURNS text AS $$
+  SELECT regexp_replace(
+    replace(replace(replace(regexp_replace(coalesce(p_unit, ''), '\s+', '', 'g'), '**', '^'), '²', '^2'), '³', '^3'),
+    '[·×*]', '.', 'g'
+  )
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Lowercase and strip punctuation while keeping letters from any script, so Urdu answers work too
+CREATE OR REPLACE FUNCTION normalize_answer_text(p_text text)
+RETURNS text AS $$
+  SELECT btrim(regexp_replace(
+    regexp_replace(lower(coalesce(p_text, '')), '[^[:alnum:][:space:]]', ' ', 'g'),
+    '\s+', ' ', 'g'
+  ))
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Grade one response; unanswered and malformed responses score zero
+CREATE OR REPLACE FUNCTION grade_question(p_question questions, p_response jsonb)
+RETURNS jsonb AS $$
+DECLARE
+  v_answer jsonb := p_question.answer;
+  v_marks numeric := 0;
+  v_right integer := 0;
+  v_selected integer := 0;
+  v_correct integer;
+  v_value text;
+  v_number numeric;
+  v_allowed numeric;
+  v_within boolean;
+  v_text text;
+  v_required integer;
+  v_found integer;
+BEGIN
+  IF p_question.question_type = 'mcq' THEN
+    IF jsonb_typeof(p_response) = 'number' AND p_response = v_answer->'correctIndex' THEN
+      v_marks := p_question.marks;
+    END IF;
+
+  ELSIF p_question.question_type = 'multi_select' THEN
+    v_correct := jsonb_array_length(coalesce(v_answer->'correctIndexes', '[]'::jsonb));
+
+    IF jsonb_typeof(p_response) = 'array' THEN
+      SELECT
+        count(*) FILTER (WHERE v_answer->'correctIndexes' @> jsonb_build_array(picks.pick)),
+        count(*)
+      INTO v_right, v_selected
+      FROM (SELECT DISTINCT value AS pick FROM jsonb_array_elements(p_response)) picks;
+    END IF;
+
+    IF v_right = v_correct AND v_selected = v_right THEN
+      v_marks := p_question.marks;
+    ELSIF coalesce((v_answer->>'partialCredit')::boolean, false) AND v_correct > 0 THEN
+      -- Wrong picks cancel right ones
+      v_marks := p_question.marks * greatest(0, v_right - (v_selected - v_right)) / v_correct;
+    END IF;
+
+  ELSIF p_question.question_type = 'numeric' THEN
+    IF jsonb_typeof(p_response) = 'object' THEN
+      -- Accept plain numbers, thousands separators and scientific notation like 3e8 or 3×10^8
+      v_value := regexp_replace(
+        replace(regexp_replace(coalesce(p_response->>'value', ''), '^\s+|\s+$', '', 'g'), ',', ''),
+        '\s*[x×]\s*10\s*\^\s*(-?\d+)', 'e\1', 'i'
+      );
+
+      IF v_value ~* '^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$' THEN
+        v_number := v_value::numeric;
+        v_allowed := CASE
+          WHEN v_answer->>'toleranceType' = 'percent'
+            THEN abs((v_answer->>'value')::numeric) * coalesce((v_answer->>'tolerance')::numeric, 0) / 100
+          ELSE coalesce((v_answer->>'tolerance')::numeric, 0)
+        END;
+        -- A tiny margin so answers like 0.1 + 0.2 aren't rejected by rounding
+        v_within := abs(v_number - (v_answer->>'value')::numeric) <= v_allowed + 1e-9;
+
+        IF v_within AND (
+          coalesce(v_answer->>'unit', '') = '' OR
+          normalize_unit(p_response->>'unit') IN (
+            SELECT normalize_unit(v_answer->>'unit')
+            UNION ALL
+            SELECT normalize_unit(unit) FROM jsonb_array_elements_text(coalesce(v_answer->'acceptedUnits', '[]'::jsonb)) AS units(unit)
+          )
+        ) THEN
+          v_marks := p_question.marks;
+        END IF;
+      END IF;
+    END IF;
+
+  ELSIF p_question.question_type = 'short_answer' THEN
+    v_text := CASE WHEN jsonb_typeof(p_response) = 'string' THEN normalize_answer_text(p_response #>> '{}') ELSE '' END;
+
+    IF v_text = '' THEN
+      v_marks := 0;
+    ELSIF EXISTS (
+      SELECT 1 FROM jsonb_array_elements_text(coalesce(v_answer->'acceptedAnswers', '[]'::jsonb)) AS accepted(answer)
+      WHERE normalize_answer_text(accepted.answer) = v_text
+    ) THEN
+      v_marks := p_question.marks;
+    ELSIF jsonb_array_length(coalesce(v_answer->'rubric', '[]'::jsonb)) > 0 THEN
+      -- Each criterion is met if the answer mentions any of its keywords as whole words
+      SELECT coalesce(sum((criterion->>'marks')::numeric), 0) INTO v_marks
+      FROM jsonb_array_elements(v_answer->'rubric') AS criteria(criterion)
+      WHERE EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(coalesce(criterion->'keywords', '[]'::jsonb)) AS keywords(keyword)
+        WHERE normalize_answer_text(keyword) <> ''
+          AND position(' ' || normalize_answer_text(keyword) || ' ' IN ' ' || v_text || ' ') > 0
+      );
+    ELSIF jsonb_array_length(coalesce(v_answer->'keywords', '[]'::jsonb)) > 0 THEN
+      v_required := least(
+        coalesce((v_answer->>'minKeywords')::integer, jsonb_array_length(v_answer->'keywords')),
+        jsonb_array_length(v_answer->'keywords')
+      );
+
+      SELECT count(*) INTO v_found
+      FROM jsonb_array_elements_text(v_answer->'keywords') AS keywords(keyword)
+      WHERE normalize_answer_text(keyword) <> ''
+        AND position(' ' || normalize_answer_text(keyword) || ' ' IN ' ' || v_text || ' ') > 0;
+
+      IF v_found >= v_required THEN
+        v_marks := p_question.marks;
+      END IF;
+    END IF;
+  END IF;
+
+  v_marks := greatest(0, least(p_question.marks, v_marks));
+
+  RETURN jsonb_build_object(
+    'is_correct', v_marks >= p_question.marks,
+    'marks_awarded', round(v_marks, 2)
+  );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Grade and save an attempt; the time taken comes from when the attempt was started
+CREATE OR REPLACE FUNCTION submit_test_attempt(
+  p_attempt_id uuid,
+  p_responses jsonb,
+  p_flagged uuid[] DEFAULT '{}'
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_attempt test_attempts;
+  v_question questions;
+  v_response jsonb;
+  v_grade jsonb;
+  v_grades jsonb := '[]'::jsonb;
+  v_correct integer := 0;
+  v_marks numeric := 0;
+  v_total_marks numeric := 0;
+  v_total_questions integer := 0;
+BEGIN
+  SELECT * INTO v_attempt
+  FROM test_attempts
+  WHERE id = p_attempt_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Test attempt not found';
+  END IF;
+
+  -- A retried submission gets the saved result back instead of being graded twice
+  IF v_attempt.status = 'submitted' THEN
+    SELECT coalesce(jsonb_agg(jsonb_build_object(
+      'question_id', question_id,
+      'is_correct', is_correct,
+      'marks_awarded', marks_awarded
+    )), '[]'::jsonb)
+    INTO v_grades
+    FROM attempt_answers
+    WHERE attempt_id = p_attempt_id;
+
+    RETURN jsonb_build_object('attempt', to_jsonb(v_attempt), 'grades', v_grades);
+  END IF;
+
+  FOR v_question IN
+    SELECT * FROM questions WHERE test_id = v_attempt.test_id ORDER BY position
+  LOOP
+    v_response := nullif(p_responses -> v_question.id::text, 'null'::jsonb);
+    v_grade := grade_question(v_question, v_response);
+
+    INSERT INTO attempt_answers (attempt_id, user_id, question_id, response, is_correct, marks_awarded, flagged)
+    VALUES (
+      p_attempt_id,
+      v_attempt.user_id,
+      v_question.id,
+      v_response,
+      (v_grade->>'is_correct')::boolean,
+      (v_grade->>'marks_awarded')::numeric,
+      v_question.id = ANY(coalesce(p_flagged, '{}'))
+    );
+
+    v_grades := v_grades || jsonb_build_array(v_grade || jsonb_build_object('question_id', v_question.id));
+    v_total_questions := v_total_questions + 1;
+    v_total_marks := v_total_marks + v_question.marks;
+    v_marks := v_marks + (v_grade->>'marks_awarded')::numeric;
+    IF (v_grade->>'is_correct')::boolean THEN
+      v_correct := v_correct + 1;
+    END IF;
+  END LOOP;
+
+  UPDATE test_attempts SET
+    status = 'submitted',
+    submitted_at = now(),
+    duration_seconds = round(extract(epoch FROM now() - started_at))::integer,
+    total_questions = v_total_questions,
+    correct_answers = v_correct,
+    marks_obtained = v_marks,
+    total_marks = v_total_marks,
+    score = CASE WHEN v_total_marks > 0 THEN round(v_marks / v_total_marks * 100) ELSE 0 END
+  WHERE id = p_attempt_id
+  RETURNING * INTO v_attempt;
+
+  RETURN jsonb_build_object('attempt', to_jsonb(v_attempt), 'grades', v_grades);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION grade_question(questions, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION submit_test_attempt(uuid, jsonb, uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION submit_test_attempt(uuid, jsonb, uuid[]) TO authenticated;
+
+-- Attempts are graded by submit_test_attempt alone
+DROP POLICY IF EXISTS "Users can update own test attempts" ON test_attempts;
+DROP POLICY IF EXISTS "Users can insert own attempt answers" ON attempt_answers;
+DROP POLICY IF EXISTS "Users can update own attempt answers" ON attempt_answers;
+
+REVOKE INSERT, UPDATE ON test_attempts FROM anon, authenticated;
+GRANT INSERT (user_id, test_id, total_questions) ON test_attempts TO authenticated;
+REVOKE INSERT, UPDATE ON attempt_answers FROM anon, authenticated;
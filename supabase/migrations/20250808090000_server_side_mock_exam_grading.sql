@@ -0,0 +1,267 @@
+/*
+  # Server-Side Mock Exam Grading
+
+  1. New Functions
+    - `mock_exam_blueprint(exam)` - Marking scheme and official section sizes for each exam, matching
+      `MOCK_EXAMS` in `src/lib/mockExams.ts`
+    - `submit_mock_exam_attempt(attempt_id, responses)` - Grades an in-progress mock exam section by
+      section with `grade_question`, saves the scores, ranks the attempt and returns it
+
+  2. Validation
+    - A trigger checks the paper a student starts with: its sections must be the exam's sections the
+      question bank can supply, each holding as many distinct published MCQs from that subject as the
+      app draws, so a hand-picked short paper can't inflate the score
+    - `total_questions` is counted from the paper
+
+  3. Security
+    - Scores, section scores, marks and the stored responses are only written by
+      `submit_mock_exam_attempt`, so percentiles are only ever worked out from server-graded attempts
+    - Students can still start an attempt, but only choose the exam and the paper
+*/
+
+-- Keep in step with MOCK_EXAMS in src/lib/mockExams.ts
+CREATE OR REPLACE FUNCTION mock_exam_blueprint(p_exam text)
+RETURNS jsonb AS $$
+  SELECT CASE p_exam
+    WHEN 'MDCAT' THEN '{
+      "marks_per_question": 1,
+      "negative_marks": 0,
+      "sections": [
+        { "subject": "Biology", "questions": 68 },
+        { "subject": "Chemistry", "questions": 54 },
+        { "subject": "Physics", "questions": 54 },
+        { "subject": "English", "questions": 18 },
+        { "subject": "Logical Reasoning", "questions": 6 }
+      ]
+    }'::jsonb
+    WHEN 'ECAT' THEN '{
+      "marks_per_question": 4,
+      "negative_marks": 1,
+      "sections": [
+        { "subject": "Mathematics", "questions": 30 },
+        { "subject": "Physics", "questions": 30 },
+        { "subject": "Chemistry", "questions": 30 },
+        { "subject": "English", "questions": 10 }
+      ]
+    }'::jsonb
+  END
+$$ LANGUAGE sql IMMUTABLE;
+
+-- The paper must follow planPaper() in src/lib/mockExams.ts for the question bank as it stands
+CREATE OR REPLACE FUNCTION check_mock_exam_paper()
+RETURNS trigger AS $$
+DECLARE
+  v_expected jsonb;
+  v_section jsonb;
+  v_position integer;
+  v_ids uuid[];
+  v_valid integer;
+BEGIN
+  -- Shrink each stocked section by the same factor, as the app does in floating point
+  WITH sections AS (
+    SELECT
+      section.value->>'subject' AS subject,
+      (section.value->>'questions')::integer AS questions,
+      section.ordinality AS position,
+      (
+        SELECT count(*)
+        FROM questions q
+        JOIN tests t ON t.id = q.test_id
+        WHERE t.is_published AND t.subject = section.value->>'subject' AND q.question_type = 'mcq'
+      )::integer AS available
+    FROM jsonb_array_elements(mock_exam_blueprint(NEW.exam)->'sections') WITH ORDINALITY AS section
+  ),
+  stocked AS (
+    SELECT * FROM sections WHERE available > 0
+  ),
+  scale AS (
+    SELECT least(1, min(available::double precision / questions)) AS factor FROM stocked
+  )
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'subject', stocked.subject,
+    'questions', least(stocked.available, greatest(1, floor(stocked.questions * scale.factor + 0.5)::integer))
+  ) ORDER BY stocked.position), '[]'::jsonb)
+  INTO v_expected
+  FROM stocked, scale;
+
+  IF jsonb_typeof(NEW.paper) <> 'array' OR jsonb_array_length(NEW.paper) <> jsonb_array_length(v_expected) THEN
+    RAISE EXCEPTION 'The question bank has changed since this paper was drawn. Please reload and try again.';
+  END IF;
+
+  FOR v_position IN 0 .. jsonb_array_length(v_expected) - 1 LOOP
+    v_section := NEW.paper->v_position;
+
+    IF v_section->>'subject' IS DISTINCT FROM v_expected->v_position->>'subject'
+      OR jsonb_typeof(v_section->'question_ids') <> 'array' THEN
+      RAISE EXCEPTION 'The question bank has changed since this paper was drawn. Please reload and try again.';
+    END IF;
+
+    SELECT array_agg(DISTINCT value::uuid) INTO v_ids
+    FROM jsonb_array_elements_text(v_section->'question_ids');
+
+    SELECT count(*) INTO v_valid
+    FROM questions q
+    JOIN tests t ON t.id = q.test_id
+    WHERE q.id = ANY(v_ids)
+      AND t.is_published
+      AND t.subject = v_section->>'subject'
+      AND q.question_type = 'mcq';
+
+    IF v_valid <> jsonb_array_length(v_section->'question_ids')
+      OR v_valid <> (v_expected->v_position->>'questions')::integer THEN
+      RAISE EXCEPTION 'The question bank has changed since this paper was drawn. Please reload and try again.';
+    END IF;
+  END LOOP;
+
+  NEW.total_questions := (
+    SELECT coalesce(sum((section->>'questions')::integer), 0) FROM jsonb_array_elements(v_expected) AS sections(section)
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_mock_exam_paper_on_insert ON mock_exam_attempts;
+
+CREATE TRIGGER check_mock_exam_paper_on_insert
+  BEFORE INSERT ON mock_exam_attempts
+  FOR EACH ROW
+  EXECUTE FUNCTION check_mock_exam_paper();
+
+-- Grade the paper section by section; every question is worth the exam's marks per question,
+-- wrong answers lose the exam's negative marks and skipped questions are never penalised
+CREATE OR REPLACE FUNCTION submit_mock_exam_attempt(p_attempt_id uuid, p_responses jsonb)
+RETURNS jsonb AS $$
+DECLARE
+  v_attempt mock_exam_attempts;
+  v_blueprint jsonb;
+  v_marks_per_question numeric;
+  v_negative_marks numeric;
+  v_section jsonb;
+  v_question questions;
+  v_response jsonb;
+  v_grade jsonb;
+  v_sections jsonb := '[]'::jsonb;
+  v_section_questions integer;
+  v_attempted integer;
+  v_correct integer;
+  v_wrong integer;
+  v_section_marks numeric;
+  v_section_total numeric;
+  v_total_questions integer := 0;
+  v_total_correct integer := 0;
+  v_total_marks numeric := 0;
+  v_marks numeric := 0;
+  v_ranking jsonb;
+BEGIN
+  SELECT * INTO v_attempt
+  FROM mock_exam_attempts
+  WHERE id = p_attempt_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Mock exam attempt not found';
+  END IF;
+
+  -- A retried submission gets the saved result back instead of being graded twice
+  IF v_attempt.status = 'submitted' THEN
+    RETURN jsonb_build_object(
+      'attempt', to_jsonb(v_attempt),
+      'percentile', v_attempt.percentile,
+      'compared_with', NULL
+    );
+  END IF;
+
+  v_blueprint := mock_exam_blueprint(v_attempt.exam);
+  v_marks_per_question := (v_blueprint->>'marks_per_question')::numeric;
+  v_negative_marks := (v_blueprint->>'negative_marks')::numeric;
+
+  FOR v_section IN SELECT value FROM jsonb_array_elements(v_attempt.paper) LOOP
+    v_section_questions := 0;
+    v_attempted := 0;
+    v_correct := 0;
+    v_wrong := 0;
+    v_section_marks := 0;
+
+    FOR v_question IN
+      SELECT q.* FROM questions q
+      WHERE q.id IN (SELECT value::uuid FROM jsonb_array_elements_text(v_section->'question_ids'))
+    LOOP
+      v_section_questions := v_section_questions + 1;
+      v_response := p_responses -> v_question.id::text;
+
+      -- Skipped questions: nothing chosen, or an empty answer
+      CONTINUE WHEN v_response IS NULL
+        OR jsonb_typeof(v_response) = 'null'
+        OR (jsonb_typeof(v_response) = 'array' AND jsonb_array_length(v_response) = 0)
+        OR (jsonb_typeof(v_response) = 'string' AND btrim(v_response #>> '{}') = '')
+        OR (jsonb_typeof(v_response) = 'object' AND btrim(coalesce(v_response->>'value', '')) = '');
+
+      v_attempted := v_attempted + 1;
+      v_grade := grade_question(v_question, v_response);
+
+      IF (v_grade->>'is_correct')::boolean THEN
+        v_correct := v_correct + 1;
+      END IF;
+
+      IF (v_grade->>'marks_awarded')::numeric > 0 THEN
+        v_section_marks := v_section_marks + v_marks_per_question * (v_grade->>'marks_awarded')::numeric / v_question.marks;
+      ELSE
+        v_wrong := v_wrong + 1;
+        v_section_marks := v_section_marks - v_negative_marks;
+      END IF;
+    END LOOP;
+
+    v_section_marks := round(v_section_marks, 2);
+    v_section_total := v_section_questions * v_marks_per_question;
+
+    v_sections := v_sections || jsonb_build_array(jsonb_build_object(
+      'subject', v_section->>'subject',
+      'totalQuestions', v_section_questions,
+      'attempted', v_attempted,
+      'correct', v_correct,
+      'wrong', v_wrong,
+      'marksObtained', v_section_marks,
+      'totalMarks', v_section_total,
+      'score', CASE WHEN v_section_total > 0 THEN greatest(0, round(v_section_marks / v_section_total * 100)) ELSE 0 END
+    ));
+
+    v_total_questions := v_total_questions + v_section_questions;
+    v_total_correct := v_total_correct + v_correct;
+    v_total_marks := v_total_marks + v_section_total;
+    v_marks := v_marks + v_section_marks;
+  END LOOP;
+
+  UPDATE mock_exam_attempts SET
+    status = 'submitted',
+    submitted_at = now(),
+    duration_seconds = round(extract(epoch FROM now() - started_at))::integer,
+    responses = coalesce(p_responses, '{}'::jsonb),
+    section_scores = v_sections,
+    total_questions = v_total_questions,
+    correct_answers = v_total_correct,
+    marks_obtained = round(v_marks, 2),
+    total_marks = v_total_marks,
+    score = CASE WHEN v_total_marks > 0 THEN greatest(0, round(v_marks / v_total_marks * 100)) ELSE 0 END
+  WHERE id = p_attempt_id;
+
+  v_ranking := mock_exam_percentile(p_attempt_id);
+
+  SELECT * INTO v_attempt FROM mock_exam_attempts WHERE id = p_attempt_id;
+
+  RETURN jsonb_build_object(
+    'attempt', to_jsonb(v_attempt),
+    'percentile', v_ranking->'percentile',
+    'compared_with', v_ranking->'compared_with'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION submit_mock_exam_attempt(uuid, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION submit_mock_exam_attempt(uuid, jsonb) TO authenticated;
+
+-- Attempts are graded by submit_mock_exam_attempt alone
+DROP POLICY IF EXISTS "Users can update own mock exam attempts" ON mock_exam_attempts;
+
+REVOKE INSERT, UPDATE ON mock_exam_attempts FROM anon, authenticated;
+GRANT INSERT (user_id, exam, paper) ON mock_exam_attempts TO authenticated;
@@ -0,0 +1,78 @@
+/*
+  # Hide Answer Keys
+
+  1. Changes
+    - `questions.needs_unit` - Whether a numeric question expects a unit, so the answer box can ask
+      for one without the app reading the answer key
+
+  2. New Functions
+    - `get_question_answers(question_ids)` - Answer keys and explanations for the questions the
+      student has already answered, in a submitted test or in practice, for review screens
+    - `submit_practice_answer(question_id, response)` - Grades and saves one practice answer and
+      returns the grade with the answer key
+
+  3. Security
+    - Students can read every question column except `answer` and `explanation`
+    - Practice answers are only saved by `submit_practice_answer`, so their grades can't be forged
+*/
+
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS needs_unit boolean
+  GENERATED ALWAYS AS (question_type = 'numeric' AND coalesce(answer->>'unit', '') <> '') STORED;
+
+REVOKE SELECT ON questions FROM anon, authenticated;
+GRANT SELECT (id, test_id, position, question_type, prompt, options, topic, marks, needs_unit, created_at)
+  ON questions TO authenticated;
+
+-- Submitting a test saves an answer row for every question, skipped ones included,
+-- so the whole test can be reviewed once it's handed in
+CREATE OR REPLACE FUNCTION get_question_answers(p_question_ids uuid[])
+RETURNS TABLE (question_id uuid, answer jsonb, explanation text) AS $$
+  SELECT q.id, q.answer, q.explanation
+  FROM questions q
+  WHERE q.id = ANY(p_question_ids)
+    AND (
+      EXISTS (SELECT 1 FROM attempt_answers a WHERE a.question_id = q.id AND a.user_id = auth.uid())
+      OR EXISTS (SELECT 1 FROM practice_answers p WHERE p.question_id = q.id AND p.user_id = auth.uid())
+    )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Grade a practice answer against a published question and save it towards topic mastery
+CREATE OR REPLACE FUNCTION submit_practice_answer(p_question_id uuid, p_response jsonb)
+RETURNS jsonb AS $$
+DECLARE
+  v_question questions;
+  v_response jsonb := nullif(p_response, 'null'::jsonb);
+  v_grade jsonb;
+BEGIN
+  SELECT q.* INTO v_question
+  FROM questions q
+  JOIN tests t ON t.id = q.test_id
+  WHERE q.id = p_question_id AND t.is_published;
+
+  IF NOT FOUND OR auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Question not found';
+  END IF;
+
+  v_grade := grade_question(v_question, v_response);
+
+  INSERT INTO practice_answers (user_id, question_id, response, is_correct, marks_awarded)
+  VALUES (
+    auth.uid(),
+    p_question_id,
+    v_response,
+    (v_grade->>'is_correct')::boolean,
+    (v_grade->>'marks_awarded')::numeric
+  );
+
+  RETURN v_grade || jsonb_build_object('answer', v_question.answer, 'explanation', v_question.explanation);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_question_answers(uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_question_answers(uuid[]) TO authenticated;
+REVOKE EXECUTE ON FUNCTION submit_practice_answer(uuid, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION submit_practice_answer(uuid, jsonb) TO authenticated;
+
+DROP POLICY IF EXISTS "Users can insert own practice answers" ON practice_answers;
+
+REVOKE INSERT, UPDATE ON practice_answers FROM anon, authenticated;
@@ -0,0 +1,42 @@
+/*
+  # Safe Study Material Links
+
+  1. Changes
+    - `study_materials` only allow an `external_url` on `link` materials, and only an `https://` one,
+      so a shared material can't carry a `javascript:` or `data:` URL into the viewer
+    - PDFs and videos must point at an uploaded file instead
+    - Existing materials that break these rules are unpublished; the constraint is added without
+      rechecking them so they can still be fixed or deleted
+
+  2. Security
+    - Students can only share files from their own folder in the `study-materials` bucket, the same
+      folder the storage upload policy limits them to
+*/
+
+UPDATE study_materials
+SET is_published = false
+WHERE is_published
+  AND NOT (
+    (material_type = 'link' AND external_url ~ '^https://' AND storage_path IS NULL)
+    OR (material_type <> 'link' AND external_url IS NULL AND storage_path IS NOT NULL)
+  );
+
+ALTER TABLE study_materials DROP CONSTRAINT IF EXISTS study_materials_source_check;
+
+ALTER TABLE study_materials
+  ADD CONSTRAINT study_materials_source_check CHECK (
+    (material_type = 'link' AND external_url ~ '^https://' AND storage_path IS NULL)
+    OR (material_type <> 'link' AND external_url IS NULL AND storage_path IS NOT NULL)
+  ) NOT VALID;
+
+DROP POLICY IF EXISTS "Users can insert own study materials" ON study_materials;
+
+CREATE POLICY "Users can insert own study materials"
+  ON study_materials
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = uploaded_by
+    AND download_count = 0
+    AND (storage_path IS NULL OR (storage.foldername(storage_path))[1] = auth.uid()::text)
+  );
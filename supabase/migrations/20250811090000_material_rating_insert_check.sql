@@ -0,0 +1,38 @@
+/*
+  # Server-Side Material Ratings Only
+
+  1. Security
+    - Students sharing a material can no longer set its `rating_average` or `rating_count`; both
+      start at zero and only change through the `material_reviews` trigger
+
+  2. Data Fixes
+    - Every material's rating is recomputed from its visible reviews, clearing any made-up rating
+      set when it was shared
+*/
+
+DROP POLICY IF EXISTS "Users can insert own study materials" ON study_materials;
+
+CREATE POLICY "Users can insert own study materials"
+  ON study_materials
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = uploaded_by
+    AND download_count = 0
+    AND rating_average = 0
+    AND rating_count = 0
+    AND (storage_path IS NULL OR (storage.foldername(storage_path))[1] = auth.uid()::text)
+  );
+
+UPDATE study_materials m
+SET rating_average = COALESCE(stats.average, 0),
+    rating_count = COALESCE(stats.total, 0)
+FROM study_materials target
+LEFT JOIN (
+  SELECT material_id, ROUND(AVG(rating)::numeric, 2) AS average, COUNT(*)::integer AS total
+  FROM material_reviews
+  WHERE NOT is_hidden
+  GROUP BY material_id
+) stats ON stats.material_id = target.id
+WHERE m.id = target.id
+  AND (m.rating_average <> COALESCE(stats.average, 0) OR m.rating_count <> COALESCE(stats.total, 0));
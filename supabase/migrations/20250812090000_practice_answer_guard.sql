@@ -0,0 +1,82 @@
+/*
+  # Keep Answer Keys Out of Open Attempts
+
+  1. New Functions
+    - `question_in_open_attempt(question_id)` - Whether the question is part of a test or mock exam
+      the student has started but not yet submitted
+
+  2. Security
+    - `submit_practice_answer` only grades questions from published `practice` tests, and refuses any
+      question in one of the student's open attempts, so practice can't be used to look up the
+      answers to a test they're sitting
+    - `get_question_answers` holds back every key for a question in an open attempt, whether the
+      student answered it earlier in practice or in a past attempt at the same test
+*/
+
+CREATE OR REPLACE FUNCTION question_in_open_attempt(p_question_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM test_attempts a
+    JOIN questions q ON q.test_id = a.test_id
+    WHERE q.id = p_question_id
+      AND a.user_id = auth.uid()
+      AND a.status = 'in_progress'
+  ) OR EXISTS (
+    SELECT 1
+    FROM mock_exam_attempts m, jsonb_array_elements(m.paper) section
+    WHERE m.user_id = auth.uid()
+      AND m.status = 'in_progress'
+      AND section->'question_ids' ? p_question_id::text
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_question_answers(p_question_ids uuid[])
+RETURNS TABLE (question_id uuid, answer jsonb, explanation text) AS $$
+  SELECT q.id, q.answer, q.explanation
+  FROM questions q
+  WHERE q.id = ANY(p_question_ids)
+    AND (
+      EXISTS (SELECT 1 FROM attempt_answers a WHERE a.question_id = q.id AND a.user_id = auth.uid())
+      OR EXISTS (SELECT 1 FROM practice_answers p WHERE p.question_id = q.id AND p.user_id = auth.uid())
+    )
+    AND NOT question_in_open_attempt(q.id)
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Grade a practice answer against a published practice question and save it towards topic mastery
+CREATE OR REPLACE FUNCTION submit_practice_answer(p_question_id uuid, p_response jsonb)
+RETURNS jsonb AS $$
+DECLARE
+  v_question questions;
+  v_response jsonb := nullif(p_response, 'null'::jsonb);
+  v_grade jsonb;
+BEGIN
+  SELECT q.* INTO v_question
+  FROM questions q
+  JOIN tests t ON t.id = q.test_id
+  WHERE q.id = p_question_id AND t.is_published AND t.kind = 'practice';
+
+  IF NOT FOUND OR auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Question not found';
+  END IF;
+
+  IF question_in_open_attempt(p_question_id) THEN
+    RAISE EXCEPTION 'This question is in a test you haven''t submitted yet';
+  END IF;
+
+  v_grade := grade_question(v_question, v_response);
+
+  INSERT INTO practice_answers (user_id, question_id, response, is_correct, marks_awarded)
+  VALUES (
+    auth.uid(),
+    p_question_id,
+    v_response,
+    (v_grade->>'is_correct')::boolean,
+    (v_grade->>'marks_awarded')::numeric
+  );
+
+  RETURN v_grade || jsonb_build_object('answer', v_question.answer, 'explanation', v_question.explanation);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION question_in_open_attempt(uuid) FROM PUBLIC, anon, authenticated;
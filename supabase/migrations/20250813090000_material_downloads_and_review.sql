@@ -0,0 +1,100 @@
+/*
+  # Unique Material Downloads and Upload Review
+
+  1. New Tables
+    - `material_downloads` - Which students have downloaded which materials, one row each, so a
+      material's `download_count` counts students rather than clicks
+
+  2. Changes
+    - `record_material_download` only counts a student's first download of a material
+    - Materials students share start unpublished; only the uploader sees them, marked as pending,
+      until a moderator publishes them using the service role
+    - Materials students had already shared go back to pending so they get the same review
+
+  3. Security
+    - Enable RLS on `material_downloads`; it is only written by `record_material_download`
+    - Students can't share a material as published
+    - Files in the `study-materials` bucket can only be opened by their uploader until the material
+      they belong to is published
+*/
+
+CREATE TABLE IF NOT EXISTS material_downloads (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  material_id uuid NOT NULL REFERENCES study_materials(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, material_id)
+);
+
+ALTER TABLE material_downloads ENABLE ROW LEVEL SECURITY;
+
+-- Count a student's first download of a material and return the total
+CREATE OR REPLACE FUNCTION record_material_download(p_material_id uuid)
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  SELECT download_count INTO v_count
+  FROM study_materials
+  WHERE id = p_material_id
+    AND (is_published OR uploaded_by = auth.uid());
+
+  IF v_count IS NULL OR auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Study material not found';
+  END IF;
+
+  INSERT INTO material_downloads (user_id, material_id)
+  VALUES (auth.uid(), p_material_id)
+  ON CONFLICT DO NOTHING;
+
+  IF FOUND THEN
+    UPDATE study_materials
+    SET download_count = download_count + 1
+    WHERE id = p_material_id
+    RETURNING download_count INTO v_count;
+  END IF;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE study_materials ALTER COLUMN is_published SET DEFAULT false;
+
+UPDATE study_materials
+SET is_published = false
+WHERE is_published AND uploaded_by IS NOT NULL;
+
+DROP POLICY IF EXISTS "Users can insert own study materials" ON study_materials;
+
+CREATE POLICY "Users can insert own study materials"
+  ON study_materials
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = uploaded_by
+    AND NOT is_published
+    AND download_count = 0
+    AND rating_average = 0
+    AND rating_count = 0
+    AND (storage_path IS NULL OR (storage.foldername(storage_path))[1] = auth.uid()::text)
+  );
+
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "Authenticated users can view study materials" ON storage.objects;
+
+  -- Policy for reading materials (needed to create signed URLs); pending uploads stay with their uploader
+  CREATE POLICY "Authenticated users can view study materials"
+    ON storage.objects
+    FOR SELECT
+    TO authenticated
+    USING (
+      bucket_id = 'study-materials'
+      AND (
+        auth.uid()::text = (storage.foldername(name))[1]
+        OR EXISTS (SELECT 1 FROM public.study_materials m WHERE m.storage_path = objects.name AND m.is_published)
+      )
+    );
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE WARNING 'Failed to update select policy: %', SQLERRM;
+END $$;
@@ -0,0 +1,24 @@
+/*
+  # Keep Combining Marks in Short Answers
+
+  1. Changes
+    - `normalize_answer_text(text)` strips a fixed set of punctuation and symbols instead of
+      everything that isn't alphanumeric, so Urdu answers keep their zer, zabar and pesh whatever
+      the database locale
+    - The set is the one `normalizeText()` in `src/lib/grading.ts` strips, so the app's feedback
+      and the saved grade agree
+*/
+
+-- Lowercase and strip punctuation, keeping letters, digits and combining marks from any script
+CREATE OR REPLACE FUNCTION normalize_answer_text(p_text text)
+RETURNS text AS $$
+  SELECT btrim(regexp_replace(
+    regexp_replace(
+      lower(coalesce(p_text, '')),
+      '[\u0021-\u002f\u003a-\u0040\u005b-\u0060\u007b-\u007e\u00a1-\u00bf\u00d7\u00f7\u060c\u061b\u061f\u066a-\u066d\u06d4\u2010-\u2027\u2030-\u205e]',
+      ' ',
+      'g'
+    ),
+    '\s+', ' ', 'g'
+  ))
+$$ LANGUAGE sql IMMUTABLE;
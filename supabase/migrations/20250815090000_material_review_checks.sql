@@ -0,0 +1,59 @@
+/*
+  # Material Review Checks
+
+  1. Changes
+    - `sync_material_rating()` no longer swallows errors, so a review that can't update the
+      material's rating fails instead of leaving a stale rating behind
+
+  2. Security
+    - Students can only review published materials they didn't share themselves
+
+  3. Data Fixes
+    - Reviews uploaders left on their own materials are removed, and the trigger recomputes
+      those materials' ratings
+*/
+
+-- Recompute a material's rating from its visible reviews whenever one changes
+CREATE OR REPLACE FUNCTION sync_material_rating()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_material_id uuid;
+BEGIN
+  v_material_id := COALESCE(NEW.material_id, OLD.material_id);
+
+  UPDATE study_materials m
+  SET rating_average = COALESCE(stats.average, 0),
+      rating_count = stats.total
+  FROM (
+    SELECT ROUND(AVG(rating)::numeric, 2) AS average, COUNT(*)::integer AS total
+    FROM material_reviews
+    WHERE material_id = v_material_id AND NOT is_hidden
+  ) stats
+  WHERE m.id = v_material_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Users can insert own material reviews" ON material_reviews;
+
+CREATE POLICY "Users can insert own material reviews"
+  ON material_reviews
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND NOT is_hidden
+    AND flag_count = 0
+    AND EXISTS (
+      SELECT 1 FROM study_materials m
+      WHERE m.id = material_id
+        AND m.is_published
+        AND m.uploaded_by IS DISTINCT FROM auth.uid()
+    )
+  );
+
+DELETE FROM material_reviews r
+USING study_materials m
+WHERE m.id = r.material_id
+  AND m.uploaded_by = r.user_id;